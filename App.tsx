@@ -1,16 +1,124 @@
-import React, { useState, useEffect } from 'react';
-import { analyzeChemicalStructure } from './services/gemini';
-import { EducationLevel, ChemicalData } from './types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { analyzeChemicalStructure } from './services/analysis';
+import { AnalysisError, CancelledError, InvalidInputError, toAnalysisError } from './services/errors';
+import { CurriculumProfile, PromptTemplate, ChemicalData, DrawingDocument, Language, PartialAnalysis, ComparisonProperty, ComparisonResult, MechanismResult, Quiz, QuizAttempt } from './types';
+import { compareCompounds, ComparisonInput, MAX_COMPARED_COMPOUNDS } from './services/comparison';
+import { explainMechanism, MechanismInput } from './services/mechanism';
+import { generateQuiz } from './services/quiz';
+import { BatchItem, runBatch } from './services/batch';
+import { createShareLink, readShareLink, shareFragment, SharedAnalysis } from './services/share';
+import { adoptProfile, DEFAULT_PROFILE, findProfile, listProfiles } from './services/curriculum';
+import { adoptTemplate, DEFAULT_TEMPLATE, listTemplates } from './services/promptTemplate';
+import { isOffline } from './services/offline';
+import { drainQueue, enqueueAnalysis, listQueuedAnalyses } from './services/offlineQueue';
 import DrawingCanvas from './components/DrawingCanvas';
 import ResultCard from './components/ResultCard';
-import { FlaskConical, Sparkles, AlertCircle, X, Moon, Sun } from 'lucide-react';
+import ErrorCard from './components/ErrorCard';
+import CachePanel from './components/CachePanel';
+import HistorySidebar from './components/HistorySidebar';
+import ComparePanel from './components/ComparePanel';
+import ComparisonTable from './components/ComparisonTable';
+import MechanismPanel from './components/MechanismPanel';
+import MechanismStepper from './components/MechanismStepper';
+import QuizView from './components/QuizView';
+import ImageInput from './components/ImageInput';
+import ImageEditor from './components/ImageEditor';
+import WorksheetPanel from './components/WorksheetPanel';
+import WorksheetProgress from './components/WorksheetProgress';
+import OfflineBanner from './components/OfflineBanner';
+import ProfileEditor from './components/ProfileEditor';
+import TemplateEditor from './components/TemplateEditor';
+import { addHistoryEntry, HistoryEntry, listHistory, recordQuizAttempt } from './services/history';
+import { createThumbnail, isImageFile, readImageFile } from './utils/image';
+import { captureDocument } from './utils/drawing';
+import { LANGUAGE_CODES, LANGUAGE_NAMES, translator } from './utils/i18n';
+import { FlaskConical, Sparkles, Moon, Sun, XCircle, Database, History, Scale, Workflow, BookCopy, SlidersHorizontal, FileCog } from 'lucide-react';
+
+interface AnalysisRequest {
+  imageData: string | null;
+  structureText: string | null;
+  textInput: string | null;
+  /** The canvas document behind `imageData`, kept so the request can be shared as a link */
+  drawing?: DrawingDocument | null;
+}
+
+type AppMode = 'analyze' | 'compare' | 'mechanism' | 'batch';
+
+const COMPOUND_LABELS = ['A', 'B', 'C', 'D', 'E'];
+
+const EMPTY_RESULT: ChemicalData = {
+  name: '',
+  iupacName: '',
+  molecularFormula: '',
+  smiles: undefined,
+  summary: '',
+  keyPoints: [],
+  reactions_or_uses: [],
+  curriculumContext: '',
+  funFacts: [],
+  analogy: '',
+  electronicEffects: undefined,
+  resonance: undefined,
+};
+
+const RESULT_FIELDS = Object.keys(EMPTY_RESULT) as (keyof ChemicalData)[];
 
 export default function App() {
-  const [level, setLevel] = useState<EducationLevel>(EducationLevel.BOARD_LEVEL);
+  // Built-in and custom curriculum profiles; the chosen one is remembered like the theme
+  const [profiles, setProfiles] = useState<CurriculumProfile[]>(listProfiles);
+  const [profileId, setProfileId] = useState(() => localStorage.getItem('curriculum-profile') ?? DEFAULT_PROFILE.id);
+  const profile = profiles.find(candidate => candidate.id === profileId) ?? DEFAULT_PROFILE;
+  const [isProfileEditorOpen, setIsProfileEditorOpen] = useState(false);
+  // Prompt template for analyses, chosen in the template editor and remembered the same way
+  const [templates, setTemplates] = useState<PromptTemplate[]>(listTemplates);
+  const [templateId, setTemplateId] = useState(() => localStorage.getItem('prompt-template') ?? DEFAULT_TEMPLATE.id);
+  const template = templates.find(candidate => candidate.id === templateId) ?? DEFAULT_TEMPLATE;
+  // The result card lays out its sections in the template's order
+  const sectionOrder = useMemo(() => template.sections.map(section => section.key), [template]);
+  const [isTemplateEditorOpen, setIsTemplateEditorOpen] = useState(false);
+  const [mode, setMode] = useState<AppMode>('analyze');
   const [textInput, setTextInput] = useState('');
   const [result, setResult] = useState<ChemicalData | null>(null);
+  // The student's drawing behind the current result, shown beside the recognised structure
+  const [resultSketch, setResultSketch] = useState<string | null>(null);
+  // Sections received so far while the answer streams in
+  const [partialResult, setPartialResult] = useState<PartialAnalysis | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<AnalysisError | null>(null);
+  const [retryNotice, setRetryNotice] = useState<string | null>(null);
+  const [isCachePanelOpen, setIsCachePanelOpen] = useState(false);
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>(listHistory);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [activeHistoryId, setActiveHistoryId] = useState<string | null>(null);
+  const lastRequestRef = useRef<AnalysisRequest | null>(null);
+  const [compareInputs, setCompareInputs] = useState<ComparisonInput[]>([]);
+  const [compareProperty, setCompareProperty] = useState<ComparisonProperty>(ComparisonProperty.ACIDITY);
+  const [comparison, setComparison] = useState<ComparisonResult | null>(null);
+  const [reagent, setReagent] = useState('');
+  const [mechanism, setMechanism] = useState<MechanismResult | null>(null);
+  const lastMechanismRef = useRef<MechanismInput | null>(null);
+  // Quiz on the current result; while set it takes the result card's place
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [isQuizLoading, setIsQuizLoading] = useState(false);
+  // Set when the last request was a quiz that failed, so Retry asks for the quiz again rather than the analysis
+  const quizFailedRef = useRef(false);
+  // Uploaded, pasted, dropped or photographed image waiting in the crop and clean-up editor
+  const [editorImage, setEditorImage] = useState<string | null>(null);
+  const [worksheetTitle, setWorksheetTitle] = useState('');
+  const [worksheetList, setWorksheetList] = useState('');
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  // Drawing from a share link, loaded into the canvas
+  const [sharedDrawing, setSharedDrawing] = useState<DrawingDocument | null>(null);
+  // A decoded share link waiting for its profile to be applied
+  const [pendingShare, setPendingShare] = useState<SharedAnalysis | null>(null);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  // Drawings kept while offline, and what became of the ones analysed since
+  const [queuedCount, setQueuedCount] = useState(() => listQueuedAnalyses().length);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncedEntries, setSyncedEntries] = useState<HistoryEntry[]>([]);
+  const [queueFailures, setQueueFailures] = useState<AnalysisError[]>([]);
+  // Only the newest request may touch state; starting another (or changing profile) aborts the previous one
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   // Dark Mode State
   const [isDarkMode, setIsDarkMode] = useState(() => {
@@ -35,32 +143,456 @@ export default function App() {
 
   const toggleTheme = () => setIsDarkMode(!isDarkMode);
 
-  const handleAnalysis = async (imageData: string | null) => {
-    // If explicit null is passed (from empty canvas) and no text, show error
-    if (!imageData && !textInput.trim()) {
-      setError("Please draw a structure or enter a name.");
-      return;
+  // Language of the UI and of new explanations, remembered like the theme
+  const [language, setLanguage] = useState<Language>(() => {
+    const saved = localStorage.getItem('language');
+    return Object.values(Language).includes(saved as Language) ? (saved as Language) : Language.ENGLISH;
+  });
+  const [bilingual, setBilingual] = useState(() => localStorage.getItem('bilingual') === 'true');
+  const t = useMemo(() => translator(language, bilingual), [language, bilingual]);
+
+  useEffect(() => {
+    localStorage.setItem('language', language);
+    localStorage.setItem('bilingual', String(bilingual));
+    document.documentElement.lang = LANGUAGE_CODES[language];
+  }, [language, bilingual]);
+
+  useEffect(() => {
+    localStorage.setItem('curriculum-profile', profile.id);
+  }, [profile.id]);
+
+  useEffect(() => {
+    localStorage.setItem('prompt-template', template.id);
+  }, [template.id]);
+
+  const saveHistory = async (request: AnalysisRequest, data: ChemicalData, analysisProfile: CurriculumProfile) => {
+    const thumbnail = request.imageData ? await createThumbnail(request.imageData).catch(() => null) : null;
+    const entry = addHistoryEntry(analysisProfile, { textInput: request.textInput, structureText: request.structureText, thumbnail }, data);
+    setHistoryEntries(listHistory());
+    return entry;
+  };
+
+  const recordHistory = async (request: AnalysisRequest, data: ChemicalData, analysisProfile: CurriculumProfile) => {
+    setActiveHistoryId((await saveHistory(request, data, analysisProfile)).id);
+  };
+
+  // Analyses the drawings kept while offline; each answer lands in history, where the banner links to it
+  const syncQueue = () => {
+    setIsSyncing(true);
+    drainQueue({
+      onDone: (item, data) => {
+        setQueuedCount(listQueuedAnalyses().length);
+        saveHistory({ imageData: item.imageData, structureText: item.structureText, textInput: null }, data, item.profile)
+          .then(entry => setSyncedEntries(entries => [...entries, entry]));
+      },
+      onFailed: (_, err) => {
+        setQueuedCount(listQueuedAnalyses().length);
+        setQueueFailures(failures => [...failures, err]);
+      },
+    }).finally(() => {
+      setIsSyncing(false);
+      setQueuedCount(listQueuedAnalyses().length);
+    });
+  };
+
+  // A drawing that cannot be sent now is kept and analysed once the connection returns
+  const queueDrawing = (request: AnalysisRequest) => {
+    try {
+      enqueueAnalysis({ imageData: request.imageData!, structureText: request.structureText, profile, template, language, bilingual });
+      setQueuedCount(listQueuedAnalyses().length);
+    } catch (err) {
+      setError(toAnalysisError(err));
     }
+  };
+
+  useEffect(() => {
+    const updateStatus = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateStatus);
+    window.addEventListener('offline', updateStatus);
+    return () => {
+      window.removeEventListener('online', updateStatus);
+      window.removeEventListener('offline', updateStatus);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (isOnline && listQueuedAnalyses().length > 0) syncQueue();
+  }, [isOnline]);
 
+  // Shared lifecycle of analysis and comparison requests: a new one aborts whatever is in flight
+  const beginRequest = () => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsProcessing(true);
+    setIsQuizLoading(false);
+    quizFailedRef.current = false;
     setError(null);
+    setPartialResult(null);
+    setRetryNotice(null);
+    return controller;
+  };
+
+  const finishRequest = (controller: AbortController) => {
+    if (abortControllerRef.current === controller) {
+      abortControllerRef.current = null;
+      setIsProcessing(false);
+      setIsQuizLoading(false);
+      setPartialResult(null);
+      setRetryNotice(null);
+    }
+  };
+
+  const showRetryNotice = (attempt: number, delayMs: number) => {
+    setRetryNotice(t('retryNotice', { seconds: Math.ceil(delayMs / 1000), attempt: attempt + 1 }));
+  };
+
+  const runAnalysis = async (request: AnalysisRequest, fresh = false) => {
+    if (request.imageData && isOffline()) {
+      setError(null);
+      queueDrawing(request);
+      return;
+    }
+
+    const controller = beginRequest();
+    lastRequestRef.current = request;
     setResult(null);
+    setQuiz(null);
+    setResultSketch(request.imageData);
+    setActiveHistoryId(null);
 
     try {
-      const data = await analyzeChemicalStructure(imageData, textInput.trim() || null, level);
+      const data = await analyzeChemicalStructure(request.imageData, request.textInput, profile, {
+        structureText: request.structureText,
+        signal: controller.signal,
+        fresh,
+        language,
+        bilingual,
+        template,
+        onPartial: (partial) => {
+          if (!controller.signal.aborted) setPartialResult(partial);
+        },
+        onRetry: showRetryNotice,
+      });
+      if (controller.signal.aborted) return;
       setResult(data);
+      recordHistory(request, data, profile);
+      // The connection evidently works, even if the browser never reported coming back online
+      if (!data.meta?.offline && listQueuedAnalyses().length > 0) syncQueue();
     } catch (err) {
-      setError((err as Error).message);
+      if (controller.signal.aborted) return;
+      const analysisError = toAnalysisError(err);
+      if (analysisError.kind === 'network' && request.imageData) queueDrawing(request);
+      else setError(analysisError);
     } finally {
-      setIsProcessing(false);
+      finishRequest(controller);
     }
   };
 
+  const runComparison = async () => {
+    const controller = beginRequest();
+    setComparison(null);
+
+    try {
+      const data = await compareCompounds(compareInputs, compareProperty, profile, {
+        signal: controller.signal,
+        language,
+        bilingual,
+        onRetry: showRetryNotice,
+      });
+      if (controller.signal.aborted) return;
+      setComparison(data);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(toAnalysisError(err));
+    } finally {
+      finishRequest(controller);
+    }
+  };
+
+  const runMechanism = async (input: MechanismInput) => {
+    const controller = beginRequest();
+    lastMechanismRef.current = input;
+    setMechanism(null);
+
+    try {
+      const data = await explainMechanism(input, profile, {
+        signal: controller.signal,
+        language,
+        bilingual,
+        onRetry: showRetryNotice,
+      });
+      if (controller.signal.aborted) return;
+      setMechanism(data);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(toAnalysisError(err));
+    } finally {
+      finishRequest(controller);
+    }
+  };
+
+  const startQuiz = async () => {
+    if (!result) return;
+    const controller = beginRequest();
+    setIsQuizLoading(true);
+
+    try {
+      const data = await generateQuiz(result, profile, {
+        signal: controller.signal,
+        language,
+        bilingual,
+        onRetry: showRetryNotice,
+      });
+      if (controller.signal.aborted) return;
+      setQuiz(data);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      quizFailedRef.current = true;
+      setError(toAnalysisError(err));
+    } finally {
+      finishRequest(controller);
+    }
+  };
+
+  // Runs the named compounds into the worksheet; `slots` puts them back at those positions, for retrying failures
+  const runWorksheet = async (names: string[], slots: number[] = names.map((_, index) => index)) => {
+    const controller = beginRequest();
+    if (slots.length === names.length && slots.every((slot, index) => slot === index)) {
+      setBatchItems(names.map(name => ({ name, status: 'pending' })));
+    }
+
+    try {
+      await runBatch(names, profile, {
+        signal: controller.signal,
+        language,
+        bilingual,
+        template,
+        onItem: (index, item) => {
+          if (!controller.signal.aborted) setBatchItems(items => items.map((existing, slot) => (slot === slots[index] ? item : existing)));
+        },
+      });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        // Unfinished compounds become failures, so "Retry failed" picks the run up where it stopped
+        const cancelled = new CancelledError("Not analysed: the worksheet was cancelled.");
+        setBatchItems(items => items.map((item, slot) =>
+          slots.includes(slot) && item.status !== 'done' ? { ...item, status: 'failed', error: cancelled } : item
+        ));
+        return;
+      }
+      setError(toAnalysisError(err));
+    } finally {
+      finishRequest(controller);
+    }
+  };
+
+  const retryFailedCompounds = () => {
+    const failed = batchItems.flatMap((item, slot) => (item.status === 'failed' ? [{ name: item.name, slot }] : []));
+    if (failed.length) runWorksheet(failed.map(item => item.name), failed.map(item => item.slot));
+  };
+
+  const handleQuizFinished = (attempt: QuizAttempt) => {
+    if (activeHistoryId) setHistoryEntries(recordQuizAttempt(activeHistoryId, attempt));
+  };
+
+  const addCompareInput = (input: Omit<ComparisonInput, 'label'>) => {
+    const label = COMPOUND_LABELS.find(candidate => !compareInputs.some(existing => existing.label === candidate));
+    if (!label || compareInputs.length >= MAX_COMPARED_COMPOUNDS) {
+      setError(new InvalidInputError(t('tooManyCompounds', { max: MAX_COMPARED_COMPOUNDS })));
+      return;
+    }
+    setError(null);
+    setCompareInputs(inputs => [...inputs, { ...input, label }].sort((a, b) => a.label.localeCompare(b.label)));
+  };
+
+  const cancelAnalysis = () => {
+    abortControllerRef.current?.abort(new CancelledError());
+    abortControllerRef.current = null;
+    setIsProcessing(false);
+    setIsQuizLoading(false);
+    setPartialResult(null);
+    setRetryNotice(null);
+  };
+
+  const switchMode = (next: AppMode) => {
+    if (next === mode) return;
+    cancelAnalysis();
+    setError(null);
+    setMode(next);
+  };
+
+  // A result for the old profile or template would be stale, so switching or editing either cancels the in-flight request
+  useEffect(() => {
+    cancelAnalysis();
+  }, [profile.id, profile.updatedAt, template.id, template.version]);
+
+  const handleAnalysis = (imageData: string | null, structureText: string | null = null, drawing: DrawingDocument | null = null) => {
+    // If explicit null is passed (from empty canvas) and no text, show error
+    if (!imageData && !textInput.trim()) {
+      setError(new InvalidInputError(t('emptyInput')));
+      return;
+    }
+
+    // In compare mode the canvas and the name box add compounds to the list instead of analysing them
+    if (mode === 'compare') {
+      if (imageData) {
+        addCompareInput({ imageData, structureText, textInput: null });
+      } else {
+        addCompareInput({ imageData: null, structureText: null, textInput: textInput.trim() });
+        setTextInput('');
+      }
+      return;
+    }
+
+    // In mechanism mode the drawing or the typed reactants are the substrate for the reagent in the side panel
+    if (mode === 'mechanism') {
+      runMechanism({
+        reactants: imageData ? null : textInput.trim(),
+        reagent: reagent.trim() || null,
+        imageData,
+        structureText,
+      });
+      return;
+    }
+
+    runAnalysis({ imageData, structureText, textInput: textInput.trim() || null, drawing });
+  };
+
+  // Every image source ends in the editor, and the edited image takes the same path as a drawing
+  const openImage = (file: Blob) => {
+    readImageFile(file).then(setEditorImage, (err: Error) => setError(new InvalidInputError(err.message)));
+  };
+
+  const handleEditedImage = (dataUrl: string) => {
+    setEditorImage(null);
+    handleAnalysis(dataUrl);
+  };
+
+  // Paste works anywhere on the page unless the student is pasting text into a field; worksheets take names only
+  useEffect(() => {
+    if (mode === 'batch') return;
+    const handlePaste = (event: ClipboardEvent) => {
+      const file = [...(event.clipboardData?.files ?? [])].find(isImageFile);
+      if (!file) return;
+      event.preventDefault();
+      openImage(file);
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [mode]);
+
+  const handleDrop = (event: React.DragEvent) => {
+    if (mode === 'batch') {
+      const list = [...event.dataTransfer.files].find(file => file.type.startsWith('text/') || /\.(csv|txt)$/i.test(file.name));
+      if (!list) return;
+      event.preventDefault();
+      list.text().then(setWorksheetList);
+      return;
+    }
+    const file = [...event.dataTransfer.files].find(isImageFile);
+    if (!file) return;
+    event.preventDefault();
+    openImage(file);
+  };
+
+  const handleRetry = () => {
+    if (mode === 'compare') runComparison();
+    else if (mode === 'batch') retryFailedCompounds();
+    else if (mode === 'mechanism' && lastMechanismRef.current) runMechanism(lastMechanismRef.current);
+    else if (mode === 'analyze' && quizFailedRef.current) startQuiz();
+    else if (mode === 'analyze' && lastRequestRef.current) runAnalysis(lastRequestRef.current);
+  };
+
+  // Restores a saved analysis without calling the model
+  const handleOpenHistory = (entry: HistoryEntry) => {
+    cancelAnalysis();
+    setProfileId(findProfile(entry.profile?.id ?? entry.level, entry.level).id);
+    setMode('analyze');
+    setError(null);
+    setResult(entry.data);
+    setQuiz(null);
+    setResultSketch(entry.input.thumbnail);
+    setActiveHistoryId(entry.id);
+    // Only typed queries can be re-run; the full drawing is not kept
+    lastRequestRef.current = entry.input.textInput
+      ? { imageData: null, structureText: entry.input.structureText, textInput: entry.input.textInput }
+      : null;
+    setIsHistoryOpen(false);
+  };
+
+  // Opening a share link restores its profile and input; the fragment is cleared so a reload does not reopen it
+  useEffect(() => {
+    const openShareLink = () => {
+      const encoded = shareFragment(window.location.hash);
+      if (!encoded) return;
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      readShareLink(encoded).then(
+        shared => {
+          // A custom profile from someone else is kept on this device, so the re-run and later edits can use it
+          const sharedProfile = adoptProfile(shared.profile);
+          setProfiles(listProfiles());
+          setProfileId(sharedProfile.id);
+          // The sender's language and template likewise, so a re-run asks for the answer they saw
+          const sharedTemplate = adoptTemplate(shared.template);
+          setTemplates(listTemplates());
+          setTemplateId(sharedTemplate.id);
+          setLanguage(shared.language);
+          setBilingual(shared.bilingual);
+          setPendingShare({ ...shared, profile: sharedProfile, template: sharedTemplate });
+        },
+        err => setError(toAnalysisError(err))
+      );
+    };
+    openShareLink();
+    window.addEventListener('hashchange', openShareLink);
+    return () => window.removeEventListener('hashchange', openShareLink);
+  }, []);
+
+  // Runs after the profile effect above, so switching to the shared profile cannot cancel the re-run it starts
+  useEffect(() => {
+    if (!pendingShare || pendingShare.profile.id !== profile.id || pendingShare.template.id !== template.id) return;
+    const { textInput: sharedText, drawing, structureText, data } = pendingShare;
+    setPendingShare(null);
+    setMode('analyze');
+    setTextInput(sharedText ?? '');
+    if (drawing) setSharedDrawing(drawing);
+    const request: AnalysisRequest = { imageData: drawing ? captureDocument(drawing) : null, structureText, textInput: sharedText, drawing };
+
+    if (!data) {
+      runAnalysis(request);
+      return;
+    }
+    // An embedded result is shown as sent, without calling the model
+    cancelAnalysis();
+    setError(null);
+    setResult(data);
+    setQuiz(null);
+    setResultSketch(request.imageData);
+    setActiveHistoryId(null);
+    lastRequestRef.current = request;
+  }, [pendingShare, profile, template]);
+
+  const handleShare = () => {
+    const request = lastRequestRef.current;
+    return createShareLink({ profile, language, bilingual, template, textInput: request?.textInput ?? null, drawing: request?.drawing ?? null, data: result });
+  };
+
+  const openSyncedEntry = (entry: HistoryEntry) => {
+    setSyncedEntries(entries => entries.filter(synced => synced.id !== entry.id));
+    handleOpenHistory(entry);
+  };
+
+  // Bypasses the response cache for the current result
+  const handleRefresh = () => {
+    if (lastRequestRef.current) runAnalysis(lastRequestRef.current, true);
+  };
+
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-slate-100 pb-12 print:bg-white print:pb-0 transition-colors duration-300">
       {/* Header */}
       <header className="bg-white dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700 sticky top-0 z-10 print:hidden transition-colors duration-300">
-        <div className="max-w-7xl mx-auto px-4 py-4 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="relative max-w-7xl mx-auto px-4 py-4 flex flex-col md:flex-row md:items-center justify-between gap-4">
           <div className="flex items-center justify-between w-full md:w-auto">
             <div className="flex items-center gap-2">
               <div className="bg-indigo-600 p-2 rounded-lg text-white shadow-lg shadow-indigo-500/30">
@@ -68,7 +600,7 @@ export default function App() {
               </div>
               <div>
                 <h1 className="text-xl font-bold text-slate-900 dark:text-white">GOC Visualiser</h1>
-                <p className="text-xs text-slate-500 dark:text-slate-400">Master Organic Chemistry</p>
+                <p className="text-xs text-slate-500 dark:text-slate-400">{t('appTagline')}</p>
               </div>
             </div>
             {/* Mobile Theme Toggle */}
@@ -81,117 +613,286 @@ export default function App() {
           </div>
           
           <div className="flex items-center gap-3">
+            <button
+              onClick={() => setIsHistoryOpen(true)}
+              className="p-2 rounded-lg text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+              title={t('history')}
+            >
+              <History size={20} />
+            </button>
+
+            <button
+              onClick={() => setIsCachePanelOpen(open => !open)}
+              className={`p-2 rounded-lg transition-colors ${isCachePanelOpen ? 'bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400' : 'text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'}`}
+              title={t('savedAnswers')}
+            >
+              <Database size={20} />
+            </button>
+
             {/* Desktop Theme Toggle */}
             <button 
               onClick={toggleTheme}
               className="hidden md:block p-2 text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors mr-2"
-              title={isDarkMode ? "Switch to Light Mode" : "Switch to Dark Mode"}
+              title={isDarkMode ? t('lightMode') : t('darkMode')}
             >
               {isDarkMode ? <Sun size={20} /> : <Moon size={20} />}
             </button>
 
             <div className="flex items-center gap-2 bg-slate-100 dark:bg-slate-700 p-1 rounded-lg w-full md:w-auto transition-colors duration-300">
               <label htmlFor="level-select" className="text-sm font-medium text-slate-600 dark:text-slate-300 px-2 hidden sm:block whitespace-nowrap">
-                Curriculum Level:
+                {t('curriculumLevel')}
               </label>
               <select
                 id="level-select"
-                value={level}
-                onChange={(e) => setLevel(e.target.value as EducationLevel)}
+                value={profile.id}
+                onChange={(e) => setProfileId(e.target.value)}
                 className="bg-white dark:bg-slate-600 text-sm text-slate-800 dark:text-white border-none outline-none focus:ring-2 focus:ring-indigo-500 rounded-md py-1.5 pl-3 pr-8 shadow-sm w-full md:w-auto cursor-pointer transition-colors"
               >
-                {Object.values(EducationLevel).map((lvl) => (
-                  <option key={lvl} value={lvl}>{lvl}</option>
+                {profiles.map((option) => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
                 ))}
               </select>
+              <button
+                onClick={() => setIsProfileEditorOpen(true)}
+                className="p-1.5 rounded-md text-slate-500 dark:text-slate-300 hover:bg-white dark:hover:bg-slate-600 transition-colors"
+                title={t('editProfiles')}
+              >
+                <SlidersHorizontal size={16} />
+              </button>
+              <button
+                onClick={() => setIsTemplateEditorOpen(true)}
+                className="p-1.5 rounded-md text-slate-500 dark:text-slate-300 hover:bg-white dark:hover:bg-slate-600 transition-colors"
+                title={t('editTemplates')}
+              >
+                <FileCog size={16} />
+              </button>
+            </div>
+
+            <div className="flex items-center gap-2 bg-slate-100 dark:bg-slate-700 p-1 rounded-lg transition-colors duration-300">
+              <label htmlFor="language-select" className="text-sm font-medium text-slate-600 dark:text-slate-300 px-2 hidden sm:block whitespace-nowrap">
+                {t('language')}
+              </label>
+              <select
+                id="language-select"
+                value={language}
+                onChange={(e) => setLanguage(e.target.value as Language)}
+                className="bg-white dark:bg-slate-600 text-sm text-slate-800 dark:text-white border-none outline-none focus:ring-2 focus:ring-indigo-500 rounded-md py-1.5 pl-3 pr-8 shadow-sm cursor-pointer transition-colors"
+              >
+                {Object.values(Language).map((lang) => (
+                  <option key={lang} value={lang}>{LANGUAGE_NAMES[lang]}</option>
+                ))}
+              </select>
+              {language !== Language.ENGLISH && (
+                <label className="flex items-center gap-1.5 text-sm text-slate-600 dark:text-slate-300 pr-2 cursor-pointer select-none whitespace-nowrap" title={t('bilingualHint')}>
+                  <input type="checkbox" checked={bilingual} onChange={(e) => setBilingual(e.target.checked)} className="accent-indigo-600" />
+                  {t('bilingual')}
+                </label>
+              )}
             </div>
           </div>
+          {isCachePanelOpen && <CachePanel onClose={() => setIsCachePanelOpen(false)} t={t} />}
         </div>
       </header>
 
+      <OfflineBanner
+        isOnline={isOnline}
+        queued={queuedCount}
+        isSyncing={isSyncing}
+        synced={syncedEntries}
+        failures={queueFailures}
+        onOpen={openSyncedEntry}
+        onDismiss={() => {
+          setSyncedEntries([]);
+          setQueueFailures([]);
+        }}
+        t={t}
+      />
+
+      {isHistoryOpen && (
+        <HistorySidebar
+          entries={historyEntries}
+          activeId={activeHistoryId}
+          onOpen={handleOpenHistory}
+          onChange={setHistoryEntries}
+          onClose={() => setIsHistoryOpen(false)}
+          t={t}
+        />
+      )}
+
+      {isProfileEditorOpen && (
+        <ProfileEditor
+          profiles={profiles}
+          activeId={profile.id}
+          onSelect={(selected) => setProfileId(selected.id)}
+          onChange={setProfiles}
+          onClose={() => setIsProfileEditorOpen(false)}
+          t={t}
+        />
+      )}
+
+      {isTemplateEditorOpen && (
+        <TemplateEditor
+          templates={templates}
+          activeId={template.id}
+          onSelect={(selected) => setTemplateId(selected.id)}
+          onChange={setTemplates}
+          onClose={() => setIsTemplateEditorOpen(false)}
+          t={t}
+        />
+      )}
+
       <main className="max-w-7xl mx-auto px-4 py-8 print:p-0 print:max-w-none">
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8 print:block">
           
           {/* Left Column: Input (Canvas + Text) */}
-          <div className="lg:col-span-5 space-y-6 print:hidden">
+          <div
+            className="lg:col-span-5 space-y-6 print:hidden"
+            onDragOver={(e) => e.dataTransfer.types.includes('Files') && e.preventDefault()}
+            onDrop={handleDrop}
+          >
+
+            {/* Mode Switch */}
+            <div className="flex bg-slate-100 dark:bg-slate-800 p-1 rounded-lg border border-slate-200 dark:border-slate-700 transition-colors duration-300">
+              {([['analyze', 'modeAnalyze', FlaskConical], ['compare', 'modeCompare', Scale], ['mechanism', 'modeMechanism', Workflow], ['batch', 'modeBatch', BookCopy]] as const).map(([value, label, Icon]) => (
+                <button
+                  key={value}
+                  onClick={() => switchMode(value)}
+                  className={`flex-1 inline-flex items-center justify-center gap-2 py-2 rounded-md text-sm font-medium transition-colors ${mode === value ? 'bg-white dark:bg-slate-700 text-indigo-600 dark:text-indigo-300 shadow-sm' : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'}`}
+                >
+                  <Icon size={16} /> {t(label)}
+                </button>
+              ))}
+            </div>
             
-            {/* Canvas Card */}
-            <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-4 flex flex-col h-[500px] transition-colors duration-300">
-              <div className="mb-3 flex items-center justify-between">
-                <h2 className="font-semibold text-slate-700 dark:text-slate-200 flex items-center gap-2">
-                  <span className="w-2 h-2 rounded-full bg-indigo-500 shadow-[0_0_8px_rgba(99,102,241,0.6)]"></span>
-                  Draw Structure
-                </h2>
-                <span className="text-xs text-slate-400 dark:text-slate-500 bg-slate-100 dark:bg-slate-700 px-2 py-1 rounded">
-                  Touch enabled
-                </span>
+            {/* Drawing stays mounted in worksheet mode so the sketch survives a trip there and back */}
+            <div className={mode === 'batch' ? 'hidden' : 'space-y-6'}>
+              {/* Canvas Card */}
+              <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-4 flex flex-col h-[500px] transition-colors duration-300">
+                <div className="mb-3 flex items-center justify-between">
+                  <h2 className="font-semibold text-slate-700 dark:text-slate-200 flex items-center gap-2">
+                    <span className="w-2 h-2 rounded-full bg-indigo-500 shadow-[0_0_8px_rgba(99,102,241,0.6)]"></span>
+                    {t('drawStructure')}
+                  </h2>
+                  <span className="text-xs text-slate-400 dark:text-slate-500 bg-slate-100 dark:bg-slate-700 px-2 py-1 rounded">
+                    {t('touchEnabled')}
+                  </span>
+                </div>
+                <DrawingCanvas 
+                  onCapture={handleAnalysis} 
+                  isProcessing={isProcessing}
+                  initial={sharedDrawing}
+                  t={t}
+                />
+              </div>
+
+              <ImageInput onFile={openImage} onImage={setEditorImage} isProcessing={isProcessing} t={t} />
+
+              {/* OR Divider */}
+              <div className="flex items-center gap-4">
+                <div className="h-px bg-slate-200 dark:bg-slate-700 flex-1 transition-colors"></div>
+                <span className="text-slate-400 dark:text-slate-500 text-sm font-medium">{t('or')}</span>
+                <div className="h-px bg-slate-200 dark:bg-slate-700 flex-1 transition-colors"></div>
+              </div>
+
+              {/* Text Input Card */}
+              <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6 transition-colors duration-300">
+                 <h2 className="font-semibold text-slate-700 dark:text-slate-200 mb-3 flex items-center gap-2">
+                    <span className="w-2 h-2 rounded-full bg-violet-500 shadow-[0_0_8px_rgba(139,92,246,0.6)]"></span>
+                    {mode === 'mechanism' ? t('enterReactants') : t('enterName')}
+                 </h2>
+                 <div className="flex gap-2">
+                   <input
+                     type="text"
+                     value={textInput}
+                     onChange={(e) => {
+                       setTextInput(e.target.value);
+                       if (error) setError(null); // Clear error on typing
+                     }}
+                     placeholder={mode === 'mechanism' ? t('reactantsPlaceholder') : t('namePlaceholder')}
+                     className="flex-1 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-4 py-2 text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all placeholder:text-slate-400 dark:placeholder:text-slate-600"
+                     onKeyDown={(e) => {
+                       if (e.key === 'Enter' && !isProcessing) {
+                          handleAnalysis(null);
+                       }
+                     }}
+                   />
+                   <button
+                     onClick={() => handleAnalysis(null)}
+                     disabled={isProcessing || !textInput.trim()}
+                     className="bg-violet-100 hover:bg-violet-200 dark:bg-violet-900/30 dark:hover:bg-violet-900/50 text-violet-700 dark:text-violet-300 px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed border border-transparent dark:border-violet-800"
+                   >
+                     {mode === 'compare' ? t('add') : t('go')}
+                   </button>
+                 </div>
               </div>
-              <DrawingCanvas 
-                onCapture={handleAnalysis} 
+            </div>
+
+            {mode === 'batch' && (
+              <WorksheetPanel
+                title={worksheetTitle}
+                onTitleChange={setWorksheetTitle}
+                list={worksheetList}
+                onListChange={setWorksheetList}
+                onRun={(names) => runWorksheet(names)}
                 isProcessing={isProcessing}
+                t={t}
               />
-            </div>
+            )}
 
-            {/* OR Divider */}
-            <div className="flex items-center gap-4">
-              <div className="h-px bg-slate-200 dark:bg-slate-700 flex-1 transition-colors"></div>
-              <span className="text-slate-400 dark:text-slate-500 text-sm font-medium">OR</span>
-              <div className="h-px bg-slate-200 dark:bg-slate-700 flex-1 transition-colors"></div>
-            </div>
+            {mode === 'mechanism' && (
+              <MechanismPanel reagent={reagent} onReagentChange={setReagent} isProcessing={isProcessing} t={t} />
+            )}
 
-            {/* Text Input Card */}
-            <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6 transition-colors duration-300">
-               <h2 className="font-semibold text-slate-700 dark:text-slate-200 mb-3 flex items-center gap-2">
-                  <span className="w-2 h-2 rounded-full bg-violet-500 shadow-[0_0_8px_rgba(139,92,246,0.6)]"></span>
-                  Enter Name / Formula
-               </h2>
-               <div className="flex gap-2">
-                 <input
-                   type="text"
-                   value={textInput}
-                   onChange={(e) => {
-                     setTextInput(e.target.value);
-                     if (error) setError(null); // Clear error on typing
-                   }}
-                   placeholder="e.g. Benzene, C6H6, Aspirin..."
-                   className="flex-1 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-4 py-2 text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all placeholder:text-slate-400 dark:placeholder:text-slate-600"
-                   onKeyDown={(e) => {
-                     if (e.key === 'Enter' && !isProcessing) {
-                        handleAnalysis(null);
-                     }
-                   }}
-                 />
-                 <button
-                   onClick={() => handleAnalysis(null)}
-                   disabled={isProcessing || !textInput.trim()}
-                   className="bg-violet-100 hover:bg-violet-200 dark:bg-violet-900/30 dark:hover:bg-violet-900/50 text-violet-700 dark:text-violet-300 px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed border border-transparent dark:border-violet-800"
-                 >
-                   Go
-                 </button>
-               </div>
-            </div>
+            {mode === 'compare' && (
+              <ComparePanel
+                compounds={compareInputs}
+                property={compareProperty}
+                onPropertyChange={setCompareProperty}
+                onRemove={(label) => setCompareInputs(inputs => inputs.filter(input => input.label !== label))}
+                onCompare={runComparison}
+                isProcessing={isProcessing}
+                t={t}
+              />
+            )}
           </div>
 
           {/* Right Column: Output */}
           <div className="lg:col-span-7 print:w-full">
              {error && (
-              <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 p-4 rounded-xl flex items-start gap-3 animate-fade-in mb-6 shadow-sm print:hidden">
-                <AlertCircle className="mt-0.5 shrink-0" size={20} />
-                <div className="flex-1">
-                  <h3 className="font-semibold">Analysis Failed</h3>
-                  <p className="text-sm mt-1">{error}</p>
+              <ErrorCard
+                error={error}
+                onRetry={mode === 'compare' || (mode === 'batch' && batchItems.some(item => item.status === 'failed')) || quizFailedRef.current || (mode === 'mechanism' ? lastMechanismRef.current : lastRequestRef.current) ? handleRetry : undefined}
+                onDismiss={() => setError(null)}
+                t={t}
+              />
+            )}
+
+            {isProcessing && partialResult && (
+              <div>
+                <div className="mb-3 flex items-center justify-between gap-3 text-sm text-slate-500 dark:text-slate-400 print:hidden">
+                  <span className="flex items-center gap-2">
+                    <Sparkles size={16} className="text-indigo-500 animate-pulse" />
+                    {retryNotice ?? t('writingExplanation')}
+                  </span>
+                  <button
+                    onClick={cancelAnalysis}
+                    className="inline-flex items-center gap-1.5 px-3 py-1 rounded-lg font-medium text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+                  >
+                    <XCircle size={14} /> {t('cancel')}
+                  </button>
                 </div>
-                <button 
-                    onClick={() => setError(null)}
-                    className="text-red-400 hover:text-red-700 dark:hover:text-red-200 transition-colors"
-                    title="Dismiss"
-                >
-                    <X size={20} />
-                </button>
+                <ResultCard
+                  data={{ ...EMPTY_RESULT, ...partialResult.data }}
+                  profile={profile}
+                  sketch={resultSketch}
+                  pendingFields={RESULT_FIELDS.filter(field => !partialResult.completedFields.includes(field))}
+                  t={t}
+                  sectionOrder={sectionOrder}
+                />
               </div>
             )}
 
-            {isProcessing && (
+            {isProcessing && !partialResult && mode !== 'batch' && (
                <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-12 text-center h-full flex flex-col items-center justify-center min-h-[400px] print:hidden transition-colors duration-300">
                   <div className="relative">
                     <div className="w-16 h-16 border-4 border-indigo-100 dark:border-indigo-900/50 border-t-indigo-600 dark:border-t-indigo-500 rounded-full animate-spin"></div>
@@ -199,29 +900,117 @@ export default function App() {
                       <Sparkles size={20} className="text-indigo-600 dark:text-indigo-400 animate-pulse" />
                     </div>
                   </div>
-                  <h3 className="mt-6 text-xl font-semibold text-slate-800 dark:text-slate-100">Analyzing Compound...</h3>
+                  <h3 className="mt-6 text-xl font-semibold text-slate-800 dark:text-slate-100">
+                    {isQuizLoading ? t('preparingQuiz') : mode === 'compare' ? t('comparingCompounds') : mode === 'mechanism' ? t('workingOutMechanism') : t('analyzingCompound')}
+                  </h3>
                   <p className="text-slate-500 dark:text-slate-400 mt-2 max-w-xs mx-auto">
-                    Our AI is examining the structure and tailoring the explanation for {level}.
+                    {isQuizLoading
+                      ? t('quizLoadingDetail', { name: result?.name ?? '', level: profile.name })
+                      : mode === 'compare'
+                      ? t('compareLoadingDetail', { level: profile.name })
+                      : mode === 'mechanism'
+                      ? t('mechanismLoadingDetail', { level: profile.name })
+                      : t('analyzeLoadingDetail', { level: profile.name })}
                   </p>
+                  {retryNotice && (
+                    <p className="text-amber-600 dark:text-amber-400 text-sm mt-3">{retryNotice}</p>
+                  )}
+                  <button
+                    onClick={cancelAnalysis}
+                    className="mt-6 inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+                  >
+                    <XCircle size={16} /> {t('cancel')}
+                  </button>
                </div>
             )}
 
-            {!isProcessing && !result && !error && (
+            {mode === 'compare' && !isProcessing && !comparison && !error && (
+              <div className="bg-slate-100 dark:bg-slate-800/50 border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-xl p-12 text-center h-full flex flex-col items-center justify-center min-h-[400px] text-slate-400 dark:text-slate-500 print:hidden transition-colors duration-300">
+                <Scale size={64} className="mb-4 text-slate-300 dark:text-slate-600" />
+                <h3 className="text-lg font-medium text-slate-500 dark:text-slate-400">{t('readyToCompare')}</h3>
+                <p className="max-w-sm mt-2">
+                  {t('compareHint')}
+                </p>
+              </div>
+            )}
+
+            {mode === 'compare' && !isProcessing && comparison && (
+              <ComparisonTable
+                result={comparison}
+                images={Object.fromEntries(compareInputs.map(input => [input.label, input.imageData]))}
+                t={t}
+              />
+            )}
+
+            {mode === 'mechanism' && !isProcessing && !mechanism && !error && (
+              <div className="bg-slate-100 dark:bg-slate-800/50 border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-xl p-12 text-center h-full flex flex-col items-center justify-center min-h-[400px] text-slate-400 dark:text-slate-500 print:hidden transition-colors duration-300">
+                <Workflow size={64} className="mb-4 text-slate-300 dark:text-slate-600" />
+                <h3 className="text-lg font-medium text-slate-500 dark:text-slate-400">{t('readyForMechanism')}</h3>
+                <p className="max-w-sm mt-2">
+                  {t('mechanismHint')}
+                </p>
+              </div>
+            )}
+
+            {mode === 'mechanism' && !isProcessing && mechanism && (
+              <MechanismStepper result={mechanism} level={profile.baseLevel} t={t} />
+            )}
+
+            {mode === 'batch' && batchItems.length === 0 && !error && (
+              <div className="bg-slate-100 dark:bg-slate-800/50 border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-xl p-12 text-center h-full flex flex-col items-center justify-center min-h-[400px] text-slate-400 dark:text-slate-500 print:hidden transition-colors duration-300">
+                <BookCopy size={64} className="mb-4 text-slate-300 dark:text-slate-600" />
+                <h3 className="text-lg font-medium text-slate-500 dark:text-slate-400">{t('readyForWorksheet')}</h3>
+                <p className="max-w-sm mt-2">
+                  {t('worksheetHint')}
+                </p>
+              </div>
+            )}
+
+            {mode === 'batch' && batchItems.length > 0 && (
+              <WorksheetProgress
+                items={batchItems}
+                title={worksheetTitle}
+                profile={profile}
+                isProcessing={isProcessing}
+                onCancel={cancelAnalysis}
+                onRetryFailed={retryFailedCompounds}
+                t={t}
+              />
+            )}
+
+            {mode === 'analyze' && !isProcessing && !result && !error && (
               <div className="bg-slate-100 dark:bg-slate-800/50 border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-xl p-12 text-center h-full flex flex-col items-center justify-center min-h-[400px] text-slate-400 dark:text-slate-500 print:hidden transition-colors duration-300">
                 <FlaskConical size={64} className="mb-4 text-slate-300 dark:text-slate-600" />
-                <h3 className="text-lg font-medium text-slate-500 dark:text-slate-400">Ready to Analyze</h3>
+                <h3 className="text-lg font-medium text-slate-500 dark:text-slate-400">{t('readyToAnalyze')}</h3>
                 <p className="max-w-sm mt-2">
-                  Draw a chemical structure on the left or enter its name to get detailed insights tailored to your curriculum.
+                  {t('analyzeHint')}
                 </p>
               </div>
             )}
 
-            {!isProcessing && result && (
-              <ResultCard data={result} />
+            {mode === 'analyze' && !isProcessing && result && quiz && (
+              <QuizView quiz={quiz} onFinish={handleQuizFinished} onClose={() => setQuiz(null)} t={t} />
+            )}
+
+            {mode === 'analyze' && !isProcessing && result && !quiz && (
+              <ResultCard
+                data={result}
+                profile={profile}
+                sketch={resultSketch}
+                onRefresh={lastRequestRef.current ? handleRefresh : undefined}
+                onQuiz={startQuiz}
+                onShare={handleShare}
+                t={t}
+                sectionOrder={sectionOrder}
+              />
             )}
           </div>
         </div>
       </main>
+
+      {editorImage && (
+        <ImageEditor image={editorImage} onConfirm={handleEditedImage} onCancel={() => setEditorImage(null)} t={t} />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Database, Trash2, X, PenLine, Type } from 'lucide-react';
+import {
+  CacheEntry,
+  CacheSettings,
+  cacheSizeBytes,
+  clearCache,
+  deleteCacheEntry,
+  getCacheSettings,
+  listCacheEntries,
+  saveCacheSettings,
+} from '../services/cache';
+import { Translate } from '../utils/i18n';
+import { formatAge } from '../utils/time';
+
+interface CachePanelProps {
+  onClose: () => void;
+  t: Translate;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TTL_DAYS = [1, 7, 30];
+
+const SIZE_OPTIONS = [25, 50, 100, 200];
+
+const CachePanel: React.FC<CachePanelProps> = ({ onClose, t }) => {
+  const [settings, setSettings] = useState<CacheSettings>(getCacheSettings);
+  const [entries, setEntries] = useState<CacheEntry[]>(listCacheEntries);
+  const [sizeBytes, setSizeBytes] = useState(cacheSizeBytes);
+
+  const refresh = () => {
+    setEntries(listCacheEntries());
+    setSizeBytes(cacheSizeBytes());
+  };
+
+  const updateSettings = (changes: Partial<CacheSettings>) => {
+    setSettings(saveCacheSettings(changes));
+    refresh();
+  };
+
+  const handleDelete = (id: string) => {
+    deleteCacheEntry(id);
+    refresh();
+  };
+
+  const handleClear = () => {
+    clearCache();
+    refresh();
+  };
+
+  return (
+    <div className="absolute right-4 top-full mt-2 w-[22rem] max-w-[calc(100vw-2rem)] bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl shadow-xl p-4 z-20 animate-fade-in">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-semibold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+          <Database size={18} className="text-indigo-500" /> {t('savedAnswers')}
+        </h2>
+        <button
+          onClick={onClose}
+          className="text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 transition-colors"
+          title={t('close')}
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="space-y-2 text-sm text-slate-600 dark:text-slate-300">
+        <label className="flex items-center justify-between gap-2">
+          {t('reuseAnswers')}
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => updateSettings({ enabled: e.target.checked })}
+            className="accent-indigo-600 w-4 h-4"
+          />
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          {t('keepAnswersFor')}
+          <select
+            value={settings.ttlMs}
+            onChange={(e) => updateSettings({ ttlMs: Number(e.target.value) })}
+            className="bg-slate-100 dark:bg-slate-700 rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {TTL_DAYS.map(days => (
+              <option key={days} value={days * DAY_MS}>{days === 1 ? t('oneDay') : t('dayCount', { count: days })}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          {t('maxSavedAnswers')}
+          <select
+            value={settings.maxEntries}
+            onChange={(e) => updateSettings({ maxEntries: Number(e.target.value) })}
+            className="bg-slate-100 dark:bg-slate-700 rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {SIZE_OPTIONS.map(size => (
+              <option key={size} value={size}>{size}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="mt-4 flex items-center justify-between text-xs text-slate-500 dark:text-slate-400">
+        <span>{t('savedSize', { count: entries.length, size: (sizeBytes / 1024).toFixed(1) })}</span>
+        <button
+          onClick={handleClear}
+          disabled={entries.length === 0}
+          className="text-red-600 dark:text-red-400 hover:underline disabled:opacity-40 disabled:no-underline"
+        >
+          {t('clearAll')}
+        </button>
+      </div>
+
+      <ul className="mt-2 max-h-64 overflow-y-auto divide-y divide-slate-100 dark:divide-slate-700">
+        {entries.length === 0 && (
+          <li className="py-4 text-center text-sm text-slate-400 dark:text-slate-500">{t('noSavedAnswers')}</li>
+        )}
+        {entries.map(entry => {
+          const SourceIcon = entry.imageHash ? PenLine : Type;
+          return (
+            <li key={entry.id} className="py-2 flex items-center gap-2">
+              <SourceIcon size={14} className="text-slate-400 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-slate-700 dark:text-slate-200 truncate">{entry.data.name}</p>
+                <p className="text-xs text-slate-400 dark:text-slate-500 truncate">
+                  {entry.level} · {formatAge(entry.createdAt, t)}
+                </p>
+              </div>
+              <button
+                onClick={() => handleDelete(entry.id)}
+                className="p-1 text-slate-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                title={t('remove')}
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default CachePanel;
@@ -0,0 +1,103 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, X } from 'lucide-react';
+import { readImageFile } from '../utils/image';
+import { Translate } from '../utils/i18n';
+
+interface CameraCaptureProps {
+  onCapture: (dataUrl: string) => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+/** Live preview from the back camera; the still goes through the same editor as an uploaded photo */
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose, t }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fallbackInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError(t('cameraUnavailable'));
+      return;
+    }
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then(media => {
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = media;
+        if (videoRef.current) videoRef.current.srcObject = media;
+      })
+      .catch(() => setError(t('cameraBlocked')));
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    onCapture(canvas.toDataURL('image/jpeg', 0.92));
+  };
+
+  // Phones without getUserMedia (or with it blocked) can still open the camera app through a file input
+  const handleFallback = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    readImageFile(file).then(onCapture, (err: Error) => setError(err.message));
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/70 p-4 print:hidden">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl w-full max-w-2xl overflow-hidden animate-fade-in">
+        <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="font-semibold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+            <Camera size={18} className="text-indigo-500" /> {t('takePhoto')}
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded-md text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors" title={t('close')}>
+            <X size={16} />
+          </button>
+        </div>
+
+        {error ? (
+          <div className="p-8 text-center space-y-4">
+            <p className="text-slate-600 dark:text-slate-300">{error}</p>
+            <button
+              onClick={() => fallbackInputRef.current?.click()}
+              className="inline-flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+            >
+              <Camera size={16} /> {t('openCameraApp')}
+            </button>
+            <input ref={fallbackInputRef} type="file" accept="image/*" capture="environment" className="hidden" onChange={handleFallback} />
+          </div>
+        ) : (
+          <>
+            <video ref={videoRef} autoPlay playsInline muted className="w-full max-h-[60vh] bg-black object-contain" />
+            <div className="p-4 flex justify-center">
+              <button
+                onClick={capture}
+                className="inline-flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2.5 rounded-full font-medium transition-colors"
+              >
+                <Camera size={18} /> {t('capture')}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
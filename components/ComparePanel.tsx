@@ -0,0 +1,84 @@
+import React from 'react';
+import { Scale, X, Type } from 'lucide-react';
+import { ComparisonProperty } from '../types';
+import { ComparisonInput, MAX_COMPARED_COMPOUNDS, MIN_COMPARED_COMPOUNDS } from '../services/comparison';
+import { COMPARISON_PROPERTY_KEYS, Translate } from '../utils/i18n';
+
+interface ComparePanelProps {
+  compounds: ComparisonInput[];
+  property: ComparisonProperty;
+  onPropertyChange: (property: ComparisonProperty) => void;
+  onRemove: (label: string) => void;
+  onCompare: () => void;
+  isProcessing: boolean;
+  t: Translate;
+}
+
+const ComparePanel: React.FC<ComparePanelProps> = ({ compounds, property, onPropertyChange, onRemove, onCompare, isProcessing, t }) => {
+  const canCompare = compounds.length >= MIN_COMPARED_COMPOUNDS && !isProcessing;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6 transition-colors duration-300">
+      <h2 className="font-semibold text-slate-700 dark:text-slate-200 mb-1 flex items-center gap-2">
+        <span className="w-2 h-2 rounded-full bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,0.6)]"></span>
+        {t('compoundsToCompare')}
+      </h2>
+      <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+        {t('compareAddHint', { min: MIN_COMPARED_COMPOUNDS, max: MAX_COMPARED_COMPOUNDS })}
+      </p>
+
+      <ul className="space-y-2 mb-4">
+        {compounds.length === 0 && (
+          <li className="text-sm text-slate-400 dark:text-slate-500 border border-dashed border-slate-200 dark:border-slate-700 rounded-lg p-4 text-center">
+            {t('noCompounds')}
+          </li>
+        )}
+        {compounds.map(compound => (
+          <li key={compound.label} className="flex items-center gap-3 bg-slate-50 dark:bg-slate-900/50 border border-slate-100 dark:border-slate-700 rounded-lg p-2">
+            <span className="w-7 h-7 rounded-full bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300 text-sm font-bold flex items-center justify-center shrink-0">
+              {compound.label}
+            </span>
+            {compound.imageData ? (
+              <img src={compound.imageData} alt={t('compoundLabel', { label: compound.label })} className="h-10 w-16 object-contain bg-white rounded border border-slate-200 dark:border-slate-600" />
+            ) : (
+              <Type size={16} className="text-slate-400 shrink-0" />
+            )}
+            <span className="flex-1 text-sm text-slate-700 dark:text-slate-200 truncate">
+              {compound.textInput ?? t('drawnStructure')}
+            </span>
+            <button
+              onClick={() => onRemove(compound.label)}
+              disabled={isProcessing}
+              className="p-1 text-slate-400 hover:text-red-600 dark:hover:text-red-400 transition-colors disabled:opacity-40"
+              title={t('remove')}
+            >
+              <X size={16} />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <select
+          value={property}
+          onChange={(e) => onPropertyChange(e.target.value as ComparisonProperty)}
+          className="flex-1 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-800 dark:text-slate-100 outline-none focus:ring-2 focus:ring-indigo-500 cursor-pointer"
+          aria-label={t('propertyToCompare')}
+        >
+          {Object.values(ComparisonProperty).map(option => (
+            <option key={option} value={option}>{t(COMPARISON_PROPERTY_KEYS[option])}</option>
+          ))}
+        </select>
+        <button
+          onClick={onCompare}
+          disabled={!canCompare}
+          className="inline-flex items-center justify-center gap-2 bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Scale size={16} /> {t('compare')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ComparePanel;
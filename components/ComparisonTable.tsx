@@ -0,0 +1,109 @@
+import React from 'react';
+import { Scale, Lightbulb, ShieldAlert } from 'lucide-react';
+import { ComparisonResult } from '../types';
+import { COMPARISON_PROPERTY_KEYS, Translate, UiStringKey } from '../utils/i18n';
+
+interface ComparisonTableProps {
+  result: ComparisonResult;
+  /** Drawing thumbnails by compound label, so rows can show what the student drew */
+  images?: Record<string, string | null>;
+  t: Translate;
+}
+
+const EFFECT_COLUMNS: { key: 'inductive' | 'resonance' | 'hyperconjugation' | 'steric'; title: UiStringKey }[] = [
+  { key: 'inductive', title: 'inductive' },
+  { key: 'resonance', title: 'resonance' },
+  { key: 'hyperconjugation', title: 'hyperconjugation' },
+  { key: 'steric', title: 'steric' },
+];
+
+const ComparisonTable: React.FC<ComparisonTableProps> = ({ result, images = {}, t }) => {
+  const repairedFields = result.meta?.repairedFields ?? [];
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg border border-slate-200 dark:border-slate-700 overflow-hidden animate-fade-in transition-colors duration-300">
+      <div className="bg-gradient-to-r from-emerald-600 to-teal-600 dark:from-emerald-700 dark:to-teal-700 p-6 text-white">
+        <div className="flex items-center gap-2 text-emerald-100 text-sm font-medium mb-1">
+          <Scale size={16} /> {t(COMPARISON_PROPERTY_KEYS[result.property])}
+        </div>
+        <h2 className="text-2xl font-bold tracking-tight">{result.order}</h2>
+      </div>
+
+      {repairedFields.length > 0 && (
+        <div className="mx-6 mt-6 flex items-start gap-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-200 rounded-lg p-3 text-sm transition-colors">
+          <ShieldAlert size={18} className="shrink-0 mt-0.5" />
+          <p>
+            <span className="font-semibold">{t('partiallyVerified')}</span>{' '}
+            {t('repairedDetail')}{' '}
+            <span className="font-mono text-xs">{repairedFields.join(', ')}</span>
+          </p>
+        </div>
+      )}
+
+      <div className="p-6 space-y-6">
+        <div className="overflow-x-auto -mx-6 px-6">
+          <table className="w-full text-sm border-collapse min-w-[640px]">
+            <thead>
+              <tr className="text-left text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                <th className="py-2 pr-3 font-semibold">{t('rank')}</th>
+                <th className="py-2 pr-3 font-semibold">{t('compound')}</th>
+                {EFFECT_COLUMNS.map(column => (
+                  <th key={column.key} className="py-2 pr-3 font-semibold">{t(column.title)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {result.compounds.map(compound => {
+                const image = images[compound.label];
+                return (
+                <tr key={compound.label} className="align-top border-b border-slate-100 dark:border-slate-700/60">
+                  <td className="py-3 pr-3">
+                    <span className={`w-8 h-8 rounded-full flex items-center justify-center font-bold ${compound.rank === 1 ? 'bg-emerald-600 text-white' : 'bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200'}`}>
+                      {compound.rank}
+                    </span>
+                  </td>
+                  <td className="py-3 pr-3 min-w-[9rem]">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-bold text-emerald-600 dark:text-emerald-400">{compound.label}</span>
+                      <span className="font-semibold text-slate-800 dark:text-slate-100">{compound.name}</span>
+                    </div>
+                    {image && (
+                      <img src={image} alt="" className="mt-2 h-12 w-20 object-contain bg-white rounded border border-slate-200 dark:border-slate-600" />
+                    )}
+                    {compound.reasoning && (
+                      <p className="mt-2 text-xs text-slate-600 dark:text-slate-300 leading-snug">{compound.reasoning}</p>
+                    )}
+                  </td>
+                  {EFFECT_COLUMNS.map(column => (
+                    <td key={column.key} className="py-3 pr-3 text-slate-600 dark:text-slate-400 leading-snug">
+                      {compound[column.key]}
+                    </td>
+                  ))}
+                </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {result.explanation && (
+          <p className="text-slate-700 dark:text-slate-300 leading-relaxed bg-slate-50 dark:bg-slate-900/50 p-5 rounded-lg border border-slate-100 dark:border-slate-700 transition-colors">
+            {result.explanation}
+          </p>
+        )}
+
+        {result.examTip && (
+          <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl p-4 flex gap-3 items-start transition-colors">
+            <Lightbulb size={20} className="text-amber-600 dark:text-amber-300 shrink-0 mt-0.5" />
+            <div>
+              <h4 className="text-amber-900 dark:text-amber-100 font-bold text-sm mb-1">{t('examTip')}</h4>
+              <p className="text-amber-800 dark:text-amber-200/80 text-sm">{result.examTip}</p>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonTable;
@@ -1,101 +1,262 @@
-import React, { useRef, useEffect, useState } from 'react';
-import { Eraser, Pen, Trash2, Send } from 'lucide-react';
+import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { Eraser, Pen, Trash2, Send, Undo2, Redo2, Spline, Type } from 'lucide-react';
+import { BondType, DrawingDocument, DrawingTool, Stroke, StrokePoint } from '../types';
+import {
+  addBond,
+  cycleLonePairs,
+  eraseAt,
+  findBondAt,
+  isMoleculeEmpty,
+  moleculeToText,
+  restyleBond,
+  setAtomLabel,
+  snapToGrid,
+  toggleCharge,
+} from '../utils/molecule';
+import { BACKGROUND_COLOR, EMPTY_DOCUMENT, PEN_COLOR, captureDocument, renderDocument } from '../utils/drawing';
+import { Translate, UiStringKey } from '../utils/i18n';
 
 interface DrawingCanvasProps {
-  onCapture: (dataUrl: string | null) => void;
+  /** `structureText` is the connection table of the drawn molecule graph, when one was drawn with the structure tools */
+  onCapture: (dataUrl: string | null, structureText?: string | null, drawing?: DrawingDocument) => void;
   isProcessing: boolean;
+  /** Replaces the drawing (as an undoable edit) whenever a new document is passed, e.g. from a share link */
+  initial?: DrawingDocument | null;
+  t: Translate;
 }
 
-const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ onCapture, isProcessing }) => {
+const PEN_WIDTH = 3;
+const ERASER_WIDTH = 20;
+
+const BOND_TYPES: { type: BondType; symbol: string; title: UiStringKey }[] = [
+  { type: 'single', symbol: '—', title: 'singleBond' },
+  { type: 'double', symbol: '=', title: 'doubleBond' },
+  { type: 'triple', symbol: '≡', title: 'tripleBond' },
+  { type: 'wedge', symbol: '◀', title: 'wedgeBond' },
+  { type: 'dash', symbol: '⋯', title: 'dashBond' },
+];
+
+// '+', '−' and '••' edit the atom under the cursor instead of relabelling it
+const ATOM_LABELS: { label: string; display: string }[] = [
+  { label: 'C', display: 'C' },
+  { label: 'O', display: 'O' },
+  { label: 'N', display: 'N' },
+  { label: 'Cl', display: 'Cl' },
+  { label: 'Br', display: 'Br' },
+  { label: 'OH', display: 'OH' },
+  { label: 'NH2', display: 'NH₂' },
+  { label: '+', display: '⊕' },
+  { label: '-', display: '⊖' },
+  { label: 'lp', display: '••' },
+];
+
+// Snapshot history: every committed edit (or clear) pushes the previous document onto `past`
+interface DocumentHistory {
+  past: DrawingDocument[];
+  present: DrawingDocument;
+  future: DrawingDocument[];
+}
+
+const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ onCapture, isProcessing, initial, t }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const currentStrokeRef = useRef<Stroke | null>(null);
+  const bondStartRef = useRef<StrokePoint | null>(null);
+  // touchend carries no coordinates, so remember the last touch position
+  const lastTouchRef = useRef<StrokePoint | null>(null);
   const [isDrawing, setIsDrawing] = useState(false);
-  const [hasDrawn, setHasDrawn] = useState(false);
-  const [tool, setTool] = useState<'pen' | 'eraser'>('pen');
-  const [strokeColor] = useState('#1e293b'); // slate-800
-  
-  // Set canvas size on mount and resize
+  const [tool, setTool] = useState<DrawingTool>('pen');
+  const [bondType, setBondType] = useState<BondType>('single');
+  const [atomLabel, setAtomLabelChoice] = useState('O');
+  const [strokeColor] = useState(PEN_COLOR);
+  const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
+  const [history, setHistory] = useState<DocumentHistory>({ past: [], present: EMPTY_DOCUMENT, future: [] });
+
+  const doc = history.present;
+  const hasDrawn = doc.strokes.some(stroke => stroke.tool === 'pen') || !isMoleculeEmpty(doc.molecule);
+  const canUndo = history.past.length > 0;
+  const canRedo = history.future.length > 0;
+
+  // Track container size; the drawing itself is redrawn from the document, so shrinking never crops it
   useEffect(() => {
     const handleResize = () => {
-      if (containerRef.current && canvasRef.current) {
+      if (containerRef.current) {
         const { width, height } = containerRef.current.getBoundingClientRect();
-        // Save current content
-        const tempCanvas = document.createElement('canvas');
-        const tempCtx = tempCanvas.getContext('2d');
-        tempCanvas.width = canvasRef.current.width;
-        tempCanvas.height = canvasRef.current.height;
-        tempCtx?.drawImage(canvasRef.current, 0, 0);
-
-        // Resize
-        canvasRef.current.width = width;
-        canvasRef.current.height = height;
-        
-        // Restore content
-        const ctx = canvasRef.current.getContext('2d');
-        if (ctx) {
-           ctx.lineCap = 'round';
-           ctx.lineJoin = 'round';
-           ctx.fillStyle = '#ffffff';
-           ctx.fillRect(0, 0, width, height);
-           ctx.drawImage(tempCanvas, 0, 0);
-        }
+        setCanvasSize(prev => (prev.width === width && prev.height === height ? prev : { width, height }));
       }
     };
 
     window.addEventListener('resize', handleResize);
     // Initial delay to ensure container has size
-    setTimeout(handleResize, 10);
-    
-    // Initial fill white
-    const ctx = canvasRef.current?.getContext('2d');
-    if (ctx && containerRef.current) {
-      ctx.fillStyle = '#ffffff';
-      ctx.fillRect(0, 0, containerRef.current.offsetWidth, containerRef.current.offsetHeight);
-    }
+    const timer = setTimeout(handleResize, 10);
+
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      clearTimeout(timer);
+    };
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    if (canvas.width !== canvasSize.width) canvas.width = canvasSize.width;
+    if (canvas.height !== canvasSize.height) canvas.height = canvasSize.height;
+    renderDocument(canvas, doc);
+  }, [canvasSize, doc]);
+
+  const commit = (next: DrawingDocument) => {
+    setHistory(prev => ({ past: [...prev.past, prev.present], present: next, future: [] }));
+  };
+
+  useEffect(() => {
+    if (initial) commit(initial);
+  }, [initial]);
 
-    return () => window.removeEventListener('resize', handleResize);
+  const undo = useCallback(() => {
+    setHistory(prev => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+      };
+    });
   }, []);
 
+  const redo = useCallback(() => {
+    setHistory(prev => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+      };
+    });
+  }, []);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), leaving text fields to their native undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isProcessing || !(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isProcessing, undo, redo]);
+
+  const applyAtomTool = (point: StrokePoint) => {
+    const molecule = doc.molecule;
+    let next = molecule;
+    if (atomLabel === '+') next = toggleCharge(molecule, point, 1);
+    else if (atomLabel === '-') next = toggleCharge(molecule, point, -1);
+    else if (atomLabel === 'lp') next = cycleLonePairs(molecule, point);
+    else next = setAtomLabel(molecule, point, atomLabel);
+    commit({ ...doc, molecule: next });
+  };
+
   const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
     if (isProcessing) return;
-    setIsDrawing(true);
-    // Mark as drawn when user starts interacting
-    setHasDrawn(true);
-    
     const ctx = canvasRef.current?.getContext('2d');
-    if (!ctx || !canvasRef.current) return;
+    if (!ctx) return;
 
-    const { offsetX, offsetY } = getCoordinates(e);
-    ctx.beginPath();
-    ctx.moveTo(offsetX, offsetY);
+    const point = getCoordinates(e);
+
+    if (tool === 'atom') {
+      applyAtomTool(point);
+      return;
+    }
+
+    setIsDrawing(true);
+    if (tool === 'bond') {
+      bondStartRef.current = point;
+      return;
+    }
+
+    currentStrokeRef.current = {
+      tool,
+      width: tool === 'eraser' ? ERASER_WIDTH : PEN_WIDTH,
+      color: tool === 'eraser' ? BACKGROUND_COLOR : strokeColor,
+      points: [point],
+    };
   };
 
   const draw = (e: React.MouseEvent | React.TouchEvent) => {
     if (!isDrawing || isProcessing) return;
-    const ctx = canvasRef.current?.getContext('2d');
-    if (!ctx || !canvasRef.current) return;
-
-    const { offsetX, offsetY } = getCoordinates(e);
-    
-    ctx.lineWidth = tool === 'eraser' ? 20 : 3;
-    ctx.strokeStyle = tool === 'eraser' ? '#ffffff' : strokeColor;
-    
-    ctx.lineTo(offsetX, offsetY);
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const point = getCoordinates(e);
+
+    // Preview the snapped bond on top of the committed document
+    const bondStart = bondStartRef.current;
+    if (bondStart) {
+      const preview = addBond(doc.molecule, bondStart, snapToGrid(point), bondType);
+      renderDocument(canvas, { ...doc, molecule: preview });
+      return;
+    }
+
+    const stroke = currentStrokeRef.current;
+    if (!stroke) return;
+    const last = stroke.points[stroke.points.length - 1];
+    stroke.points.push(point);
+
+    // Paint only the new segment while drawing; the full redraw happens on commit
+    ctx.lineWidth = stroke.width;
+    ctx.strokeStyle = stroke.color;
+    ctx.beginPath();
+    ctx.moveTo(last.x, last.y);
+    ctx.lineTo(point.x, point.y);
     ctx.stroke();
   };
 
-  const stopDrawing = () => {
+  const stopDrawing = (e?: React.MouseEvent | React.TouchEvent) => {
     if (isProcessing) return;
-    const ctx = canvasRef.current?.getContext('2d');
-    if (ctx) {
-      ctx.closePath();
-    }
+    const stroke = currentStrokeRef.current;
+    const bondStart = bondStartRef.current;
+    currentStrokeRef.current = null;
+    bondStartRef.current = null;
     setIsDrawing(false);
+
+    if (bondStart) {
+      const end = e && !('touches' in e) ? getCoordinates(e) : lastTouchRef.current ?? bondStart;
+      const start = snapToGrid(bondStart);
+      const snappedEnd = snapToGrid(end);
+      if (start.x === snappedEnd.x && start.y === snappedEnd.y) {
+        // A click (no drag) on a bond restyles it
+        const bond = findBondAt(doc.molecule, bondStart);
+        if (bond) commit({ ...doc, molecule: restyleBond(doc.molecule, bond.id, bondType) });
+        else renderDocument(canvasRef.current!, doc);
+        return;
+      }
+      commit({ ...doc, molecule: addBond(doc.molecule, start, snappedEnd, bondType) });
+      return;
+    }
+
+    if (stroke) {
+      // The eraser also removes any atoms and bonds it passes over
+      const molecule = stroke.tool === 'eraser'
+        ? stroke.points.reduce((graph, point) => eraseAt(graph, point, ERASER_WIDTH / 2), doc.molecule)
+        : doc.molecule;
+      commit({ strokes: [...doc.strokes, stroke], molecule });
+    }
   };
 
-  const getCoordinates = (e: React.MouseEvent | React.TouchEvent) => {
+  const getCoordinates = (e: React.MouseEvent | React.TouchEvent): StrokePoint => {
     const canvas = canvasRef.current;
-    if (!canvas) return { offsetX: 0, offsetY: 0 };
+    if (!canvas) return { x: 0, y: 0 };
 
     const rect = canvas.getBoundingClientRect();
     let clientX, clientY;
@@ -108,20 +269,18 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ onCapture, isProcessing }
       clientY = (e as React.MouseEvent).clientY;
     }
 
-    return {
-      offsetX: clientX - rect.left,
-      offsetY: clientY - rect.top,
+    const point = {
+      x: clientX - rect.left,
+      y: clientY - rect.top,
     };
+    if ('touches' in e) lastTouchRef.current = point;
+    return point;
   };
 
   const clearCanvas = () => {
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (canvas && ctx) {
-      ctx.fillStyle = '#ffffff';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      setHasDrawn(false);
-    }
+    if (doc.strokes.length === 0 && isMoleculeEmpty(doc.molecule)) return;
+    // Clearing is recorded like any other edit so it can be undone
+    commit(EMPTY_DOCUMENT);
   };
 
   const handleCapture = () => {
@@ -129,16 +288,19 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ onCapture, isProcessing }
       onCapture(null);
       return;
     }
-    if (canvasRef.current) {
-      // Use JPEG with 0.7 quality for smaller payload and faster upload
-      onCapture(canvasRef.current.toDataURL('image/jpeg', 0.7));
-    }
+    onCapture(captureDocument(doc), isMoleculeEmpty(doc.molecule) ? null : moleculeToText(doc.molecule), doc);
   };
 
+  const toolButtonClass = (active: boolean) =>
+    `p-2 rounded-lg transition-colors ${active ? 'bg-indigo-100 dark:bg-indigo-900/50 text-indigo-600 dark:text-indigo-400' : 'text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-600'}`;
+  const paletteButtonClass = (active: boolean) =>
+    `min-w-[2rem] px-2 py-1 rounded-md text-sm font-semibold transition-colors ${active ? 'bg-indigo-600 text-white' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-600'}`;
+  const historyButtonClass = 'p-2 rounded-lg text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent';
+
   return (
     <div className="flex flex-col gap-4 w-full h-full">
-      <div 
-        ref={containerRef} 
+      <div
+        ref={containerRef}
         className={`relative flex-grow w-full bg-white rounded-xl shadow-inner border-2 overflow-hidden touch-none ${isProcessing ? 'opacity-50 cursor-not-allowed' : 'border-slate-200 dark:border-slate-600 cursor-crosshair'} transition-colors duration-300`}
         style={{ minHeight: '300px', backgroundImage: 'radial-gradient(#cbd5e1 1px, transparent 1px)', backgroundSize: '20px 20px' }}
       >
@@ -153,44 +315,75 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ onCapture, isProcessing }
           onTouchEnd={stopDrawing}
           className="w-full h-full block"
         />
+
+        {/* Structure tool palette */}
+        {(tool === 'bond' || tool === 'atom') && (
+          <div className="absolute top-2 left-2 right-2 flex flex-wrap gap-1 p-1 bg-white/90 dark:bg-slate-700/90 backdrop-blur-sm rounded-lg border border-slate-200 dark:border-slate-600 shadow-sm">
+            {tool === 'bond' && BOND_TYPES.map(({ type, symbol, title }) => (
+              <button key={type} onClick={() => setBondType(type)} className={paletteButtonClass(bondType === type)} title={t(title)}>
+                {symbol}
+              </button>
+            ))}
+            {tool === 'atom' && ATOM_LABELS.map(({ label, display }) => (
+              <button key={label} onClick={() => setAtomLabelChoice(label)} className={paletteButtonClass(atomLabel === label)} title={label === 'lp' ? t('lonePair') : label}>
+                {display}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
       <div className="flex flex-wrap items-center justify-between gap-3 p-2 bg-white dark:bg-slate-700 rounded-lg border border-slate-200 dark:border-slate-600 shadow-sm transition-colors duration-300">
         <div className="flex items-center gap-2">
+          <button onClick={() => setTool('pen')} className={toolButtonClass(tool === 'pen')} title={t('pen')}>
+            <Pen size={20} />
+          </button>
+          <button onClick={() => setTool('bond')} className={toolButtonClass(tool === 'bond')} title={t('bondTool')}>
+            <Spline size={20} />
+          </button>
+          <button onClick={() => setTool('atom')} className={toolButtonClass(tool === 'atom')} title={t('atomTool')}>
+            <Type size={20} />
+          </button>
+          <button onClick={() => setTool('eraser')} className={toolButtonClass(tool === 'eraser')} title={t('eraser')}>
+            <Eraser size={20} />
+          </button>
+          <div className="w-px h-6 bg-slate-200 dark:bg-slate-600 mx-1 transition-colors"></div>
           <button
-            onClick={() => setTool('pen')}
-            className={`p-2 rounded-lg transition-colors ${tool === 'pen' ? 'bg-indigo-100 dark:bg-indigo-900/50 text-indigo-600 dark:text-indigo-400' : 'text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-600'}`}
-            title="Pen"
+            onClick={undo}
+            disabled={isProcessing || !canUndo}
+            className={historyButtonClass}
+            title={t('undo')}
           >
-            <Pen size={20} />
+            <Undo2 size={20} />
           </button>
           <button
-            onClick={() => setTool('eraser')}
-            className={`p-2 rounded-lg transition-colors ${tool === 'eraser' ? 'bg-indigo-100 dark:bg-indigo-900/50 text-indigo-600 dark:text-indigo-400' : 'text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-600'}`}
-            title="Eraser"
+            onClick={redo}
+            disabled={isProcessing || !canRedo}
+            className={historyButtonClass}
+            title={t('redo')}
           >
-            <Eraser size={20} />
+            <Redo2 size={20} />
           </button>
-          <div className="w-px h-6 bg-slate-200 dark:bg-slate-600 mx-1 transition-colors"></div>
           <button
             onClick={clearCanvas}
+            disabled={isProcessing}
             className="p-2 rounded-lg text-slate-500 dark:text-slate-400 hover:bg-red-50 dark:hover:bg-red-900/30 hover:text-red-500 dark:hover:text-red-400 transition-colors"
-            title="Clear All"
+            title={t('clearAll')}
           >
             <Trash2 size={20} />
           </button>
         </div>
-        
+
         <button
           onClick={handleCapture}
           disabled={isProcessing || !hasDrawn}
           className="flex items-center gap-2 px-6 py-2 bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-600 dark:hover:bg-indigo-500 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ml-auto"
         >
-          {isProcessing ? 'Analyzing...' : 'Identify'} <Send size={16} />
+          {isProcessing ? t('analyzing') : t('identify')} <Send size={16} />
         </button>
       </div>
     </div>
   );
 };
 
-export default DrawingCanvas;
\ No newline at end of file
+export default DrawingCanvas;
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { Atom, Hexagon, Crosshair } from 'lucide-react';
+import { EducationLevel, ElectronicEffects, InductiveEffect, MesomericEffect, ReactiveSiteKind } from '../types';
+import { Translate } from '../utils/i18n';
+
+interface ElectronicEffectsPanelProps {
+  effects: ElectronicEffects;
+  /** Level the analysis was made for; the panel opens at this depth */
+  level: EducationLevel;
+  t: Translate;
+}
+
+const LEVEL_ORDER = Object.values(EducationLevel);
+
+// Lowest level at which each part is shown; Foundation students only see the groups and whether the ring is aromatic
+const MIN_LEVEL = {
+  effectBadges: EducationLevel.BOARD_LEVEL,
+  hybridisation: EducationLevel.BOARD_LEVEL,
+  huckelCount: EducationLevel.BOARD_LEVEL,
+  hyperconjugation: EducationLevel.COMPETITIVE,
+  reactiveSites: EducationLevel.COMPETITIVE,
+  geometry: EducationLevel.UNDERGRADUATE,
+};
+
+const SHORT_LEVEL_NAMES: Record<EducationLevel, string> = {
+  [EducationLevel.FOUNDATION]: 'Class 9-10',
+  [EducationLevel.BOARD_LEVEL]: 'Class 11-12',
+  [EducationLevel.COMPETITIVE]: 'JEE/NEET',
+  [EducationLevel.UNDERGRADUATE]: 'UG',
+};
+
+const EFFECT_BADGE_CLASSES: Record<InductiveEffect | MesomericEffect, string> = {
+  '+I': 'bg-sky-100 text-sky-700 dark:bg-sky-900/40 dark:text-sky-300',
+  '-I': 'bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300',
+  '+M': 'bg-sky-100 text-sky-700 dark:bg-sky-900/40 dark:text-sky-300',
+  '-M': 'bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300',
+  none: '',
+};
+
+const SITE_KIND_CLASSES: Record<ReactiveSiteKind, string> = {
+  electrophilic: 'bg-rose-100 text-rose-700 dark:bg-rose-900/40 dark:text-rose-300',
+  nucleophilic: 'bg-sky-100 text-sky-700 dark:bg-sky-900/40 dark:text-sky-300',
+  acidic: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+  basic: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300',
+  radical: 'bg-violet-100 text-violet-700 dark:bg-violet-900/40 dark:text-violet-300',
+};
+
+// Renders "-I" with a real minus sign
+const formatEffect = (effect: string) => effect.replace('-', '−');
+
+const ElectronicEffectsPanel: React.FC<ElectronicEffectsPanelProps> = ({ effects, level, t }) => {
+  const [viewLevel, setViewLevel] = useState(level);
+  useEffect(() => setViewLevel(level), [level]);
+
+  const shows = (part: keyof typeof MIN_LEVEL) => LEVEL_ORDER.indexOf(viewLevel) >= LEVEL_ORDER.indexOf(MIN_LEVEL[part]);
+  const { functionalGroups, hybridisation, aromaticity, reactiveSites } = effects;
+
+  return (
+    <section>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <div className="flex items-center gap-2 text-sky-700 dark:text-sky-400 font-semibold text-lg">
+          <Atom size={22} className="shrink-0" />
+          <h3>{t('electronicEffects')}</h3>
+        </div>
+        <div className="flex bg-slate-100 dark:bg-slate-900/60 rounded-lg p-0.5 text-xs print:hidden" role="group" aria-label={t('detailLevel')}>
+          {LEVEL_ORDER.map(option => (
+            <button
+              key={option}
+              onClick={() => setViewLevel(option)}
+              title={option}
+              className={`px-2 py-1 rounded-md font-medium transition-colors ${viewLevel === option ? 'bg-white dark:bg-slate-700 text-sky-700 dark:text-sky-300 shadow-sm' : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'}`}
+            >
+              {SHORT_LEVEL_NAMES[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-4 bg-sky-50/50 dark:bg-sky-900/10 border border-sky-100 dark:border-sky-900/50 rounded-lg p-5 transition-colors">
+        {functionalGroups.length > 0 && (
+          <ul className="space-y-3">
+            {functionalGroups.map((group, idx) => (
+              <li key={idx} className="text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-semibold text-slate-800 dark:text-slate-100">{group.group}</span>
+                  {shows('effectBadges') && [group.inductive, group.mesomeric].filter(effect => effect !== 'none').map(effect => (
+                    <span key={effect} className={`text-xs font-bold px-1.5 py-0.5 rounded ${EFFECT_BADGE_CLASSES[effect]}`}>
+                      {formatEffect(effect)}
+                    </span>
+                  ))}
+                </div>
+                {group.note && <p className="text-slate-600 dark:text-slate-400 mt-0.5">{group.note}</p>}
+                {shows('hyperconjugation') && group.hyperconjugation && (
+                  <p className="text-slate-500 dark:text-slate-400 text-xs mt-0.5">{t('hyperconjugation')}: {group.hyperconjugation}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex items-start gap-3 text-sm">
+          <Hexagon size={18} className="text-sky-600 dark:text-sky-400 shrink-0 mt-0.5" />
+          <p className="text-slate-700 dark:text-slate-300">
+            <span className="font-semibold capitalize">{aromaticity.status}</span>
+            {shows('huckelCount') && aromaticity.piElectrons > 0 && (
+              <span className="font-mono text-xs ml-2 px-1.5 py-0.5 rounded bg-white dark:bg-slate-800 border border-sky-100 dark:border-sky-900/50">
+                {aromaticity.piElectrons} π e⁻
+              </span>
+            )}
+            {aromaticity.explanation && <span className="block text-slate-600 dark:text-slate-400 mt-0.5">{aromaticity.explanation}</span>}
+          </p>
+        </div>
+
+        {shows('hybridisation') && hybridisation.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {hybridisation.map((atom, idx) => (
+              <span
+                key={idx}
+                className="text-xs bg-white dark:bg-slate-800 border border-sky-100 dark:border-sky-900/50 rounded-full px-3 py-1 text-slate-700 dark:text-slate-300"
+              >
+                {atom.atom}: <span className="font-mono font-semibold">{atom.hybridisation}</span>
+                {shows('geometry') && atom.geometry && <span className="text-slate-500 dark:text-slate-400"> · {atom.geometry}</span>}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {shows('reactiveSites') && reactiveSites.length > 0 && (
+          <div>
+            <div className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-200 mb-2">
+              <Crosshair size={16} className="text-sky-600 dark:text-sky-400" /> {t('reactiveSites')}
+            </div>
+            <ul className="space-y-2">
+              {reactiveSites.map((site, idx) => (
+                <li key={idx} className="text-sm flex flex-wrap items-baseline gap-2">
+                  <span className={`text-xs font-semibold px-1.5 py-0.5 rounded capitalize ${SITE_KIND_CLASSES[site.kind]}`}>{site.kind}</span>
+                  <span className="font-medium text-slate-800 dark:text-slate-100">{site.site}</span>
+                  {site.note && <span className="text-slate-600 dark:text-slate-400">— {site.note}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default ElectronicEffectsPanel;
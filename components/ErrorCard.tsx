@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, X, RotateCcw, PenLine, KeyRound, WifiOff, ShieldAlert, Clock } from 'lucide-react';
+import { AnalysisError, RateLimitError } from '../services/errors';
+import { Translate, UiStringKey } from '../utils/i18n';
+
+interface ErrorCardProps {
+  error: AnalysisError;
+  /** Re-runs the request that failed; omitted when there is nothing to retry */
+  onRetry?: () => void;
+  onDismiss: () => void;
+  t: Translate;
+}
+
+const DEFAULT_RATE_LIMIT_WAIT_MS = 10000;
+
+const TITLES: Record<AnalysisError['kind'], UiStringKey> = {
+  cancelled: 'errorCancelled',
+  'invalid-input': 'errorInvalidInput',
+  auth: 'errorAuth',
+  'rate-limit': 'errorRateLimit',
+  network: 'errorNetwork',
+  safety: 'errorSafety',
+  'malformed-response': 'errorMalformedResponse',
+  'unrecognised-structure': 'errorUnrecognisedStructure',
+  unknown: 'errorUnknown',
+};
+
+const ICONS: Partial<Record<AnalysisError['kind'], React.ElementType>> = {
+  auth: KeyRound,
+  'rate-limit': Clock,
+  network: WifiOff,
+  safety: ShieldAlert,
+  'unrecognised-structure': PenLine,
+};
+
+const REDRAW_TIPS: UiStringKey[] = ['redrawBondTool', 'redrawLabelAtoms', 'redrawMultipleBonds', 'redrawOrType'];
+
+const Code: React.FC<{ children: string }> = ({ children }) => (
+  <code className="font-mono bg-red-100 dark:bg-red-900/40 px-1 rounded">{children}</code>
+);
+
+/** Puts code in place of the placeholders a translated sentence leaves unfilled, wherever the language puts them */
+const withCode = (text: string, code: Record<string, string>) =>
+  text.split(/\{(\w+)\}/).map((part, i) => (i % 2 ? <Code key={i}>{code[part]}</Code> : part));
+
+/** Counts down the server's suggested wait before the retry button unlocks */
+const useCountdown = (error: AnalysisError) => {
+  const waitMs = error instanceof RateLimitError ? error.retryAfterMs ?? DEFAULT_RATE_LIMIT_WAIT_MS : 0;
+  const [secondsLeft, setSecondsLeft] = useState(Math.ceil(waitMs / 1000));
+
+  useEffect(() => {
+    setSecondsLeft(Math.ceil(waitMs / 1000));
+    if (waitMs <= 0) return;
+    const timer = setInterval(() => {
+      setSecondsLeft(prev => {
+        if (prev <= 1) clearInterval(timer);
+        return Math.max(0, prev - 1);
+      });
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [error, waitMs]);
+
+  return secondsLeft;
+};
+
+const ErrorCard: React.FC<ErrorCardProps> = ({ error, onRetry, onDismiss, t }) => {
+  const secondsLeft = useCountdown(error);
+  const Icon = ICONS[error.kind] ?? AlertCircle;
+
+  return (
+    <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 p-4 rounded-xl flex items-start gap-3 animate-fade-in mb-6 shadow-sm print:hidden">
+      <Icon className="mt-0.5 shrink-0" size={20} />
+      <div className="flex-1">
+        <h3 className="font-semibold">{t(TITLES[error.kind])}</h3>
+        <p className="text-sm mt-1">{error.message}</p>
+
+        {error.kind === 'unrecognised-structure' && (
+          <div className="text-sm mt-3">
+            <p className="font-medium">{t('redrawTitle')}</p>
+            <ul className="list-disc list-inside mt-1 space-y-0.5 text-red-600 dark:text-red-300/90">
+              {REDRAW_TIPS.map(tip => <li key={tip}>{t(tip)}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {error.kind === 'auth' && (
+          <div className="text-sm mt-3">
+            <p className="font-medium">{t('apiKeyTitle')}</p>
+            <ol className="list-decimal list-inside mt-1 space-y-0.5 text-red-600 dark:text-red-300/90">
+              <li>{t('apiKeyCreate')}</li>
+              <li>{withCode(t('apiKeyAdd'), { setting: 'API_KEY=your-key', file: '.env.local' })}</li>
+              <li>{withCode(t('apiKeyRestart'), { command: 'npm run dev' })}</li>
+              <li>{withCode(t('apiKeyOffline'), { setting: 'ANALYSIS_PROVIDER=local' })}</li>
+            </ol>
+          </div>
+        )}
+
+        {error.retryable && onRetry && (
+          <button
+            onClick={onRetry}
+            disabled={secondsLeft > 0}
+            className="mt-3 inline-flex items-center gap-2 text-sm font-medium bg-red-100 hover:bg-red-200 dark:bg-red-900/40 dark:hover:bg-red-900/60 text-red-700 dark:text-red-200 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-60 disabled:cursor-wait"
+          >
+            <RotateCcw size={14} />
+            {secondsLeft > 0 ? t('retryIn', { seconds: secondsLeft }) : t('retry')}
+          </button>
+        )}
+      </div>
+      <button
+          onClick={onDismiss}
+          className="text-red-400 hover:text-red-700 dark:hover:text-red-200 transition-colors"
+          title={t('dismiss')}
+      >
+          <X size={20} />
+      </button>
+    </div>
+  );
+};
+
+export default ErrorCard;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { AlertTriangle, Calculator } from 'lucide-react';
+import { FormulaCheck } from '../utils/formula';
+import { Translate } from '../utils/i18n';
+
+interface FormulaPanelProps {
+  check: FormulaCheck;
+  t: Translate;
+}
+
+const formatNumber = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(1));
+
+/** Locally computed facts about the model's formula, so a wrong answer is visible instead of silently trusted */
+const FormulaPanel: React.FC<FormulaPanelProps> = ({ check, t }) => {
+  return (
+    <section className="rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 p-4 transition-colors">
+      <div className="flex items-center gap-2 mb-3 text-slate-700 dark:text-slate-200 font-semibold">
+        <Calculator size={18} className="shrink-0" />
+        <h3>{t('formulaCheck')}</h3>
+        <span className="text-xs font-normal text-slate-400 dark:text-slate-500">{t('computedLocally')}</span>
+      </div>
+
+      {check.parsed && (
+        <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm text-slate-600 dark:text-slate-300">
+          <div>
+            <span className="text-slate-400 dark:text-slate-500">{t('molarMass')} </span>
+            <span className="font-mono font-medium">{check.molarMass?.toFixed(2)} g/mol</span>
+          </div>
+          {check.dbe !== null && (
+            <div title={t('dbeTitle')}>
+              <span className="text-slate-400 dark:text-slate-500">{t('dbe')} </span>
+              <span className="font-mono font-medium">{formatNumber(check.dbe)}</span>
+            </div>
+          )}
+          {check.expectedFormula && (
+            <div>
+              <span className="text-slate-400 dark:text-slate-500">{t('fromName')} </span>
+              <span className="font-mono font-medium">{check.expectedFormula}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {check.composition.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {check.composition.map(({ element, count, massPercent }) => (
+            <span
+              key={element}
+              className="text-xs font-mono px-2 py-1 rounded-md bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300"
+              title={count === 1 ? t('oneAtom') : t('atomCount', { count })}
+            >
+              {element} {massPercent.toFixed(1)}%
+            </span>
+          ))}
+        </div>
+      )}
+
+      {check.warnings.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {check.warnings.map(({ key, values }) => (
+            <li key={key} className="flex gap-2 items-start text-sm text-amber-700 dark:text-amber-300">
+              <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+              <span>{t(key, values)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default FormulaPanel;
@@ -0,0 +1,174 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { History, Search, Pin, PinOff, Trash2, Download, Upload, X, Type, ClipboardCheck } from 'lucide-react';
+import {
+  HistoryEntry,
+  deleteHistoryEntry,
+  entryCurriculum,
+  entryWeakTopics,
+  exportHistory,
+  importHistory,
+  searchHistory,
+  setHistoryPinned,
+} from '../services/history';
+import { Translate } from '../utils/i18n';
+import { formatAge } from '../utils/time';
+import { weakTopics } from '../utils/scoring';
+
+interface HistorySidebarProps {
+  entries: HistoryEntry[];
+  /** Entry currently shown in the result card, highlighted in the list */
+  activeId: string | null;
+  onOpen: (entry: HistoryEntry) => void;
+  /** Receives the stored list after every pin, delete or import */
+  onChange: (entries: HistoryEntry[]) => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({ entries, activeId, onOpen, onChange, onClose, t }) => {
+  const [query, setQuery] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const visible = useMemo(() => searchHistory(entries, query), [entries, query]);
+  // Quiz results across every compound, so a topic missed on several compounds stands out
+  const overallWeakTopics = useMemo(() => weakTopics(entries.flatMap(entry => entry.quizAttempts ?? [])), [entries]);
+
+  const handleExport = () => {
+    const blob = new Blob([exportHistory()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `goc-history-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = importHistory(await file.text());
+      onChange(result.entries);
+      setNotice([t('importedEntries', { count: result.imported }), ...(result.skipped ? [t('importSkipped', { count: result.skipped })] : [])].join(' '));
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : t('importFailed'));
+    }
+  };
+
+  const iconButtonClass = 'p-1.5 rounded-md text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors';
+
+  return (
+    <div className="fixed inset-0 z-30 flex print:hidden">
+      <div className="absolute inset-0 bg-slate-900/30" onClick={onClose} />
+      <aside className="relative w-80 max-w-[85vw] h-full bg-white dark:bg-slate-800 border-r border-slate-200 dark:border-slate-700 shadow-xl flex flex-col animate-fade-in">
+        <div className="p-4 border-b border-slate-200 dark:border-slate-700">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="font-semibold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+              <History size={18} className="text-indigo-500" /> {t('history')}
+            </h2>
+            <div className="flex items-center gap-1">
+              <button onClick={handleExport} disabled={entries.length === 0} className={`${iconButtonClass} disabled:opacity-40`} title={t('exportHistory')}>
+                <Download size={16} />
+              </button>
+              <button onClick={() => fileInputRef.current?.click()} className={iconButtonClass} title={t('importJson')}>
+                <Upload size={16} />
+              </button>
+              <button onClick={onClose} className={iconButtonClass} title={t('close')}>
+                <X size={16} />
+              </button>
+            </div>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          </div>
+          <div className="relative">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('searchHistory')}
+              className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg pl-9 pr-3 py-2 text-sm text-slate-800 dark:text-slate-100 outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          {notice && <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">{notice}</p>}
+          {overallWeakTopics.length > 0 && (
+            <div className="mt-3 text-xs">
+              <p className="text-slate-500 dark:text-slate-400 mb-1">{t('weakTopicsInQuizzes')}</p>
+              <div className="flex flex-wrap gap-1">
+                {overallWeakTopics.map(topic => (
+                  <button
+                    key={topic}
+                    onClick={() => setQuery(topic)}
+                    className="px-2 py-0.5 rounded-full bg-rose-50 dark:bg-rose-900/30 text-rose-700 dark:text-rose-300 hover:bg-rose-100 dark:hover:bg-rose-900/50 transition-colors"
+                    title={t('showWeakTopic')}
+                  >
+                    {topic}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <ul className="flex-1 overflow-y-auto divide-y divide-slate-100 dark:divide-slate-700">
+          {visible.length === 0 && (
+            <li className="p-6 text-center text-sm text-slate-400 dark:text-slate-500">
+              {entries.length === 0 ? t('historyEmpty') : t('noMatches')}
+            </li>
+          )}
+          {visible.map(entry => {
+            const lastAttempt = entry.quizAttempts?.[0];
+            const weak = entryWeakTopics(entry);
+            return (
+            <li
+              key={entry.id}
+              className={`flex items-center gap-3 p-3 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors ${entry.id === activeId ? 'bg-indigo-50 dark:bg-indigo-900/20' : ''}`}
+              onClick={() => onOpen(entry)}
+            >
+              {entry.input.thumbnail ? (
+                <img src={entry.input.thumbnail} alt="" className="w-12 h-12 object-contain rounded-md border border-slate-200 dark:border-slate-600 bg-white shrink-0" />
+              ) : (
+                <div className="w-12 h-12 rounded-md bg-slate-100 dark:bg-slate-700 flex items-center justify-center text-slate-400 shrink-0">
+                  <Type size={18} />
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-slate-800 dark:text-slate-100 truncate">{entry.data.name}</p>
+                <p className="text-xs font-mono text-slate-500 dark:text-slate-400 truncate">{entry.data.molecularFormula}</p>
+                <p className="text-xs text-slate-400 dark:text-slate-500 truncate">{entryCurriculum(entry)} · {formatAge(entry.createdAt, t)}</p>
+                {lastAttempt && (
+                  <p className="text-xs text-violet-600 dark:text-violet-300 flex items-center gap-1 mt-0.5" title={entry.quizAttempts!.length === 1 ? t('oneQuizAttempt') : t('quizAttempts', { count: entry.quizAttempts!.length })}>
+                    <ClipboardCheck size={12} className="shrink-0" /> {t('lastQuiz', { correct: lastAttempt.correct, total: lastAttempt.total })}
+                  </p>
+                )}
+                {weak.length > 0 && (
+                  <p className="text-xs text-rose-600 dark:text-rose-400 truncate" title={weak.join(', ')}>{t('weakTopicList', { topics: weak.join(', ') })}</p>
+                )}
+              </div>
+              <div className="flex flex-col gap-1" onClick={(e) => e.stopPropagation()}>
+                <button
+                  onClick={() => onChange(setHistoryPinned(entry.id, !entry.pinned))}
+                  className={`${iconButtonClass} ${entry.pinned ? 'text-indigo-500' : ''}`}
+                  title={entry.pinned ? t('unpin') : t('pin')}
+                >
+                  {entry.pinned ? <PinOff size={14} /> : <Pin size={14} />}
+                </button>
+                <button
+                  onClick={() => onChange(deleteHistoryEntry(entry.id))}
+                  className={`${iconButtonClass} hover:text-red-600 dark:hover:text-red-400`}
+                  title={t('delete')}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </li>
+            );
+          })}
+        </ul>
+      </aside>
+    </div>
+  );
+};
+
+export default HistorySidebar;
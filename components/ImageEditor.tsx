@@ -0,0 +1,191 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, Crop, Loader2, RotateCcw, RotateCw, Sparkles, Undo2, X } from 'lucide-react';
+import { CropRect, DEFAULT_ADJUSTMENTS, ImageAdjustments, processImage } from '../utils/image';
+import { Translate } from '../utils/i18n';
+
+interface ImageEditorProps {
+  /** Data URL of the uploaded, pasted or captured image */
+  image: string;
+  /** Receives the cleaned-up, downscaled JPEG */
+  onConfirm: (dataUrl: string) => void;
+  onCancel: () => void;
+  t: Translate;
+}
+
+// Preview size only; the final image is rendered from the original at full upload size
+const PREVIEW_SIZE = 720;
+// Settings that usually rescue a photo of a notebook page: drop the paper tint and darken the pencil
+const CLEAN_UP: Pick<ImageAdjustments, 'grayscale' | 'contrast'> = { grayscale: true, contrast: 1.6 };
+// Smaller drags are treated as clicks rather than crops
+const MIN_CROP = 0.03;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/** Crop, rotate and clean up a photo before it is analysed */
+const ImageEditor: React.FC<ImageEditorProps> = ({ image, onConfirm, onCancel, t }) => {
+  const [adjustments, setAdjustments] = useState<ImageAdjustments>(DEFAULT_ADJUSTMENTS);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [dragCrop, setDragCrop] = useState<CropRect | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  // The preview shows the whole rotated image; the crop is drawn on top of it
+  const { rotation, grayscale, contrast } = adjustments;
+  useEffect(() => {
+    let stale = false;
+    processImage(image, { rotation, grayscale, contrast, crop: null }, PREVIEW_SIZE)
+      .then(url => !stale && setPreview(url))
+      .catch(() => !stale && setError(t('imageOpenFailed')));
+    return () => {
+      stale = true;
+    };
+  }, [image, rotation, grayscale, contrast]);
+
+  const update = (changes: Partial<ImageAdjustments>) => setAdjustments(current => ({ ...current, ...changes }));
+  // A crop is stored relative to the rotated image, so turning the image clears it
+  const rotate = (delta: number) => update({ rotation: (rotation + delta + 4) % 4, crop: null });
+
+  const pointerFraction = (event: React.PointerEvent) => {
+    const bounds = frameRef.current!.getBoundingClientRect();
+    return { x: clamp01((event.clientX - bounds.left) / bounds.width), y: clamp01((event.clientY - bounds.top) / bounds.height) };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStartRef.current = pointerFraction(event);
+    setDragCrop(null);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const start = dragStartRef.current;
+    if (!start) return;
+    const point = pointerFraction(event);
+    setDragCrop({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStartRef.current = null;
+    if (dragCrop && dragCrop.width >= MIN_CROP && dragCrop.height >= MIN_CROP) update({ crop: dragCrop });
+    setDragCrop(null);
+  };
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    try {
+      onConfirm(await processImage(image, adjustments));
+    } catch {
+      setError(t('imageProcessFailed'));
+      setIsSaving(false);
+    }
+  };
+
+  const shownCrop = dragCrop ?? adjustments.crop;
+  const toolClass = 'inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors';
+  const idleToolClass = `${toolClass} text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600`;
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/70 p-4 print:hidden">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl w-full max-w-3xl max-h-full overflow-y-auto animate-fade-in">
+        <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="font-semibold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+            <Crop size={18} className="text-indigo-500" /> {t('prepareImage')}
+          </h2>
+          <button onClick={onCancel} className="p-1.5 rounded-md text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors" title={t('cancel')}>
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <p className="text-xs text-slate-500 dark:text-slate-400">{t('cropHint')}</p>
+
+          <div className="flex justify-center bg-slate-100 dark:bg-slate-900 rounded-lg p-2 min-h-[200px]">
+            {preview ? (
+              <div
+                ref={frameRef}
+                className="relative inline-block cursor-crosshair touch-none select-none"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+              >
+                <img src={preview} alt={t('preview')} className="block max-h-[55vh] max-w-full" draggable={false} />
+                {shownCrop && (
+                  <div
+                    className="absolute border-2 border-indigo-500 shadow-[0_0_0_9999px_rgba(15,23,42,0.5)] pointer-events-none"
+                    style={{
+                      left: `${shownCrop.x * 100}%`,
+                      top: `${shownCrop.y * 100}%`,
+                      width: `${shownCrop.width * 100}%`,
+                      height: `${shownCrop.height * 100}%`,
+                    }}
+                  />
+                )}
+              </div>
+            ) : error ? (
+              <p className="self-center text-sm text-red-600 dark:text-red-400">{error}</p>
+            ) : (
+              <Loader2 size={24} className="self-center animate-spin text-slate-400" />
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={() => rotate(-1)} className={idleToolClass} title={t('rotateLeft')}>
+              <RotateCcw size={16} />
+            </button>
+            <button onClick={() => rotate(1)} className={idleToolClass} title={t('rotateRight')}>
+              <RotateCw size={16} />
+            </button>
+            <button
+              onClick={() => update(CLEAN_UP)}
+              className={grayscale && contrast === CLEAN_UP.contrast ? `${toolClass} bg-indigo-600 text-white` : idleToolClass}
+              title={t('cleanUpTitle')}
+            >
+              <Sparkles size={16} /> {t('cleanUp')}
+            </button>
+            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={grayscale} onChange={(e) => update({ grayscale: e.target.checked })} className="accent-indigo-600" />
+              {t('grayscale')}
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+              {t('contrast')}
+              <input
+                type="range"
+                min={0.5}
+                max={2.5}
+                step={0.1}
+                value={contrast}
+                onChange={(e) => update({ contrast: Number(e.target.value) })}
+                className="w-28 accent-indigo-600"
+              />
+            </label>
+            <button onClick={() => setAdjustments(DEFAULT_ADJUSTMENTS)} className={idleToolClass} title={t('resetTitle')}>
+              <Undo2 size={16} /> {t('reset')}
+            </button>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-slate-200 dark:border-slate-700">
+          <button onClick={onCancel} className={idleToolClass}>
+            {t('cancel')}
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={!preview || isSaving}
+            className="inline-flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-wait"
+          >
+            {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Check size={16} />} {t('useImage')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageEditor;
@@ -0,0 +1,63 @@
+import React, { useRef, useState } from 'react';
+import { Camera, ImageUp } from 'lucide-react';
+import CameraCapture from './CameraCapture';
+import { Translate } from '../utils/i18n';
+
+interface ImageInputProps {
+  /** Receives the chosen file; reading and decoding is left to the caller so paste and drop share one path */
+  onFile: (file: Blob) => void;
+  /** Receives a captured camera frame as a data URL */
+  onImage: (dataUrl: string) => void;
+  isProcessing: boolean;
+  t: Translate;
+}
+
+/** Upload or photograph a textbook page or handwritten notes */
+const ImageInput: React.FC<ImageInputProps> = ({ onFile, onImage, isProcessing, t }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Clearing the value lets the same file be chosen again after a cancelled edit
+    event.target.value = '';
+    if (file) onFile(file);
+  };
+
+  const buttonClass =
+    'flex-1 inline-flex items-center justify-center gap-2 bg-slate-100 hover:bg-slate-200 dark:bg-slate-700 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-200 px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6 transition-colors duration-300">
+      <h2 className="font-semibold text-slate-700 dark:text-slate-200 mb-3 flex items-center gap-2">
+        <span className="w-2 h-2 rounded-full bg-sky-500 shadow-[0_0_8px_rgba(14,165,233,0.6)]"></span>
+        {t('usePhoto')}
+      </h2>
+      <div className="flex gap-2">
+        <button onClick={() => fileInputRef.current?.click()} disabled={isProcessing} className={buttonClass}>
+          <ImageUp size={16} /> {t('upload')}
+        </button>
+        <button onClick={() => setIsCameraOpen(true)} disabled={isProcessing} className={buttonClass}>
+          <Camera size={16} /> {t('camera')}
+        </button>
+      </div>
+      <p className="mt-3 text-xs text-slate-400 dark:text-slate-500">
+        {t('photoHint')}
+      </p>
+      <input ref={fileInputRef} type="file" accept="image/*,.heic,.heif" className="hidden" onChange={handleFileChange} />
+
+      {isCameraOpen && (
+        <CameraCapture
+          onCapture={(dataUrl) => {
+            setIsCameraOpen(false);
+            onImage(dataUrl);
+          }}
+          onClose={() => setIsCameraOpen(false)}
+          t={t}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ImageInput;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Translate } from '../utils/i18n';
+
+interface MechanismPanelProps {
+  reagent: string;
+  onReagentChange: (reagent: string) => void;
+  isProcessing: boolean;
+  t: Translate;
+}
+
+// Reagents whose conditions decide the mechanism, as they are usually written in NCERT and JEE papers
+const COMMON_REAGENTS = ['alc. KOH', 'aq. KOH', 'HBr', 'HBr / peroxide', 'conc. H2SO4, 443 K', 'NaOEt / EtOH', 't-BuOK', 'Br2 / CCl4'];
+
+const MechanismPanel: React.FC<MechanismPanelProps> = ({ reagent, onReagentChange, isProcessing, t }) => (
+  <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6 transition-colors duration-300">
+    <h2 className="font-semibold text-slate-700 dark:text-slate-200 mb-1 flex items-center gap-2">
+      <span className="w-2 h-2 rounded-full bg-teal-500 shadow-[0_0_8px_rgba(20,184,166,0.6)]"></span>
+      {t('reagentConditions')}
+    </h2>
+    <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+      {t('reagentHint')}
+    </p>
+    <input
+      type="text"
+      value={reagent}
+      onChange={(e) => onReagentChange(e.target.value)}
+      disabled={isProcessing}
+      placeholder={t('reagentPlaceholder')}
+      aria-label={t('reagentLabel')}
+      className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-4 py-2 text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none transition-all placeholder:text-slate-400 dark:placeholder:text-slate-600 disabled:opacity-60"
+    />
+    <div className="mt-3 flex flex-wrap gap-2">
+      {COMMON_REAGENTS.map(option => (
+        <button
+          key={option}
+          onClick={() => onReagentChange(option)}
+          disabled={isProcessing}
+          className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors disabled:opacity-50 ${reagent === option ? 'bg-teal-600 border-teal-600 text-white' : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:border-teal-300'}`}
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default MechanismPanel;
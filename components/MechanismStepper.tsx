@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Hourglass, Lightbulb, ShieldAlert, Workflow } from 'lucide-react';
+import { EducationLevel, IntermediateKind, MechanismResult } from '../types';
+import MoleculeDiagram from './MoleculeDiagram';
+import { Translate, UiStringKey } from '../utils/i18n';
+
+interface MechanismStepperProps {
+  result: MechanismResult;
+  /** Selected curriculum level; deeper levels see more of the mechanism */
+  level: EducationLevel;
+  t: Translate;
+}
+
+const LEVEL_ORDER = Object.values(EducationLevel);
+
+// Lowest level at which each part is shown; Foundation students get the steps in words and the main product
+const MIN_LEVEL = {
+  curlyArrows: EducationLevel.BOARD_LEVEL,
+  intermediates: EducationLevel.BOARD_LEVEL,
+  rateDeterminingStep: EducationLevel.BOARD_LEVEL,
+  minorProducts: EducationLevel.BOARD_LEVEL,
+  intermediateStability: EducationLevel.COMPETITIVE,
+  rateLaw: EducationLevel.COMPETITIVE,
+  examTip: EducationLevel.COMPETITIVE,
+  stereochemistry: EducationLevel.UNDERGRADUATE,
+};
+
+const INTERMEDIATE_CLASSES: Record<IntermediateKind, string> = {
+  carbocation: 'bg-rose-100 text-rose-700 dark:bg-rose-900/40 dark:text-rose-300',
+  carbanion: 'bg-sky-100 text-sky-700 dark:bg-sky-900/40 dark:text-sky-300',
+  radical: 'bg-violet-100 text-violet-700 dark:bg-violet-900/40 dark:text-violet-300',
+  other: 'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-200',
+};
+
+const INTERMEDIATE_NAMES: Record<IntermediateKind, UiStringKey> = {
+  carbocation: 'carbocation',
+  carbanion: 'carbanion',
+  radical: 'radical',
+  other: 'intermediate',
+};
+
+/** Walks through a mechanism one elementary step at a time, drawing each step's species with its curly arrows */
+const MechanismStepper: React.FC<MechanismStepperProps> = ({ result, level, t }) => {
+  const { steps, rateDeterminingStep, products } = result;
+  const [index, setIndex] = useState(0);
+
+  // Start over for a new mechanism only
+  const signature = steps.map(step => step.title).join('|');
+  useEffect(() => setIndex(0), [signature]);
+
+  const shows = (part: keyof typeof MIN_LEVEL) => LEVEL_ORDER.indexOf(level) >= LEVEL_ORDER.indexOf(MIN_LEVEL[part]);
+  const repairedFields = result.meta?.repairedFields ?? [];
+  const current = steps[Math.min(index, steps.length - 1)];
+  const step = (delta: number) => setIndex(i => Math.max(0, Math.min(steps.length - 1, i + delta)));
+  const visibleProducts = shows('minorProducts') ? products : products.filter(product => product.role === 'major');
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg border border-slate-200 dark:border-slate-700 overflow-hidden animate-fade-in transition-colors duration-300">
+      <div className="bg-gradient-to-r from-teal-600 to-cyan-600 dark:from-teal-700 dark:to-cyan-700 p-6 text-white">
+        <div className="flex items-center gap-2 text-teal-100 text-sm font-medium mb-1">
+          <Workflow size={16} /> {result.mechanismType || t('reactionMechanism')}
+        </div>
+        <h2 className="text-2xl font-bold tracking-tight">{result.reaction}</h2>
+      </div>
+
+      {repairedFields.length > 0 && (
+        <div className="mx-6 mt-6 flex items-start gap-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-200 rounded-lg p-3 text-sm transition-colors">
+          <ShieldAlert size={18} className="shrink-0 mt-0.5" />
+          <p>
+            <span className="font-semibold">{t('partiallyVerified')}</span>{' '}
+            {t('repairedDetail')}{' '}
+            <span className="font-mono text-xs">{repairedFields.join(', ')}</span>
+          </p>
+        </div>
+      )}
+
+      <div className="p-6 space-y-6">
+        {/* Step numbers; the slow step is marked from Class 11-12, where rate-determining steps are introduced */}
+        <div className="flex items-center gap-2 print:hidden">
+          <button
+            onClick={() => step(-1)}
+            disabled={index === 0}
+            className="p-1.5 rounded-full text-slate-500 hover:bg-teal-100 dark:hover:bg-teal-900/40 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+            title={t('previousStep')}
+          >
+            <ChevronLeft size={20} />
+          </button>
+          <ol className="flex flex-1 flex-wrap items-center gap-2" aria-label={t('mechanismSteps')}>
+            {steps.map((s, i) => (
+              <li key={i}>
+                <button
+                  onClick={() => setIndex(i)}
+                  title={s.title}
+                  aria-current={i === index ? 'step' : undefined}
+                  className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${i === index ? 'bg-teal-600 border-teal-600 text-white' : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:border-teal-300'}`}
+                >
+                  {t('stepNumber', { index: i + 1 })}
+                  {shows('rateDeterminingStep') && i === rateDeterminingStep && <Hourglass size={13} aria-label={t('rateDetermining')} />}
+                </button>
+              </li>
+            ))}
+          </ol>
+          <button
+            onClick={() => step(1)}
+            disabled={index >= steps.length - 1}
+            className="p-1.5 rounded-full text-slate-500 hover:bg-teal-100 dark:hover:bg-teal-900/40 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+            title={t('nextStep')}
+          >
+            <ChevronRight size={20} />
+          </button>
+        </div>
+
+        <section className="bg-teal-50/40 dark:bg-teal-900/10 border border-teal-100 dark:border-teal-900/50 rounded-lg p-5 transition-colors">
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            <h3 className="font-semibold text-slate-800 dark:text-slate-100">
+              {index + 1}. {current.title}
+            </h3>
+            {shows('rateDeterminingStep') && index === rateDeterminingStep && steps.length > 1 && (
+              <span className="inline-flex items-center gap-1 text-xs font-semibold px-2 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300">
+                <Hourglass size={12} /> {t('slowStep')}
+              </span>
+            )}
+          </div>
+
+          {current.smiles && (
+            <div className="bg-white dark:bg-slate-800 rounded-lg border border-teal-100 dark:border-teal-900/50 p-2">
+              <MoleculeDiagram
+                smiles={current.smiles}
+                arrows={shows('curlyArrows') ? current.arrows : []}
+                showLonePairs={shows('curlyArrows')}
+                className="w-full h-52"
+                title={current.title}
+              />
+            </div>
+          )}
+
+          {current.description && <p className="mt-3 text-sm text-slate-700 dark:text-slate-300 leading-relaxed">{current.description}</p>}
+
+          {shows('curlyArrows') && current.arrowDescriptions.length > 0 && (
+            <ul className="mt-3 space-y-1 text-sm text-rose-700 dark:text-rose-300">
+              {current.arrowDescriptions.map((description, i) => (
+                <li key={i} className="flex gap-2">
+                  <span aria-hidden="true">↷</span> {description}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {shows('intermediates') && current.intermediate && (
+            <div className="mt-4 flex gap-3 items-start bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-3">
+              {current.intermediate.smiles && (
+                <MoleculeDiagram smiles={current.intermediate.smiles} showLonePairs className="h-16 w-24 shrink-0" title={current.intermediate.name} />
+              )}
+              <div className="text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${INTERMEDIATE_CLASSES[current.intermediate.kind]}`}>
+                    {t(INTERMEDIATE_NAMES[current.intermediate.kind])}
+                  </span>
+                  <span className="font-medium text-slate-800 dark:text-slate-100">{current.intermediate.name}</span>
+                </div>
+                {shows('intermediateStability') && current.intermediate.stability && (
+                  <p className="mt-1 text-slate-600 dark:text-slate-400">{current.intermediate.stability}</p>
+                )}
+              </div>
+            </div>
+          )}
+        </section>
+
+        {(shows('rateLaw') && result.rateLaw) || (shows('stereochemistry') && result.stereochemistry) ? (
+          <dl className="grid sm:grid-cols-2 gap-3 text-sm">
+            {shows('rateLaw') && result.rateLaw && (
+              <div className="bg-slate-50 dark:bg-slate-900/50 border border-slate-100 dark:border-slate-700 rounded-lg p-3">
+                <dt className="font-semibold text-slate-700 dark:text-slate-200">{t('kinetics')}</dt>
+                <dd className="text-slate-600 dark:text-slate-400">{result.rateLaw}</dd>
+              </div>
+            )}
+            {shows('stereochemistry') && result.stereochemistry && (
+              <div className="bg-slate-50 dark:bg-slate-900/50 border border-slate-100 dark:border-slate-700 rounded-lg p-3">
+                <dt className="font-semibold text-slate-700 dark:text-slate-200">{t('stereochemistry')}</dt>
+                <dd className="text-slate-600 dark:text-slate-400">{result.stereochemistry}</dd>
+              </div>
+            )}
+          </dl>
+        ) : null}
+
+        <section>
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            <h3 className="font-semibold text-lg text-slate-800 dark:text-slate-100">{t('products')}</h3>
+            {shows('minorProducts') && result.selectivityRule !== 'none' && (
+              <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-teal-100 dark:bg-teal-900/40 text-teal-700 dark:text-teal-300">
+                {t('selectivityRule', { rule: result.selectivityRule })}
+              </span>
+            )}
+          </div>
+          <ul className="grid sm:grid-cols-2 gap-3">
+            {visibleProducts.map((product, i) => (
+              <li key={i} className={`rounded-lg border p-3 ${product.role === 'major' ? 'border-teal-300 dark:border-teal-700 bg-teal-50/50 dark:bg-teal-900/10' : 'border-slate-200 dark:border-slate-700'}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-slate-800 dark:text-slate-100">{product.name}</span>
+                  {visibleProducts.length > 1 && (
+                    <span className={`text-xs font-semibold uppercase tracking-wide ${product.role === 'major' ? 'text-teal-700 dark:text-teal-300' : 'text-slate-400'}`}>
+                      {t(product.role)}
+                    </span>
+                  )}
+                </div>
+                {product.smiles && (
+                  <div className="my-2 bg-white dark:bg-slate-800 rounded-md">
+                    <MoleculeDiagram smiles={product.smiles} className="w-full h-24" title={product.name} />
+                  </div>
+                )}
+                {product.reason && <p className="text-sm text-slate-600 dark:text-slate-400">{product.reason}</p>}
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        {shows('examTip') && result.examTip && (
+          <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl p-4 flex gap-3 items-start transition-colors">
+            <Lightbulb size={20} className="text-amber-600 dark:text-amber-300 shrink-0 mt-0.5" />
+            <div>
+              <h4 className="text-amber-900 dark:text-amber-100 font-bold text-sm mb-1">{t('examTip')}</h4>
+              <p className="text-amber-800 dark:text-amber-200/80 text-sm">{result.examTip}</p>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MechanismStepper;
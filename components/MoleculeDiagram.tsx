@@ -0,0 +1,295 @@
+import React, { useId, useMemo } from 'react';
+import { ElectronArrow, StrokePoint } from '../types';
+import { parseSmiles, SmilesAtom, SmilesMolecule } from '../utils/smiles';
+import { findRings, layoutMolecule } from '../utils/layout';
+import { applyStereo } from '../utils/stereo';
+
+interface MoleculeDiagramProps {
+  smiles: string;
+  /** Curved arrows to draw over the structure (atom indices as in the SMILES) */
+  arrows?: ElectronArrow[];
+  showLonePairs?: boolean;
+  className?: string;
+  title?: string;
+}
+
+const PADDING = 22;
+const LABEL_CLEARANCE = 9;
+const DOUBLE_OFFSET = 3;
+const LONE_PAIR_DISTANCE = 13;
+
+const SUBSCRIPT_DIGITS = ['₀', '₁', '₂', '₃', '₄', '₅', '₆', '₇', '₈', '₉'];
+
+const isLabelled = (atom: SmilesAtom, degree: number) => atom.label !== 'C' || degree === 0;
+
+const hydrogenText = (count: number) =>
+  count === 0 ? '' : count === 1 ? 'H' : `H${String(count).split('').map(d => SUBSCRIPT_DIGITS[Number(d)]).join('')}`;
+
+const chargeText = (charge: number) => {
+  if (charge === 0) return '';
+  const sign = charge > 0 ? '+' : '−';
+  return Math.abs(charge) === 1 ? sign : `${Math.abs(charge)}${sign}`;
+};
+
+const distance = (a: StrokePoint, b: StrokePoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/** Angular distance between two directions, 0..π */
+const angleBetween = (a: number, b: number) => Math.abs(Math.atan2(Math.sin(a - b), Math.cos(a - b)));
+
+/** Picks `count` directions around an atom that keep clear of its bonds (and of each other) */
+const freeSlots = (bondAngles: number[], count: number): number[] => {
+  const candidates = Array.from({ length: 8 }, (_, i) => -Math.PI / 2 + (i * Math.PI) / 4);
+  const chosen: number[] = [];
+  for (let n = 0; n < count; n++) {
+    const blocked = [...bondAngles, ...chosen];
+    const best = candidates
+      .filter(angle => !chosen.includes(angle))
+      .reduce((a, b) => {
+        const clearance = (angle: number) => Math.min(Math.PI, ...blocked.map(other => angleBetween(angle, other)));
+        return clearance(b) > clearance(a) + 1e-6 ? b : a;
+      });
+    chosen.push(best);
+  }
+  return chosen;
+};
+
+interface AtomGeometry {
+  atom: SmilesAtom;
+  labelled: boolean;
+  /** Hydrogens written before the element, because the bonds leave to the right */
+  hydrogensFirst: boolean;
+  bondAngles: number[];
+  /** Direction of the charge sign, clear of bonds and hydrogens */
+  chargeSlot: number;
+  lonePairSlots: number[];
+}
+
+const describeAtoms = (molecule: SmilesMolecule, showLonePairs: boolean): Map<number, AtomGeometry> => {
+  const geometry = new Map<number, AtomGeometry>();
+  molecule.atoms.forEach(atom => {
+    const neighbours = molecule.bonds
+      .filter(bond => bond.from === atom.id || bond.to === atom.id)
+      .map(bond => molecule.atoms[bond.from === atom.id ? bond.to : bond.from]);
+    const bondAngles = neighbours.map(other => Math.atan2(other.y - atom.y, other.x - atom.x));
+    const labelled = isLabelled(atom, neighbours.length);
+    const hydrogensFirst = neighbours.length > 0 && neighbours.every(other => other.x > atom.x + 1);
+    // The hydrogens' side of the label is taken too
+    const textAngles = labelled && atom.hydrogens > 0 ? [hydrogensFirst ? Math.PI : 0] : [];
+    const wantedPairs = showLonePairs && (atom.label !== 'C' || atom.charge < 0) ? atom.lonePairs : 0;
+    const [chargeSlot] = freeSlots([...bondAngles, ...textAngles], 1);
+    geometry.set(atom.id, {
+      atom,
+      labelled,
+      hydrogensFirst,
+      bondAngles,
+      chargeSlot,
+      lonePairSlots: freeSlots([...bondAngles, ...textAngles, ...(atom.charge ? [chargeSlot] : [])], wantedPairs),
+    });
+  });
+  return geometry;
+};
+
+/**
+ * Draws a structure from its SMILES as a skeletal formula in SVG, with wedges for @/@@ centres and cis/trans
+ * double bonds as written. Layout and rendering happen locally (utils/smiles, utils/layout, utils/stereo);
+ * if the SMILES cannot be parsed the raw string is shown instead.
+ */
+const MoleculeDiagram: React.FC<MoleculeDiagramProps> = ({ smiles, arrows = [], showLonePairs = false, className = '', title }) => {
+  const markerId = `arrowhead-${useId().replace(/:/g, '')}`;
+
+  const drawing = useMemo(() => {
+    try {
+      const molecule = applyStereo(layoutMolecule(parseSmiles(smiles)));
+      return { molecule, rings: findRings(molecule), geometry: describeAtoms(molecule, showLonePairs) };
+    } catch {
+      return null;
+    }
+  }, [smiles, showLonePairs]);
+
+  if (!drawing) {
+    return <code className={`block text-xs text-slate-500 dark:text-slate-400 break-all ${className}`}>{smiles}</code>;
+  }
+
+  const { molecule, rings, geometry } = drawing;
+  const atoms = molecule.atoms;
+  const xs = atoms.map(atom => atom.x);
+  const ys = atoms.map(atom => atom.y);
+  const minX = Math.min(...xs) - PADDING;
+  const minY = Math.min(...ys) - PADDING;
+  const width = Math.max(...xs) - Math.min(...xs) + PADDING * 2;
+  const height = Math.max(...ys) - Math.min(...ys) + PADDING * 2;
+  const centre = { x: minX + width / 2, y: minY + height / 2 };
+
+  const trimmed = (from: SmilesAtom, to: SmilesAtom) => {
+    const length = distance(from, to) || 1;
+    const ux = (to.x - from.x) / length;
+    const uy = (to.y - from.y) / length;
+    const startTrim = geometry.get(from.id)!.labelled ? LABEL_CLEARANCE : 0;
+    const endTrim = geometry.get(to.id)!.labelled ? LABEL_CLEARANCE : 0;
+    return {
+      start: { x: from.x + ux * startTrim, y: from.y + uy * startTrim },
+      end: { x: to.x - ux * endTrim, y: to.y - uy * endTrim },
+      normal: { x: -uy, y: ux },
+    };
+  };
+
+  const line = (key: string, a: StrokePoint, b: StrokePoint) => <line key={key} x1={a.x} y1={a.y} x2={b.x} y2={b.y} />;
+
+  const bondElements = molecule.bonds.map(bond => {
+    const from = atoms[bond.from];
+    const to = atoms[bond.to];
+    const { start, end, normal } = trimmed(from, to);
+    const shift = (p: StrokePoint, d: number) => ({ x: p.x + normal.x * d, y: p.y + normal.y * d });
+    const key = `b${bond.id}`;
+
+    if (bond.stereo === 'wedge') {
+      const a = shift(end, 4);
+      const b = shift(end, -4);
+      return <polygon key={key} points={`${start.x},${start.y} ${a.x},${a.y} ${b.x},${b.y}`} fill="currentColor" stroke="none" />;
+    }
+    if (bond.stereo === 'dash') {
+      return (
+        <g key={key}>
+          {Array.from({ length: 6 }, (_, i) => {
+            const t = (i + 1) / 6;
+            const p = { x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t };
+            return line(`${key}-${i}`, shift(p, 4 * t), shift(p, -4 * t));
+          })}
+        </g>
+      );
+    }
+    if (bond.order === 3) {
+      return <g key={key}>{line(`${key}a`, start, end)}{line(`${key}b`, shift(start, 4), shift(end, 4))}{line(`${key}c`, shift(start, -4), shift(end, -4))}</g>;
+    }
+    if (bond.order === 2) {
+      // Ring double bonds keep the outline and draw a shorter second line inside the ring
+      const ring = rings.find(r => r.includes(bond.from) && r.includes(bond.to));
+      if (ring) {
+        const ringCentre = ring.reduce((sum, id) => ({ x: sum.x + atoms[id].x / ring.length, y: sum.y + atoms[id].y / ring.length }), { x: 0, y: 0 });
+        const side = (ringCentre.x - start.x) * normal.x + (ringCentre.y - start.y) * normal.y > 0 ? 1 : -1;
+        const inset = 0.15;
+        const a = { x: start.x + (end.x - start.x) * inset, y: start.y + (end.y - start.y) * inset };
+        const b = { x: end.x - (end.x - start.x) * inset, y: end.y - (end.y - start.y) * inset };
+        return <g key={key}>{line(`${key}a`, start, end)}{line(`${key}b`, shift(a, side * DOUBLE_OFFSET * 2), shift(b, side * DOUBLE_OFFSET * 2))}</g>;
+      }
+      return <g key={key}>{line(`${key}a`, shift(start, DOUBLE_OFFSET), shift(end, DOUBLE_OFFSET))}{line(`${key}b`, shift(start, -DOUBLE_OFFSET), shift(end, -DOUBLE_OFFSET))}</g>;
+    }
+    return line(key, start, end);
+  });
+
+  const atomElements = atoms.map(atom => {
+    const info = geometry.get(atom.id)!;
+    const hydrogens = info.labelled ? hydrogenText(atom.hydrogens) : '';
+    // The element stays centred on the atom; hydrogens hang off whichever side is free
+    const elementHalfWidth = atom.label.length * 4.5 + 0.5;
+    const charge = chargeText(atom.charge);
+    const chargeReach = info.labelled ? 13 : 10;
+    const chargePosition = { x: atom.x + Math.cos(info.chargeSlot) * chargeReach, y: atom.y + Math.sin(info.chargeSlot) * chargeReach };
+
+    return (
+      <g key={`a${atom.id}`} fill="currentColor" stroke="none" fontWeight={600}>
+        {info.labelled && (
+          <text x={atom.x} y={atom.y} textAnchor="middle" dominantBaseline="central" fontSize={15}>{atom.label}</text>
+        )}
+        {hydrogens && (
+          <text
+            x={info.hydrogensFirst ? atom.x - elementHalfWidth : atom.x + elementHalfWidth}
+            y={atom.y}
+            textAnchor={info.hydrogensFirst ? 'end' : 'start'}
+            dominantBaseline="central"
+            fontSize={15}
+          >
+            {hydrogens}
+          </text>
+        )}
+        {charge && (
+          <text x={chargePosition.x} y={chargePosition.y} textAnchor="middle" dominantBaseline="central" fontSize={12}>{charge}</text>
+        )}
+        {info.lonePairSlots.map((angle, i) => {
+          const reach = info.labelled ? LONE_PAIR_DISTANCE : LONE_PAIR_DISTANCE - 5;
+          const cx = atom.x + Math.cos(angle) * reach;
+          const cy = atom.y + Math.sin(angle) * reach;
+          const px = -Math.sin(angle) * 2.5;
+          const py = Math.cos(angle) * 2.5;
+          return (
+            <g key={`lp${i}`}>
+              <circle cx={cx + px} cy={cy + py} r={1.5} />
+              <circle cx={cx - px} cy={cy - py} r={1.5} />
+            </g>
+          );
+        })}
+      </g>
+    );
+  });
+
+  // Bond arrows start and end at the bond's midpoint, atom arrows at the atom
+  const arrowEnd = (indices: number[]): StrokePoint | null => {
+    const ends = indices.map(index => atoms[index]);
+    if (ends.some(atom => !atom)) return null;
+    if (ends.length === 2) return { x: (ends[0].x + ends[1].x) / 2, y: (ends[0].y + ends[1].y) / 2 };
+    return { x: ends[0].x, y: ends[0].y };
+  };
+
+  const arrowElements = arrows.map((arrow, index) => {
+    let start = arrowEnd(arrow.from);
+    let end = arrowEnd(arrow.to);
+    if (!start || !end) return null;
+    if (arrow.from.length === 1) {
+      // A lone-pair arrow leaves from the drawn pair nearest to where the electrons go
+      const from = start;
+      const slots = geometry.get(arrow.from[0])!.lonePairSlots;
+      const towards = Math.atan2(end.y - from.y, end.x - from.x);
+      const slot = slots.length ? slots.reduce((a, b) => (angleBetween(b, towards) < angleBetween(a, towards) ? b : a)) : towards;
+      start = { x: from.x + Math.cos(slot) * LONE_PAIR_DISTANCE, y: from.y + Math.sin(slot) * LONE_PAIR_DISTANCE };
+    }
+    if (distance(start, end) < 1) return null;
+    if (arrow.to.length === 1) {
+      // Stop short of the receiving atom's label
+      const length = distance(start, end);
+      end = { x: end.x - ((end.x - start.x) / length) * 10, y: end.y - ((end.y - start.y) / length) * 10 };
+    }
+    const mid = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+    const length = distance(start, end);
+    let normal = { x: -(end.y - start.y) / length, y: (end.x - start.x) / length };
+    // Bow outwards, away from the middle of the molecule
+    if ((mid.x - centre.x) * normal.x + (mid.y - centre.y) * normal.y < 0) normal = { x: -normal.x, y: -normal.y };
+    const bow = Math.max(14, length * 0.45);
+    const control = { x: mid.x + normal.x * bow, y: mid.y + normal.y * bow };
+    return (
+      <path
+        key={`arrow${index}`}
+        d={`M ${start.x} ${start.y} Q ${control.x} ${control.y} ${end.x} ${end.y}`}
+        fill="none"
+        className="stroke-rose-500"
+        strokeWidth={1.6}
+        markerEnd={`url(#${markerId})`}
+      />
+    );
+  });
+
+  // Arrows bow outside the atoms, so leave room for them
+  const arrowMargin = arrows.length ? 18 : 0;
+
+  return (
+    <svg
+      viewBox={`${minX - arrowMargin} ${minY - arrowMargin} ${width + arrowMargin * 2} ${height + arrowMargin * 2}`}
+      className={`text-slate-800 dark:text-slate-100 ${className}`}
+      role="img"
+      aria-label={title ?? smiles}
+    >
+      {title && <title>{title}</title>}
+      <defs>
+        <marker id={markerId} viewBox="0 0 10 10" refX="8" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" className="fill-rose-500" />
+        </marker>
+      </defs>
+      <g stroke="currentColor" strokeWidth={2} strokeLinecap="round">
+        {bondElements}
+      </g>
+      {atomElements}
+      {arrowElements}
+    </svg>
+  );
+};
+
+export default MoleculeDiagram;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Clock, Loader2, WifiOff, X } from 'lucide-react';
+import { AnalysisError } from '../services/errors';
+import { HistoryEntry } from '../services/history';
+import { Translate } from '../utils/i18n';
+
+interface OfflineBannerProps {
+  isOnline: boolean;
+  /** Drawings still waiting in the offline queue */
+  queued: number;
+  isSyncing: boolean;
+  /** Queued drawings analysed since the banner was last dismissed */
+  synced: HistoryEntry[];
+  failures: AnalysisError[];
+  onOpen: (entry: HistoryEntry) => void;
+  onDismiss: () => void;
+  t: Translate;
+}
+
+/** Connection status and the drawings kept while offline; renders nothing when there is nothing to report */
+const OfflineBanner: React.FC<OfflineBannerProps> = ({ isOnline, queued, isSyncing, synced, failures, onOpen, onDismiss, t }) => {
+  if (isOnline && queued === 0 && synced.length === 0 && failures.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 dark:bg-amber-900/20 border-b border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-200 print:hidden transition-colors duration-300">
+      <div className="max-w-7xl mx-auto px-4 py-2.5 flex items-start gap-3 text-sm">
+        {isOnline ? <Clock size={18} className="mt-0.5 shrink-0" /> : <WifiOff size={18} className="mt-0.5 shrink-0" />}
+        <div className="flex-1 space-y-1">
+          {!isOnline && (
+            <p>
+              <span className="font-semibold">{t('offlineTitle')}</span> — {t('offlineHint')}
+            </p>
+          )}
+          {queued > 0 && (
+            <p className="flex items-center gap-2">
+              {isSyncing ? <><Loader2 size={14} className="animate-spin" /> {t('syncingDrawings')}</> : t('queuedDrawings', { count: queued })}
+            </p>
+          )}
+          {synced.length > 0 && (
+            <p className="flex flex-wrap items-center gap-2">
+              {t('syncedDrawings')}
+              {synced.map(entry => (
+                <button
+                  key={entry.id}
+                  onClick={() => onOpen(entry)}
+                  className="font-medium text-indigo-600 dark:text-indigo-300 hover:underline"
+                >
+                  {entry.data.name}
+                </button>
+              ))}
+            </p>
+          )}
+          {failures.map((failure, index) => (
+            <p key={index} className="text-red-700 dark:text-red-300">{t('queuedFailed', { message: failure.message })}</p>
+          ))}
+        </div>
+        {(synced.length > 0 || failures.length > 0) && (
+          <button
+            onClick={onDismiss}
+            className="text-amber-500 hover:text-amber-800 dark:hover:text-amber-100 transition-colors"
+            title={t('dismiss')}
+          >
+            <X size={18} />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OfflineBanner;
@@ -0,0 +1,219 @@
+import React, { useRef, useState } from 'react';
+import { SlidersHorizontal, Copy, Save, Trash2, Download, Upload, X, Lock } from 'lucide-react';
+import { CurriculumProfile, EducationLevel } from '../types';
+import { deleteProfile, duplicateProfile, exportProfiles, importProfiles, MAX_PROFILE_TOPICS, saveProfile } from '../services/curriculum';
+import { Translate } from '../utils/i18n';
+
+interface ProfileEditorProps {
+  profiles: CurriculumProfile[];
+  /** Profile new requests use, highlighted in the list */
+  activeId: string;
+  /** Makes the profile the one new requests use */
+  onSelect: (profile: CurriculumProfile) => void;
+  /** Receives every profile after a save, delete or import */
+  onChange: (profiles: CurriculumProfile[]) => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+const fieldClass = 'w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-800 dark:text-slate-100 outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-70';
+const labelClass = 'block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1';
+
+const ProfileEditor: React.FC<ProfileEditorProps> = ({ profiles, activeId, onSelect, onChange, onClose, t }) => {
+  const [draft, setDraft] = useState<CurriculumProfile>(() => profiles.find(profile => profile.id === activeId) ?? profiles[0]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const readOnly = !!draft.builtIn;
+  const isStored = profiles.some(profile => profile.id === draft.id);
+
+  const update = (changes: Partial<CurriculumProfile>) => setDraft(current => ({ ...current, ...changes }));
+
+  const open = (profile: CurriculumProfile) => {
+    setDraft(profile);
+    setNotice(null);
+  };
+
+  const handleDuplicate = () => open(duplicateProfile(draft));
+
+  const handleSave = () => {
+    try {
+      const saved = saveProfile(draft);
+      onChange(saved);
+      const stored = saved.find(profile => profile.id === draft.id);
+      if (stored) {
+        setDraft(stored);
+        onSelect(stored);
+      }
+      setNotice(t('profileSaved'));
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : t('saveFailed'));
+    }
+  };
+
+  const handleDelete = () => {
+    const remaining = deleteProfile(draft.id);
+    onChange(remaining);
+    open(remaining.find(profile => profile.id === activeId) ?? remaining[0]);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportProfiles()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `goc-profiles-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = importProfiles(await file.text());
+      onChange(result.profiles);
+      setNotice([t('importedProfiles', { count: result.imported }), ...(result.skipped ? [t('importSkipped', { count: result.skipped })] : [])].join(' '));
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : t('importFailed'));
+    }
+  };
+
+  const iconButtonClass = 'p-1.5 rounded-md text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors';
+  const hasCustom = profiles.some(profile => !profile.builtIn);
+
+  return (
+    <div className="fixed inset-0 z-30 flex justify-end print:hidden">
+      <div className="absolute inset-0 bg-slate-900/30" onClick={onClose} />
+      <aside className="relative w-[26rem] max-w-[90vw] h-full bg-white dark:bg-slate-800 border-l border-slate-200 dark:border-slate-700 shadow-xl flex flex-col animate-fade-in">
+        <div className="p-4 border-b border-slate-200 dark:border-slate-700">
+          <div className="flex items-center justify-between">
+            <h2 className="font-semibold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+              <SlidersHorizontal size={18} className="text-indigo-500" /> {t('curriculumProfiles')}
+            </h2>
+            <div className="flex items-center gap-1">
+              <button onClick={handleExport} disabled={!hasCustom} className={`${iconButtonClass} disabled:opacity-40`} title={t('exportProfiles')}>
+                <Download size={16} />
+              </button>
+              <button onClick={() => fileInputRef.current?.click()} className={iconButtonClass} title={t('importJson')}>
+                <Upload size={16} />
+              </button>
+              <button onClick={onClose} className={iconButtonClass} title={t('close')}>
+                <X size={16} />
+              </button>
+            </div>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          </div>
+          {notice && <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">{notice}</p>}
+        </div>
+
+        <ul className="max-h-56 overflow-y-auto divide-y divide-slate-100 dark:divide-slate-700 border-b border-slate-200 dark:border-slate-700">
+          {profiles.map(profile => (
+            <li
+              key={profile.id}
+              className={`flex items-center gap-2 px-4 py-2 text-sm cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors ${profile.id === draft.id ? 'bg-indigo-50 dark:bg-indigo-900/20' : ''}`}
+              onClick={() => open(profile)}
+            >
+              <span className="flex-1 truncate text-slate-800 dark:text-slate-100">{profile.name}</span>
+              {profile.id === activeId && <span className="text-xs text-indigo-600 dark:text-indigo-300">{t('inUse')}</span>}
+              {profile.builtIn && <Lock size={12} className="text-slate-400 shrink-0" aria-label={t('builtIn')} />}
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {readOnly && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {t('builtInProfileNote')}
+            </p>
+          )}
+          <div>
+            <label htmlFor="profile-name" className={labelClass}>{t('name')}</label>
+            <input id="profile-name" value={draft.name} disabled={readOnly} onChange={(e) => update({ name: e.target.value })} className={fieldClass} />
+          </div>
+          <div>
+            <label htmlFor="profile-level" className={labelClass}>{t('basedOnLevel')}</label>
+            <select
+              id="profile-level"
+              value={draft.baseLevel}
+              disabled={readOnly}
+              onChange={(e) => update({ baseLevel: e.target.value as EducationLevel })}
+              className={fieldClass}
+            >
+              {Object.values(EducationLevel).map(level => (
+                <option key={level} value={level}>{level}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-slate-400 dark:text-slate-500">{t('basedOnLevelHint')}</p>
+          </div>
+          <div>
+            <label htmlFor="profile-depth" className={labelClass}>{t('depthGuidance')}</label>
+            <textarea id="profile-depth" rows={3} value={draft.depth} disabled={readOnly} onChange={(e) => update({ depth: e.target.value })} className={fieldClass} />
+          </div>
+          <div>
+            <label htmlFor="profile-emphasise" className={labelClass}>{t('topicsToEmphasise', { max: MAX_PROFILE_TOPICS })}</label>
+            <textarea
+              id="profile-emphasise"
+              rows={4}
+              value={draft.emphasise.join('\n')}
+              disabled={readOnly}
+              onChange={(e) => update({ emphasise: e.target.value.split('\n') })}
+              className={fieldClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="profile-skip" className={labelClass}>{t('topicsToSkip')}</label>
+            <textarea
+              id="profile-skip"
+              rows={3}
+              value={draft.skip.join('\n')}
+              disabled={readOnly}
+              onChange={(e) => update({ skip: e.target.value.split('\n') })}
+              className={fieldClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="profile-exam" className={labelClass}>{t('examTaggingStyle')}</label>
+            <textarea id="profile-exam" rows={2} value={draft.examStyle} disabled={readOnly} onChange={(e) => update({ examStyle: e.target.value })} className={fieldClass} />
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-200 dark:border-slate-700 flex flex-wrap items-center gap-2">
+          {readOnly ? (
+            <button
+              onClick={() => onSelect(draft)}
+              disabled={draft.id === activeId}
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50 transition-colors"
+            >
+              {t('useProfile')}
+            </button>
+          ) : (
+            <button
+              onClick={handleSave}
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white transition-colors"
+            >
+              <Save size={16} /> {t('saveAndUse')}
+            </button>
+          )}
+          <button
+            onClick={handleDuplicate}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+          >
+            <Copy size={16} /> {t('duplicate')}
+          </button>
+          {!readOnly && isStored && (
+            <button
+              onClick={handleDelete}
+              className="ml-auto inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+            >
+              <Trash2 size={16} /> {t('delete')}
+            </button>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default ProfileEditor;
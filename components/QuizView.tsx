@@ -0,0 +1,294 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, CheckCircle2, ChevronLeft, ChevronRight, ClipboardCheck, RotateCcw, ShieldAlert, Timer, XCircle } from 'lucide-react';
+import { AssertionReasonChoice, Quiz, QuizAttempt, QuizQuestion } from '../types';
+import { ASSERTION_REASON_CHOICES, QuizResponse, correctResponse, isCorrect, scoreQuiz } from '../utils/scoring';
+import { formatDuration } from '../utils/time';
+import { Translate, UiStringKey } from '../utils/i18n';
+
+interface QuizViewProps {
+  quiz: Quiz;
+  /** Called once per submitted attempt, so the score can be kept with the compound */
+  onFinish: (attempt: QuizAttempt) => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+const TYPE_LABELS: Record<QuizQuestion['type'], UiStringKey> = {
+  mcq: 'mcq',
+  'assertion-reason': 'assertionReason',
+  integer: 'integerType',
+};
+
+const ASSERTION_REASON_LABELS: Record<AssertionReasonChoice, UiStringKey> = {
+  [AssertionReasonChoice.BOTH_TRUE_EXPLAINS]: 'bothTrueExplains',
+  [AssertionReasonChoice.BOTH_TRUE_NOT_EXPLAINS]: 'bothTrueNotExplains',
+  [AssertionReasonChoice.ONLY_ASSERTION_TRUE]: 'onlyAssertionTrue',
+  [AssertionReasonChoice.ONLY_REASON_TRUE]: 'onlyReasonTrue',
+};
+
+const OPTION_LETTERS = ['A', 'B', 'C', 'D', 'E'];
+
+const choicesFor = (question: QuizQuestion, t: Translate) =>
+  question.type === 'mcq'
+    ? question.options
+    : question.type === 'assertion-reason' ? ASSERTION_REASON_CHOICES.map(choice => t(ASSERTION_REASON_LABELS[choice])) : [];
+
+const describeResponse = (question: QuizQuestion, response: QuizResponse, t: Translate) => {
+  if (response === null) return t('notAnswered');
+  if (question.type === 'integer') return String(response);
+  return `(${OPTION_LETTERS[response]}) ${choicesFor(question, t)[response]}`;
+};
+
+const QuestionText: React.FC<{ question: QuizQuestion; t: Translate }> = ({ question, t }) =>
+  question.type === 'assertion-reason' ? (
+    <div className="space-y-2 text-slate-800 dark:text-slate-100">
+      <p><span className="font-semibold">{t('assertionLabel')}</span> {question.assertion}</p>
+      <p><span className="font-semibold">{t('reasonLabel')}</span> {question.reason}</p>
+    </div>
+  ) : (
+    <p className="text-slate-800 dark:text-slate-100">{question.question}</p>
+  );
+
+/** Timed self-test on the current compound, marked JEE-style, with a review of every question missed */
+const QuizView: React.FC<QuizViewProps> = ({ quiz, onFinish, onClose, t }) => {
+  const { questions } = quiz;
+  const [index, setIndex] = useState(0);
+  const [responses, setResponses] = useState<QuizResponse[]>(() => questions.map(() => null));
+  const [startedAt, setStartedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(() => Date.now());
+  const [attempt, setAttempt] = useState<QuizAttempt | null>(null);
+
+  const restart = () => {
+    setIndex(0);
+    setResponses(questions.map(() => null));
+    setStartedAt(Date.now());
+    setNow(Date.now());
+    setAttempt(null);
+  };
+
+  useEffect(restart, [quiz]);
+
+  // The clock only runs while the quiz is being answered
+  useEffect(() => {
+    if (attempt) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [attempt]);
+
+  const respond = (response: QuizResponse) => setResponses(current => current.map((value, i) => (i === index ? response : value)));
+
+  const submit = () => {
+    const result = scoreQuiz(quiz, responses, Date.now() - startedAt);
+    setAttempt(result);
+    onFinish(result);
+  };
+
+  const repairedFields = quiz.meta?.repairedFields ?? [];
+  const question = questions[index];
+  const answered = responses.filter(response => response !== null).length;
+
+  const header = (
+    <div className="bg-gradient-to-r from-violet-600 to-indigo-600 dark:from-violet-700 dark:to-indigo-700 p-6 text-white">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-violet-100 text-sm font-medium">
+          <ClipboardCheck size={16} /> {t('quizFor', { level: quiz.level })}
+        </div>
+        <button onClick={onClose} className="inline-flex items-center gap-1.5 text-sm text-violet-100 hover:text-white transition-colors print:hidden">
+          <ArrowLeft size={16} /> {t('backToExplanation')}
+        </button>
+      </div>
+      <h2 className="text-2xl font-bold tracking-tight mt-1">{quiz.compoundName}</h2>
+    </div>
+  );
+
+  if (attempt) {
+    const missed = questions
+      .map((q, i) => ({ question: q, number: i + 1, response: responses[i] }))
+      .filter(({ question: q, response }) => !isCorrect(q, response));
+
+    return (
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg border border-slate-200 dark:border-slate-700 overflow-hidden animate-fade-in transition-colors duration-300">
+        {header}
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-3 gap-3 text-center">
+            {[
+              [t('correct'), `${attempt.correct} / ${attempt.total}`],
+              [t('marks'), `${attempt.marks} / ${attempt.maxMarks}`],
+              [t('time'), formatDuration(attempt.durationMs)],
+            ].map(([label, value]) => (
+              <div key={label} className="bg-slate-50 dark:bg-slate-900/50 border border-slate-100 dark:border-slate-700 rounded-lg p-3">
+                <div className="text-2xl font-bold text-slate-800 dark:text-slate-100">{value}</div>
+                <div className="text-xs text-slate-500 dark:text-slate-400">{label}</div>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 dark:text-slate-400 -mt-3">
+            {t('markingScheme')}
+          </p>
+
+          <section>
+            <h3 className="font-semibold text-slate-800 dark:text-slate-100 mb-2">{t('byTopic')}</h3>
+            <ul className="space-y-2">
+              {Object.entries(attempt.topics).map(([topic, tally]) => (
+                <li key={topic} className="text-sm">
+                  <div className="flex justify-between text-slate-600 dark:text-slate-300">
+                    <span>{topic}</span>
+                    <span>{tally.correct}/{tally.total}</span>
+                  </div>
+                  <div className="h-1.5 rounded-full bg-slate-100 dark:bg-slate-700 overflow-hidden">
+                    <div
+                      className={`h-full ${tally.correct / tally.total >= 0.6 ? 'bg-emerald-500' : 'bg-rose-500'}`}
+                      style={{ width: `${(tally.correct / tally.total) * 100}%` }}
+                    />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          <section>
+            <h3 className="font-semibold text-slate-800 dark:text-slate-100 mb-2">
+              {missed.length === 0 ? t('everyAnswerCorrect') : t('reviewMissed', { count: missed.length })}
+            </h3>
+            <ul className="space-y-4">
+              {missed.map(({ question: q, number, response }) => (
+                <li key={number} className="border border-rose-100 dark:border-rose-900/50 bg-rose-50/40 dark:bg-rose-900/10 rounded-lg p-4 text-sm">
+                  <div className="text-xs font-semibold text-slate-500 dark:text-slate-400 mb-2">
+                    Q{number} · {t(TYPE_LABELS[q.type])} · {q.topic}
+                  </div>
+                  <QuestionText question={q} t={t} />
+                  <p className="mt-3 flex items-start gap-2 text-rose-700 dark:text-rose-300">
+                    <XCircle size={16} className="shrink-0 mt-0.5" /> {t('yourAnswer', { answer: describeResponse(q, response, t) })}
+                  </p>
+                  <p className="mt-1 flex items-start gap-2 text-emerald-700 dark:text-emerald-300">
+                    <CheckCircle2 size={16} className="shrink-0 mt-0.5" /> {t('correctAnswer', { answer: describeResponse(q, correctResponse(q), t) })}
+                  </p>
+                  {q.explanation && <p className="mt-2 text-slate-600 dark:text-slate-400">{q.explanation}</p>}
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          <div className="flex gap-2 print:hidden">
+            <button
+              onClick={restart}
+              className="inline-flex items-center gap-2 bg-violet-600 hover:bg-violet-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+            >
+              <RotateCcw size={16} /> {t('retake')}
+            </button>
+            <button
+              onClick={onClose}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+            >
+              <ArrowLeft size={16} /> {t('backToExplanation')}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg border border-slate-200 dark:border-slate-700 overflow-hidden animate-fade-in transition-colors duration-300">
+      {header}
+
+      {repairedFields.length > 0 && (
+        <div className="mx-6 mt-6 flex items-start gap-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-200 rounded-lg p-3 text-sm transition-colors">
+          <ShieldAlert size={18} className="shrink-0 mt-0.5" />
+          <p>
+            <span className="font-semibold">{t('partiallyVerifiedQuiz')}</span>{' '}
+            {t('quizRepairedDetail')}{' '}
+            <span className="font-mono text-xs">{repairedFields.join(', ')}</span>
+          </p>
+        </div>
+      )}
+
+      <div className="p-6 space-y-5">
+        <div className="flex items-center justify-between text-sm text-slate-500 dark:text-slate-400">
+          <span>{t('questionProgress', { index: index + 1, count: questions.length, answered })}</span>
+          <span className="inline-flex items-center gap-1.5 font-mono" aria-label={t('timeTaken')}>
+            <Timer size={16} /> {formatDuration(now - startedAt)}
+          </span>
+        </div>
+
+        {/* Question palette, as in the computer-based JEE paper */}
+        <div className="flex flex-wrap gap-1.5" role="group" aria-label={t('questions')}>
+          {questions.map((_, i) => (
+            <button
+              key={i}
+              onClick={() => setIndex(i)}
+              aria-current={i === index ? 'true' : undefined}
+              className={`w-8 h-8 rounded-md text-xs font-semibold border transition-colors ${i === index ? 'border-violet-600 ring-2 ring-violet-200 dark:ring-violet-900' : 'border-slate-200 dark:border-slate-700'} ${responses[i] !== null ? 'bg-violet-600 text-white' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'}`}
+            >
+              {i + 1}
+            </button>
+          ))}
+        </div>
+
+        <section className="bg-violet-50/40 dark:bg-violet-900/10 border border-violet-100 dark:border-violet-900/50 rounded-lg p-5">
+          <div className="flex flex-wrap gap-2 mb-3 text-xs font-semibold">
+            <span className="px-2 py-0.5 rounded-full bg-violet-100 dark:bg-violet-900/40 text-violet-700 dark:text-violet-300">{t(TYPE_LABELS[question.type])}</span>
+            <span className="px-2 py-0.5 rounded-full bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300">{question.topic}</span>
+          </div>
+          <QuestionText question={question} t={t} />
+
+          {question.type === 'integer' ? (
+            <input
+              type="text"
+              inputMode="numeric"
+              value={responses[index] ?? ''}
+              onChange={(e) => {
+                const digits = e.target.value.replace(/\D/g, '').slice(0, 2);
+                respond(digits ? Number(digits) : null);
+              }}
+              placeholder="0–99"
+              aria-label={t('answerLabel')}
+              className="mt-4 w-28 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-4 py-2 text-lg font-mono text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-violet-500 outline-none"
+            />
+          ) : (
+            <ul className="mt-4 space-y-2">
+              {choicesFor(question, t).map((choice, i) => (
+                <li key={i}>
+                  <button
+                    onClick={() => respond(responses[index] === i ? null : i)}
+                    className={`w-full text-left flex gap-3 items-start px-3 py-2 rounded-lg border text-sm transition-colors ${responses[index] === i ? 'border-violet-500 bg-violet-100/60 dark:bg-violet-900/30 text-slate-900 dark:text-white' : 'border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 hover:border-violet-300'}`}
+                  >
+                    <span className="font-semibold text-violet-600 dark:text-violet-300">({OPTION_LETTERS[i]})</span>
+                    <span>{choice}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <div className="flex items-center justify-between gap-2 print:hidden">
+          <div className="flex gap-2">
+            <button
+              onClick={() => setIndex(i => i - 1)}
+              disabled={index === 0}
+              className="inline-flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-medium text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-40 transition-colors"
+            >
+              <ChevronLeft size={16} /> {t('previous')}
+            </button>
+            <button
+              onClick={() => setIndex(i => i + 1)}
+              disabled={index >= questions.length - 1}
+              className="inline-flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-medium text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-40 transition-colors"
+            >
+              {t('next')} <ChevronRight size={16} />
+            </button>
+          </div>
+          <button
+            onClick={submit}
+            className="inline-flex items-center gap-2 bg-violet-600 hover:bg-violet-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+          >
+            <ClipboardCheck size={16} /> {answered < questions.length ? t('submitUnanswered', { count: questions.length - answered }) : t('submit')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuizView;
@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Repeat, Star } from 'lucide-react';
+import { ResonanceData } from '../types';
+import { Translate } from '../utils/i18n';
+import MoleculeDiagram from './MoleculeDiagram';
+
+interface ResonancePanelProps {
+  resonance: ResonanceData;
+  t: Translate;
+}
+
+/** Steps through the resonance contributors; every structure is drawn locally from the SMILES the model returned */
+const ResonancePanel: React.FC<ResonancePanelProps> = ({ resonance, t }) => {
+  const { contributors, majorIndex, explanation } = resonance;
+  const [index, setIndex] = useState(0);
+  const [showArrows, setShowArrows] = useState(true);
+
+  // Start over for a new molecule, but not when a streamed result re-creates the same block
+  const signature = contributors.map(contributor => contributor.smiles).join(' ');
+  useEffect(() => setIndex(0), [signature]);
+
+  const header = (
+    <div className="flex items-center gap-2 mb-3 text-fuchsia-700 dark:text-fuchsia-400 font-semibold text-lg">
+      <Repeat size={22} className="shrink-0" />
+      <h3>{t('resonanceStructures')}</h3>
+    </div>
+  );
+
+  if (contributors.length === 0) {
+    return explanation ? (
+      <section>
+        {header}
+        <p className="text-slate-600 dark:text-slate-400 text-sm bg-slate-50 dark:bg-slate-900/50 p-4 rounded-lg border border-slate-100 dark:border-slate-700">
+          {explanation}
+        </p>
+      </section>
+    ) : null;
+  }
+
+  const current = contributors[Math.min(index, contributors.length - 1)];
+  const isLast = index >= contributors.length - 1;
+  const step = (delta: number) => setIndex(i => Math.max(0, Math.min(contributors.length - 1, i + delta)));
+
+  return (
+    <section>
+      {header}
+      <div className="bg-fuchsia-50/40 dark:bg-fuchsia-900/10 border border-fuchsia-100 dark:border-fuchsia-900/50 rounded-lg p-5 transition-colors">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-2 text-sm">
+          <div className="flex items-center gap-2">
+            <span className="font-semibold text-slate-700 dark:text-slate-200">{t('structureIndex', { index: index + 1, count: contributors.length })}</span>
+            {index === majorIndex && (
+              <span className="inline-flex items-center gap-1 text-xs font-semibold px-2 py-0.5 rounded-full bg-fuchsia-100 dark:bg-fuchsia-900/50 text-fuchsia-700 dark:text-fuchsia-300">
+                <Star size={12} /> {t('majorContributor')}
+              </span>
+            )}
+          </div>
+          <label className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400 cursor-pointer print:hidden">
+            <input type="checkbox" checked={showArrows} onChange={(e) => setShowArrows(e.target.checked)} className="accent-fuchsia-600" />
+            {t('showArrows')}
+          </label>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => step(-1)}
+            disabled={index === 0}
+            className="p-2 rounded-full text-slate-500 hover:bg-fuchsia-100 dark:hover:bg-fuchsia-900/40 disabled:opacity-30 disabled:hover:bg-transparent transition-colors print:hidden"
+            title={t('previousStructure')}
+          >
+            <ChevronLeft size={20} />
+          </button>
+          <div className="flex-1 bg-white dark:bg-slate-800 rounded-lg border border-fuchsia-100 dark:border-fuchsia-900/50 p-2">
+            <MoleculeDiagram
+              smiles={current.smiles}
+              arrows={showArrows ? current.arrows : []}
+              showLonePairs
+              className="w-full h-56"
+              title={current.description || t('resonanceStructureNumber', { index: index + 1 })}
+            />
+          </div>
+          <button
+            onClick={() => step(1)}
+            disabled={isLast}
+            className="p-2 rounded-full text-slate-500 hover:bg-fuchsia-100 dark:hover:bg-fuchsia-900/40 disabled:opacity-30 disabled:hover:bg-transparent transition-colors print:hidden"
+            title={t('nextStructure')}
+          >
+            <ChevronRight size={20} />
+          </button>
+        </div>
+
+        {current.description && <p className="mt-3 text-sm text-slate-700 dark:text-slate-300">{current.description}</p>}
+        {!isLast && current.arrowPushing && (
+          <p className="mt-1 text-sm text-rose-700 dark:text-rose-300">
+            <span className="font-semibold">{t('toStructure', { index: index + 2 })}</span> {current.arrowPushing}
+          </p>
+        )}
+
+        {/* Every contributor at a glance, joined by resonance arrows */}
+        <div className="mt-4 flex items-center gap-1 overflow-x-auto pb-1">
+          {contributors.map((contributor, i) => (
+            <React.Fragment key={i}>
+              {i > 0 && <span className="text-slate-400 dark:text-slate-500 shrink-0" aria-hidden="true">↔</span>}
+              <button
+                onClick={() => setIndex(i)}
+                className={`shrink-0 rounded-md border p-1 bg-white dark:bg-slate-800 transition-colors ${i === index ? 'border-fuchsia-500 ring-2 ring-fuchsia-200 dark:ring-fuchsia-900' : 'border-slate-200 dark:border-slate-700 hover:border-fuchsia-300'}`}
+                title={contributor.description || t('structureNumber', { index: i + 1 })}
+              >
+                <MoleculeDiagram smiles={contributor.smiles} className="h-14 w-20" />
+              </button>
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+
+      {explanation && (
+        <p className="mt-3 text-slate-600 dark:text-slate-400 text-sm leading-relaxed">{explanation}</p>
+      )}
+    </section>
+  );
+};
+
+export default ResonancePanel;
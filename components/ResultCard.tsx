@@ -1,178 +1,192 @@
-import React, { useRef, useState } from 'react';
-import { ChemicalData } from '../types';
-import { BookOpen, Beaker, Info, GraduationCap, Download, Loader2, Lightbulb, Sparkles, Smile } from 'lucide-react';
-import html2canvas from 'html2canvas';
-import { jsPDF } from 'jspdf';
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChemicalData, CurriculumProfile, CustomSection } from '../types';
+import { BookOpen, Beaker, Info, GraduationCap, Download, Loader2, Lightbulb, Sparkles, Smile, ShieldAlert, AlertTriangle, Database, RefreshCw, ClipboardCheck, Link2, WifiOff, NotebookPen } from 'lucide-react';
+import { customSectionsAfter } from '../utils/customSections';
+import { crossCheckFormula } from '../utils/formula';
+import { formatAge } from '../utils/time';
+import { ShareLink, ShareOmission } from '../services/share';
+import { Translate, UiStringKey } from '../utils/i18n';
+import FormulaPanel from './FormulaPanel';
+import ElectronicEffectsPanel from './ElectronicEffectsPanel';
+import ResonancePanel from './ResonancePanel';
+import MoleculeDiagram from './MoleculeDiagram';
 
 interface ResultCardProps {
   data: ChemicalData;
+  /** Profile the analysis was requested for; its base level sets the default depth of the electronic effects section */
+  profile: CurriculumProfile;
+  /** The student's drawing, shown next to the structure the model recognised */
+  sketch?: string | null;
+  /** Re-runs the analysis without the response cache */
+  onRefresh?: () => void;
+  /** Starts a self-test on this compound */
+  onQuiz?: () => void;
+  /** Builds a link that reproduces this analysis */
+  onShare?: () => Promise<ShareLink>;
+  /** Set while the result is still streaming in; these sections show placeholders */
+  pendingFields?: (keyof ChemicalData)[];
+  /** UI strings in the chosen language; also used for the PDF */
+  t: Translate;
+  /** Section keys of the active prompt template; the body shows the standard sections in this order */
+  sectionOrder?: string[];
 }
 
-const ResultCard: React.FC<ResultCardProps> = ({ data }) => {
-  const cardRef = useRef<HTMLDivElement>(null);
-  const [isGenerating, setIsGenerating] = useState(false);
-
-  const handleDownloadPDF = async () => {
-    if (!cardRef.current) return;
-
-    setIsGenerating(true);
-    
-    try {
-      // Small delay to ensure UI is ready
-      await new Promise(resolve => setTimeout(resolve, 100));
-
-      const element = cardRef.current;
-      
-      // Use html2canvas with onclone to modify the document for PDF generation
-      const canvas = await html2canvas(element, {
-        scale: 2, // High resolution
-        useCORS: true,
-        logging: false,
-        backgroundColor: '#ffffff', // Force white background
-        windowWidth: 1024, // Simulate desktop window width
-        onclone: (clonedDoc) => {
-            // 1. Force Light Mode in the cloned document
-            clonedDoc.documentElement.classList.remove('dark');
-            
-            // 2. Locate the cloned card element
-            const clonedCard = clonedDoc.getElementById('result-card-container');
-            
-            if (clonedCard) {
-                // Force a specific width for the PDF
-                clonedCard.style.width = '800px'; 
-                clonedCard.style.maxWidth = 'none';
-                clonedCard.style.margin = '0';
-                clonedCard.style.boxShadow = 'none';
-                clonedCard.style.borderRadius = '0';
-                
-                // Adjust Header
-                const header = clonedCard.querySelector('.bg-gradient-to-r') as HTMLElement;
-                if (header) {
-                    header.style.padding = '30px 40px';
-                }
+type ListSection = 'keyPoints' | 'reactions_or_uses';
+type BodySection = 'summary' | 'analogy' | ListSection | 'electronicEffects' | 'resonance' | 'curriculumContext' | 'funFacts';
 
-                // Adjust Main Content Padding
-                const mainContent = clonedCard.querySelector('.p-6.space-y-6') as HTMLElement;
-                if (mainContent) {
-                    mainContent.style.padding = '40px';
-                }
+// The card's own order, for sections the template does not place
+const BODY_SECTIONS: BodySection[] = ['summary', 'analogy', 'keyPoints', 'reactions_or_uses', 'electronicEffects', 'resonance', 'curriculumContext', 'funFacts'];
+const LIST_SECTIONS: ListSection[] = ['keyPoints', 'reactions_or_uses'];
 
-                // Adjust Typography for PDF Readability
-                const summaryP = clonedCard.querySelector('section p') as HTMLElement;
-                if (summaryP) {
-                    summaryP.style.fontSize = '14px';
-                    summaryP.style.lineHeight = '1.8';
-                    summaryP.style.textAlign = 'justify';
-                    summaryP.style.color = '#334155';
-                }
+const isListSection = (key: BodySection): key is ListSection => (LIST_SECTIONS as BodySection[]).includes(key);
 
-                // Ensure Curriculum Context box looks clean
-                const contextBox = clonedCard.querySelector('.bg-rose-50') as HTMLElement;
-                if (contextBox) {
-                    contextBox.style.padding = '20px';
-                    contextBox.style.borderLeftWidth = '6px';
-                }
+/** The body sections in `order`, grouped into rows: key points and reactions share one when they are next to each other */
+const bodyBlocks = (order: string[] = []): BodySection[][] => {
+  const placed = order.filter((key): key is BodySection => (BODY_SECTIONS as string[]).includes(key));
+  const blocks: BodySection[][] = [];
+  [...placed, ...BODY_SECTIONS.filter(key => !placed.includes(key))].forEach(key => {
+    const last = blocks[blocks.length - 1];
+    if (last?.length === 1 && last[0] !== key && isListSection(last[0]) && isListSection(key)) last.push(key);
+    else blocks.push([key]);
+  });
+  return blocks;
+};
 
-                // Ensure Analogy box looks clean
-                const analogyBox = clonedCard.querySelector('.bg-amber-50') as HTMLElement;
-                if (analogyBox) {
-                    analogyBox.style.padding = '20px';
-                }
-            }
-        }
-      });
+const OMISSION_NOTES: Record<ShareOmission, UiStringKey> = {
+  result: 'omitResult',
+  strokeDetail: 'omitStrokeDetail',
+  sketch: 'omitSketch',
+  drawing: 'omitDrawing',
+};
 
-      const imgData = canvas.toDataURL('image/png');
-      
-      const pdf = new jsPDF({
-        orientation: 'portrait',
-        unit: 'mm',
-        format: 'a4',
-      });
+// How long the "Link copied" note stays up
+const SHARE_NOTICE_MS = 6000;
 
-      const imgWidth = 210;
-      const pageHeight = 297;
-      const imgHeight = (canvas.height * imgWidth) / canvas.width;
-      
-      let heightLeft = imgHeight;
-      let position = 0;
+/** Grey placeholder bars for a section that has not arrived yet */
+const Skeleton: React.FC<{ lines?: number; className?: string }> = ({ lines = 1, className = 'bg-slate-200 dark:bg-slate-700' }) => (
+  <div className="space-y-2 animate-pulse" aria-hidden="true">
+    {Array.from({ length: lines }, (_, idx) => (
+      <div key={idx} className={`h-4 rounded ${className} ${idx === lines - 1 && lines > 1 ? 'w-2/3' : 'w-full'}`} />
+    ))}
+  </div>
+);
 
-      pdf.addImage(imgData, 'PNG', 0, position, imgWidth, imgHeight);
-      heightLeft -= pageHeight;
+/** A section the prompt template added, rendered from its shape alone */
+const CustomSectionView: React.FC<{ section: CustomSection }> = ({ section }) => (
+  <section>
+    <div className="flex items-center gap-2 mb-3 text-teal-600 dark:text-teal-400 font-semibold text-lg">
+      <NotebookPen size={22} className="shrink-0" />
+      <h3>{section.title}</h3>
+    </div>
+    {Array.isArray(section.content) ? (
+      <ul className="space-y-3">
+        {section.content.map((point, idx) => (
+          <li key={idx} className="flex gap-3 text-slate-600 dark:text-slate-400 text-sm leading-snug">
+            <span className="text-teal-500 mt-0.5 shrink-0">•</span>
+            <span>{point}</span>
+          </li>
+        ))}
+      </ul>
+    ) : (
+      <p className="text-slate-700 dark:text-slate-300 leading-relaxed">{section.content}</p>
+    )}
+  </section>
+);
 
-      while (heightLeft >= 0) {
-        position = heightLeft - imgHeight;
-        pdf.addPage();
-        pdf.addImage(imgData, 'PNG', 0, position, imgWidth, imgHeight);
-        heightLeft -= pageHeight;
-      }
+const ResultCard: React.FC<ResultCardProps> = ({ data, profile, sketch, onRefresh, onQuiz, onShare, pendingFields, t, sectionOrder }) => {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [includeSketch, setIncludeSketch] = useState(true);
+  const [isSharing, setIsSharing] = useState(false);
+  const [shareNotice, setShareNotice] = useState<string | null>(null);
+  const isStreaming = pendingFields !== undefined;
+  const isPending = (field: keyof ChemicalData) => pendingFields?.includes(field) ?? false;
+  const repairedFields = data.meta?.repairedFields ?? [];
+  // Template-added sections go where the template put them, after the standard section they follow
+  const customAfter = (...keys: (keyof ChemicalData | null)[]) =>
+    customSectionsAfter(data, keys).map(section => <CustomSectionView key={section.key} section={section} />);
+  const isListShown = (key: ListSection) => data[key].length > 0 || isPending(key);
+  // Checking a formula or name that is still being written would only produce flickering warnings
+  const identityReady = !isPending('molecularFormula') && !isPending('iupacName') && !isPending('name');
+  const formulaCheck = useMemo(
+    () => identityReady ? crossCheckFormula(data.molecularFormula, [data.iupacName, data.name]) : null,
+    [identityReady, data.molecularFormula, data.iupacName, data.name]
+  );
 
-      const filename = `${data.name.replace(/\s+/g, '_')}_Analysis.pdf`;
-      pdf.save(filename);
-      
+  const handleDownloadPDF = async () => {
+    setIsGenerating(true);
+    try {
+      // jsPDF is only loaded once someone asks for a PDF
+      const { buildAnalysisPdf } = await import('../utils/pdfReport');
+      const pdf = buildAnalysisPdf(data, profile.name, { sketch: includeSketch ? sketch : null, t });
+      pdf.save(`${data.name.replace(/\s+/g, '_')}_Analysis.pdf`);
     } catch (error) {
       console.error("PDF Generation failed:", error);
-      alert("Failed to generate PDF. Please try again.");
+      alert(t('pdfFailed'));
     } finally {
       setIsGenerating(false);
     }
   };
 
-  return (
-    <div id="result-card-container" ref={cardRef} className="bg-white dark:bg-slate-800 rounded-xl shadow-lg border border-slate-200 dark:border-slate-700 overflow-hidden animate-fade-in print:shadow-none print:border-none print:rounded-none transition-colors duration-300">
-      <div className="bg-gradient-to-r from-indigo-600 to-violet-600 dark:from-indigo-700 dark:to-violet-700 p-6 text-white print:bg-none print:text-black print:border-b-2 print:border-indigo-600 print:p-0 print:pb-4 print:mb-6">
-        <div className="flex justify-between items-start">
-            <div className="print:flex-1 w-full">
-                <div className="flex items-center justify-between gap-4 w-full">
-                  <div>
-                    <h2 className="text-3xl font-bold tracking-tight text-white mb-1">{data.name}</h2>
-                    <p className="text-indigo-100 font-mono text-lg font-medium opacity-90">{data.molecularFormula}</p>
-                  </div>
-                  
-                  {/* Download PDF Button */}
-                  <button 
-                    onClick={handleDownloadPDF}
-                    disabled={isGenerating}
-                    className="bg-white/20 hover:bg-white/30 text-white p-2.5 rounded-lg transition-colors print:hidden flex items-center gap-2 text-sm font-medium backdrop-blur-sm disabled:opacity-70 disabled:cursor-wait shrink-0 ml-4"
-                    title="Download Analysis as PDF"
-                    data-html2canvas-ignore
-                  >
-                    {isGenerating ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />}
-                    <span className="hidden sm:inline">{isGenerating ? 'Generating...' : 'Download PDF'}</span>
-                  </button>
-                </div>
-            </div>
-            <div className="bg-white/20 backdrop-blur-sm px-3 py-1 rounded-full text-sm font-medium print:hidden text-white border border-white/10 hidden sm:block shrink-0 ml-4">
-                {data.iupacName}
-            </div>
-        </div>
-        <div className="mt-4 pt-4 border-t border-indigo-400/30 flex justify-between items-center text-indigo-50 text-sm">
-             <span className="opacity-80 font-medium">IUPAC: {data.iupacName}</span>
-             <span className="opacity-60 text-xs">GOC Visualiser AI Analysis</span>
-        </div>
-      </div>
+  useEffect(() => {
+    if (!shareNotice) return;
+    const timer = setTimeout(() => setShareNotice(null), SHARE_NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [shareNotice]);
 
-      <div className="p-6 space-y-6">
-        {/* Summary Section */}
+  const handleShare = async () => {
+    if (!onShare) return;
+    setIsSharing(true);
+    try {
+      const { url, omitted } = await onShare();
+      const notes = omitted.map(omission => t(OMISSION_NOTES[omission]));
+      const suffix = notes.length ? ` ${t('keepShort', { notes: notes.join('; ') })}` : '';
+      try {
+        await navigator.clipboard.writeText(url);
+        setShareNotice(`${t('linkCopied')}${suffix}`);
+      } catch {
+        // Clipboard access needs a secure context and focus; let the student copy it by hand instead
+        window.prompt(`${t('copyLink')}${suffix}`, url);
+      }
+    } catch (error) {
+      console.error("Share link failed:", error);
+      setShareNotice(error instanceof Error ? error.message : t('shareFailed'));
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  // The body sections by key; they are laid out in the template's order below
+  const sections: Record<BodySection, React.ReactNode> = {
+    summary: (
+      <>
         <section>
           <div className="flex items-center gap-2 mb-3 text-indigo-700 dark:text-indigo-400 font-semibold text-lg">
             <BookOpen size={22} className="shrink-0" />
-            <h3>Educational Summary</h3>
+            <h3>{t('summary')}</h3>
           </div>
+          {isPending('summary') ? (
+            <div className="bg-slate-50 dark:bg-slate-900/50 p-5 rounded-lg border border-slate-100 dark:border-slate-700">
+              <Skeleton lines={4} />
+            </div>
+          ) : (
           <p className="text-slate-700 dark:text-slate-300 leading-relaxed bg-slate-50 dark:bg-slate-900/50 p-5 rounded-lg border border-slate-100 dark:border-slate-700 text-base shadow-sm transition-colors">
             {data.summary}
           </p>
+          )}
         </section>
-
-        {/* Real World Analogy (New) */}
-        {data.analogy && (
+      </>
+    ),
+    analogy: (
+      <>
+        {isPending('analogy') && <Skeleton lines={2} className="bg-amber-100 dark:bg-amber-900/30" />}
+        {!isPending('analogy') && data.analogy && (
             <section>
                 <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl p-5 flex gap-4 items-start shadow-sm transition-colors">
                     <div className="bg-amber-100 dark:bg-amber-800 p-2 rounded-full shrink-0 text-amber-600 dark:text-amber-200">
                         <Lightbulb size={24} />
                     </div>
                     <div>
-                        <h4 className="text-amber-900 dark:text-amber-100 font-bold mb-1">Real World Analogy</h4>
+                        <h4 className="text-amber-900 dark:text-amber-100 font-bold mb-1">{t('analogy')}</h4>
                         <p className="text-amber-800 dark:text-amber-200/80 italic">
                             "{data.analogy}"
                         </p>
@@ -180,45 +194,72 @@ const ResultCard: React.FC<ResultCardProps> = ({ data }) => {
                 </div>
             </section>
         )}
-
-        {/* Two Column Layout for Facts and Reactions */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          <section className="bg-white dark:bg-transparent rounded-lg">
-            <div className="flex items-center gap-2 mb-3 text-emerald-600 dark:text-emerald-400 font-semibold text-lg">
-              <Info size={22} className="shrink-0" />
-              <h3>Key Properties & Facts</h3>
-            </div>
-            <ul className="space-y-3">
-              {data.keyPoints.map((point, idx) => (
-                <li key={idx} className="flex gap-3 text-slate-600 dark:text-slate-400 text-sm leading-snug">
-                  <span className="text-emerald-500 dark:text-emerald-500 mt-0.5 shrink-0">•</span>
-                  <span>{point}</span>
-                </li>
-              ))}
-            </ul>
-          </section>
-
-          <section>
-            <div className="flex items-center gap-2 mb-3 text-amber-600 dark:text-amber-400 font-semibold text-lg">
-              <Beaker size={22} className="shrink-0" />
-              <h3>Common Reactions/Uses</h3>
-            </div>
-            <ul className="space-y-3">
-              {data.reactions_or_uses.map((item, idx) => (
-                <li key={idx} className="flex gap-3 text-slate-600 dark:text-slate-400 text-sm leading-snug">
-                  <span className="text-amber-500 dark:text-amber-500 mt-0.5 shrink-0">→</span>
-                  <span>{item}</span>
-                </li>
-              ))}
-            </ul>
-          </section>
-        </div>
-
-        {/* Curriculum Context */}
+      </>
+    ),
+    keyPoints: (
+      <>
+        {(data.keyPoints.length > 0 || isPending('keyPoints')) && (
+        <section className="bg-white dark:bg-transparent rounded-lg">
+          <div className="flex items-center gap-2 mb-3 text-emerald-600 dark:text-emerald-400 font-semibold text-lg">
+            <Info size={22} className="shrink-0" />
+            <h3>{t('keyPoints')}</h3>
+          </div>
+          <ul className="space-y-3">
+            {data.keyPoints.map((point, idx) => (
+              <li key={idx} className="flex gap-3 text-slate-600 dark:text-slate-400 text-sm leading-snug">
+                <span className="text-emerald-500 dark:text-emerald-500 mt-0.5 shrink-0">•</span>
+                <span>{point}</span>
+              </li>
+            ))}
+          </ul>
+          {isPending('keyPoints') && <div className="mt-3"><Skeleton lines={2} /></div>}
+        </section>
+        )}
+      </>
+    ),
+    reactions_or_uses: (
+      <>
+        {(data.reactions_or_uses.length > 0 || isPending('reactions_or_uses')) && (
+        <section>
+          <div className="flex items-center gap-2 mb-3 text-amber-600 dark:text-amber-400 font-semibold text-lg">
+            <Beaker size={22} className="shrink-0" />
+            <h3>{t('reactions')}</h3>
+          </div>
+          <ul className="space-y-3">
+            {data.reactions_or_uses.map((item, idx) => (
+              <li key={idx} className="flex gap-3 text-slate-600 dark:text-slate-400 text-sm leading-snug">
+                <span className="text-amber-500 dark:text-amber-500 mt-0.5 shrink-0">→</span>
+                <span>{item}</span>
+              </li>
+            ))}
+          </ul>
+          {isPending('reactions_or_uses') && <div className="mt-3"><Skeleton lines={2} /></div>}
+        </section>
+        )}
+      </>
+    ),
+    electronicEffects: (
+      <>
+        {isPending('electronicEffects') && <Skeleton lines={3} className="bg-sky-100 dark:bg-sky-900/30" />}
+        {!isPending('electronicEffects') && data.electronicEffects && (
+          <ElectronicEffectsPanel effects={data.electronicEffects} level={profile.baseLevel} t={t} />
+        )}
+      </>
+    ),
+    resonance: (
+      <>
+        {isPending('resonance') && <Skeleton lines={3} className="bg-fuchsia-100 dark:bg-fuchsia-900/30" />}
+        {!isPending('resonance') && data.resonance && <ResonancePanel resonance={data.resonance} t={t} />}
+      </>
+    ),
+    curriculumContext: (
+      <>
+        {isPending('curriculumContext') && <Skeleton lines={2} className="bg-rose-100 dark:bg-rose-900/30" />}
+        {!isPending('curriculumContext') && data.curriculumContext && (
         <section className="mt-2">
           <div className="flex items-center gap-2 mb-3 text-rose-600 dark:text-rose-400 font-semibold text-lg">
             <GraduationCap size={22} className="shrink-0" />
-            <h3>Curriculum Context</h3>
+            <h3>{t('curriculumContext')}</h3>
           </div>
           <div className="bg-rose-50 dark:bg-rose-900/20 border-l-4 border-rose-500 dark:border-rose-500 p-5 rounded-r-lg transition-colors">
             <p className="text-rose-900 dark:text-rose-200 italic text-base font-medium">
@@ -226,13 +267,16 @@ const ResultCard: React.FC<ResultCardProps> = ({ data }) => {
             </p>
           </div>
         </section>
-
-        {/* Fun Facts (New) */}
-        {data.funFacts && data.funFacts.length > 0 && (
+        )}
+      </>
+    ),
+    funFacts: (
+      <>
+        {data.funFacts && (data.funFacts.length > 0 || isPending('funFacts')) && (
           <section className="mt-8 pt-8 border-t border-slate-100 dark:border-slate-700 transition-colors">
              <div className="flex items-center gap-2 mb-4 text-violet-600 dark:text-violet-400 font-semibold text-lg">
               <Sparkles size={22} />
-              <h3>Did You Know?</h3>
+              <h3>{t('funFacts')}</h3>
             </div>
             <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
               {data.funFacts.map((fact, idx) => (
@@ -248,9 +292,185 @@ const ResultCard: React.FC<ResultCardProps> = ({ data }) => {
                    </p>
                 </div>
               ))}
+              {isPending('funFacts') && (
+                <div className="p-4 rounded-xl border border-violet-100 dark:border-violet-900/50">
+                  <Skeleton lines={3} className="bg-violet-100 dark:bg-violet-900/30" />
+                </div>
+              )}
             </div>
           </section>
         )}
+      </>
+    ),
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg border border-slate-200 dark:border-slate-700 overflow-hidden animate-fade-in print:shadow-none print:border-none print:rounded-none transition-colors duration-300">
+      <div className="bg-gradient-to-r from-indigo-600 to-violet-600 dark:from-indigo-700 dark:to-violet-700 p-6 text-white print:bg-none print:text-black print:border-b-2 print:border-indigo-600 print:p-0 print:pb-4 print:mb-6">
+        <div className="flex justify-between items-start">
+            <div className="print:flex-1 w-full">
+                <div className="flex items-center justify-between gap-4 w-full">
+                  <div>
+                    {isPending('name')
+                      ? <div className="w-48 mb-3"><Skeleton className="bg-white/30 h-7" /></div>
+                      : <h2 className="text-3xl font-bold tracking-tight text-white mb-1">{data.name}</h2>}
+                    <div className="flex items-center gap-2 flex-wrap">
+                      {isPending('molecularFormula')
+                        ? <div className="w-24"><Skeleton className="bg-white/30" /></div>
+                        : <p className="text-indigo-100 font-mono text-lg font-medium opacity-90">{data.molecularFormula}</p>}
+                      {formulaCheck && formulaCheck.warnings.length > 0 && (
+                        <span
+                          className="inline-flex items-center gap-1 bg-amber-400/90 text-amber-950 text-xs font-semibold px-2 py-0.5 rounded-full"
+                          title={formulaCheck.warnings.map(({ key, values }) => t(key, values)).join('\n')}
+                        >
+                          <AlertTriangle size={12} /> {t('checkFormula')}
+                        </span>
+                      )}
+                      {data.meta?.cached && (
+                        <span
+                          className="inline-flex items-center gap-1 bg-white/20 text-white text-xs font-semibold px-2 py-0.5 rounded-full"
+                          title={t('cachedTitle')}
+                        >
+                          <Database size={12} /> {t('cached')}{data.meta.cachedAt ? ` · ${formatAge(data.meta.cachedAt, t)}` : ''}
+                        </span>
+                      )}
+                      {data.meta?.offline && (
+                        <span
+                          className="inline-flex items-center gap-1 bg-white/20 text-white text-xs font-semibold px-2 py-0.5 rounded-full"
+                          title={t('offlineLibraryTitle')}
+                        >
+                          <WifiOff size={12} /> {t('offlineLibrary')}
+                        </span>
+                      )}
+                      {data.meta?.cached && onRefresh && (
+                        <button
+                          onClick={onRefresh}
+                          className="inline-flex items-center gap-1 text-xs font-medium text-indigo-100 hover:text-white underline-offset-2 hover:underline print:hidden"
+                        >
+                          <RefreshCw size={12} /> {t('getFresh')}
+                        </button>
+                      )}
+                    </div>
+
+                    {/* What the student drew beside what the model understood, so a misidentification is obvious */}
+                    {(sketch || data.smiles || isPending('smiles')) && (
+                      <div className="mt-4 flex flex-wrap gap-3">
+                        {sketch && (
+                          <figure className="w-36 bg-white rounded-lg p-1.5 shadow-sm">
+                            <img src={sketch} alt={t('yourSketch')} className="h-24 w-full object-contain" />
+                            <figcaption className="text-[11px] text-slate-500 text-center mt-1">{t('yourSketch')}</figcaption>
+                          </figure>
+                        )}
+                        {isPending('smiles') ? (
+                          <div className="w-36 h-[7.75rem] rounded-lg bg-white/20 animate-pulse" aria-hidden="true" />
+                        ) : data.smiles && (
+                          <figure className="w-36 bg-white dark:bg-slate-800 rounded-lg p-1.5 shadow-sm">
+                            <MoleculeDiagram smiles={data.smiles} className="h-24 w-full" title={t('structureOf', { name: data.name })} />
+                            <figcaption className="text-[11px] text-slate-500 dark:text-slate-400 text-center mt-1" title={data.smiles}>{t('recognisedStructure')}</figcaption>
+                          </figure>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  
+                  {/* Quiz and Download PDF Buttons */}
+                  {!isStreaming && (
+                  <div className="flex flex-col gap-2 shrink-0 ml-4 print:hidden">
+                    {onQuiz && (
+                      <button
+                        onClick={onQuiz}
+                        className="bg-white text-indigo-700 hover:bg-indigo-50 p-2.5 rounded-lg transition-colors flex items-center gap-2 text-sm font-semibold shadow-sm"
+                        title={t('quizTitle')}
+                      >
+                        <ClipboardCheck size={18} />
+                        <span className="hidden sm:inline">{t('quizMe')}</span>
+                      </button>
+                    )}
+                    <button 
+                      onClick={handleDownloadPDF}
+                      disabled={isGenerating}
+                      className="bg-white/20 hover:bg-white/30 text-white p-2.5 rounded-lg transition-colors flex items-center gap-2 text-sm font-medium backdrop-blur-sm disabled:opacity-70 disabled:cursor-wait"
+                      title={t('downloadTitle')}
+                    >
+                      {isGenerating ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />}
+                      <span className="hidden sm:inline">{isGenerating ? t('generating') : t('downloadPdf')}</span>
+                    </button>
+                    {onShare && (
+                      <button
+                        onClick={handleShare}
+                        disabled={isSharing}
+                        className="bg-white/20 hover:bg-white/30 text-white p-2.5 rounded-lg transition-colors flex items-center gap-2 text-sm font-medium backdrop-blur-sm disabled:opacity-70 disabled:cursor-wait"
+                        title={t('shareTitle')}
+                      >
+                        {isSharing ? <Loader2 size={18} className="animate-spin" /> : <Link2 size={18} />}
+                        <span className="hidden sm:inline">{t('shareLink')}</span>
+                      </button>
+                    )}
+                    {shareNotice && (
+                      <p className="max-w-[12rem] text-xs text-indigo-100" role="status">{shareNotice}</p>
+                    )}
+                    {sketch && (
+                      <label className="flex items-center gap-1.5 text-xs text-indigo-100 cursor-pointer select-none">
+                        <input
+                          type="checkbox"
+                          checked={includeSketch}
+                          onChange={(e) => setIncludeSketch(e.target.checked)}
+                          className="accent-white"
+                        />
+                        {t('includeDrawing')}
+                      </label>
+                    )}
+                  </div>
+                  )}
+                </div>
+            </div>
+            {!isPending('iupacName') && (
+            <div className="bg-white/20 backdrop-blur-sm px-3 py-1 rounded-full text-sm font-medium print:hidden text-white border border-white/10 hidden sm:block shrink-0 ml-4">
+                {data.iupacName}
+            </div>
+            )}
+        </div>
+        <div className="mt-4 pt-4 border-t border-indigo-400/30 flex justify-between items-center text-indigo-50 text-sm">
+             {isPending('iupacName')
+               ? <div className="w-56"><Skeleton className="bg-white/20" /></div>
+               : <span className="opacity-80 font-medium">{t('iupac')}: {data.iupacName}</span>}
+             <span className="opacity-60 text-xs">GOC Visualiser AI Analysis</span>
+        </div>
+      </div>
+
+      {/* Partially trusted answer: the validator had to fill in or clean up some fields */}
+      {repairedFields.length > 0 && (
+        <div className="mx-6 mt-6 flex items-start gap-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-200 rounded-lg p-3 text-sm transition-colors">
+          <ShieldAlert size={18} className="shrink-0 mt-0.5" />
+          <p>
+            <span className="font-semibold">{t('partiallyVerified')}</span>{' '}
+            {t('repairedDetail')}{' '}
+            <span className="font-mono text-xs">{repairedFields.join(', ')}</span>
+          </p>
+        </div>
+      )}
+
+      <div className="p-6 space-y-6">
+        {formulaCheck ? <FormulaPanel check={formulaCheck} t={t} /> : <Skeleton lines={2} />}
+
+        {customAfter(null)}
+
+        {bodyBlocks(sectionOrder).map(keys => (
+          <React.Fragment key={keys.join('+')}>
+            {keys.length === 2 && (isListShown('keyPoints') || isListShown('reactions_or_uses')) ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {keys.map(key => <React.Fragment key={key}>{sections[key]}</React.Fragment>)}
+              </div>
+            ) : keys.length === 1 && sections[keys[0]]}
+            {customAfter(...keys)}
+          </React.Fragment>
+        ))}
+
+        {data.meta?.templateVersion && (
+          <p className="text-xs text-slate-400 dark:text-slate-500 text-right" title={t('promptTemplateTitle')}>
+            {t('promptTemplate', { version: data.meta.templateVersion })}
+          </p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,312 @@
+import React, { useRef, useState } from 'react';
+import { FileCog, Copy, Save, Trash2, Download, Upload, X, Lock, ArrowUp, ArrowDown, Plus } from 'lucide-react';
+import { PromptTemplate, TemplateSection } from '../types';
+import {
+  deleteTemplate,
+  duplicateTemplate,
+  exportTemplates,
+  importTemplates,
+  MAX_CUSTOM_SECTIONS,
+  saveTemplate,
+  sectionKey,
+  TEMPLATE_PLACEHOLDERS,
+  templateVersion,
+} from '../services/promptTemplate';
+import { Translate, UiStringKey } from '../utils/i18n';
+
+interface TemplateEditorProps {
+  templates: PromptTemplate[];
+  /** Template new analyses use, highlighted in the list */
+  activeId: string;
+  onSelect: (template: PromptTemplate) => void;
+  /** Receives every template after a save, delete or import */
+  onChange: (templates: PromptTemplate[]) => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+// The result card's own headings, so a teacher recognises each section
+const STANDARD_LABELS: Record<string, UiStringKey> = {
+  name: 'commonName',
+  iupacName: 'iupacName',
+  molecularFormula: 'formulaAndSmiles',
+  summary: 'summary',
+  keyPoints: 'keyPoints',
+  reactions_or_uses: 'reactions',
+  curriculumContext: 'curriculumContext',
+  analogy: 'analogy',
+  funFacts: 'funFacts',
+  electronicEffects: 'electronicEffects',
+  resonance: 'resonanceStructures',
+};
+
+const fieldClass = 'w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-800 dark:text-slate-100 outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-70';
+const labelClass = 'block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1';
+
+const TemplateEditor: React.FC<TemplateEditorProps> = ({ templates, activeId, onSelect, onChange, onClose, t }) => {
+  const [draft, setDraft] = useState<PromptTemplate>(() => templates.find(template => template.id === activeId) ?? templates[0]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const readOnly = !!draft.builtIn;
+  const isStored = templates.some(template => template.id === draft.id);
+  const customCount = draft.sections.filter(section => section.custom).length;
+
+  const update = (changes: Partial<PromptTemplate>) => setDraft(current => ({ ...current, ...changes }));
+
+  const updateSection = (index: number, changes: Partial<TemplateSection>) =>
+    setDraft(current => ({ ...current, sections: current.sections.map((section, i) => (i === index ? { ...section, ...changes } : section)) }));
+
+  // The key follows the title, so the answer field reads like the section a teacher named
+  const renameSection = (index: number, title: string) => {
+    const section = draft.sections[index];
+    const taken = draft.sections.filter((_, i) => i !== index).map(other => other.key);
+    updateSection(index, { key: sectionKey(title, taken), custom: { ...section.custom!, title } });
+  };
+
+  const moveSection = (index: number, offset: number) =>
+    setDraft(current => {
+      const sections = [...current.sections];
+      [sections[index], sections[index + offset]] = [sections[index + offset], sections[index]];
+      return { ...current, sections };
+    });
+
+  const addSection = () => {
+    const title = t('newSection');
+    setDraft(current => ({
+      ...current,
+      sections: [
+        ...current.sections,
+        { key: sectionKey(title, current.sections.map(section => section.key)), instruction: '', custom: { title, format: 'list' } },
+      ],
+    }));
+  };
+
+  const removeSection = (index: number) =>
+    setDraft(current => ({ ...current, sections: current.sections.filter((_, i) => i !== index) }));
+
+  const open = (template: PromptTemplate) => {
+    setDraft(template);
+    setNotice(null);
+  };
+
+  const handleSave = () => {
+    try {
+      const saved = saveTemplate(draft);
+      onChange(saved);
+      const stored = saved.find(template => template.id === draft.id);
+      if (stored) {
+        setDraft(stored);
+        onSelect(stored);
+        setNotice(t('templateSaved', { version: templateVersion(stored) }));
+      }
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : t('saveFailed'));
+    }
+  };
+
+  const handleDelete = () => {
+    const remaining = deleteTemplate(draft.id);
+    onChange(remaining);
+    open(remaining.find(template => template.id === activeId) ?? remaining[0]);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportTemplates()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `goc-templates-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = importTemplates(await file.text());
+      onChange(result.templates);
+      setNotice([t('importedTemplates', { count: result.imported }), ...(result.skipped ? [t('importSkipped', { count: result.skipped })] : [])].join(' '));
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : t('importFailed'));
+    }
+  };
+
+  const iconButtonClass = 'p-1.5 rounded-md text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:pointer-events-none';
+  const hasCustom = templates.some(template => !template.builtIn);
+
+  return (
+    <div className="fixed inset-0 z-30 flex justify-end print:hidden">
+      <div className="absolute inset-0 bg-slate-900/30" onClick={onClose} />
+      <aside className="relative w-[32rem] max-w-[95vw] h-full bg-white dark:bg-slate-800 border-l border-slate-200 dark:border-slate-700 shadow-xl flex flex-col animate-fade-in">
+        <div className="p-4 border-b border-slate-200 dark:border-slate-700">
+          <div className="flex items-center justify-between">
+            <h2 className="font-semibold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+              <FileCog size={18} className="text-indigo-500" /> {t('promptTemplates')}
+            </h2>
+            <div className="flex items-center gap-1">
+              <button onClick={handleExport} disabled={!hasCustom} className={iconButtonClass} title={t('exportTemplates')}>
+                <Download size={16} />
+              </button>
+              <button onClick={() => fileInputRef.current?.click()} className={iconButtonClass} title={t('importJson')}>
+                <Upload size={16} />
+              </button>
+              <button onClick={onClose} className={iconButtonClass} title={t('close')}>
+                <X size={16} />
+              </button>
+            </div>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          </div>
+          {notice && <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">{notice}</p>}
+        </div>
+
+        <ul className="max-h-44 overflow-y-auto divide-y divide-slate-100 dark:divide-slate-700 border-b border-slate-200 dark:border-slate-700">
+          {templates.map(template => (
+            <li
+              key={template.id}
+              className={`flex items-center gap-2 px-4 py-2 text-sm cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors ${template.id === draft.id ? 'bg-indigo-50 dark:bg-indigo-900/20' : ''}`}
+              onClick={() => open(template)}
+            >
+              <span className="flex-1 truncate text-slate-800 dark:text-slate-100">{template.name}</span>
+              <span className="text-xs font-mono text-slate-400">v{template.version}</span>
+              {template.id === activeId && <span className="text-xs text-indigo-600 dark:text-indigo-300">{t('inUse')}</span>}
+              {template.builtIn && <Lock size={12} className="text-slate-400 shrink-0" aria-label={t('builtIn')} />}
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {readOnly && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {t('builtInTemplateNote')}
+            </p>
+          )}
+          <div>
+            <label htmlFor="template-name" className={labelClass}>{t('name')}</label>
+            <input id="template-name" value={draft.name} disabled={readOnly} onChange={(e) => update({ name: e.target.value })} className={fieldClass} />
+          </div>
+          <div>
+            <label htmlFor="template-intro" className={labelClass}>{t('templateIntro')}</label>
+            <textarea id="template-intro" rows={5} value={draft.intro} disabled={readOnly} onChange={(e) => update({ intro: e.target.value })} className={`${fieldClass} font-mono text-xs`} />
+            <ul className="mt-1 text-xs text-slate-400 dark:text-slate-500 space-y-0.5">
+              {Object.entries(TEMPLATE_PLACEHOLDERS).map(([name, meaning]) => (
+                <li key={name}><code className="text-indigo-500">{`{{${name}}}`}</code> {meaning}</li>
+              ))}
+            </ul>
+          </div>
+
+          <div>
+            <p className={labelClass}>{t('templateSections')}</p>
+            <ol className="space-y-2">
+              {draft.sections.map((section, index) => (
+                <li key={index} className="rounded-lg border border-slate-200 dark:border-slate-700 p-2 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-mono text-slate-400 w-5 text-right">{index + 1}.</span>
+                    {section.custom ? (
+                      <>
+                        <input
+                          value={section.custom.title}
+                          disabled={readOnly}
+                          onChange={(e) => renameSection(index, e.target.value)}
+                          className={`${fieldClass} py-1`}
+                          aria-label={t('sectionTitle')}
+                        />
+                        <select
+                          value={section.custom.format}
+                          disabled={readOnly}
+                          onChange={(e) => updateSection(index, { custom: { ...section.custom!, format: e.target.value as 'text' | 'list' } })}
+                          className={`${fieldClass} py-1 w-auto`}
+                          aria-label={t('answerFormat')}
+                        >
+                          <option value="list">{t('formatList')}</option>
+                          <option value="text">{t('formatParagraph')}</option>
+                        </select>
+                      </>
+                    ) : (
+                      <span className="flex-1 text-sm font-medium text-slate-700 dark:text-slate-200">{STANDARD_LABELS[section.key] ? t(STANDARD_LABELS[section.key]) : section.key}</span>
+                    )}
+                    {!readOnly && (
+                      <div className="flex items-center shrink-0">
+                        <button onClick={() => moveSection(index, -1)} disabled={index === 0} className={iconButtonClass} title={t('moveUp')}>
+                          <ArrowUp size={14} />
+                        </button>
+                        <button onClick={() => moveSection(index, 1)} disabled={index === draft.sections.length - 1} className={iconButtonClass} title={t('moveDown')}>
+                          <ArrowDown size={14} />
+                        </button>
+                        {section.custom && (
+                          <button onClick={() => removeSection(index)} className={`${iconButtonClass} hover:text-red-600 dark:hover:text-red-400`} title={t('removeSection')}>
+                            <Trash2 size={14} />
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  <textarea
+                    rows={2}
+                    value={section.instruction}
+                    disabled={readOnly}
+                    onChange={(e) => updateSection(index, { instruction: e.target.value })}
+                    placeholder={t('sectionInstructionPlaceholder')}
+                    className={`${fieldClass} text-xs`}
+                    aria-label={t('sectionInstruction')}
+                  />
+                </li>
+              ))}
+            </ol>
+            {!readOnly && (
+              <button
+                onClick={addSection}
+                disabled={customCount >= MAX_CUSTOM_SECTIONS}
+                className="mt-2 inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium text-indigo-600 dark:text-indigo-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 disabled:opacity-50 transition-colors"
+              >
+                <Plus size={14} /> {t('addSection')}
+              </button>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="template-query" className={labelClass}>{t('queryLine')}</label>
+            <input id="template-query" value={draft.queryLine} disabled={readOnly} onChange={(e) => update({ queryLine: e.target.value })} className={`${fieldClass} font-mono text-xs`} />
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-200 dark:border-slate-700 flex flex-wrap items-center gap-2">
+          {readOnly ? (
+            <button
+              onClick={() => onSelect(draft)}
+              disabled={draft.id === activeId}
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50 transition-colors"
+            >
+              {t('useTemplate')}
+            </button>
+          ) : (
+            <button
+              onClick={handleSave}
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white transition-colors"
+            >
+              <Save size={16} /> {t('saveAndUse')}
+            </button>
+          )}
+          <button
+            onClick={() => open(duplicateTemplate(draft))}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+          >
+            <Copy size={16} /> {t('duplicate')}
+          </button>
+          {!readOnly && isStored && (
+            <button
+              onClick={handleDelete}
+              className="ml-auto inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+            >
+              <Trash2 size={16} /> {t('delete')}
+            </button>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default TemplateEditor;
@@ -0,0 +1,85 @@
+import React, { useMemo, useRef } from 'react';
+import { BookCopy, FileUp } from 'lucide-react';
+import { MAX_BATCH_SIZE, parseCompoundList } from '../services/batch';
+import { Translate } from '../utils/i18n';
+
+interface WorksheetPanelProps {
+  title: string;
+  onTitleChange: (title: string) => void;
+  list: string;
+  onListChange: (list: string) => void;
+  onRun: (names: string[]) => void;
+  isProcessing: boolean;
+  t: Translate;
+}
+
+const WorksheetPanel: React.FC<WorksheetPanelProps> = ({ title, onTitleChange, list, onListChange, onRun, isProcessing, t }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const names = useMemo(() => parseCompoundList(list), [list]);
+  const tooMany = names.length > MAX_BATCH_SIZE;
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) onListChange(await file.text());
+  };
+
+  const fieldClass =
+    'w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-4 py-2 text-slate-800 dark:text-slate-100 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all placeholder:text-slate-400 dark:placeholder:text-slate-600 disabled:opacity-60';
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6 transition-colors duration-300">
+      <h2 className="font-semibold text-slate-700 dark:text-slate-200 mb-1 flex items-center gap-2">
+        <span className="w-2 h-2 rounded-full bg-indigo-500 shadow-[0_0_8px_rgba(99,102,241,0.6)]"></span>
+        {t('worksheetTitle')}
+      </h2>
+      <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+        {t('worksheetListHint', { max: MAX_BATCH_SIZE })}
+      </p>
+
+      <input
+        type="text"
+        value={title}
+        onChange={(e) => onTitleChange(e.target.value)}
+        disabled={isProcessing}
+        maxLength={80}
+        placeholder={t('worksheetTitlePlaceholder')}
+        aria-label={t('worksheetTitleLabel')}
+        className={`${fieldClass} mb-3`}
+      />
+      <textarea
+        value={list}
+        onChange={(e) => onListChange(e.target.value)}
+        disabled={isProcessing}
+        rows={8}
+        placeholder={'Chlorobenzene\n2-Bromobutane\nBenzyl chloride\n...'}
+        aria-label={t('compoundNames')}
+        className={`${fieldClass} font-mono text-sm resize-y`}
+      />
+
+      <div className="mt-2 mb-4 flex items-center justify-between text-xs">
+        <span className={tooMany ? 'text-red-600 dark:text-red-400 font-medium' : 'text-slate-500 dark:text-slate-400'}>
+          {names.length === 1 ? t('oneCompound') : t('compoundCount', { count: names.length })}{tooMany ? ` ${t('atMost', { max: MAX_BATCH_SIZE })}` : ''}
+        </span>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isProcessing}
+          className="inline-flex items-center gap-1 font-medium text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50"
+        >
+          <FileUp size={14} /> {t('loadCsv')}
+        </button>
+        <input ref={fileInputRef} type="file" accept=".csv,.txt,text/csv,text/plain" className="hidden" onChange={handleFile} />
+      </div>
+
+      <button
+        onClick={() => onRun(names)}
+        disabled={isProcessing || names.length === 0 || tooMany}
+        className="w-full inline-flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <BookCopy size={16} /> {t('buildWorksheet')}
+      </button>
+    </div>
+  );
+};
+
+export default WorksheetPanel;
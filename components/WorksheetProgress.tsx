@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { CheckCircle2, Circle, Download, FileCode, FileText, Loader2, RefreshCw, XCircle } from 'lucide-react';
+import { CurriculumProfile } from '../types';
+import { BatchItem } from '../services/batch';
+import { Translate } from '../utils/i18n';
+import { worksheetFileName, worksheetToHtml, worksheetToMarkdown, WorksheetOptions } from '../utils/worksheet';
+
+interface WorksheetProgressProps {
+  items: BatchItem[];
+  title: string;
+  profile: CurriculumProfile;
+  isProcessing: boolean;
+  onCancel: () => void;
+  /** Runs the failed compounds again */
+  onRetryFailed: () => void;
+  t: Translate;
+}
+
+const STATUS_ICONS: Record<BatchItem['status'], React.ReactNode> = {
+  pending: <Circle size={16} className="text-slate-300 dark:text-slate-600" />,
+  running: <Loader2 size={16} className="text-indigo-500 animate-spin" />,
+  done: <CheckCircle2 size={16} className="text-emerald-500" />,
+  failed: <XCircle size={16} className="text-red-500" />,
+};
+
+const download = (content: string, type: string, fileName: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/** Progress of a worksheet run, then the booklet exports once compounds have finished */
+const WorksheetProgress: React.FC<WorksheetProgressProps> = ({ items, title, profile, isProcessing, onCancel, onRetryFailed, t }) => {
+  const [answerKey, setAnswerKey] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const finished = items.filter(item => item.status === 'done' || item.status === 'failed').length;
+  const failed = items.filter(item => item.status === 'failed').length;
+  const compounds = items.flatMap(item => (item.data ? [item.data] : []));
+  const options: WorksheetOptions = { title: title.trim() || t('worksheetTitle'), level: profile.name, answerKey, t };
+  const canExport = !isProcessing && compounds.length > 0;
+
+  const handlePdf = async () => {
+    setIsGenerating(true);
+    try {
+      // jsPDF is only loaded once someone asks for a PDF
+      const { buildWorksheetPdf } = await import('../utils/pdfReport');
+      buildWorksheetPdf(compounds, options).save(worksheetFileName(options.title, 'pdf'));
+    } catch (error) {
+      console.error("PDF Generation failed:", error);
+      alert(t('pdfFailed'));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const exportButtonClass =
+    'inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg border border-slate-200 dark:border-slate-700 overflow-hidden animate-fade-in transition-colors duration-300">
+      <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+        <div className="flex items-center justify-between gap-4 mb-3">
+          <h2 className="text-xl font-bold text-slate-800 dark:text-slate-100 truncate">{options.title}</h2>
+          {isProcessing ? (
+            <button
+              onClick={onCancel}
+              className="inline-flex items-center gap-1.5 px-3 py-1 rounded-lg text-sm font-medium text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors shrink-0"
+            >
+              <XCircle size={14} /> {t('cancel')}
+            </button>
+          ) : failed > 0 && (
+            <button
+              onClick={onRetryFailed}
+              className="inline-flex items-center gap-1.5 px-3 py-1 rounded-lg text-sm font-medium text-indigo-600 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/30 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 transition-colors shrink-0"
+            >
+              <RefreshCw size={14} /> {t('retryFailed', { count: failed })}
+            </button>
+          )}
+        </div>
+        <div className="h-2 rounded-full bg-slate-100 dark:bg-slate-700 overflow-hidden" role="progressbar" aria-valuemin={0} aria-valuemax={items.length} aria-valuenow={finished}>
+          <div className="h-full bg-indigo-500 transition-all duration-300" style={{ width: `${items.length ? (finished / items.length) * 100 : 0}%` }} />
+        </div>
+        <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+          {t('analysedCount', { done: finished, total: items.length })}{failed > 0 ? ` · ${t('failedCount', { count: failed })}` : ''} · {profile.name}
+        </p>
+      </div>
+
+      <ol className="divide-y divide-slate-100 dark:divide-slate-700 max-h-[420px] overflow-y-auto">
+        {items.map((item, index) => (
+          <li key={`${index}-${item.name}`} className="flex items-start gap-3 px-6 py-2.5">
+            <span className="mt-0.5 shrink-0">{STATUS_ICONS[item.status]}</span>
+            <div className="min-w-0 flex-1">
+              <p className="text-sm text-slate-700 dark:text-slate-200">
+                <span className="text-slate-400 dark:text-slate-500 mr-2">{index + 1}.</span>
+                {item.data?.name ?? item.name}
+              </p>
+              {item.error && <p className="text-xs text-red-600 dark:text-red-400 mt-0.5">{item.error.message}</p>}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <div className="p-6 border-t border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/40">
+        <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 mb-3 cursor-pointer select-none">
+          <input type="checkbox" checked={answerKey} onChange={(e) => setAnswerKey(e.target.checked)} className="accent-indigo-600" />
+          {t('includeAnswerKey')}
+        </label>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={handlePdf} disabled={!canExport || isGenerating} className={`${exportButtonClass} bg-indigo-600 hover:bg-indigo-700 text-white`}>
+            {isGenerating ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />} {t('pdfBooklet')}
+          </button>
+          <button
+            onClick={() => download(worksheetToMarkdown(compounds, options), 'text/markdown', worksheetFileName(options.title, 'md'))}
+            disabled={!canExport}
+            className={`${exportButtonClass} bg-slate-200 hover:bg-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-200`}
+          >
+            <FileText size={16} /> Markdown
+          </button>
+          <button
+            onClick={() => download(worksheetToHtml(compounds, options), 'text/html', worksheetFileName(options.title, 'html'))}
+            disabled={!canExport}
+            className={`${exportButtonClass} bg-slate-200 hover:bg-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-200`}
+            title={t('htmlForWordTitle')}
+          >
+            <FileCode size={16} /> {t('htmlForWord')}
+          </button>
+        </div>
+        {!isProcessing && failed > 0 && compounds.length > 0 && (
+          <p className="mt-3 text-xs text-amber-700 dark:text-amber-400">{failed === 1 ? t('oneFailedLeftOut') : t('failedLeftOut', { count: failed })}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WorksheetProgress;
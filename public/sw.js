@@ -0,0 +1,101 @@
+// Service worker: keeps the app shell and the offline dataset available without a connection.
+// Bump the version to drop every cached file on the next visit.
+const VERSION = 'v1';
+const SHELL_CACHE = `goc-shell-${VERSION}`;
+const RUNTIME_CACHE = `goc-runtime-${VERSION}`;
+
+const SHELL_FILES = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+// One file per curriculum level, as named by offlineDatasetPath in services/offline.ts
+const DATASET_FILES = ['foundation', 'board', 'competitive', 'undergraduate'].map(slug => `/offline/${slug}.json`);
+
+// Styling and fonts come from CDNs; without them the cached shell would render unstyled
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+/**
+ * Every hashed chunk, style and asset of the build, read from the manifest vite.config.ts writes. The lazy chunks
+ * matter as much as the entry: the offline lookup imports localProvider only once the network has already failed.
+ */
+const shellAssets = async () => {
+  const response = await fetch('/asset-manifest.json', { cache: 'no-cache' });
+  const manifest = await response.json();
+  const files = Object.values(manifest).flatMap(chunk => [chunk.file, ...(chunk.css ?? []), ...(chunk.assets ?? [])]);
+  return [...new Set(files)].map(file => `/${file}`);
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const shell = await caches.open(SHELL_CACHE);
+    await shell.addAll([...SHELL_FILES, ...(await shellAssets())]);
+    // Optional pieces are cached one by one: a dataset that was never generated must not fail the install
+    const runtime = await caches.open(RUNTIME_CACHE);
+    await Promise.all([
+      ...DATASET_FILES.map(file => runtime.add(file).catch(() => undefined)),
+      runtime.add(new Request('https://cdn.tailwindcss.com', { mode: 'no-cors' })).catch(() => undefined),
+    ]);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const keep = [SHELL_CACHE, RUNTIME_CACHE];
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => !keep.includes(name)).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+const cacheFirst = async request => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    const runtime = await caches.open(RUNTIME_CACHE);
+    await runtime.put(request, response.clone());
+  }
+  return response;
+};
+
+const staleWhileRevalidate = async request => {
+  const runtime = await caches.open(RUNTIME_CACHE);
+  const cached = await runtime.match(request);
+  const refresh = fetch(request).then(response => {
+    if (response.ok || response.type === 'opaque') runtime.put(request, response.clone());
+    return response;
+  });
+  if (!cached) return refresh;
+  refresh.catch(() => undefined);
+  return cached;
+};
+
+// Pages always try the network so a new deployment is picked up; offline they get the cached shell
+const networkFirstPage = async request => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const shell = await caches.open(SHELL_CACHE);
+      await shell.put('/index.html', response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match('/index.html');
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  // Model calls are POSTs and always go to the network; the app queues or falls back on its own
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin === self.location.origin) {
+    if (request.mode === 'navigate') event.respondWith(networkFirstPage(request));
+    else if (url.pathname.startsWith('/offline/')) event.respondWith(staleWhileRevalidate(request));
+    else event.respondWith(cacheFirst(request));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
@@ -0,0 +1,100 @@
+// Precomputes the offline dataset: every curated compound at every curriculum level, written to public/offline.
+//
+//   npm run offline-data                  all levels
+//   npm run offline-data -- board         only the named levels (foundation, board, competitive, undergraduate)
+//
+// Uses the provider configured in .env.local, like the app. Compounds already in a level's file are kept, so an
+// interrupted run picks up where it stopped; delete the file to regenerate a level from scratch.
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { loadEnv } from "vite";
+import { EducationLevel } from "../types";
+import { MAX_BATCH_SIZE, runBatch } from "../services/batch";
+import { normaliseQuery } from "../services/cache";
+import { builtInProfile } from "../services/curriculum";
+import { OfflineDataset, offlineDatasetPath, OfflineEntry } from "../services/offline";
+import { getAnalysisProvider } from "../services/provider";
+import { OFFLINE_COMPOUNDS } from "./offlineCompounds";
+
+// The response cache expects a browser; here it only needs somewhere to put its entries
+const memory = new Map<string, string>();
+globalThis.localStorage = {
+  get length() {
+    return memory.size;
+  },
+  key: index => [...memory.keys()][index] ?? null,
+  getItem: key => memory.get(key) ?? null,
+  setItem: (key, value) => void memory.set(key, String(value)),
+  removeItem: key => void memory.delete(key),
+  clear: () => memory.clear(),
+};
+
+const readExisting = async (file: string): Promise<OfflineEntry[]> => {
+  try {
+    const dataset = JSON.parse(await readFile(file, "utf8")) as OfflineDataset;
+    return Array.isArray(dataset.compounds) ? dataset.compounds : [];
+  } catch {
+    return [];
+  }
+};
+
+const buildLevel = async (level: EducationLevel, provider: string) => {
+  const file = `public/${offlineDatasetPath(level)}`;
+  const entries = await readExisting(file);
+  const done = new Set(entries.flatMap(entry => entry.aliases));
+  const missing = OFFLINE_COMPOUNDS.filter(compound => !done.has(normaliseQuery(compound.name)));
+  console.log(`${level}: ${entries.length} already done, ${missing.length} to analyse`);
+
+  const failures: string[] = [];
+  for (let start = 0; start < missing.length; start += MAX_BATCH_SIZE) {
+    const chunk = missing.slice(start, start + MAX_BATCH_SIZE);
+    const items = await runBatch(chunk.map(compound => compound.name), builtInProfile(level), {
+      onItem: (index, item) => {
+        if (item.status === "done") console.log(`  ✓ ${item.name}`);
+        if (item.status === "failed") console.log(`  ✗ ${item.name}: ${item.error?.message}`);
+      },
+    });
+    items.forEach((item, index) => {
+      if (!item.data) {
+        failures.push(item.name);
+        return;
+      }
+      // Cleaned answers only: the app shows dataset entries without the "partially verified" warning
+      if (item.data.meta?.repairedFields?.length) {
+        failures.push(`${item.name} (repaired: ${item.data.meta.repairedFields.join(", ")})`);
+        return;
+      }
+      const { meta, ...data } = item.data;
+      const compound = chunk[index];
+      entries.push({ aliases: [compound.name, ...(compound.aliases ?? [])].map(normaliseQuery), data });
+    });
+
+    // Saved after every chunk so a crash or a quota error loses little
+    const dataset: OfflineDataset = { version: 1, level, provider, generatedAt: Date.now(), compounds: entries };
+    await mkdir(dirname(file), { recursive: true });
+    await writeFile(file, JSON.stringify(dataset));
+  }
+
+  if (failures.length) console.log(`  Left out, run again to retry: ${failures.join("; ")}`);
+};
+
+const main = async () => {
+  Object.assign(process.env, loadEnv("production", process.cwd(), ""));
+  const provider = await getAnalysisProvider();
+  if (provider.id === "local") {
+    throw new Error("The local provider only knows its own fixtures; set API_KEY or ANALYSIS_PROVIDER in .env.local.");
+  }
+
+  const requested = process.argv.slice(2);
+  const levels = Object.values(EducationLevel).filter(level =>
+    !requested.length || requested.some(slug => offlineDatasetPath(level) === `offline/${slug}.json`)
+  );
+  if (!levels.length) throw new Error(`Unknown level: ${requested.join(", ")}`);
+
+  for (const level of levels) await buildLevel(level, provider.id);
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,225 @@
+/** A compound for the offline dataset; `aliases` are extra spellings a student might type, besides the name */
+export interface CuratedCompound {
+  name: string;
+  aliases?: string[];
+}
+
+// The compounds that come up most across the NCERT Class 11-12 organic chapters and JEE/NEET papers.
+// Formulas are only listed as aliases where they name one compound unambiguously.
+export const OFFLINE_COMPOUNDS: CuratedCompound[] = [
+  // Alkanes and cycloalkanes
+  { name: "Methane", aliases: ["ch4", "marsh gas"] },
+  { name: "Ethane", aliases: ["c2h6"] },
+  { name: "Propane", aliases: ["c3h8"] },
+  { name: "Butane", aliases: ["n-butane"] },
+  { name: "Isobutane", aliases: ["2-methylpropane"] },
+  { name: "Pentane", aliases: ["n-pentane"] },
+  { name: "Isopentane", aliases: ["2-methylbutane"] },
+  { name: "Neopentane", aliases: ["2,2-dimethylpropane"] },
+  { name: "Hexane", aliases: ["n-hexane"] },
+  { name: "Cyclopropane" },
+  { name: "Cyclobutane" },
+  { name: "Cyclopentane" },
+  { name: "Cyclohexane" },
+  { name: "Methylcyclohexane" },
+
+  // Alkenes, dienes and alkynes
+  { name: "Ethene", aliases: ["ethylene", "c2h4", "ch2=ch2"] },
+  { name: "Propene", aliases: ["propylene"] },
+  { name: "But-1-ene", aliases: ["1-butene"] },
+  { name: "But-2-ene", aliases: ["2-butene"] },
+  { name: "2-Methylpropene", aliases: ["isobutylene", "isobutene"] },
+  { name: "Buta-1,3-diene", aliases: ["1,3-butadiene", "butadiene"] },
+  { name: "Isoprene", aliases: ["2-methylbuta-1,3-diene"] },
+  { name: "Cyclohexene" },
+  { name: "Cyclopentadiene", aliases: ["cyclopenta-1,3-diene"] },
+  { name: "Allene", aliases: ["propadiene"] },
+  { name: "Ethyne", aliases: ["acetylene", "c2h2"] },
+  { name: "Propyne", aliases: ["methylacetylene"] },
+  { name: "But-2-yne", aliases: ["2-butyne", "dimethylacetylene"] },
+
+  // Reactive intermediates and (anti)aromaticity examples
+  { name: "tert-Butyl carbocation", aliases: ["t-butyl carbocation", "tert-butyl cation"] },
+  { name: "Allyl carbocation", aliases: ["allyl cation"] },
+  { name: "Benzyl carbocation", aliases: ["benzyl cation"] },
+  { name: "Tropylium cation", aliases: ["tropylium ion", "cycloheptatrienyl cation"] },
+  { name: "Cyclopentadienyl anion" },
+  { name: "Cyclopropenyl cation" },
+  { name: "Cyclooctatetraene", aliases: ["cot"] },
+  { name: "Methyl radical", aliases: ["methyl free radical"] },
+  { name: "Dichlorocarbene", aliases: ["ccl2"] },
+  { name: "Benzyne" },
+
+  // Aromatic hydrocarbons and heterocycles
+  { name: "Benzene", aliases: ["c6h6", "benzol"] },
+  { name: "Toluene", aliases: ["methylbenzene"] },
+  { name: "Ethylbenzene" },
+  { name: "o-Xylene", aliases: ["1,2-dimethylbenzene"] },
+  { name: "m-Xylene", aliases: ["1,3-dimethylbenzene"] },
+  { name: "p-Xylene", aliases: ["1,4-dimethylbenzene"] },
+  { name: "Cumene", aliases: ["isopropylbenzene"] },
+  { name: "Styrene", aliases: ["vinylbenzene", "phenylethene"] },
+  { name: "Mesitylene", aliases: ["1,3,5-trimethylbenzene"] },
+  { name: "Naphthalene" },
+  { name: "Anthracene" },
+  { name: "Phenanthrene" },
+  { name: "Biphenyl" },
+  { name: "Azulene" },
+  { name: "Pyridine" },
+  { name: "Pyrrole" },
+  { name: "Furan" },
+  { name: "Thiophene" },
+  { name: "Imidazole" },
+  { name: "Indole" },
+  { name: "Quinoline" },
+
+  // Haloalkanes and haloarenes
+  { name: "Chloromethane", aliases: ["methyl chloride", "ch3cl"] },
+  { name: "Dichloromethane", aliases: ["methylene chloride", "ch2cl2"] },
+  { name: "Chloroform", aliases: ["trichloromethane", "chcl3"] },
+  { name: "Carbon tetrachloride", aliases: ["tetrachloromethane", "ccl4"] },
+  { name: "Iodoform", aliases: ["triiodomethane", "chi3"] },
+  { name: "Iodomethane", aliases: ["methyl iodide", "ch3i"] },
+  { name: "Bromoethane", aliases: ["ethyl bromide", "c2h5br", "ch3ch2br"] },
+  { name: "2-Chloropropane", aliases: ["isopropyl chloride"] },
+  { name: "1-Bromobutane", aliases: ["n-butyl bromide"] },
+  { name: "2-Bromobutane", aliases: ["sec-butyl bromide"] },
+  { name: "2-Chloro-2-methylpropane", aliases: ["tert-butyl chloride", "t-butyl chloride"] },
+  { name: "Vinyl chloride", aliases: ["chloroethene"] },
+  { name: "Allyl chloride", aliases: ["3-chloropropene"] },
+  { name: "Benzyl chloride", aliases: ["chloromethylbenzene", "c6h5ch2cl"] },
+  { name: "Chlorobenzene", aliases: ["c6h5cl"] },
+  { name: "Bromobenzene", aliases: ["c6h5br"] },
+  { name: "Iodobenzene", aliases: ["c6h5i"] },
+  { name: "1,4-Dichlorobenzene", aliases: ["p-dichlorobenzene"] },
+  { name: "DDT", aliases: ["dichlorodiphenyltrichloroethane"] },
+  { name: "Dichlorodifluoromethane", aliases: ["freon-12", "freon 12", "ccl2f2"] },
+  { name: "Tetrafluoroethylene", aliases: ["tetrafluoroethene"] },
+  { name: "Chloroprene", aliases: ["2-chlorobuta-1,3-diene"] },
+
+  // Alcohols, phenols and ethers
+  { name: "Methanol", aliases: ["methyl alcohol", "wood spirit", "ch3oh"] },
+  { name: "Ethanol", aliases: ["ethyl alcohol", "c2h5oh", "ch3ch2oh"] },
+  { name: "Propan-1-ol", aliases: ["1-propanol", "n-propyl alcohol"] },
+  { name: "Propan-2-ol", aliases: ["2-propanol", "isopropyl alcohol", "isopropanol"] },
+  { name: "Butan-1-ol", aliases: ["1-butanol", "n-butyl alcohol"] },
+  { name: "Butan-2-ol", aliases: ["2-butanol", "sec-butyl alcohol"] },
+  { name: "2-Methylpropan-1-ol", aliases: ["isobutyl alcohol"] },
+  { name: "2-Methylpropan-2-ol", aliases: ["tert-butyl alcohol", "t-butyl alcohol", "tert-butanol"] },
+  { name: "Ethylene glycol", aliases: ["ethane-1,2-diol", "glycol"] },
+  { name: "Glycerol", aliases: ["glycerine", "glycerin", "propane-1,2,3-triol"] },
+  { name: "Allyl alcohol", aliases: ["prop-2-en-1-ol"] },
+  { name: "Benzyl alcohol", aliases: ["phenylmethanol", "c6h5ch2oh"] },
+  { name: "Cyclohexanol" },
+  { name: "Phenol", aliases: ["carbolic acid", "hydroxybenzene", "c6h5oh"] },
+  { name: "o-Cresol", aliases: ["2-methylphenol"] },
+  { name: "p-Cresol", aliases: ["4-methylphenol"] },
+  { name: "Catechol", aliases: ["benzene-1,2-diol"] },
+  { name: "Resorcinol", aliases: ["benzene-1,3-diol"] },
+  { name: "Hydroquinone", aliases: ["quinol", "benzene-1,4-diol"] },
+  { name: "o-Nitrophenol", aliases: ["2-nitrophenol"] },
+  { name: "p-Nitrophenol", aliases: ["4-nitrophenol"] },
+  { name: "Picric acid", aliases: ["2,4,6-trinitrophenol"] },
+  { name: "Dimethyl ether", aliases: ["methoxymethane", "ch3och3"] },
+  { name: "Diethyl ether", aliases: ["ether", "ethoxyethane"] },
+  { name: "Ethyl methyl ether", aliases: ["methoxyethane"] },
+  { name: "Anisole", aliases: ["methoxybenzene"] },
+  { name: "Tetrahydrofuran", aliases: ["thf", "oxolane"] },
+  { name: "Ethylene oxide", aliases: ["oxirane", "epoxyethane"] },
+  { name: "1,4-Dioxane", aliases: ["dioxane"] },
+
+  // Aldehydes and ketones
+  { name: "Formaldehyde", aliases: ["methanal", "hcho"] },
+  { name: "Acetaldehyde", aliases: ["ethanal", "ch3cho"] },
+  { name: "Propanal", aliases: ["propionaldehyde"] },
+  { name: "Butanal", aliases: ["butyraldehyde"] },
+  { name: "Benzaldehyde", aliases: ["c6h5cho"] },
+  { name: "Acetone", aliases: ["propanone", "dimethyl ketone", "ch3coch3"] },
+  { name: "Butanone", aliases: ["methyl ethyl ketone", "mek", "butan-2-one"] },
+  { name: "Acetophenone", aliases: ["methyl phenyl ketone", "1-phenylethanone"] },
+  { name: "Benzophenone", aliases: ["diphenyl ketone"] },
+  { name: "Cyclohexanone" },
+  { name: "Acrolein", aliases: ["prop-2-enal", "acrylaldehyde"] },
+  { name: "Crotonaldehyde", aliases: ["but-2-enal"] },
+  { name: "Cinnamaldehyde", aliases: ["3-phenylprop-2-enal"] },
+  { name: "Salicylaldehyde", aliases: ["2-hydroxybenzaldehyde"] },
+  { name: "Glyoxal", aliases: ["ethanedial"] },
+  { name: "Chloral", aliases: ["trichloroacetaldehyde", "trichloroethanal"] },
+  { name: "Acetylacetone", aliases: ["pentane-2,4-dione", "acac"] },
+  { name: "Ethyl acetoacetate", aliases: ["acetoacetic ester", "ethyl 3-oxobutanoate"] },
+
+  // Carboxylic acids and their derivatives
+  { name: "Formic acid", aliases: ["methanoic acid", "hcooh"] },
+  { name: "Acetic acid", aliases: ["ethanoic acid", "ch3cooh", "vinegar"] },
+  { name: "Propanoic acid", aliases: ["propionic acid"] },
+  { name: "Butanoic acid", aliases: ["butyric acid"] },
+  { name: "Chloroacetic acid", aliases: ["monochloroacetic acid", "2-chloroethanoic acid"] },
+  { name: "Dichloroacetic acid", aliases: ["2,2-dichloroethanoic acid"] },
+  { name: "Trichloroacetic acid", aliases: ["2,2,2-trichloroethanoic acid", "tca"] },
+  { name: "Trifluoroacetic acid", aliases: ["tfa"] },
+  { name: "Oxalic acid", aliases: ["ethanedioic acid"] },
+  { name: "Malonic acid", aliases: ["propanedioic acid"] },
+  { name: "Succinic acid", aliases: ["butanedioic acid"] },
+  { name: "Adipic acid", aliases: ["hexanedioic acid"] },
+  { name: "Maleic acid", aliases: ["cis-butenedioic acid"] },
+  { name: "Fumaric acid", aliases: ["trans-butenedioic acid"] },
+  { name: "Acrylic acid", aliases: ["prop-2-enoic acid"] },
+  { name: "Lactic acid", aliases: ["2-hydroxypropanoic acid"] },
+  { name: "Citric acid" },
+  { name: "Benzoic acid", aliases: ["c6h5cooh"] },
+  { name: "p-Nitrobenzoic acid", aliases: ["4-nitrobenzoic acid"] },
+  { name: "p-Methoxybenzoic acid", aliases: ["anisic acid", "4-methoxybenzoic acid"] },
+  { name: "Salicylic acid", aliases: ["2-hydroxybenzoic acid"] },
+  { name: "Phthalic acid", aliases: ["benzene-1,2-dicarboxylic acid"] },
+  { name: "Terephthalic acid", aliases: ["benzene-1,4-dicarboxylic acid"] },
+  { name: "Aspirin", aliases: ["acetylsalicylic acid"] },
+  { name: "Acetyl chloride", aliases: ["ethanoyl chloride", "ch3cocl"] },
+  { name: "Benzoyl chloride", aliases: ["c6h5cocl"] },
+  { name: "Acetic anhydride", aliases: ["ethanoic anhydride"] },
+  { name: "Phthalic anhydride" },
+  { name: "Ethyl acetate", aliases: ["ethyl ethanoate"] },
+  { name: "Methyl benzoate" },
+  { name: "Methyl salicylate", aliases: ["oil of wintergreen"] },
+  { name: "Acetamide", aliases: ["ethanamide", "ch3conh2"] },
+  { name: "Benzamide" },
+  { name: "Urea", aliases: ["carbamide"] },
+  { name: "Acetonitrile", aliases: ["methyl cyanide", "ethanenitrile", "ch3cn"] },
+  { name: "Benzonitrile", aliases: ["phenyl cyanide"] },
+
+  // Nitrogen compounds
+  { name: "Methylamine", aliases: ["methanamine", "ch3nh2"] },
+  { name: "Ethylamine", aliases: ["ethanamine", "c2h5nh2"] },
+  { name: "Dimethylamine", aliases: ["n-methylmethanamine"] },
+  { name: "Trimethylamine", aliases: ["n,n-dimethylmethanamine"] },
+  { name: "Triethylamine" },
+  { name: "Aniline", aliases: ["aminobenzene", "benzenamine", "c6h5nh2"] },
+  { name: "N-Methylaniline" },
+  { name: "N,N-Dimethylaniline" },
+  { name: "p-Toluidine", aliases: ["4-methylaniline"] },
+  { name: "p-Nitroaniline", aliases: ["4-nitroaniline"] },
+  { name: "Acetanilide", aliases: ["n-phenylacetamide"] },
+  { name: "Benzylamine", aliases: ["phenylmethanamine"] },
+  { name: "Guanidine" },
+  { name: "Nitromethane", aliases: ["ch3no2"] },
+  { name: "Nitrobenzene", aliases: ["c6h5no2"] },
+  { name: "m-Dinitrobenzene", aliases: ["1,3-dinitrobenzene"] },
+  { name: "TNT", aliases: ["2,4,6-trinitrotoluene", "trinitrotoluene"] },
+  { name: "Benzenediazonium chloride" },
+  { name: "Phenylhydrazine" },
+  { name: "Sulphanilic acid", aliases: ["sulfanilic acid", "4-aminobenzenesulphonic acid"] },
+  { name: "Methyl isocyanate", aliases: ["mic"] },
+  { name: "Caprolactam" },
+  { name: "Hexamethylenediamine", aliases: ["hexane-1,6-diamine"] },
+
+  // Biomolecules, drugs and dyes from the later chapters
+  { name: "Glucose", aliases: ["d-glucose", "dextrose"] },
+  { name: "Fructose", aliases: ["d-fructose", "fruit sugar"] },
+  { name: "Sucrose", aliases: ["cane sugar", "table sugar"] },
+  { name: "Glycine", aliases: ["aminoacetic acid"] },
+  { name: "Alanine" },
+  { name: "Ascorbic acid", aliases: ["vitamin c"] },
+  { name: "Paracetamol", aliases: ["acetaminophen"] },
+  { name: "Saccharin" },
+  { name: "Phenolphthalein" },
+  { name: "Methyl orange" },
+];
@@ -0,0 +1,142 @@
+import { ChemicalData, CurriculumProfile, Language, PartialAnalysis, PromptTemplate } from "../types";
+import { PartialJsonParser, PartialJsonSnapshot } from "../utils/partialJson";
+import { buildCacheKey, CacheKey, readCache, writeCache } from "./cache";
+import { profileCacheId } from "./curriculum";
+import { CancelledError, InvalidInputError, toAnalysisError, UnrecognisedStructureError } from "./errors";
+import { findOfflineAnswer, isOffline } from "./offline";
+import { CHEMICAL_DATA_SCHEMA, UNRECOGNISED_NAME } from "./prompt";
+import { analysisSchema, buildAnalysisPrompt, DEFAULT_TEMPLATE, templateVersion } from "./promptTemplate";
+import { AnalysisProvider, GenerationRequest, getAnalysisProvider } from "./provider";
+import { RetryOptions } from "./retry";
+import { generateStructured, toImagePart } from "./structured";
+import { isRecord, readElectronicEffects, readResonance, validateChemicalData } from "./validation";
+
+export interface AnalyzeOptions {
+  /** Connection table of a structure drawn with the bond/atom tools (see utils/molecule) */
+  structureText?: string | null;
+  /** Aborting cancels the in-flight call and any pending retry */
+  signal?: AbortSignal;
+  /** Overrides for the transient-failure retry policy (see services/retry) */
+  retry?: Partial<RetryOptions>;
+  onRetry?: (attempt: number, delayMs: number, error: Error) => void;
+  /** Skip the response cache lookup; the new answer still replaces the cached one */
+  fresh?: boolean;
+  /** Receives the result section by section while it streams; not called for cached or non-streaming answers */
+  onPartial?: (partial: PartialAnalysis) => void;
+  /** Language of the explanations; names and formulas stay in English */
+  language?: Language;
+  /** Adds the English name after key terms in a non-English answer */
+  bilingual?: boolean;
+  /** Prompt template to build the request from; the standard one by default */
+  template?: PromptTemplate;
+}
+
+// Nested blocks are only shown once complete, after the same cleaning the final answer gets
+const PARTIAL_BLOCK_READERS: Record<string, (raw: unknown) => unknown> = {
+  electronicEffects: raw => readElectronicEffects(raw),
+  resonance: raw => readResonance(raw),
+};
+
+/** Keeps only fields of the expected shape, so half-typed model output never reaches the UI */
+const toPartialAnalysis = ({ value, completeKeys }: PartialJsonSnapshot): PartialAnalysis | null => {
+  if (!isRecord(value) || String(value.name ?? "").trim().toUpperCase() === UNRECOGNISED_NAME) return null;
+
+  const data: Record<string, unknown> = {};
+  for (const [field, schema] of Object.entries(CHEMICAL_DATA_SCHEMA.properties ?? {})) {
+    const fieldValue = value[field];
+    if (schema.type === "string" && typeof fieldValue === "string") data[field] = fieldValue;
+    if (schema.type === "array" && Array.isArray(fieldValue)) data[field] = fieldValue.filter(item => typeof item === "string");
+    if (schema.type === "object" && completeKeys.includes(field) && PARTIAL_BLOCK_READERS[field]) {
+      const block = PARTIAL_BLOCK_READERS[field](fieldValue);
+      if (block !== undefined) data[field] = block;
+    }
+  }
+  const completedFields = completeKeys.filter(field => field in data) as (keyof ChemicalData)[];
+  return { data: data as Partial<ChemicalData>, completedFields };
+};
+
+/** Streams the answer, reporting each newly completed section */
+const streamText = (provider: AnalysisProvider, request: GenerationRequest, onPartial: (partial: PartialAnalysis) => void) => {
+  const parser = new PartialJsonParser();
+  let lastEmitted = "";
+  return provider.generateStream!(request, chunk => {
+    const partial = toPartialAnalysis(parser.push(chunk));
+    const signature = JSON.stringify(partial);
+    if (partial && signature !== lastEmitted) {
+      lastEmitted = signature;
+      onPartial(partial);
+    }
+  });
+};
+
+export const analyzeChemicalStructure = async (
+  imageData: string | null,
+  textInput: string | null,
+  profile: CurriculumProfile,
+  options: AnalyzeOptions = {}
+): Promise<ChemicalData> => {
+  if (!imageData && !textInput) {
+    throw new InvalidInputError("Please provide a drawing or chemical name.");
+  }
+
+  const structureText = options.structureText ?? null;
+  const language = options.language ?? Language.ENGLISH;
+  // Bilingual only changes non-English answers, so an English one is cached and requested the same either way
+  const bilingual = language !== Language.ENGLISH && !!options.bilingual;
+  const template = options.template ?? DEFAULT_TEMPLATE;
+  const version = templateVersion(template);
+  const prompt = buildAnalysisPrompt(template, { hasImage: !!imageData, textInput, structureText, profile, language, bilingual });
+
+  try {
+    const provider = await getAnalysisProvider();
+    // A drawing that cannot be hashed simply goes uncached
+    const cacheKey = await buildCacheKey({ imageData, textInput, structureText, language, bilingual, template: version }, profileCacheId(profile), provider.id)
+      .catch((hashError): CacheKey | null => {
+        console.warn("Response cache unavailable for this request:", hashError);
+        return null;
+      });
+    const cached = cacheKey && !options.fresh ? readCache(cacheKey) : null;
+    if (cached) return cached;
+
+    // Known offline: a typed name is looked up locally instead of waiting for the retries to give up
+    if (isOffline() && textInput && !imageData) {
+      const offline = await findOfflineAnswer(textInput, profile.baseLevel);
+      if (offline) return offline;
+    }
+
+    const { onPartial } = options;
+    const request: GenerationRequest = {
+      task: { kind: "analysis", textInput, structureText, level: profile.baseLevel },
+      prompt,
+      images: imageData ? [toImagePart(imageData)] : undefined,
+      schema: analysisSchema(template),
+    };
+    const result = await generateStructured(provider, request, raw => {
+      // Checked before validation: an unrecognised answer legitimately leaves the formula empty
+      if (isRecord(raw) && String(raw.name ?? "").trim().toUpperCase() === UNRECOGNISED_NAME) {
+        throw new UnrecognisedStructureError(String(raw.summary || "The structure could not be identified."));
+      }
+      const { data, repairedFields } = validateChemicalData(raw, template.sections);
+      // WebSources are removed as per previous request to hide references and to speed up processing
+      return { ...data, meta: { provider: provider.id, repairedFields, templateVersion: version } };
+    }, {
+      signal: options.signal,
+      retry: options.retry,
+      onRetry: options.onRetry,
+      // Streams when both the provider and the caller support it, otherwise makes a single blocking call
+      generate: provider.generateStream && onPartial ? req => streamText(provider, req, onPartial) : undefined,
+    });
+
+    // Partially verified answers are not worth repeating, so only clean ones are cached
+    if (cacheKey && result.meta.repairedFields.length === 0) writeCache(cacheKey, result);
+    return result;
+  } catch (error) {
+    const analysisError = options.signal?.aborted ? new CancelledError(undefined, error) : toAnalysisError(error);
+    if (analysisError.kind === "network" && textInput && !imageData) {
+      const offline = await findOfflineAnswer(textInput, profile.baseLevel);
+      if (offline) return offline;
+    }
+    if (analysisError.kind !== "cancelled") console.error("Analysis Error:", error);
+    throw analysisError;
+  }
+};
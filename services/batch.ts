@@ -0,0 +1,126 @@
+import { ChemicalData, CurriculumProfile, Language, PromptTemplate } from "../types";
+import { analyzeChemicalStructure } from "./analysis";
+import { AnalysisError, CancelledError, InvalidInputError, toAnalysisError } from "./errors";
+import { RetryOptions } from "./retry";
+
+export const MAX_BATCH_SIZE = 30;
+// Enough to keep a worksheet moving without tripping the provider's rate limits
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+
+export type BatchStatus = "pending" | "running" | "done" | "failed";
+
+/** One compound of a worksheet run; `data` is set once done, `error` once failed */
+export interface BatchItem {
+  name: string;
+  status: BatchStatus;
+  data?: ChemicalData;
+  error?: AnalysisError;
+}
+
+export interface BatchOptions {
+  concurrency?: number;
+  /** Aborting stops starting new compounds and cancels the ones in flight */
+  signal?: AbortSignal;
+  retry?: Partial<RetryOptions>;
+  /** Passed to every analysis, as for a single one (see AnalyzeOptions) */
+  language?: Language;
+  bilingual?: boolean;
+  template?: PromptTemplate;
+  /** Called whenever an item changes status, with the updated item */
+  onItem?: (index: number, item: BatchItem) => void;
+}
+
+const HEADER_CELLS = ["name", "names", "compound", "compounds", "compound name"];
+
+/** Splits one CSV line, honouring double-quoted cells such as "2,4-Dinitrophenol" */
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"' && quoted && line[i + 1] === '"') {
+      cell += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if ((char === "," || char === ";" || char === "\t") && !quoted) {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  return [...cells, cell];
+};
+
+/**
+ * Reads compound names from a pasted list or a CSV export. Several lines are treated as rows and the first
+ * column is used; a single line is split on commas, except commas between digits as in "2,4-dinitrophenol".
+ * Blank entries, a header row and repeats are dropped.
+ */
+export const parseCompoundList = (text: string): string[] => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const names = lines.length === 1 && !lines[0].includes('"')
+    ? lines[0].split(/(?<!\d),|,(?!\d)|;/)
+    : lines.map(line => splitCsvLine(line)[0]);
+
+  const seen = new Set<string>();
+  return names
+    .map(name => name.trim())
+    .filter((name, index) => {
+      const key = name.toLowerCase();
+      if (!name || seen.has(key) || (index === 0 && HEADER_CELLS.includes(key))) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+/**
+ * Analyses each compound by name for `profile`, a few at a time. A compound that fails is marked and the rest carry
+ * on, unless the failure is an auth error that every later request would hit too.
+ */
+export const runBatch = async (names: string[], profile: CurriculumProfile, options: BatchOptions = {}): Promise<BatchItem[]> => {
+  if (!names.length) throw new InvalidInputError("Add at least one compound name.");
+  if (names.length > MAX_BATCH_SIZE) {
+    throw new InvalidInputError(`A worksheet can have at most ${MAX_BATCH_SIZE} compounds; split the list into smaller ones.`);
+  }
+
+  const { signal, onItem } = options;
+  const items: BatchItem[] = names.map(name => ({ name, status: "pending" }));
+  const update = (index: number, changes: Partial<BatchItem>) => {
+    items[index] = { ...items[index], ...changes };
+    onItem?.(index, items[index]);
+  };
+
+  let next = 0;
+  let fatal: AnalysisError | null = null;
+  const worker = async () => {
+    while (next < items.length && !signal?.aborted && !fatal) {
+      const index = next++;
+      update(index, { status: "running" });
+      try {
+        const data = await analyzeChemicalStructure(null, items[index].name, profile, {
+          signal,
+          retry: options.retry,
+          language: options.language,
+          bilingual: options.bilingual,
+          template: options.template,
+        });
+        update(index, { status: "done", data });
+      } catch (error) {
+        if (signal?.aborted) return;
+        const analysisError = toAnalysisError(error);
+        update(index, { status: "failed", error: analysisError });
+        if (analysisError.kind === "auth") fatal = analysisError;
+      }
+    }
+  };
+
+  const concurrency = Math.max(1, Math.min(options.concurrency ?? DEFAULT_BATCH_CONCURRENCY, items.length));
+  await Promise.all(Array.from({ length: concurrency }, worker));
+
+  if (signal?.aborted) throw new CancelledError("Worksheet cancelled.");
+  if (fatal) throw fatal;
+  return items;
+};
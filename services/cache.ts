@@ -0,0 +1,163 @@
+import { ChemicalData, Language } from "../types";
+import { hammingDistance, imageDigest, perceptualHash } from "../utils/imageHash";
+import { readStoredJson, readStoredList, writeStoredList } from "./storage";
+
+const ENTRIES_STORAGE_KEY = "goc-response-cache";
+const SETTINGS_STORAGE_KEY = "goc-response-cache-settings";
+
+// Drawings of the same connection table whose hashes differ in at most this many of the 64 bits count as the same
+// sketch. Sparse line drawings of different molecules can be this close, so the hash alone never decides a hit.
+const MAX_HASH_DISTANCE = 3;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Entries saved before prompt templates existed were all asked with the first standard template
+const LEGACY_TEMPLATE_VERSION = "standard@1";
+
+export interface CacheSettings {
+  enabled: boolean;
+  ttlMs: number;
+  /** Least recently used entries are evicted beyond this */
+  maxEntries: number;
+}
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = {
+  enabled: true,
+  ttlMs: 7 * 24 * HOUR_MS,
+  maxEntries: 100,
+};
+
+/** What identifies a request: normalised text, or a drawing's hashes and connection table, for one curriculum profile */
+export interface CacheKey {
+  /** The profile's cache id (see profileCacheId); for built-in profiles this is the level value older entries hold */
+  level: string;
+  provider: string;
+  text: string | null;
+  imageHash: string | null;
+  /** SHA-256 of the image; missing on entries saved before it was recorded, which then only match by structure */
+  imageDigest?: string | null;
+  /** Exact connection table from the structure tools; two sketches can look alike yet differ here */
+  structureText: string | null;
+  /** Missing on entries saved before answers could be in other languages, which are all English */
+  language?: Language;
+  bilingual?: boolean;
+  /** Prompt template and revision (see templateVersion); the same question under another template is a new one */
+  template?: string;
+}
+
+export interface CacheEntry extends CacheKey {
+  id: string;
+  data: ChemicalData;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export const getCacheSettings = (): CacheSettings => ({
+  ...DEFAULT_CACHE_SETTINGS,
+  ...readStoredJson<Partial<CacheSettings>>(SETTINGS_STORAGE_KEY, {}),
+});
+
+export const saveCacheSettings = (settings: Partial<CacheSettings>): CacheSettings => {
+  const next = { ...getCacheSettings(), ...settings };
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(next));
+  writeEntries(prune(readEntries(), next));
+  return next;
+};
+
+const readEntries = () => readStoredList<CacheEntry>(ENTRIES_STORAGE_KEY);
+
+/** Drops expired entries, then the least recently used ones beyond the cap */
+const prune = (entries: CacheEntry[], settings: CacheSettings, now = Date.now()) =>
+  entries
+    .filter(entry => now - entry.createdAt < settings.ttlMs)
+    .sort((a, b) => b.lastUsedAt - a.lastUsedAt)
+    .slice(0, settings.maxEntries);
+
+// Entries are kept most recently used first, so a full quota drops the stalest ones
+const writeEntries = (entries: CacheEntry[]) => {
+  writeStoredList(ENTRIES_STORAGE_KEY, entries);
+};
+
+/** "  Benzene " and "benzene" are the same question; locants and punctuation inside the name are kept */
+export const normaliseQuery = (text: string) =>
+  text.normalize("NFKC").trim().toLowerCase().replace(/\s+/g, " ").replace(/[.?!]+$/, "");
+
+export const buildCacheKey = async (
+  request: { imageData: string | null; textInput: string | null; structureText: string | null; language: Language; bilingual: boolean; template: string },
+  level: string,
+  provider: string
+): Promise<CacheKey> => ({
+  level,
+  provider,
+  text: request.textInput ? normaliseQuery(request.textInput) : null,
+  imageHash: request.imageData ? await perceptualHash(request.imageData) : null,
+  imageDigest: request.imageData ? await imageDigest(request.imageData) : null,
+  structureText: request.structureText,
+  language: request.language,
+  bilingual: request.bilingual,
+  template: request.template,
+});
+
+/**
+ * A near-identical sketch only counts when both carry the same connection table, which already pins the molecule;
+ * a freehand drawing or photo has to be byte-identical.
+ */
+const sameImage = (entry: CacheEntry, key: CacheKey) => {
+  if (entry.imageHash === null || key.imageHash === null) return entry.imageHash === key.imageHash;
+  if (entry.structureText !== null && key.structureText !== null) {
+    return hammingDistance(entry.imageHash, key.imageHash) <= MAX_HASH_DISTANCE;
+  }
+  return !!entry.imageDigest && entry.imageDigest === key.imageDigest;
+};
+
+const matches = (entry: CacheEntry, key: CacheKey) =>
+  entry.level === key.level &&
+  entry.provider === key.provider &&
+  entry.text === key.text &&
+  entry.structureText === key.structureText &&
+  (entry.language ?? Language.ENGLISH) === (key.language ?? Language.ENGLISH) &&
+  !!entry.bilingual === !!key.bilingual &&
+  (entry.template ?? LEGACY_TEMPLATE_VERSION) === (key.template ?? LEGACY_TEMPLATE_VERSION) &&
+  sameImage(entry, key);
+
+/** Cached answer for the key, marked as cached, or null on a miss or when caching is off */
+export const readCache = (key: CacheKey): ChemicalData | null => {
+  const settings = getCacheSettings();
+  if (!settings.enabled) return null;
+
+  const entries = prune(readEntries(), settings);
+  const hit = entries.find(entry => matches(entry, key));
+  if (hit) hit.lastUsedAt = Date.now();
+  writeEntries(entries);
+
+  return hit ? { ...hit.data, meta: { ...hit.data.meta, cached: true, cachedAt: hit.createdAt } } : null;
+};
+
+export const writeCache = (key: CacheKey, data: ChemicalData) => {
+  const settings = getCacheSettings();
+  if (!settings.enabled) return;
+
+  const now = Date.now();
+  const entry: CacheEntry = {
+    ...key,
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    data: { ...data, meta: { ...data.meta, cached: undefined, cachedAt: undefined } },
+    createdAt: now,
+    lastUsedAt: now,
+  };
+  const others = readEntries().filter(existing => !matches(existing, key));
+  writeEntries(prune([entry, ...others], settings, now));
+};
+
+export const listCacheEntries = (): CacheEntry[] => prune(readEntries(), getCacheSettings());
+
+export const deleteCacheEntry = (id: string) => {
+  writeEntries(readEntries().filter(entry => entry.id !== id));
+};
+
+export const clearCache = () => {
+  localStorage.removeItem(ENTRIES_STORAGE_KEY);
+};
+
+/** Approximate storage used, in bytes (localStorage holds UTF-16) */
+export const cacheSizeBytes = () => (localStorage.getItem(ENTRIES_STORAGE_KEY)?.length ?? 0) * 2;
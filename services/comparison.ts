@@ -0,0 +1,71 @@
+import { ComparisonProperty, ComparisonResult, CurriculumProfile, Language } from "../types";
+import { CancelledError, InvalidInputError, toAnalysisError } from "./errors";
+import { buildComparisonPrompt, COMPARISON_SCHEMA } from "./prompt";
+import { GenerationRequest, getAnalysisProvider } from "./provider";
+import { RetryOptions } from "./retry";
+import { generateStructured, toImagePart } from "./structured";
+import { validateComparisonResult } from "./validation";
+
+export const MIN_COMPARED_COMPOUNDS = 2;
+export const MAX_COMPARED_COMPOUNDS = 5;
+
+/** One compound in a comparison, typed or drawn */
+export interface ComparisonInput {
+  /** A, B, C... in submission order */
+  label: string;
+  textInput: string | null;
+  imageData: string | null;
+  structureText: string | null;
+}
+
+export interface CompareOptions {
+  signal?: AbortSignal;
+  retry?: Partial<RetryOptions>;
+  onRetry?: (attempt: number, delayMs: number, error: Error) => void;
+  /** Language of the reasoning; compound names and the order line stay in English */
+  language?: Language;
+  bilingual?: boolean;
+}
+
+export const compareCompounds = async (
+  compounds: ComparisonInput[],
+  property: ComparisonProperty,
+  profile: CurriculumProfile,
+  options: CompareOptions = {}
+): Promise<ComparisonResult> => {
+  const usable = compounds.filter(compound => compound.textInput || compound.imageData);
+  if (usable.length < MIN_COMPARED_COMPOUNDS || usable.length > MAX_COMPARED_COMPOUNDS) {
+    throw new InvalidInputError(`Add between ${MIN_COMPARED_COMPOUNDS} and ${MAX_COMPARED_COMPOUNDS} compounds to compare.`);
+  }
+
+  const request: GenerationRequest = {
+    task: {
+      kind: "comparison",
+      property,
+      compounds: usable.map(({ label, textInput, structureText }) => ({ label, textInput, structureText })),
+      level: profile.baseLevel,
+    },
+    prompt: buildComparisonPrompt({
+      property,
+      compounds: usable.map(({ label, textInput, structureText, imageData }) => ({ label, textInput, structureText, hasImage: !!imageData })),
+      profile,
+      language: options.language ?? Language.ENGLISH,
+      bilingual: !!options.bilingual,
+    }),
+    images: usable.flatMap(compound => (compound.imageData ? [toImagePart(compound.imageData)] : [])),
+    schema: COMPARISON_SCHEMA,
+  };
+  const labels = usable.map(compound => compound.label);
+
+  try {
+    const provider = await getAnalysisProvider();
+    return await generateStructured(provider, request, raw => {
+      const { data, repairedFields } = validateComparisonResult(raw, property, labels);
+      return { ...data, meta: { provider: provider.id, repairedFields } };
+    }, options);
+  } catch (error) {
+    const analysisError = options.signal?.aborted ? new CancelledError(undefined, error) : toAnalysisError(error);
+    if (analysisError.kind !== "cancelled") console.error("Comparison Error:", error);
+    throw analysisError;
+  }
+};
@@ -0,0 +1,173 @@
+import { CurriculumProfile, EducationLevel } from "../types";
+import { readStoredList, writeStoredList } from "./storage";
+import { isRecord } from "./validation";
+
+const PROFILES_STORAGE_KEY = "goc-curriculum-profiles";
+const EXPORT_FORMAT = "goc-visualiser-profiles";
+const EXPORT_VERSION = 1;
+
+export const MAX_PROFILE_TOPICS = 20;
+
+// The guidance the analysis prompt used to hard-code for each level
+export const BUILT_IN_PROFILES: CurriculumProfile[] = [
+  {
+    id: EducationLevel.FOUNDATION,
+    name: EducationLevel.FOUNDATION,
+    baseLevel: EducationLevel.FOUNDATION,
+    depth: "Keep it simple: focus on daily life uses and the basic atoms and bonds, without mechanisms.",
+    emphasise: ["Everyday uses", "Covalent bonding", "Functional groups"],
+    skip: ["Reaction mechanisms", "Orbital theory"],
+    examStyle: "Link points to the NCERT Class 10 'Carbon and its Compounds' chapter where they fit.",
+    builtIn: true,
+  },
+  {
+    id: EducationLevel.BOARD_LEVEL,
+    name: EducationLevel.BOARD_LEVEL,
+    baseLevel: EducationLevel.BOARD_LEVEL,
+    depth: "Focus on standard properties, hybridisation and textbook definitions as NCERT presents them.",
+    emphasise: ["Hybridisation", "IUPAC nomenclature", "NCERT named reactions"],
+    skip: [],
+    examStyle: "Name the NCERT Class 11 or 12 chapter and the kind of board exam question it appears in.",
+    builtIn: true,
+  },
+  {
+    id: EducationLevel.COMPETITIVE,
+    name: EducationLevel.COMPETITIVE,
+    baseLevel: EducationLevel.COMPETITIVE,
+    depth: "Focus on stability, reaction mechanisms, exceptions, electronic effects (resonance/inductive) and competitive exam trivia.",
+    emphasise: ["Electronic effects", "Acidity and basicity orders", "Reaction intermediates", "Exceptions"],
+    skip: [],
+    examStyle: "Point out frequent JEE/NEET questions, e.g. \"Frequent question in JEE regarding acidity order\".",
+    builtIn: true,
+  },
+  {
+    id: EducationLevel.UNDERGRADUATE,
+    name: EducationLevel.UNDERGRADUATE,
+    baseLevel: EducationLevel.UNDERGRADUATE,
+    depth: "Discuss molecular orbital theory, spectroscopic properties and advanced synthesis.",
+    emphasise: ["Molecular orbital theory", "IR and NMR spectroscopy", "Synthesis"],
+    skip: [],
+    examStyle: "Relate points to B.Sc/B.Tech university exams, and to GATE or JAM where relevant.",
+    builtIn: true,
+  },
+];
+
+export const builtInProfile = (level: EducationLevel): CurriculumProfile =>
+  BUILT_IN_PROFILES.find(profile => profile.baseLevel === level)!;
+
+export const DEFAULT_PROFILE = builtInProfile(EducationLevel.BOARD_LEVEL);
+
+const LEVELS = Object.values(EducationLevel) as string[];
+
+const newId = () => `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const readTopics = (value: unknown) =>
+  Array.isArray(value)
+    ? value.filter((topic): topic is string => typeof topic === "string" && !!topic.trim()).map(topic => topic.trim()).slice(0, MAX_PROFILE_TOPICS)
+    : [];
+
+/** A custom profile from storage, an import or a share link, or null when it has no name */
+export const readProfile = (raw: unknown): CurriculumProfile | null => {
+  if (!isRecord(raw) || typeof raw.name !== "string" || !raw.name.trim()) return null;
+  const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+  return {
+    id: typeof raw.id === "string" && raw.id.startsWith("custom-") ? raw.id : newId(),
+    name: raw.name.trim(),
+    baseLevel: LEVELS.includes(String(raw.baseLevel)) ? (raw.baseLevel as EducationLevel) : DEFAULT_PROFILE.baseLevel,
+    depth: text(raw.depth),
+    emphasise: readTopics(raw.emphasise),
+    skip: readTopics(raw.skip),
+    examStyle: text(raw.examStyle),
+    updatedAt: typeof raw.updatedAt === "number" ? raw.updatedAt : Date.now(),
+  };
+};
+
+const readCustomProfiles = () =>
+  readStoredList<unknown>(PROFILES_STORAGE_KEY).map(readProfile).filter((profile): profile is CurriculumProfile => profile !== null);
+
+const saveCustomProfiles = (profiles: CurriculumProfile[]): CurriculumProfile[] => {
+  writeStoredList(PROFILES_STORAGE_KEY, profiles);
+  return listProfiles();
+};
+
+/** Built-in profiles first, then the custom ones in the order they were created */
+export const listProfiles = (): CurriculumProfile[] => [...BUILT_IN_PROFILES, ...readCustomProfiles()];
+
+/** The profile with this id, falling back to the built-in one for `fallbackLevel` when it has been deleted */
+export const findProfile = (id: string | null | undefined, fallbackLevel = DEFAULT_PROFILE.baseLevel): CurriculumProfile =>
+  listProfiles().find(profile => profile.id === id) ?? builtInProfile(fallbackLevel);
+
+/** A copy to edit; built-in profiles are read-only, so customising one starts here */
+export const duplicateProfile = (profile: CurriculumProfile, name = `${profile.name} (copy)`): CurriculumProfile => ({
+  ...profile,
+  id: newId(),
+  name,
+  builtIn: undefined,
+  updatedAt: Date.now(),
+});
+
+/** Adds or replaces a custom profile; returns every profile */
+export const saveProfile = (profile: CurriculumProfile): CurriculumProfile[] => {
+  if (profile.builtIn) throw new Error("Built-in profiles cannot be changed; duplicate one to customise it.");
+  const saved = readProfile({ ...profile, updatedAt: Date.now() });
+  if (!saved) throw new Error("Give the profile a name.");
+  const custom = readCustomProfiles();
+  const index = custom.findIndex(existing => existing.id === saved.id);
+  return saveCustomProfiles(index === -1 ? [...custom, saved] : custom.map((existing, i) => (i === index ? saved : existing)));
+};
+
+export const deleteProfile = (id: string): CurriculumProfile[] =>
+  saveCustomProfiles(readCustomProfiles().filter(profile => profile.id !== id));
+
+/** Identifies the revision of a profile in the response cache; built-in ids are the level values older entries used */
+export const profileCacheId = (profile: CurriculumProfile) =>
+  profile.builtIn ? profile.id : `${profile.id}@${profile.updatedAt ?? 0}`;
+
+/** The custom profiles as a file another teacher can import; built-in ones are the same everywhere */
+export const exportProfiles = (profiles: CurriculumProfile[] = readCustomProfiles()): string =>
+  JSON.stringify({
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    profiles: profiles.filter(profile => !profile.builtIn).map(({ builtIn, updatedAt, ...profile }) => profile),
+  }, null, 2);
+
+export interface ProfileImportResult {
+  profiles: CurriculumProfile[];
+  imported: number;
+  skipped: number;
+}
+
+/** Adds the profiles from an exported file; one with the same id as a stored profile replaces it */
+export const importProfiles = (json: string): ProfileImportResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+  if (!isRecord(parsed) || parsed.format !== EXPORT_FORMAT || !Array.isArray(parsed.profiles)) {
+    throw new Error("This file is not a GOC Visualiser curriculum profile export.");
+  }
+
+  const incoming = parsed.profiles.map(raw => readProfile(isRecord(raw) ? { ...raw, updatedAt: Date.now() } : raw));
+  const valid = incoming.filter((profile): profile is CurriculumProfile => profile !== null);
+  const custom = readCustomProfiles();
+  const replaced = custom.map(existing => valid.find(profile => profile.id === existing.id) ?? existing);
+  const added = valid.filter(profile => !custom.some(existing => existing.id === profile.id));
+
+  return {
+    profiles: saveCustomProfiles([...replaced, ...added]),
+    imported: valid.length,
+    skipped: incoming.length - valid.length,
+  };
+};
+
+/** A profile that arrived with a share link; stored unless this device already has it, and returned as stored */
+export const adoptProfile = (profile: CurriculumProfile): CurriculumProfile => {
+  if (profile.builtIn) return builtInProfile(profile.baseLevel);
+  const known = readCustomProfiles().find(existing => existing.id === profile.id);
+  if (known) return known;
+  saveProfile(profile);
+  return findProfile(profile.id, profile.baseLevel);
+};
@@ -0,0 +1,111 @@
+export type AnalysisErrorKind =
+  | "cancelled"
+  | "invalid-input"
+  | "auth"
+  | "rate-limit"
+  | "network"
+  | "safety"
+  | "malformed-response"
+  | "unrecognised-structure"
+  | "unknown";
+
+/** Base class for everything `analyzeChemicalStructure` throws; the UI switches on `kind` */
+export class AnalysisError extends Error {
+  readonly kind: AnalysisErrorKind = "unknown";
+  /** Whether sending the same request again has a reasonable chance of succeeding */
+  readonly retryable: boolean = false;
+
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** The request was aborted by the user or superseded by a newer one; the UI should stay quiet */
+export class CancelledError extends AnalysisError {
+  readonly kind = "cancelled";
+
+  constructor(message = "Analysis cancelled.", cause?: unknown) {
+    super(message, cause);
+  }
+}
+
+export class InvalidInputError extends AnalysisError {
+  readonly kind = "invalid-input";
+}
+
+export class AuthError extends AnalysisError {
+  readonly kind = "auth";
+}
+
+export class RateLimitError extends AnalysisError {
+  readonly kind = "rate-limit";
+  readonly retryable = true;
+
+  constructor(message: string, public readonly retryAfterMs: number | null = null, cause?: unknown) {
+    super(message, cause);
+  }
+}
+
+export class NetworkError extends AnalysisError {
+  readonly kind = "network";
+  readonly retryable = true;
+}
+
+export class SafetyBlockError extends AnalysisError {
+  readonly kind = "safety";
+}
+
+export class MalformedResponseError extends AnalysisError {
+  readonly kind = "malformed-response";
+  readonly retryable = true;
+}
+
+export class UnrecognisedStructureError extends AnalysisError {
+  readonly kind = "unrecognised-structure";
+}
+
+/** Reads a server-suggested wait: Gemini's `"retryDelay": "17s"` detail or a Retry-After header value */
+const parseRetryAfter = (error: any): number | null => {
+  const headerValue = error?.retryAfter ?? error?.headers?.get?.("retry-after");
+  if (headerValue !== undefined && headerValue !== null && !Number.isNaN(Number(headerValue))) {
+    return Number(headerValue) * 1000;
+  }
+  const delay = String(error?.message ?? "").match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+  return delay ? Math.round(Number(delay[1]) * 1000) : null;
+};
+
+/** Maps an HTTP status from any provider onto the taxonomy */
+export const errorFromStatus = (status: number, error: unknown): AnalysisError => {
+  if (status === 401) {
+    return new AuthError("Authentication Failed: Please check your API key configuration.", error);
+  }
+  if (status === 403) {
+    return new AuthError("Access Denied: The API key cannot access this model or region.", error);
+  }
+  if (status === 429) {
+    return new RateLimitError("High Traffic: The service is currently busy. Please try again in a few seconds.", parseRetryAfter(error), error);
+  }
+  if (status === 408 || status >= 500) {
+    return new NetworkError("Service Unavailable: The AI service did not respond. Please try again.", error);
+  }
+  return new AnalysisError((error as Error)?.message || `Request failed with status ${status}.`, error);
+};
+
+/** Normalises anything thrown during an analysis into an AnalysisError */
+export const toAnalysisError = (error: unknown): AnalysisError => {
+  if (error instanceof AnalysisError) return error;
+
+  if ((error as any)?.name === "AbortError") return new CancelledError(undefined, error);
+
+  const status = (error as any)?.status;
+  if (typeof status === "number") return errorFromStatus(status, error);
+
+  // fetch() rejects with a TypeError when the request never reached the server
+  const isFetchFailure = error instanceof TypeError && /fetch|network|load failed/i.test(error.message);
+  if (isFetchFailure || (typeof navigator !== "undefined" && navigator.onLine === false)) {
+    return new NetworkError("Network Error: Please check your internet connection.", error);
+  }
+
+  return new AnalysisError((error as Error)?.message || "An unexpected error occurred.", error);
+};
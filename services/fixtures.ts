@@ -0,0 +1,580 @@
+import { ChemicalData, ComparedCompound, ComparisonProperty, EducationLevel, MechanismResult } from "../types";
+
+/** A compound's row for one compare-mode property; a higher `score` ranks first (for acidity it is −pKa) */
+export type ComparisonNote = Omit<ComparedCompound, "label" | "name" | "rank"> & { score: number };
+
+export interface CompoundFixture {
+  /** Lower-case names, formulas and common spellings the local provider accepts */
+  aliases: string[];
+  data: Omit<ChemicalData, "curriculumContext">;
+  curriculumContext: Record<EducationLevel, string>;
+  comparisons?: Partial<Record<ComparisonProperty, ComparisonNote>>;
+}
+
+export const COMPOUND_FIXTURES: CompoundFixture[] = [
+  {
+    aliases: ["benzene", "c6h6", "benzol"],
+    data: {
+      name: "Benzene",
+      iupacName: "Benzene",
+      molecularFormula: "C6H6",
+      smiles: "c1ccccc1",
+      summary: "Benzene is a planar ring of six sp2 carbons in which six π electrons are delocalised over the whole ring. This delocalisation (aromaticity) makes it unusually stable, so it prefers electrophilic substitution over the addition reactions typical of alkenes.",
+      keyPoints: [
+        "All C–C bonds are equal in length (139 pm), between a single and a double bond",
+        "Follows Hückel's rule with 6 π electrons (4n + 2, n = 1)",
+        "Resonance energy of about 150 kJ/mol",
+        "Colourless, volatile liquid that burns with a sooty flame",
+      ],
+      reactions_or_uses: [
+        "Nitration with conc. HNO3/H2SO4 gives nitrobenzene",
+        "Friedel–Crafts alkylation and acylation with AlCl3",
+        "Halogenation with Cl2/FeCl3",
+        "Starting material for styrene, phenol and nylon intermediates",
+      ],
+      analogy: "Think of benzene like a round table where everyone shares their food equally — no single seat holds the dish, so no one fights over it.",
+      funFacts: [
+        "Kekulé said the ring structure came to him in a dream of a snake biting its own tail.",
+        "Michael Faraday first isolated benzene in 1825 from illuminating gas residue.",
+        "Benzene was once used as an aftershave and to decaffeinate coffee before its toxicity was known.",
+      ],
+      electronicEffects: {
+        functionalGroups: [],
+        hybridisation: [
+          { atom: "Ring carbons", hybridisation: "sp2", geometry: "Trigonal planar (120°)" },
+        ],
+        aromaticity: {
+          status: "aromatic",
+          piElectrons: 6,
+          explanation: "Planar, cyclic, fully conjugated ring with 6 π electrons, which fits 4n + 2 for n = 1.",
+        },
+        reactiveSites: [
+          { site: "π cloud above and below the ring", kind: "nucleophilic", note: "Attacks electrophiles in SEAr; substitution restores aromaticity." },
+        ],
+      },
+      resonance: {
+        contributors: [
+          {
+            smiles: "C1=CC=CC=C1",
+            description: "Kekulé structure with double bonds at C1–C2, C3–C4 and C5–C6",
+            arrowPushing: "Each π bond shifts one position round the ring.",
+            arrows: [{ from: [0, 1], to: [1, 2] }, { from: [2, 3], to: [3, 4] }, { from: [4, 5], to: [5, 0] }],
+          },
+          {
+            smiles: "C1C=CC=CC=1",
+            description: "The other Kekulé structure, with the double bonds moved round by one",
+            arrowPushing: "",
+            arrows: [],
+          },
+        ],
+        majorIndex: 0,
+        explanation: "The two Kekulé structures are identical in energy and contribute equally, so every C–C bond is the same length. The real molecule is the hybrid, with its six π electrons spread evenly over the ring.",
+      },
+    },
+    curriculumContext: {
+      [EducationLevel.FOUNDATION]: "Introduces the idea of carbon rings and why some compounds are called 'aromatic'.",
+      [EducationLevel.BOARD_LEVEL]: "Core NCERT Class 11 topic: structure, resonance and electrophilic substitution of benzene.",
+      [EducationLevel.COMPETITIVE]: "Frequent JEE/NEET question on aromaticity, Hückel's rule and directing effects in substitution.",
+      [EducationLevel.UNDERGRADUATE]: "Basis for MO treatment of aromatic systems and the σ-complex mechanism of SEAr.",
+    },
+    comparisons: {
+      [ComparisonProperty.ACIDITY]: {
+        score: -43,
+        inductive: "No heteroatom; the C–H carbon is sp2 and holds the bond pair only slightly tighter than an alkane.",
+        resonance: "The phenyl anion's lone pair sits in an sp2 orbital perpendicular to the π system, so it cannot be delocalised.",
+        hyperconjugation: "Not applicable.",
+        steric: "Not significant.",
+        reasoning: "Extremely weak acid (pKa ≈ 43): the conjugate base has no stabilisation at all.",
+      },
+    },
+  },
+  {
+    aliases: ["phenol", "carbolic acid", "c6h5oh", "c6h6o", "hydroxybenzene"],
+    data: {
+      name: "Phenol",
+      iupacName: "Phenol",
+      molecularFormula: "C6H6O",
+      smiles: "Oc1ccccc1",
+      summary: "Phenol is a hydroxyl group attached directly to a benzene ring. The lone pair on oxygen is delocalised into the ring, which makes phenol far more acidic than alcohols (pKa ≈ 10) and strongly activates the ring towards electrophiles at the ortho and para positions.",
+      keyPoints: [
+        "Phenoxide ion is resonance stabilised, explaining its acidity",
+        "–OH is a strong +M, weak –I group and an ortho/para director",
+        "Forms intermolecular hydrogen bonds, giving a high boiling point (182 °C)",
+        "Gives a violet colour with neutral FeCl3",
+      ],
+      reactions_or_uses: [
+        "Bromine water gives a white precipitate of 2,4,6-tribromophenol",
+        "Kolbe's reaction gives salicylic acid",
+        "Reimer–Tiemann reaction gives salicylaldehyde",
+        "Used to make Bakelite, aspirin and antiseptics",
+      ],
+      analogy: "Phenol is like a generous host whose guests (the ring electrons) make it easy for the host to give away a proton — the negative charge is shared around the whole house.",
+      funFacts: [
+        "Joseph Lister used phenol (carbolic acid) as the first surgical antiseptic in 1867.",
+        "Bakelite, the first fully synthetic plastic, was made from phenol and formaldehyde.",
+        "Phenol is a common ingredient in throat-numbing sprays.",
+      ],
+      electronicEffects: {
+        functionalGroups: [
+          { group: "Hydroxyl (–OH)", inductive: "-I", mesomeric: "+M", hyperconjugation: "", note: "+M outweighs −I: the O lone pair raises electron density at the ortho and para carbons." },
+        ],
+        hybridisation: [
+          { atom: "Ring carbons", hybridisation: "sp2", geometry: "Trigonal planar" },
+          { atom: "Oxygen", hybridisation: "sp2", geometry: "Bent; one lone pair is in conjugation with the ring" },
+        ],
+        aromaticity: {
+          status: "aromatic",
+          piElectrons: 6,
+          explanation: "The benzene ring keeps its 6 π electrons; the OH lone pair donates into it without breaking aromaticity.",
+        },
+        reactiveSites: [
+          { site: "O–H hydrogen", kind: "acidic", note: "Lost easily because phenoxide is resonance-stabilised (pKa ≈ 10)." },
+          { site: "Ortho and para carbons", kind: "nucleophilic", note: "Activated towards electrophiles, e.g. tribromination with bromine water." },
+        ],
+      },
+      resonance: {
+        contributors: [
+          {
+            smiles: "OC1=CC=CC=C1",
+            description: "Neutral structure with no separated charges",
+            arrowPushing: "A lone pair on O forms a C=O π bond; the C1=C2 π electrons move onto C2.",
+            arrows: [{ from: [0], to: [0, 1] }, { from: [1, 2], to: [2] }],
+          },
+          {
+            smiles: "[OH+]=C1[CH-]C=CC=C1",
+            description: "Negative charge on an ortho carbon, positive charge on oxygen",
+            arrowPushing: "The lone pair on C2 forms a C2=C3 π bond; the C3=C4 π electrons move onto C4.",
+            arrows: [{ from: [2], to: [2, 3] }, { from: [3, 4], to: [4] }],
+          },
+          {
+            smiles: "[OH+]=C1C=C[CH-]C=C1",
+            description: "Negative charge on the para carbon",
+            arrowPushing: "The lone pair on C4 forms a C4=C5 π bond; the C5=C6 π electrons move onto C6.",
+            arrows: [{ from: [4], to: [4, 5] }, { from: [5, 6], to: [6] }],
+          },
+          {
+            smiles: "[OH+]=C1C=CC=C[CH-]1",
+            description: "Negative charge on the other ortho carbon",
+            arrowPushing: "",
+            arrows: [],
+          },
+        ],
+        majorIndex: 0,
+        explanation: "The neutral structure contributes most because it keeps the ring aromatic and has no charge separation. The charge-separated forms still put extra electron density on the ortho and para carbons, which is why –OH directs electrophiles there.",
+      },
+    },
+    curriculumContext: {
+      [EducationLevel.FOUNDATION]: "An everyday example of an antiseptic made from a carbon ring.",
+      [EducationLevel.BOARD_LEVEL]: "NCERT Class 12 'Alcohols, Phenols and Ethers': acidity of phenol compared with alcohols.",
+      [EducationLevel.COMPETITIVE]: "Acidity order of substituted phenols (e.g. p-nitrophenol vs p-cresol) is a JEE favourite.",
+      [EducationLevel.UNDERGRADUATE]: "Used to discuss substituent effects via Hammett σ values and phenoxide resonance.",
+    },
+    comparisons: {
+      [ComparisonProperty.ACIDITY]: {
+        score: -10,
+        inductive: "The sp2 ring carbon attached to O is mildly electron-withdrawing (−I).",
+        resonance: "The phenoxide negative charge is delocalised onto the ortho and para ring carbons (−M of the ring), the main stabilising effect.",
+        hyperconjugation: "Not applicable.",
+        steric: "Not significant.",
+        reasoning: "Much more acidic than alcohols (pKa ≈ 10) because phenoxide is resonance-stabilised, but weaker than carboxylic acids.",
+      },
+    },
+  },
+  {
+    aliases: ["ethanol", "ethyl alcohol", "alcohol", "c2h5oh", "c2h6o"],
+    data: {
+      name: "Ethanol",
+      iupacName: "Ethanol",
+      molecularFormula: "C2H6O",
+      smiles: "CCO",
+      summary: "Ethanol is a two-carbon primary alcohol. Its –OH group makes it polar and able to hydrogen bond, so it mixes with water in all proportions and boils much higher than ethane.",
+      keyPoints: [
+        "Primary alcohol with an sp3 carbon bearing the –OH group",
+        "Hydrogen bonding raises its boiling point to 78 °C",
+        "Weaker acid than water (pKa ≈ 16) because the ethyl group is +I",
+        "Gives a positive iodoform test",
+      ],
+      reactions_or_uses: [
+        "Oxidised by acidified K2Cr2O7 to ethanal and then ethanoic acid",
+        "Dehydrated by conc. H2SO4 at 443 K to ethene",
+        "Esterification with acetic acid gives ethyl acetate",
+        "Used as a fuel additive, solvent and antiseptic",
+      ],
+      analogy: "Ethanol is like a bilingual friend — its –OH speaks to water while its ethyl tail gets along with oily molecules.",
+      funFacts: [
+        "Ethanol is produced by yeast fermenting sugars, a process humans have used for thousands of years.",
+        "India blends ethanol into petrol under its E20 programme.",
+        "Hand sanitisers typically contain 60–80% ethanol.",
+      ],
+      electronicEffects: {
+        functionalGroups: [
+          { group: "Ethyl (–CH2CH3)", inductive: "+I", mesomeric: "none", hyperconjugation: "C–H bonds of CH3 stabilise an adjacent carbocation", note: "Pushes electron density towards oxygen, making ethoxide a strong base." },
+          { group: "Hydroxyl (–OH)", inductive: "-I", mesomeric: "none", hyperconjugation: "", note: "No π system to conjugate with, so only the inductive pull acts." },
+        ],
+        hybridisation: [
+          { atom: "Both carbons", hybridisation: "sp3", geometry: "Tetrahedral" },
+          { atom: "Oxygen", hybridisation: "sp3", geometry: "Bent (about 105°)" },
+        ],
+        aromaticity: {
+          status: "non-aromatic",
+          piElectrons: 0,
+          explanation: "No ring and no π electrons.",
+        },
+        reactiveSites: [
+          { site: "Oxygen lone pairs", kind: "nucleophilic", note: "Attack electrophiles, e.g. in esterification or protonation by acids." },
+          { site: "O–H hydrogen", kind: "acidic", note: "Weakly acidic (pKa ≈ 16); reacts with sodium to give H2." },
+          { site: "α-carbon (C–OH)", kind: "electrophilic", note: "Attacked after the OH is converted to a better leaving group." },
+        ],
+      },
+      resonance: {
+        contributors: [],
+        majorIndex: 0,
+        explanation: "Ethanol has only σ bonds and no π system next to the oxygen lone pairs, so it has no resonance structures.",
+      },
+    },
+    curriculumContext: {
+      [EducationLevel.FOUNDATION]: "NCERT Class 10 'Carbon and its Compounds': properties and uses of ethanol.",
+      [EducationLevel.BOARD_LEVEL]: "Preparation, dehydration and oxidation of alcohols in Class 12.",
+      [EducationLevel.COMPETITIVE]: "Dehydration mechanism (E1 vs E2) and iodoform test are regularly asked in JEE/NEET.",
+      [EducationLevel.UNDERGRADUATE]: "Model compound for NMR coupling (triplet–quartet) and alcohol reactivity.",
+    },
+    comparisons: {
+      [ComparisonProperty.ACIDITY]: {
+        score: -16,
+        inductive: "The ethyl group is electron-donating (+I), which destabilises the ethoxide ion.",
+        resonance: "No resonance: the negative charge stays on one oxygen.",
+        hyperconjugation: "Not applicable to the alkoxide.",
+        steric: "Solvation of ethoxide is slightly hindered compared with hydroxide.",
+        reasoning: "Weaker acid than water (pKa ≈ 16) because +I from the alkyl group concentrates charge on O⁻.",
+      },
+    },
+  },
+  {
+    aliases: ["acetic acid", "ethanoic acid", "ch3cooh", "c2h4o2", "vinegar"],
+    data: {
+      name: "Acetic acid",
+      iupacName: "Ethanoic acid",
+      molecularFormula: "C2H4O2",
+      smiles: "CC(=O)O",
+      summary: "Acetic acid is the simplest common carboxylic acid. Its acidity (pKa ≈ 4.76) comes from the carboxylate ion, where the negative charge is shared equally between two oxygens by resonance.",
+      keyPoints: [
+        "Carboxylate anion is stabilised by resonance between two equivalent oxygens",
+        "Exists as hydrogen-bonded dimers in the vapour phase",
+        "Weaker acid than formic acid because the methyl group is +I",
+        "Glacial acetic acid freezes at 16.6 °C",
+      ],
+      reactions_or_uses: [
+        "Reacts with NaHCO3 to release CO2 (brisk effervescence)",
+        "Esterification with ethanol gives ethyl acetate",
+        "Hell–Volhard–Zelinsky reaction gives chloroacetic acid",
+        "Used to make vinyl acetate and cellulose acetate; vinegar is 5–8% acetic acid",
+      ],
+      analogy: "The carboxylate ion is like two people sharing the weight of a heavy box — the load (negative charge) is split evenly, so it feels lighter.",
+      funFacts: [
+        "Vinegar has been made by fermentation for at least 5,000 years.",
+        "Pure acetic acid is called 'glacial' because it freezes into ice-like crystals in a cool room.",
+        "Acetic acid has been detected in interstellar space.",
+      ],
+      electronicEffects: {
+        functionalGroups: [
+          { group: "Carboxyl (–COOH)", inductive: "-I", mesomeric: "-M", hyperconjugation: "", note: "The C=O pulls density from the O–H, and the carboxylate charge is shared over two oxygens." },
+          { group: "Methyl (–CH3)", inductive: "+I", mesomeric: "none", hyperconjugation: "Weak donation into the carbonyl", note: "Slightly destabilises acetate, which is why acetic acid is weaker than formic acid." },
+        ],
+        hybridisation: [
+          { atom: "Carboxyl carbon", hybridisation: "sp2", geometry: "Trigonal planar" },
+          { atom: "Methyl carbon", hybridisation: "sp3", geometry: "Tetrahedral" },
+        ],
+        aromaticity: {
+          status: "non-aromatic",
+          piElectrons: 0,
+          explanation: "Acyclic; the C=O π bond is not part of a ring.",
+        },
+        reactiveSites: [
+          { site: "O–H hydrogen", kind: "acidic", note: "Ionises in water (pKa ≈ 4.76); the acetate ion is resonance-stabilised." },
+          { site: "Carbonyl carbon", kind: "electrophilic", note: "Attacked by nucleophiles in esterification and acid chloride formation." },
+        ],
+      },
+      resonance: {
+        contributors: [
+          {
+            smiles: "CC(=O)O",
+            description: "Neutral carboxylic acid",
+            arrowPushing: "A lone pair on the OH oxygen forms a C=O π bond; the C=O π electrons move onto the carbonyl oxygen.",
+            arrows: [{ from: [3], to: [1, 3] }, { from: [1, 2], to: [2] }],
+          },
+          {
+            smiles: "CC([O-])=[OH+]",
+            description: "Charge-separated form with O− and O+",
+            arrowPushing: "",
+            arrows: [],
+          },
+        ],
+        majorIndex: 0,
+        explanation: "The neutral form dominates because it has no charge separation. In the acetate ion the two contributors become identical, with the negative charge shared equally by both oxygens. This is why acetic acid is far more acidic than ethanol.",
+      },
+    },
+    curriculumContext: {
+      [EducationLevel.FOUNDATION]: "Class 10 example of a carboxylic acid and the chemistry of vinegar.",
+      [EducationLevel.BOARD_LEVEL]: "Class 12 'Aldehydes, Ketones and Carboxylic Acids': acidity and effect of substituents.",
+      [EducationLevel.COMPETITIVE]: "Acid strength order of halo-acetic acids (inductive effect) is a classic JEE question.",
+      [EducationLevel.UNDERGRADUATE]: "Illustrates carboxylic acid dimerisation in IR and acyl substitution mechanisms.",
+    },
+    comparisons: {
+      [ComparisonProperty.ACIDITY]: {
+        score: -4.76,
+        inductive: "The carbonyl group is strongly electron-withdrawing (−I) next to the O–H.",
+        resonance: "The acetate charge is shared equally between two oxygens (two equivalent resonance forms).",
+        hyperconjugation: "The methyl group donates slightly through hyperconjugation, a small destabilisation compared with formic acid.",
+        steric: "Not significant.",
+        reasoning: "Strongest acid of the set (pKa ≈ 4.76): the conjugate base is delocalised over two electronegative oxygens.",
+      },
+    },
+  },
+  {
+    aliases: ["aniline", "aminobenzene", "benzenamine", "c6h5nh2", "c6h7n"],
+    data: {
+      name: "Aniline",
+      iupacName: "Benzenamine",
+      molecularFormula: "C6H7N",
+      smiles: "Nc1ccccc1",
+      summary: "Aniline is an amino group attached to a benzene ring. The nitrogen lone pair is delocalised into the ring, which makes aniline a much weaker base than aliphatic amines but strongly activates the ring for ortho/para substitution.",
+      keyPoints: [
+        "Weaker base (pKb ≈ 9.4) than ammonia because the lone pair is in resonance with the ring",
+        "–NH2 is a strong +M group and ortho/para director",
+        "Gives a white precipitate of 2,4,6-tribromoaniline with bromine water",
+        "Darkens on standing due to air oxidation",
+      ],
+      reactions_or_uses: [
+        "Diazotisation with NaNO2/HCl at 0–5 °C gives benzenediazonium chloride",
+        "Acetylation protects –NH2 before nitration",
+        "Carbylamine test gives a foul-smelling isocyanide",
+        "Used to make dyes, rubber chemicals and paracetamol",
+      ],
+      analogy: "Aniline's nitrogen is like a shopkeeper who keeps lending stock to the neighbouring market (the ring), leaving less on hand to sell to a customer (a proton).",
+      funFacts: [
+        "The first synthetic dye, mauveine, was made from impure aniline by William Perkin at 18.",
+        "The name comes from 'anil', the indigo plant from which it was first obtained.",
+        "Aniline was once used as a rocket fuel component.",
+      ],
+      electronicEffects: {
+        functionalGroups: [
+          { group: "Amino (–NH2)", inductive: "-I", mesomeric: "+M", hyperconjugation: "", note: "Strong +M donation makes the ring very electron-rich and the nitrogen less basic." },
+        ],
+        hybridisation: [
+          { atom: "Ring carbons", hybridisation: "sp2", geometry: "Trigonal planar" },
+          { atom: "Nitrogen", hybridisation: "close to sp2", geometry: "Nearly planar, so its lone pair overlaps with the ring" },
+        ],
+        aromaticity: {
+          status: "aromatic",
+          piElectrons: 6,
+          explanation: "The benzene ring keeps 6 π electrons; the nitrogen lone pair is delocalised into it.",
+        },
+        reactiveSites: [
+          { site: "Nitrogen lone pair", kind: "basic", note: "A weak base (pKb ≈ 9.4) because the lone pair is delocalised into the ring." },
+          { site: "Ortho and para carbons", kind: "nucleophilic", note: "So activated that bromine water gives 2,4,6-tribromoaniline at once." },
+        ],
+      },
+      resonance: {
+        contributors: [
+          {
+            smiles: "NC1=CC=CC=C1",
+            description: "Neutral structure with the lone pair on nitrogen",
+            arrowPushing: "The nitrogen lone pair forms a C=N π bond; the C1=C2 π electrons move onto C2.",
+            arrows: [{ from: [0], to: [0, 1] }, { from: [1, 2], to: [2] }],
+          },
+          {
+            smiles: "[NH2+]=C1[CH-]C=CC=C1",
+            description: "Negative charge on an ortho carbon, positive charge on nitrogen",
+            arrowPushing: "The lone pair on C2 forms a C2=C3 π bond; the C3=C4 π electrons move onto C4.",
+            arrows: [{ from: [2], to: [2, 3] }, { from: [3, 4], to: [4] }],
+          },
+          {
+            smiles: "[NH2+]=C1C=C[CH-]C=C1",
+            description: "Negative charge on the para carbon",
+            arrowPushing: "The lone pair on C4 forms a C4=C5 π bond; the C5=C6 π electrons move onto C6.",
+            arrows: [{ from: [4], to: [4, 5] }, { from: [5, 6], to: [6] }],
+          },
+          {
+            smiles: "[NH2+]=C1C=CC=C[CH-]1",
+            description: "Negative charge on the other ortho carbon",
+            arrowPushing: "",
+            arrows: [],
+          },
+        ],
+        majorIndex: 0,
+        explanation: "The neutral structure dominates, but delocalising the nitrogen lone pair into the ring makes aniline a much weaker base than alkylamines. It also makes the ortho and para positions strongly activated.",
+      },
+    },
+    curriculumContext: {
+      [EducationLevel.FOUNDATION]: "Shows how nitrogen can be part of carbon compounds used in dyes.",
+      [EducationLevel.BOARD_LEVEL]: "Class 12 'Amines': basicity, diazotisation and coupling reactions.",
+      [EducationLevel.COMPETITIVE]: "Basicity order of aromatic vs aliphatic amines and why direct nitration fails are JEE staples.",
+      [EducationLevel.UNDERGRADUATE]: "Example of n→π* conjugation lowering basicity and of diazonium chemistry.",
+    },
+    comparisons: {
+      [ComparisonProperty.ACIDITY]: {
+        score: -30,
+        inductive: "The sp2 ring pulls on nitrogen (−I), slightly helping N–H ionisation.",
+        resonance: "The anilide negative charge delocalises into the ring, but nitrogen is less electronegative than oxygen.",
+        hyperconjugation: "Not applicable.",
+        steric: "Not significant.",
+        reasoning: "Very weak N–H acid (pKa ≈ 30): nitrogen holds a negative charge poorly even with ring delocalisation.",
+      },
+    },
+  },
+];
+
+export interface MechanismFixture {
+  /** Substrate spellings, lower-case with spaces, dots and brackets removed */
+  substrates: string[];
+  /** Matches a drawn substrate by its heavy atoms */
+  substrateSmiles: string;
+  /** Reagent spellings, normalised the same way */
+  reagents: string[];
+  result: MechanismResult;
+}
+
+const ALCOHOLIC_KOH = ["alckoh", "kohalc", "alcoholickoh", "ethanolickoh", "koh/ethanol", "koh/etoh", "koh,ethanol"];
+
+export const MECHANISM_FIXTURES: MechanismFixture[] = [
+  {
+    substrates: ["ch3ch2br", "c2h5br", "bromoethane", "ethylbromide", "etbr"],
+    substrateSmiles: "CCBr",
+    reagents: ALCOHOLIC_KOH,
+    result: {
+      reaction: "CH3CH2Br + KOH (alc.) → CH2=CH2 + KBr + H2O",
+      mechanismType: "E2 (bimolecular elimination)",
+      steps: [
+        {
+          title: "Concerted removal of H⁺ and Br⁻",
+          description: "In ethanol, OH⁻ acts as a base rather than a nucleophile. It pulls off a β-hydrogen while the C–Br bond breaks, so the C=C bond forms in a single step with no intermediate.",
+          arrowDescriptions: [
+            "A lone pair on O⁻ attacks the β-hydrogen, forming the O–H bond of water",
+            "The C–H bond electrons move in to become the π bond of C=C",
+            "The C–Br bond electrons leave with bromine as Br⁻",
+          ],
+          smiles: "[OH-].[H]CCBr",
+          arrows: [
+            { from: [0], to: [0, 1] },
+            { from: [1, 2], to: [2, 3] },
+            { from: [3, 4], to: [4] },
+          ],
+        },
+      ],
+      rateDeterminingStep: 0,
+      rateLaw: "Rate = k[CH3CH2Br][OH⁻]; second order, bimolecular",
+      stereochemistry: "The β-H and Br must be anti-periplanar (180° apart) so the breaking C–H and C–Br orbitals line up to form the π bond.",
+      products: [
+        {
+          name: "Ethene",
+          smiles: "C=C",
+          role: "major",
+          reason: "Only one kind of β-hydrogen exists, so elimination can give only ethene.",
+        },
+      ],
+      selectivityRule: "none",
+      examTip: "Alcoholic KOH favours elimination and aqueous KOH favours substitution (ethanol). Read the solvent before choosing the product.",
+    },
+  },
+  {
+    substrates: ["2-bromobutane", "ch3chbrch2ch3", "ch3ch2chbrch3", "sec-butylbromide", "s-butylbromide"],
+    substrateSmiles: "CC(Br)CC",
+    reagents: ALCOHOLIC_KOH,
+    result: {
+      reaction: "CH3CHBrCH2CH3 + KOH (alc.) → CH3CH=CHCH3 (major) + CH2=CHCH2CH3 (minor) + KBr + H2O",
+      mechanismType: "E2 (bimolecular elimination)",
+      steps: [
+        {
+          title: "Concerted removal of H⁺ and Br⁻",
+          description: "OH⁻ removes a β-hydrogen as bromide leaves. The substrate has two kinds of β-hydrogen, on C1 and on C3, so two alkenes can form; removing the C3 hydrogen gives the more substituted alkene.",
+          arrowDescriptions: [
+            "A lone pair on O⁻ attacks the β-hydrogen on C3",
+            "The C3–H bond electrons form the π bond between C2 and C3",
+            "The C2–Br bond electrons leave as Br⁻",
+          ],
+          smiles: "[OH-].CC([H])C(Br)C",
+          arrows: [
+            { from: [0], to: [0, 3] },
+            { from: [2, 3], to: [2, 4] },
+            { from: [4, 5], to: [5] },
+          ],
+        },
+      ],
+      rateDeterminingStep: 0,
+      rateLaw: "Rate = k[C4H9Br][OH⁻]; second order, bimolecular",
+      stereochemistry: "Anti-periplanar elimination; the conformer with the two methyl groups anti is lower in energy, so trans-but-2-ene predominates over cis.",
+      products: [
+        {
+          name: "But-2-ene (mainly trans)",
+          smiles: "C/C=C/C",
+          role: "major",
+          reason: "Saytzeff rule: the more substituted alkene is more stable (six α-hydrogens for hyperconjugation), and the transition state leading to it is lower in energy.",
+        },
+        {
+          name: "But-1-ene",
+          smiles: "C=CCC",
+          role: "minor",
+          reason: "Less substituted alkene with only two α-hydrogens for hyperconjugation. It becomes major only with a bulky base such as t-BuOK (Hofmann product).",
+        },
+      ],
+      selectivityRule: "Saytzeff",
+      examTip: "Small bases (OH⁻, EtO⁻) give the Saytzeff alkene; bulky bases (t-BuO⁻) and poor leaving groups such as –NMe3⁺ give the Hofmann alkene.",
+    },
+  },
+  {
+    substrates: ["propene", "propylene", "ch3ch=ch2", "ch2=chch3", "c3h6"],
+    substrateSmiles: "C=CC",
+    reagents: ["hbr"],
+    result: {
+      reaction: "CH3CH=CH2 + HBr → CH3CHBrCH3 (major) + CH3CH2CH2Br (minor)",
+      mechanismType: "Electrophilic addition",
+      steps: [
+        {
+          title: "Protonation of the double bond",
+          description: "The π electrons of the alkene attack the hydrogen of HBr. The proton adds to the terminal CH2, leaving the positive charge on the middle carbon.",
+          arrowDescriptions: [
+            "The C=C π electrons attack H, forming the new C1–H bond",
+            "The H–Br bond electrons move onto bromine, which leaves as Br⁻",
+          ],
+          smiles: "[H]Br.C=CC",
+          arrows: [
+            { from: [2, 3], to: [2, 0] },
+            { from: [0, 1], to: [1] },
+          ],
+          intermediate: {
+            kind: "carbocation",
+            name: "Secondary (2°) isopropyl carbocation",
+            smiles: "C[CH+]C",
+            stability: "Stabilised by +I effects and hyperconjugation from six α-hydrogens on the two methyl groups. The alternative primary carbocation has only two.",
+          },
+        },
+        {
+          title: "Attack of bromide on the carbocation",
+          description: "Bromide uses a lone pair to bond to the positive carbon, giving 2-bromopropane.",
+          arrowDescriptions: ["A lone pair on Br⁻ attacks the positively charged carbon"],
+          smiles: "C[CH+]C.[Br-]",
+          arrows: [{ from: [3], to: [3, 1] }],
+        },
+      ],
+      rateDeterminingStep: 0,
+      rateLaw: "Rate = k[alkene][HBr]; protonation is the slow step",
+      stereochemistry: "The planar carbocation can be attacked from either face. Here C2 is not a stereocentre, so only one product forms.",
+      products: [
+        {
+          name: "2-Bromopropane",
+          smiles: "CC(Br)C",
+          role: "major",
+          reason: "Markovnikov rule: H adds to the carbon with more hydrogens, because that route passes through the more stable secondary carbocation.",
+        },
+        {
+          name: "1-Bromopropane",
+          smiles: "BrCCC",
+          role: "minor",
+          reason: "Would need the much less stable primary carbocation. It becomes major only with HBr and peroxide, through a radical mechanism (anti-Markovnikov / Kharasch effect).",
+        },
+      ],
+      selectivityRule: "Markovnikov",
+      examTip: "Only HBr shows the peroxide effect; HCl and HI still add the Markovnikov way in the presence of peroxide.",
+    },
+  },
+];
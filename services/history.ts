@@ -0,0 +1,191 @@
+import { ChemicalData, CurriculumProfile, EducationLevel, QuizAttempt, QuizTopic } from "../types";
+import { weakTopics } from "../utils/scoring";
+import { readStoredList, writeStoredList } from "./storage";
+import { isRecord, readAnalysisMeta, validateChemicalData } from "./validation";
+
+const HISTORY_STORAGE_KEY = "goc-history";
+const EXPORT_FORMAT = "goc-visualiser-history";
+const EXPORT_VERSION = 1;
+
+// Pinned entries never count towards the cap
+const MAX_UNPINNED_ENTRIES = 200;
+// Older quiz attempts are dropped; recent ones say more about what the student knows now
+const MAX_QUIZ_ATTEMPTS = 20;
+
+/** What the student asked: typed text and/or a thumbnail of the drawing */
+export interface HistoryInput {
+  textInput: string | null;
+  structureText: string | null;
+  /** Small JPEG data URL of the sketch; the full capture is too large to keep */
+  thumbnail: string | null;
+}
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  /** Base level of the profile the answer was pitched at */
+  level: EducationLevel;
+  /** The custom profile behind the answer; absent for the built-in levels */
+  profile?: { id: string; name: string };
+  input: HistoryInput;
+  data: ChemicalData;
+  pinned: boolean;
+  /** Newest first; missing on entries saved before quizzes existed */
+  quizAttempts?: QuizAttempt[];
+}
+
+const LEVELS = Object.values(EducationLevel) as string[];
+const QUIZ_TOPICS = Object.values(QuizTopic) as string[];
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Pinned first, then newest first */
+const sortEntries = (entries: HistoryEntry[]) =>
+  [...entries].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.createdAt - a.createdAt);
+
+const saveEntries = (entries: HistoryEntry[]): HistoryEntry[] => {
+  const pinned = entries.filter(entry => entry.pinned);
+  const unpinned = entries.filter(entry => !entry.pinned).sort((a, b) => b.createdAt - a.createdAt);
+  const sorted = sortEntries([...pinned, ...unpinned.slice(0, MAX_UNPINNED_ENTRIES)]);
+  const kept = writeStoredList(HISTORY_STORAGE_KEY, sorted);
+  return sorted.slice(0, kept);
+};
+
+export const listHistory = (): HistoryEntry[] => sortEntries(readStoredList<HistoryEntry>(HISTORY_STORAGE_KEY));
+
+/** Name of the curriculum an entry was pitched at, for display and search */
+export const entryCurriculum = (entry: HistoryEntry) => entry.profile?.name ?? entry.level;
+
+const sameQuestion = (entry: HistoryEntry, profile: CurriculumProfile, input: HistoryInput, data: ChemicalData) =>
+  entry.level === profile.baseLevel &&
+  entry.profile?.id === (profile.builtIn ? undefined : profile.id) &&
+  entry.data.name.toLowerCase() === data.name.toLowerCase() &&
+  entry.input.textInput === input.textInput &&
+  entry.input.structureText === input.structureText;
+
+/** Records an analysis; asking the same question again moves the old entry to the top instead of duplicating it */
+export const addHistoryEntry = (profile: CurriculumProfile, input: HistoryInput, data: ChemicalData): HistoryEntry => {
+  const entries = listHistory();
+  const previous = entries.find(entry => sameQuestion(entry, profile, input, data));
+  const entry: HistoryEntry = {
+    id: previous?.id ?? newId(),
+    createdAt: Date.now(),
+    level: profile.baseLevel,
+    profile: profile.builtIn ? undefined : { id: profile.id, name: profile.name },
+    input: { ...input, thumbnail: input.thumbnail ?? previous?.input.thumbnail ?? null },
+    // A re-opened entry is not a cache hit, so the cache markers are dropped
+    data: { ...data, meta: { ...data.meta, cached: undefined, cachedAt: undefined } },
+    pinned: previous?.pinned ?? false,
+    quizAttempts: previous?.quizAttempts,
+  };
+  saveEntries([entry, ...entries.filter(existing => existing !== previous)]);
+  return entry;
+};
+
+export const setHistoryPinned = (id: string, pinned: boolean): HistoryEntry[] =>
+  saveEntries(listHistory().map(entry => (entry.id === id ? { ...entry, pinned } : entry)));
+
+export const recordQuizAttempt = (id: string, attempt: QuizAttempt): HistoryEntry[] =>
+  saveEntries(listHistory().map(entry =>
+    entry.id === id ? { ...entry, quizAttempts: [attempt, ...(entry.quizAttempts ?? [])].slice(0, MAX_QUIZ_ATTEMPTS) } : entry
+  ));
+
+/** Topics this compound's quizzes keep getting wrong, weakest first */
+export const entryWeakTopics = (entry: HistoryEntry): QuizTopic[] => weakTopics(entry.quizAttempts ?? []);
+
+export const deleteHistoryEntry = (id: string): HistoryEntry[] =>
+  saveEntries(listHistory().filter(entry => entry.id !== id));
+
+/** Case-insensitive match on names, formula, the typed query, the level and weak quiz topics */
+export const searchHistory = (entries: HistoryEntry[], query: string): HistoryEntry[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return entries;
+  return entries.filter(entry =>
+    [entry.data.name, entry.data.iupacName, entry.data.molecularFormula, entry.input.textInput ?? "", entryCurriculum(entry), ...entryWeakTopics(entry)]
+      .some(field => field.toLowerCase().includes(needle))
+  );
+};
+
+export const exportHistory = (): string =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: new Date().toISOString(), entries: listHistory() }, null, 2);
+
+const isCount = (value: unknown): value is number => typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+const toQuizAttempt = (raw: unknown): QuizAttempt | null => {
+  if (!isRecord(raw) || !LEVELS.includes(String(raw.level)) || !isRecord(raw.topics)) return null;
+  const { takenAt, correct, total, marks, maxMarks, durationMs } = raw;
+  if (!isCount(takenAt) || !isCount(correct) || !isCount(total) || typeof marks !== "number" || !isCount(maxMarks) || !isCount(durationMs)) return null;
+
+  const topics: QuizAttempt["topics"] = {};
+  Object.entries(raw.topics).forEach(([topic, tally]) => {
+    if (QUIZ_TOPICS.includes(topic) && isRecord(tally) && isCount(tally.correct) && isCount(tally.total)) {
+      topics[topic as QuizTopic] = { correct: tally.correct, total: tally.total };
+    }
+  });
+  return { takenAt, level: raw.level as EducationLevel, correct, total, marks, maxMarks, durationMs, topics };
+};
+
+const toHistoryEntry = (raw: unknown): HistoryEntry | null => {
+  if (!isRecord(raw) || !LEVELS.includes(String(raw.level)) || !isRecord(raw.input)) return null;
+  try {
+    const { data } = validateChemicalData(raw.data);
+    const meta = isRecord(raw.data) ? readAnalysisMeta(raw.data.meta) : undefined;
+    const input = raw.input;
+    const optionalString = (value: unknown) => (typeof value === "string" && value ? value : null);
+    return {
+      id: optionalString(raw.id) ?? newId(),
+      createdAt: typeof raw.createdAt === "number" ? raw.createdAt : Date.now(),
+      level: raw.level as EducationLevel,
+      profile: isRecord(raw.profile) && typeof raw.profile.id === "string" && typeof raw.profile.name === "string"
+        ? { id: raw.profile.id, name: raw.profile.name }
+        : undefined,
+      input: {
+        textInput: optionalString(input.textInput),
+        structureText: optionalString(input.structureText),
+        // Only inline images; an imported file must not make the app fetch arbitrary URLs
+        thumbnail: optionalString(input.thumbnail)?.startsWith("data:image/") ? (input.thumbnail as string) : null,
+      },
+      data: meta ? { ...data, meta } : data,
+      pinned: raw.pinned === true,
+      quizAttempts: Array.isArray(raw.quizAttempts)
+        ? raw.quizAttempts.map(toQuizAttempt).filter((attempt): attempt is QuizAttempt => attempt !== null).slice(0, MAX_QUIZ_ATTEMPTS)
+        : undefined,
+    };
+  } catch {
+    return null;
+  }
+};
+
+export interface HistoryImportResult {
+  entries: HistoryEntry[];
+  imported: number;
+  skipped: number;
+}
+
+/** Merges an exported file into the stored history; entries already present (same id) are left alone */
+export const importHistory = (json: string): HistoryImportResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+  if (!isRecord(parsed) || parsed.format !== EXPORT_FORMAT || !Array.isArray(parsed.entries)) {
+    throw new Error("This file is not a GOC Visualiser history export.");
+  }
+
+  const existing = listHistory();
+  const knownIds = new Set(existing.map(entry => entry.id));
+  const incoming = parsed.entries.map(toHistoryEntry);
+  const fresh = incoming.filter((entry): entry is HistoryEntry => {
+    if (!entry || knownIds.has(entry.id)) return false;
+    knownIds.add(entry.id);
+    return true;
+  });
+
+  return {
+    entries: saveEntries([...existing, ...fresh]),
+    imported: fresh.length,
+    skipped: incoming.length - fresh.length,
+  };
+};
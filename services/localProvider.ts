@@ -0,0 +1,251 @@
+import {
+  AssertionReasonChoice,
+  ChemicalData,
+  ComparedCompound,
+  ComparisonResult,
+  EducationLevel,
+  MechanismResult,
+  QuizQuestion,
+  QuizTopic,
+} from "../types";
+import { CancelledError, UnrecognisedStructureError } from "./errors";
+import { COMPOUND_FIXTURES, CompoundFixture, MECHANISM_FIXTURES } from "./fixtures";
+import { AnalysisProvider, GenerationRequest, GenerationTask } from "./provider";
+
+const normalise = (value: string) => value.toLowerCase().replace(/\s+/g, " ").trim();
+
+/** Heavy-atom counts ("C6O1"), enough to tell the bundled fixtures apart when matching a drawn structure */
+const heavyAtomSignature = (counts: Map<string, number>) =>
+  [...counts.entries()].filter(([el]) => el !== "H").sort(([a], [b]) => a.localeCompare(b)).map(([el, n]) => `${el}${n}`).join("");
+
+const countFormula = (formula: string) => {
+  const counts = new Map<string, number>();
+  for (const [, element, count] of formula.matchAll(/([A-Z][a-z]?)(\d*)/g)) {
+    counts.set(element, (counts.get(element) ?? 0) + (count ? Number(count) : 1));
+  }
+  return counts;
+};
+
+const countSmiles = (smiles: string) => {
+  const counts = new Map<string, number>();
+  for (const [, bracket, bare] of smiles.matchAll(/\[([A-Z][a-z]?)[^\]]*\]|(Cl|Br|[BCNOPSFI])/g)) {
+    const element = bracket ?? bare;
+    counts.set(element, (counts.get(element) ?? 0) + 1);
+  }
+  return counts;
+};
+
+export const findFixture = (textInput: string | null, structureText: string | null): CompoundFixture | undefined => {
+  if (textInput) {
+    const query = normalise(textInput);
+    const byName = COMPOUND_FIXTURES.find(fixture => fixture.aliases.includes(query));
+    if (byName) return byName;
+  }
+
+  const smiles = structureText?.match(/^SMILES: (.*)$/m)?.[1];
+  if (smiles) {
+    const signature = heavyAtomSignature(countSmiles(smiles));
+    return COMPOUND_FIXTURES.find(fixture => heavyAtomSignature(countFormula(fixture.data.molecularFormula)) === signature);
+  }
+
+  return undefined;
+};
+
+const knownCompounds = () => COMPOUND_FIXTURES.map(f => f.data.name).join(", ");
+
+type ComparisonTask = Extract<GenerationTask, { kind: "comparison" }>;
+
+/** Ranks fixtures by their stored score; only properties with notes for every compound can be answered */
+const compareFixtures = ({ property, compounds }: ComparisonTask): ComparisonResult => {
+  const rows = compounds.map(compound => {
+    const fixture = findFixture(compound.textInput, compound.structureText);
+    const note = fixture?.comparisons?.[property];
+    if (!fixture || !note) {
+      throw new UnrecognisedStructureError(
+        `The offline provider can only compare the ${property.toLowerCase()} of ${knownCompounds()}; compound ${compound.label} is not one of them.`
+      );
+    }
+    return { label: compound.label, name: fixture.data.name, note };
+  });
+
+  const ranked: ComparedCompound[] = [...rows]
+    .sort((a, b) => b.note.score - a.note.score)
+    .map(({ label, name, note: { score, ...effects } }, index) => ({ label, name, rank: index + 1, ...effects }));
+
+  return {
+    property,
+    compounds: ranked,
+    order: ranked.map(row => row.name).join(" > "),
+    explanation: `Ranked by the stability of each compound's conjugate base: the more the negative charge is spread out or pulled away, the higher the ${property.toLowerCase()}.`,
+    examTip: "Compare conjugate bases, not the acids: resonance usually outweighs inductive effects.",
+  };
+};
+
+type MechanismTask = Extract<GenerationTask, { kind: "mechanism" }>;
+
+/** "alc. KOH", "KOH (alc)" and "alc KOH" all become "alckoh"-style keys */
+const reactionKey = (value: string) => value.toLowerCase().replace(/[\s.()]/g, "");
+
+/** Matches the typed or drawn substrate and the reagent against the bundled mechanisms */
+const explainFixtureMechanism = ({ reactants, reagent, structureText }: MechanismTask): MechanismResult => {
+  const [substrate, ...rest] = (reactants ?? "").split("+");
+  const reagentKey = reactionKey(reagent ?? rest.join("+"));
+  const smiles = structureText?.match(/^SMILES: (.*)$/m)?.[1];
+
+  const fixture = MECHANISM_FIXTURES.find(candidate => {
+    if (!candidate.reagents.includes(reagentKey)) return false;
+    if (substrate.trim()) return candidate.substrates.includes(reactionKey(substrate));
+    return !!smiles && heavyAtomSignature(countSmiles(smiles)) === heavyAtomSignature(countSmiles(candidate.substrateSmiles));
+  });
+  if (!fixture) {
+    const known = MECHANISM_FIXTURES.map(candidate => candidate.result.reaction.split(" → ")[0]).join("; ");
+    throw new UnrecognisedStructureError(`The offline provider only knows the mechanisms of ${known}.`);
+  }
+  return fixture.result;
+};
+
+const formatFormula = (counts: Map<string, number>) =>
+  [...counts.entries()].filter(([, n]) => n > 0).map(([el, n]) => (n === 1 ? el : `${el}${n}`)).join("");
+
+/** Puts the right answer at a position derived from the question, so it does not always sit first */
+const placeAnswer = (answer: string, distractors: string[], seed: string) => {
+  const position = [...seed].reduce((sum, ch) => sum + ch.charCodeAt(0), 0) % (distractors.length + 1);
+  const options = [...distractors];
+  options.splice(position, 0, answer);
+  return { options, answerIndex: position };
+};
+
+const HYBRIDISATIONS = ["sp", "sp2", "sp3", "sp3d"];
+
+/** Builds a quiz from the result card itself, so any compound the offline provider can show can also be tested */
+const quizFromCard = (data: ChemicalData, level: EducationLevel): QuizQuestion[] => {
+  const { name, molecularFormula, electronicEffects, resonance } = data;
+  const questions: QuizQuestion[] = [];
+  const counts = countFormula(molecularFormula);
+  const carbons = counts.get("C") ?? 0;
+  const hydrogens = counts.get("H") ?? 0;
+
+  const withCounts = (changes: Record<string, number>) => formatFormula(new Map([...counts].map(([el, n]) => [el, n + (changes[el] ?? 0)])));
+  const wrongFormulas = [withCounts({ H: 2 }), hydrogens >= 2 ? withCounts({ H: -2 }) : withCounts({ H: 4 }), carbons >= 2 ? withCounts({ C: -1 }) : withCounts({ C: 1 })];
+  questions.push({
+    type: "mcq",
+    topic: QuizTopic.STRUCTURE,
+    question: `What is the molecular formula of ${name}?`,
+    ...placeAnswer(molecularFormula, wrongFormulas, name),
+    explanation: `${name} is ${molecularFormula}. Count every atom in the structure, including the hydrogens that skeletal drawings leave out.`,
+  });
+
+  electronicEffects?.hybridisation
+    .filter(entry => HYBRIDISATIONS.includes(entry.hybridisation.toLowerCase()))
+    .slice(0, 2)
+    .forEach(entry => {
+      const answer = entry.hybridisation.toLowerCase();
+      questions.push({
+        type: "mcq",
+        topic: QuizTopic.HYBRIDISATION,
+        question: `What is the hybridisation of ${entry.atom.toLowerCase()} in ${name}?`,
+        options: HYBRIDISATIONS,
+        answerIndex: HYBRIDISATIONS.indexOf(answer),
+        explanation: `${entry.atom}: ${answer}${entry.geometry ? `, ${entry.geometry.charAt(0).toLowerCase()}${entry.geometry.slice(1)}` : ""}.`,
+      });
+    });
+
+  const polarGroup = electronicEffects?.functionalGroups.find(group => group.note && (group.inductive !== "none" || group.mesomeric !== "none"));
+  if (polarGroup) {
+    const shown = [polarGroup.inductive, polarGroup.mesomeric].filter(effect => effect !== "none").map(effect => effect.replace("-", "−"));
+    const effects = `${shown.join(" and ")} effect${shown.length > 1 ? "s" : ""}`;
+    questions.push({
+      type: "assertion-reason",
+      topic: QuizTopic.ELECTRONIC_EFFECTS,
+      assertion: `The ${polarGroup.group} group in ${name} shows ${shown.length > 1 ? "" : "a "}${effects}.`,
+      reason: polarGroup.note,
+      answer: AssertionReasonChoice.BOTH_TRUE_EXPLAINS,
+      explanation: `Both statements are true, and the reason describes the electron shift behind the ${effects}.`,
+    });
+  }
+
+  if (electronicEffects) {
+    const { status, explanation } = electronicEffects.aromaticity;
+    if (explanation) {
+      questions.push({
+        type: "assertion-reason",
+        topic: QuizTopic.RESONANCE,
+        assertion: `${name} is ${status === "aromatic" ? "non-aromatic" : "aromatic"}.`,
+        reason: explanation,
+        answer: AssertionReasonChoice.ONLY_REASON_TRUE,
+        explanation: `${name} is actually ${status}, which is exactly what the reason explains, so the assertion is false.`,
+      });
+    }
+  }
+
+  if (electronicEffects && electronicEffects.aromaticity.piElectrons > 0) {
+    const { piElectrons } = electronicEffects.aromaticity;
+    questions.push({
+      type: "integer",
+      topic: QuizTopic.RESONANCE,
+      question: `How many π electrons of ${name} are counted for Hückel's rule?`,
+      answer: piElectrons,
+      explanation: `${piElectrons} π electrons${(piElectrons - 2) % 4 === 0 ? `, which fits 4n + 2 with n = ${(piElectrons - 2) / 4}` : ""}.`,
+    });
+  }
+
+  if (resonance && resonance.contributors.length > 1) {
+    questions.push({
+      type: "integer",
+      topic: QuizTopic.RESONANCE,
+      question: `How many significant resonance structures can be drawn for ${name}?`,
+      answer: resonance.contributors.length,
+      explanation: resonance.explanation || `${resonance.contributors.length} contributors, as shown in the resonance section.`,
+    });
+  }
+
+  if (carbons > 0) {
+    questions.push({
+      type: "integer",
+      topic: QuizTopic.STRUCTURE,
+      question: `How many carbon atoms are there in one molecule of ${name}?`,
+      answer: carbons,
+      explanation: `The formula ${molecularFormula} has ${carbons} carbon atom${carbons === 1 ? "" : "s"}.`,
+    });
+  }
+
+  // The same mix as the prompt asks of a model: no assertion-reason below Class 11, no integer type below JEE
+  const levelIndex = Object.values(EducationLevel).indexOf(level);
+  const allowed = levelIndex === 0 ? ["mcq"] : levelIndex === 1 ? ["mcq", "assertion-reason"] : ["mcq", "assertion-reason", "integer"];
+  return questions.filter(question => allowed.includes(question.type));
+};
+
+/** QUIZ_SCHEMA gives each answer type its own field */
+const toQuizResponse = (questions: QuizQuestion[]) => ({
+  questions: questions.map(question => {
+    if (question.type === "assertion-reason") {
+      const { answer, ...rest } = question;
+      return { ...rest, choice: answer };
+    }
+    if (question.type === "integer") {
+      const { answer, ...rest } = question;
+      return { ...rest, integerAnswer: answer };
+    }
+    return question;
+  }),
+});
+
+/** Deterministic offline backend: answers from bundled fixtures so the UI and tests run without a key or network */
+export const createLocalProvider = (): AnalysisProvider => ({
+  id: "local",
+  label: "Offline fixtures",
+  async generate({ task, signal }: GenerationRequest) {
+    if (signal?.aborted) throw new CancelledError();
+    if (task.kind === "comparison") return JSON.stringify(compareFixtures(task));
+    if (task.kind === "mechanism") return JSON.stringify(explainFixtureMechanism(task));
+    if (task.kind === "quiz") return JSON.stringify(toQuizResponse(quizFromCard(task.data, task.level)));
+
+    const fixture = findFixture(task.textInput, task.structureText);
+    if (!fixture) {
+      throw new UnrecognisedStructureError(`The offline provider only knows ${knownCompounds()}.`);
+    }
+
+    const data: ChemicalData = { ...fixture.data, curriculumContext: fixture.curriculumContext[task.level] };
+    return JSON.stringify(data);
+  },
+});
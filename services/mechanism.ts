@@ -0,0 +1,66 @@
+import { CurriculumProfile, Language, MechanismResult } from "../types";
+import { CancelledError, InvalidInputError, toAnalysisError } from "./errors";
+import { buildMechanismPrompt, MECHANISM_SCHEMA } from "./prompt";
+import { GenerationRequest, getAnalysisProvider } from "./provider";
+import { RetryOptions } from "./retry";
+import { generateStructured, toImagePart } from "./structured";
+import { validateMechanismResult } from "./validation";
+
+/** A reaction to explain: the substrate typed or drawn, and the reagent with its conditions */
+export interface MechanismInput {
+  /** Typed reactants; may hold the whole reaction, e.g. "CH3CH2Br + alc. KOH" */
+  reactants: string | null;
+  reagent: string | null;
+  imageData: string | null;
+  structureText: string | null;
+}
+
+export interface MechanismOptions {
+  signal?: AbortSignal;
+  retry?: Partial<RetryOptions>;
+  onRetry?: (attempt: number, delayMs: number, error: Error) => void;
+  /** Language of the step explanations; equations, SMILES and product names stay in English */
+  language?: Language;
+  bilingual?: boolean;
+}
+
+export const explainMechanism = async (
+  input: MechanismInput,
+  profile: CurriculumProfile,
+  options: MechanismOptions = {}
+): Promise<MechanismResult> => {
+  const { reactants, reagent, imageData, structureText } = input;
+  if (!reactants && !imageData) {
+    throw new InvalidInputError("Draw the substrate or type the reactants, e.g. CH3CH2Br + alc. KOH.");
+  }
+  if (!reagent && !reactants?.includes("+")) {
+    throw new InvalidInputError("Add the reagent and conditions, e.g. alc. KOH.");
+  }
+
+  const request: GenerationRequest = {
+    task: { kind: "mechanism", reactants, reagent, structureText, level: profile.baseLevel },
+    prompt: buildMechanismPrompt({
+      reactants,
+      reagent,
+      structureText,
+      hasImage: !!imageData,
+      profile,
+      language: options.language ?? Language.ENGLISH,
+      bilingual: !!options.bilingual,
+    }),
+    images: imageData ? [toImagePart(imageData)] : [],
+    schema: MECHANISM_SCHEMA,
+  };
+
+  try {
+    const provider = await getAnalysisProvider();
+    return await generateStructured(provider, request, raw => {
+      const { data, repairedFields } = validateMechanismResult(raw);
+      return { ...data, meta: { provider: provider.id, repairedFields } };
+    }, options);
+  } catch (error) {
+    const analysisError = options.signal?.aborted ? new CancelledError(undefined, error) : toAnalysisError(error);
+    if (analysisError.kind !== "cancelled") console.error("Mechanism Error:", error);
+    throw analysisError;
+  }
+};
@@ -0,0 +1,88 @@
+import { ChemicalData, EducationLevel } from "../types";
+import { normaliseQuery } from "./cache";
+import { isRecord, validateChemicalData } from "./validation";
+
+/** Provider id recorded on answers served from the bundled library */
+export const OFFLINE_PROVIDER_ID = "offline-library";
+
+/** One precomputed compound; `aliases` are the normalised queries it answers */
+export interface OfflineEntry {
+  aliases: string[];
+  data: ChemicalData;
+}
+
+/** Contents of one level's file under public/offline, written by scripts/buildOfflineDataset.ts */
+export interface OfflineDataset {
+  version: 1;
+  level: EducationLevel;
+  /** Provider that generated the answers */
+  provider: string;
+  generatedAt: number;
+  compounds: OfflineEntry[];
+}
+
+const DATASET_SLUGS: Record<EducationLevel, string> = {
+  [EducationLevel.FOUNDATION]: "foundation",
+  [EducationLevel.BOARD_LEVEL]: "board",
+  [EducationLevel.COMPETITIVE]: "competitive",
+  [EducationLevel.UNDERGRADUATE]: "undergraduate",
+};
+
+/** Path of a level's dataset relative to the site root; the service worker precaches all of them */
+export const offlineDatasetPath = (level: EducationLevel) => `offline/${DATASET_SLUGS[level]}.json`;
+
+export const isOffline = () => typeof navigator !== "undefined" && navigator.onLine === false;
+
+/** Keeps the entries that pass the same validation a model answer gets; a damaged file yields none */
+const readDataset = (raw: unknown): OfflineEntry[] => {
+  if (!isRecord(raw) || !Array.isArray(raw.compounds)) return [];
+  return raw.compounds.flatMap((entry): OfflineEntry[] => {
+    if (!isRecord(entry) || !Array.isArray(entry.aliases)) return [];
+    try {
+      const { data } = validateChemicalData(entry.data);
+      const aliases = [...entry.aliases.filter((alias): alias is string => typeof alias === "string"), data.name, data.iupacName];
+      return [{ aliases: [...new Set(aliases.map(normaliseQuery).filter(Boolean))], data }];
+    } catch {
+      return [];
+    }
+  });
+};
+
+const datasets = new Map<EducationLevel, Promise<OfflineEntry[]>>();
+
+// Only a successful load is kept, so a file that was unreachable is fetched again next time
+const loadDataset = (level: EducationLevel) => {
+  let loading = datasets.get(level);
+  if (!loading) {
+    loading = fetch(`${import.meta.env.BASE_URL}${offlineDatasetPath(level)}`)
+      .then(response => (response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`))))
+      .then(readDataset)
+      .catch((error): OfflineEntry[] => {
+        console.warn("Offline dataset unavailable:", error);
+        datasets.delete(level);
+        return [];
+      });
+    datasets.set(level, loading);
+  }
+  return loading;
+};
+
+const markOffline = (data: ChemicalData): ChemicalData => ({
+  ...data,
+  meta: { provider: OFFLINE_PROVIDER_ID, repairedFields: [], offline: true },
+});
+
+/**
+ * Answers a typed name from the bundled library: the precomputed dataset for `level`, then the local provider's
+ * fixtures. Null when the compound is in neither.
+ */
+export const findOfflineAnswer = async (textInput: string, level: EducationLevel): Promise<ChemicalData | null> => {
+  const query = normaliseQuery(textInput);
+  const hit = (await loadDataset(level)).find(entry => entry.aliases.includes(query));
+  if (hit) return markOffline(hit.data);
+
+  // Loaded lazily like the provider itself, so the fixtures stay out of the main bundle
+  const { findFixture } = await import("./localProvider");
+  const fixture = findFixture(textInput, null);
+  return fixture ? markOffline({ ...fixture.data, curriculumContext: fixture.curriculumContext[level] }) : null;
+};
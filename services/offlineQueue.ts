@@ -0,0 +1,90 @@
+import { ChemicalData, CurriculumProfile, EducationLevel, Language, PromptTemplate } from "../types";
+import { analyzeChemicalStructure } from "./analysis";
+import { builtInProfile } from "./curriculum";
+import { AnalysisError, InvalidInputError, toAnalysisError } from "./errors";
+import { readStoredList, writeStoredList } from "./storage";
+
+const QUEUE_STORAGE_KEY = "goc-offline-queue";
+
+// Every drawing is a full PNG data URL, so a handful is already a fair share of the localStorage quota
+export const MAX_QUEUED_ANALYSES = 10;
+
+/** A drawing that could not be sent, kept with the settings it was drawn under */
+export interface QueuedAnalysis {
+  id: string;
+  imageData: string;
+  structureText: string | null;
+  /** A copy, so the drawing is still answered as asked if the profile is edited or deleted meanwhile */
+  profile: CurriculumProfile;
+  /** Copied for the same reason; missing on drawings queued before templates, which use the standard one */
+  template?: PromptTemplate;
+  language: Language;
+  bilingual: boolean;
+  queuedAt: number;
+}
+
+export interface QueueHandlers {
+  onDone: (item: QueuedAnalysis, data: ChemicalData) => void;
+  /** The drawing was sent but cannot be answered, so it has been dropped from the queue */
+  onFailed: (item: QueuedAnalysis, error: AnalysisError) => void;
+}
+
+/** Oldest first */
+export const listQueuedAnalyses = (): QueuedAnalysis[] =>
+  // Drawings queued before profiles existed carry only a level
+  readStoredList<QueuedAnalysis & { level?: EducationLevel }>(QUEUE_STORAGE_KEY).map(({ level, ...item }) =>
+    item.profile ? item : { ...item, profile: builtInProfile(level ?? EducationLevel.BOARD_LEVEL) }
+  );
+
+export const enqueueAnalysis = (request: Omit<QueuedAnalysis, "id" | "queuedAt">): QueuedAnalysis => {
+  const queue = listQueuedAnalyses();
+  if (queue.length >= MAX_QUEUED_ANALYSES) {
+    throw new InvalidInputError(`At most ${MAX_QUEUED_ANALYSES} drawings can wait for the connection; try again once these have been analysed.`);
+  }
+
+  const now = Date.now();
+  const entry: QueuedAnalysis = { ...request, id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`, queuedAt: now };
+  // writeStoredList gives up items from the end to fit the quota, which can cost older drawings too; put them back
+  if (writeStoredList(QUEUE_STORAGE_KEY, [...queue, entry]) <= queue.length) {
+    writeStoredList(QUEUE_STORAGE_KEY, queue);
+    throw new InvalidInputError("There is no room left on this device to keep the drawing until you are back online.");
+  }
+  return entry;
+};
+
+export const removeQueuedAnalysis = (id: string) => {
+  writeStoredList(QUEUE_STORAGE_KEY, listQueuedAnalyses().filter(item => item.id !== id));
+};
+
+let draining: Promise<void> | null = null;
+
+/**
+ * Analyses the queued drawings oldest first. A failure worth retrying (the connection again, a rate limit) stops
+ * the run and keeps the rest for next time; any other failure drops that drawing. Overlapping calls share one run.
+ */
+export const drainQueue = (handlers: QueueHandlers): Promise<void> => {
+  draining ??= (async () => {
+    try {
+      for (const item of listQueuedAnalyses()) {
+        try {
+          const data = await analyzeChemicalStructure(item.imageData, null, item.profile, {
+            structureText: item.structureText,
+            language: item.language,
+            bilingual: item.bilingual,
+            template: item.template,
+          });
+          removeQueuedAnalysis(item.id);
+          handlers.onDone(item, data);
+        } catch (error) {
+          const analysisError = toAnalysisError(error);
+          if (analysisError.retryable) return;
+          removeQueuedAnalysis(item.id);
+          handlers.onFailed(item, analysisError);
+        }
+      }
+    } finally {
+      draining = null;
+    }
+  })();
+  return draining;
+};
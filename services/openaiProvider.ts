@@ -0,0 +1,56 @@
+import { errorFromStatus, SafetyBlockError } from "./errors";
+import { AnalysisProvider, GenerationRequest } from "./provider";
+
+export interface OpenAICompatibleOptions {
+  /** e.g. http://localhost:11434/v1 (Ollama) or http://localhost:1234/v1 (LM Studio) */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+/** One part of a chat message: the prompt text or an image as a data URL */
+type ContentPart = { type: "text"; text: string } | { type: "image_url"; image_url: { url: string } };
+
+/** Talks to any server exposing the OpenAI `/chat/completions` API with JSON-schema structured output */
+export const createOpenAICompatibleProvider = ({ baseUrl, model, apiKey }: OpenAICompatibleOptions): AnalysisProvider => ({
+  id: "openai",
+  label: `OpenAI-compatible (${model})`,
+  async generate({ task, prompt, images = [], schema, signal }: GenerationRequest) {
+    const content: ContentPart[] = [{ type: "text", text: prompt }];
+    images.forEach(image => {
+      content.push({ type: "image_url", image_url: { url: `data:${image.mimeType};base64,${image.data}` } });
+    });
+
+    const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      signal,
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: "user", content }],
+        response_format: {
+          type: "json_schema",
+          json_schema: { name: `${task.kind}_response`, schema },
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      const error = Object.assign(new Error(`${response.status} ${response.statusText}: ${detail}`.trim()), {
+        retryAfter: response.headers.get("retry-after"),
+      });
+      throw errorFromStatus(response.status, error);
+    }
+
+    const body = await response.json();
+    const choice = body?.choices?.[0];
+    if (choice?.finish_reason === "content_filter") {
+      throw new SafetyBlockError("Content Warning: The input was flagged by safety filters. Try a different drawing.");
+    }
+    return choice?.message?.content ?? "";
+  },
+});
@@ -0,0 +1,418 @@
+import { AssertionReasonChoice, ChemicalData, ComparisonProperty, CurriculumProfile, EducationLevel, Language, QuizTopic } from "../types";
+import { JsonSchema } from "./provider";
+
+const ELECTRONIC_EFFECTS_SCHEMA: JsonSchema = {
+  type: "object",
+  description: "Structured general organic chemistry breakdown of the molecule",
+  properties: {
+    functionalGroups: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          group: { type: "string", description: "Functional group or substituent, e.g. 'Hydroxyl (–OH)'" },
+          inductive: { type: "string", enum: ["+I", "-I", "none"] },
+          mesomeric: { type: "string", enum: ["+M", "-M", "none"] },
+          hyperconjugation: { type: "string", description: "Hyperconjugative contribution, or empty if none" },
+          note: { type: "string", description: "How this group changes the electron density of the molecule" }
+        },
+        required: ["group", "inductive", "mesomeric", "hyperconjugation", "note"]
+      }
+    },
+    hybridisation: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          atom: { type: "string", description: "The atom or set of equivalent atoms, e.g. 'Ring carbons'" },
+          hybridisation: { type: "string", description: "e.g. sp, sp2, sp3" },
+          geometry: { type: "string", description: "e.g. trigonal planar" }
+        },
+        required: ["atom", "hybridisation", "geometry"]
+      }
+    },
+    aromaticity: {
+      type: "object",
+      properties: {
+        status: { type: "string", enum: ["aromatic", "antiaromatic", "non-aromatic"] },
+        piElectrons: { type: "integer", description: "π electrons in the cyclic conjugated system (Hückel count), 0 if none" },
+        explanation: { type: "string", description: "Why, in terms of Hückel's rule, planarity and conjugation" }
+      },
+      required: ["status", "piElectrons", "explanation"]
+    },
+    reactiveSites: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          site: { type: "string", description: "Atom or position, e.g. 'ortho/para ring carbons'" },
+          kind: { type: "string", enum: ["electrophilic", "nucleophilic", "acidic", "basic", "radical"] },
+          note: { type: "string", description: "What reacts there and why" }
+        },
+        required: ["site", "kind", "note"]
+      }
+    }
+  },
+  required: ["functionalGroups", "hybridisation", "aromaticity", "reactiveSites"]
+};
+
+const ATOM_INDICES_SCHEMA: JsonSchema = {
+  type: "array",
+  items: { type: "integer" },
+  description: "One atom index (a lone pair or a single atom) or two (the bond between them), counted from 0 in SMILES order"
+};
+
+const ELECTRON_ARROWS_SCHEMA: JsonSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: { from: ATOM_INDICES_SCHEMA, to: ATOM_INDICES_SCHEMA },
+    required: ["from", "to"]
+  }
+};
+
+const RESONANCE_SCHEMA: JsonSchema = {
+  type: "object",
+  description: "Major resonance contributors; leave contributors empty when the molecule has no meaningful resonance",
+  properties: {
+    contributors: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          smiles: { type: "string", description: "Kekulé SMILES (no lower-case aromatic atoms) with explicit charges, e.g. [OH+]=C1[CH-]C=CC=C1" },
+          description: { type: "string", description: "What distinguishes this contributor, e.g. 'negative charge on the ortho carbon'" },
+          arrowPushing: { type: "string", description: "The curved arrows that turn this contributor into the next one, in words; empty for the last" },
+          arrows: ELECTRON_ARROWS_SCHEMA
+        },
+        required: ["smiles", "description", "arrowPushing", "arrows"]
+      }
+    },
+    majorIndex: { type: "integer", description: "Index of the contributor that contributes most to the hybrid" },
+    explanation: { type: "string", description: "Why that contributor dominates and what the delocalisation means for reactivity" }
+  },
+  required: ["contributors", "majorIndex", "explanation"]
+};
+
+export const CHEMICAL_DATA_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string", description: "Common Name" },
+    iupacName: { type: "string", description: "IUPAC Name" },
+    molecularFormula: { type: "string", description: "Molecular Formula (e.g., C6H6)" },
+    smiles: { type: "string", description: "Isomeric SMILES of the identified compound, with @/@@ and / \\ stereo marks where the structure defines them" },
+    summary: { type: "string", description: "Educational summary tailored to the level" },
+    keyPoints: {
+      type: "array",
+      items: { type: "string" },
+      description: "List of key properties or facts"
+    },
+    reactions_or_uses: {
+      type: "array",
+      items: { type: "string" },
+      description: "List of reactions or uses"
+    },
+    curriculumContext: { type: "string", description: "Context specific to the Indian exam curriculum selected" },
+    analogy: { type: "string", description: "A simple real-world analogy for the concept" },
+    funFacts: {
+      type: "array",
+      items: { type: "string" },
+      description: "List of fun or historical facts"
+    },
+    electronicEffects: ELECTRONIC_EFFECTS_SCHEMA,
+    resonance: RESONANCE_SCHEMA
+  },
+  required: ["name", "iupacName", "molecularFormula", "smiles", "summary", "keyPoints", "reactions_or_uses", "curriculumContext", "analogy", "funFacts", "electronicEffects", "resonance"]
+};
+
+/** Sentinel the model returns in `name` when it cannot identify the input */
+export const UNRECOGNISED_NAME = "UNRECOGNISED";
+
+/** Everything the prompts say about the audience, composed from the profile so custom curricula need no code */
+export const buildAudienceBlock = (profile: CurriculumProfile): string => {
+  const lines = [`Target Audience: ${profile.name}`];
+  if (profile.depth) lines.push(`Depth: ${profile.depth}`);
+  if (profile.emphasise.length) lines.push(`Syllabus topics to emphasise where relevant: ${profile.emphasise.join("; ")}`);
+  if (profile.skip.length) lines.push(`Outside this syllabus, so leave out: ${profile.skip.join("; ")}`);
+  if (profile.examStyle) lines.push(`Exam tagging: ${profile.examStyle}`);
+  return lines.join("\n    ");
+};
+
+/**
+ * The shared output-language rule: `translated` lists the free text to write in `language`, `kept` what stays in
+ * English so answers still match exam papers and the app's lookups
+ */
+const outputLanguage = (language: Language, bilingual: boolean, translated: string, kept: string): string => {
+  if (language === Language.ENGLISH) return "";
+  let text = `
+
+    Write ${translated} in ${language}, as a ${language}-medium teacher would.
+    Keep ${kept} exactly as they would appear in English.`;
+  if (bilingual) {
+    text += `
+    The first time each key technical term appears, follow it with the English term in brackets, for example the
+    ${language} word for inductive effect followed by "(inductive effect)".`;
+  }
+  return text;
+};
+
+/** Output language rules for an analysis; names and formulas stay in English */
+export const languageInstructions = (language: Language, bilingual: boolean, hasCustomSections = false): string =>
+  outputLanguage(
+    language,
+    bilingual,
+    `the summary, keyPoints, reactions_or_uses, curriculumContext, analogy, funFacts${hasCustomSections ? ", customSections" : ""} and every note, explanation
+    and description inside electronicEffects and resonance`,
+    `name (the common English name), iupacName, molecularFormula, smiles, chemical formulas, hybridisation labels
+    such as sp2, and every value the schema restricts to a fixed list`
+  );
+
+export const COMPARISON_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    compounds: {
+      type: "array",
+      description: "One entry per compound, ordered from rank 1 (highest value of the property) down",
+      items: {
+        type: "object",
+        properties: {
+          label: { type: "string", description: "The letter the compound was given (A, B, ...)" },
+          name: { type: "string", description: "Common name of the compound" },
+          rank: { type: "integer", description: "1 = highest value of the property" },
+          inductive: { type: "string", description: "Inductive (+I/−I) effects and how they affect the property" },
+          resonance: { type: "string", description: "Resonance/mesomeric (+M/−M) effects and how they affect the property" },
+          hyperconjugation: { type: "string", description: "Hyperconjugation, or 'Not applicable'" },
+          steric: { type: "string", description: "Steric or solvation effects, or 'Not significant'" },
+          reasoning: { type: "string", description: "Net conclusion for this compound" }
+        },
+        required: ["label", "name", "rank", "inductive", "resonance", "hyperconjugation", "steric", "reasoning"]
+      }
+    },
+    order: { type: "string", description: "The ranking written with '>' between compound names" },
+    explanation: { type: "string", description: "Why the order comes out this way, tailored to the level" },
+    examTip: { type: "string", description: "A short exam tip or common trap for this kind of question" }
+  },
+  required: ["compounds", "order", "explanation", "examTip"]
+};
+
+interface ComparisonPromptInput {
+  property: ComparisonProperty;
+  /** Drawn compounds are sent as images in the same order as they appear here */
+  compounds: { label: string; textInput: string | null; structureText: string | null; hasImage: boolean }[];
+  profile: CurriculumProfile;
+  language: Language;
+  bilingual: boolean;
+}
+
+export const buildComparisonPrompt = ({ property, compounds, profile, language, bilingual }: ComparisonPromptInput): string => {
+  let imageNumber = 0;
+  const compoundLines = compounds.map(({ label, textInput, structureText, hasImage }) => {
+    const parts: string[] = [];
+    if (hasImage) parts.push(`drawn in image ${++imageNumber}`);
+    if (textInput) parts.push(`"${textInput}"`);
+    if (structureText) parts.push(`connection table:\n${structureText}`);
+    return `Compound ${label}: ${parts.join(", ")}`;
+  });
+
+  return `
+    Act as a highly experienced Chemistry teacher in the Indian Education System.
+    Rank the following compounds by ${property.toLowerCase()}, as asked in JEE/NEET comparison questions.
+
+    ${buildAudienceBlock(profile)}
+
+    ${compoundLines.join("\n    ")}
+
+    For every compound give its rank (1 = highest ${property.toLowerCase()}) and explain its position separately in terms of
+    inductive effects, resonance (mesomeric) effects, hyperconjugation and steric effects, then a net conclusion.
+    Keep each compound's label exactly as given. Pitch the explanation at the audience above.
+    Finish with the overall order, a short explanation of the deciding effect, and one exam tip or common trap.${outputLanguage(
+      language,
+      bilingual,
+      "each compound's inductive, resonance, hyperconjugation, steric and reasoning text, the explanation and the examTip",
+      "each compound's label and name, the compound names in the order line, and chemical formulas"
+    )}
+  `;
+};
+
+export const MECHANISM_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    reaction: { type: "string", description: "Overall equation with conditions, e.g. 'CH3CH2Br + KOH (alc.) → CH2=CH2 + KBr + H2O'" },
+    mechanismType: { type: "string", description: "Short name of the mechanism, e.g. E2, SN1, electrophilic addition" },
+    steps: {
+      type: "array",
+      description: "The elementary steps in order",
+      items: {
+        type: "object",
+        properties: {
+          title: { type: "string", description: "Short name of the step, e.g. 'Formation of the carbocation'" },
+          description: { type: "string", description: "What happens in this step and why" },
+          arrowDescriptions: {
+            type: "array",
+            items: { type: "string" },
+            description: "Each curly arrow in words: where the electron pair starts and where it ends up"
+          },
+          smiles: {
+            type: "string",
+            description: "Every species taking part in this step as dot-separated SMILES with explicit charges; write hydrogens that move as [H]"
+          },
+          arrows: ELECTRON_ARROWS_SCHEMA,
+          intermediate: {
+            type: "object",
+            description: "The intermediate this step forms; kind 'none' for a concerted step or the final step",
+            properties: {
+              kind: { type: "string", enum: ["carbocation", "carbanion", "radical", "other", "none"] },
+              name: { type: "string", description: "e.g. 'Secondary (2°) carbocation'" },
+              smiles: { type: "string", description: "SMILES of the intermediate with explicit charges" },
+              stability: { type: "string", description: "What stabilises or destabilises it" }
+            },
+            required: ["kind", "name", "smiles", "stability"]
+          }
+        },
+        required: ["title", "description", "arrowDescriptions", "smiles", "arrows", "intermediate"]
+      }
+    },
+    rateDeterminingStep: { type: "integer", description: "Index (from 0) of the slowest step" },
+    rateLaw: { type: "string", description: "Rate law and molecularity, e.g. 'Rate = k[RBr][OH⁻], bimolecular'" },
+    stereochemistry: { type: "string", description: "Stereochemical course, or 'Not relevant'" },
+    products: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          smiles: { type: "string" },
+          role: { type: "string", enum: ["major", "minor"] },
+          reason: { type: "string", description: "Why this product is major or minor" }
+        },
+        required: ["name", "smiles", "role", "reason"]
+      }
+    },
+    selectivityRule: { type: "string", enum: ["Saytzeff", "Hofmann", "Markovnikov", "Anti-Markovnikov", "none"] },
+    examTip: { type: "string", description: "A short exam tip or common trap for this reaction" }
+  },
+  required: ["reaction", "mechanismType", "steps", "rateDeterminingStep", "rateLaw", "stereochemistry", "products", "selectivityRule", "examTip"]
+};
+
+interface MechanismPromptInput {
+  reactants: string | null;
+  reagent: string | null;
+  structureText: string | null;
+  hasImage: boolean;
+  profile: CurriculumProfile;
+  language: Language;
+  bilingual: boolean;
+}
+
+// Mechanism detail on top of the profile's own depth, by the built-in level the profile is based on
+const MECHANISM_DEPTH: Record<EducationLevel, string> = {
+  [EducationLevel.FOUNDATION]: "Keep it qualitative: say which bonds break and form in plain words and name the product.",
+  [EducationLevel.BOARD_LEVEL]: "Name every intermediate and the slow step, and state the rule that decides the major product, as in NCERT.",
+  [EducationLevel.COMPETITIVE]: "Compare intermediate stabilities, justify the major and minor products, and point out rearrangements or exceptions examiners like.",
+  [EducationLevel.UNDERGRADUATE]: "Include the rate law, transition states, stereochemical course and kinetic versus thermodynamic control where relevant.",
+};
+
+export const buildMechanismPrompt = ({ reactants, reagent, structureText, hasImage, profile, language, bilingual }: MechanismPromptInput): string => {
+  let promptText = `
+    Act as a highly experienced Chemistry teacher in the Indian Education System.
+    Explain the mechanism of the reaction below step by step, with curly-arrow (arrow-pushing) notation.
+
+    ${buildAudienceBlock(profile)}
+    ${MECHANISM_DEPTH[profile.baseLevel]}
+
+    For every elementary step describe each curly arrow in words, and give the species taking part as dot-separated SMILES
+    with the atoms of that SMILES indexed by the arrows. Name any intermediate (carbocation, carbanion or radical).
+    Then give the rate-determining step, the major and minor products with the reason for each, and the rule that decides
+    between them (Saytzeff/Hofmann for eliminations, Markovnikov/anti-Markovnikov for additions), or "none".${outputLanguage(
+      language,
+      bilingual,
+      "every step title, description and arrow description, the intermediates' names and stability notes, the product reasons, the rate law, the stereochemistry and the examTip",
+      "the reaction equation, mechanismType, product names, SMILES, chemical formulas and every value the schema restricts to a fixed list"
+    )}
+  `;
+
+  if (hasImage) {
+    promptText += `\n\nThe substrate is drawn in the attached image.`;
+  }
+
+  if (structureText) {
+    promptText += `\n\nThe drawing was made with structure tools. Its exact connection table is below; trust it over the image where they differ.\n${structureText}`;
+  }
+
+  if (reactants) {
+    promptText += `\n\nReactants: ${reactants}`;
+  }
+
+  if (reagent) {
+    promptText += `\n\nReagent and conditions: ${reagent}`;
+  }
+
+  return promptText;
+};
+
+export const QUIZ_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    questions: {
+      type: "array",
+      items: {
+        type: "object",
+        description: "Fill only the fields of the question's type and leave the others empty",
+        properties: {
+          type: { type: "string", enum: ["mcq", "assertion-reason", "integer"] },
+          topic: { type: "string", enum: Object.values(QuizTopic) },
+          question: { type: "string", description: "Question text for mcq and integer questions" },
+          options: { type: "array", items: { type: "string" }, description: "Four options for mcq questions" },
+          answerIndex: { type: "integer", description: "Index (from 0) of the correct mcq option" },
+          assertion: { type: "string", description: "Assertion (A) for assertion-reason questions" },
+          reason: { type: "string", description: "Reason (R) for assertion-reason questions" },
+          choice: { type: "string", enum: Object.values(AssertionReasonChoice), description: "Correct choice for assertion-reason questions" },
+          integerAnswer: { type: "integer", description: "Answer to integer-type questions, a whole number from 0 to 99" },
+          explanation: { type: "string", description: "Why the answer is correct and the common wrong choice is not" }
+        },
+        required: ["type", "topic", "explanation"]
+      }
+    }
+  },
+  required: ["questions"]
+};
+
+// How many of each question type to ask; Class 9-10 papers have no assertion-reason or integer questions
+const QUIZ_MIX: Record<EducationLevel, string> = {
+  [EducationLevel.FOUNDATION]: "6 MCQs",
+  [EducationLevel.BOARD_LEVEL]: "5 MCQs and 3 assertion-reason questions",
+  [EducationLevel.COMPETITIVE]: "4 MCQs, 3 assertion-reason questions and 3 integer-type questions",
+  [EducationLevel.UNDERGRADUATE]: "4 MCQs, 3 assertion-reason questions and 3 integer-type questions",
+};
+
+interface QuizPromptInput {
+  data: ChemicalData;
+  profile: CurriculumProfile;
+  language: Language;
+  bilingual: boolean;
+}
+
+export const buildQuizPrompt = ({ data, profile, language, bilingual }: QuizPromptInput): string => {
+  // Only the teaching content; cache and provider details would only distract
+  const { meta, webSources, ...card } = data;
+
+  return `
+    Act as a highly experienced Chemistry teacher in the Indian Education System setting a short test.
+    Write a quiz on ${data.name} for this audience.
+
+    ${buildAudienceBlock(profile)}
+
+    Ask ${QUIZ_MIX[profile.baseLevel]}, in the style of the exams named above, or of ${[EducationLevel.COMPETITIVE, EducationLevel.UNDERGRADUATE].includes(profile.baseLevel) ? "JEE/NEET papers" : "board exam papers"} if none are.
+    MCQs have exactly four options with one correct answer. Integer-type answers are whole numbers from 0 to 99
+    (counts of π electrons, lone pairs, sp2 atoms, resonance structures and the like).
+    Base every question on the explanation the student has just read, below, and tag each with the topic it tests.
+    Give an explanation for every answer key.${outputLanguage(
+      language,
+      bilingual,
+      "every question, option, assertion, reason and explanation",
+      "chemical names and formulas, and every value the schema restricts to a fixed list"
+    )}
+
+    ${JSON.stringify(card)}
+  `;
+};
@@ -0,0 +1,351 @@
+import { CurriculumProfile, Language, PromptTemplate, TemplateSection } from "../types";
+import { buildAudienceBlock, CHEMICAL_DATA_SCHEMA, languageInstructions, UNRECOGNISED_NAME } from "./prompt";
+import { JsonSchema } from "./provider";
+import { readStoredList, writeStoredList } from "./storage";
+import { isRecord } from "./validation";
+
+const TEMPLATES_STORAGE_KEY = "goc-prompt-templates";
+const EXPORT_FORMAT = "goc-visualiser-templates";
+const EXPORT_VERSION = 1;
+
+export const MAX_CUSTOM_SECTIONS = 6;
+
+/** Named placeholders a template text may use */
+export const TEMPLATE_PLACEHOLDERS = {
+  level: "The audience block composed from the curriculum profile",
+  inputType: "\"image\" for a drawing or photo, \"name provided below\" for a typed name",
+  query: "The name or question the student typed; empty for a drawing",
+} as const;
+
+export type TemplatePlaceholder = keyof typeof TEMPLATE_PLACEHOLDERS;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Sections the app itself reads; a template may reorder and reword them but not leave them out */
+export const STANDARD_SECTIONS: TemplateSection[] = [
+  { key: "name", instruction: "Common Name" },
+  { key: "iupacName", instruction: "IUPAC Name" },
+  { key: "molecularFormula", instruction: "Molecular Formula, plus the SMILES of the exact structure you identified (with stereochemistry if the drawing shows it)" },
+  { key: "summary", instruction: "A summary explanation pitched at the audience above, at the depth it describes." },
+  { key: "keyPoints", instruction: "Key Properties/Facts (3-5 bullet points relevant to the audience)." },
+  { key: "reactions_or_uses", instruction: "Common Reactions or Uses (relevant to the audience)." },
+  { key: "curriculumContext", instruction: "Curriculum Context: A specific note on why this is important for this curriculum, tagged as the exam tagging above asks." },
+  { key: "analogy", instruction: "Real World Analogy: A creative, non-chemistry analogy to help understand the molecule's behavior or structure (e.g., \"Think of Benzene like a round table where everyone shares their food equally...\")." },
+  { key: "funFacts", instruction: "Fun Facts: 3 interesting, quirky, or historical facts about this chemical." },
+  {
+    key: "electronicEffects",
+    instruction: [
+      "Electronic Effects: every functional group with its inductive (+I/−I), mesomeric (+M/−M) and hyperconjugation",
+      "contributions, the hybridisation of key atoms, aromaticity with the Hückel π-electron count, and the reactive sites.",
+      "Always fill every part; the app decides how much of it to show for each level.",
+    ].join("\n"),
+  },
+  {
+    key: "resonance",
+    instruction: [
+      "Resonance: the major resonance contributors as Kekulé SMILES, starting from the usual structure. Write every",
+      "contributor with the atoms in the same order so atom indices match between them. For each one, give the curved",
+      "arrows that lead to the next contributor, and say which contributor is most significant.",
+    ].join("\n"),
+  },
+];
+
+const STANDARD_KEYS = STANDARD_SECTIONS.map(section => section.key);
+
+const STANDARD_INTRO = [
+  "Act as a highly experienced Chemistry teacher in the Indian Education System.",
+  "Identify the chemical compound from the {{inputType}}.",
+  "",
+  "{{level}}",
+].join("\n");
+
+// Raise a built-in template's version whenever its text changes, so results from before and after stay apart
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: "standard",
+    name: "Standard",
+    version: 1,
+    intro: STANDARD_INTRO,
+    sections: STANDARD_SECTIONS,
+    queryLine: "Chemical Name/Query: {{query}}",
+    builtIn: true,
+  },
+  {
+    id: "exam-revision",
+    name: "Exam revision",
+    version: 1,
+    intro: [
+      "Act as an experienced Chemistry teacher preparing students for their exams in the Indian Education System.",
+      "Be brisk and exam-focused. Identify the chemical compound from the {{inputType}}.",
+      "",
+      "{{level}}",
+    ].join("\n"),
+    sections: [
+      ...STANDARD_SECTIONS.slice(0, 4),
+      STANDARD_SECTIONS[6],
+      ...STANDARD_SECTIONS.slice(4, 6),
+      {
+        key: "commonMistakes",
+        instruction: "Mistakes students commonly make about this compound in exams, each with the correct idea (2-4 points).",
+        custom: { title: "Common mistakes", format: "list" },
+      },
+      {
+        key: "ncertReference",
+        instruction: "The NCERT class, chapter and section where this compound or its key reaction is covered, if it is.",
+        custom: { title: "NCERT reference", format: "text" },
+      },
+      ...STANDARD_SECTIONS.slice(9),
+      ...STANDARD_SECTIONS.slice(7, 9),
+    ],
+    queryLine: "Chemical Name/Query: {{query}}",
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_TEMPLATE = BUILT_IN_TEMPLATES[0];
+
+/** What a result records as the template behind it */
+export const templateVersion = (template: PromptTemplate) => `${template.id}@${template.version}`;
+
+export const fillPlaceholders = (text: string, values: Record<TemplatePlaceholder, string>) =>
+  text.replace(PLACEHOLDER_PATTERN, (match, name: string) => (name in values ? values[name as TemplatePlaceholder] : match));
+
+const unknownPlaceholders = (text: string) =>
+  [...text.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]).filter(name => !(name in TEMPLATE_PLACEHOLDERS));
+
+/** A key for a new section from its title, e.g. "Common mistakes" → "commonMistakes"; unique among `taken` */
+export const sectionKey = (title: string, taken: string[]) => {
+  const words = title.normalize("NFKD").replace(/[^A-Za-z0-9 ]/g, " ").trim().toLowerCase().split(/\s+/).filter(Boolean);
+  const base = words.map((word, index) => (index ? word[0].toUpperCase() + word.slice(1) : word)).join("").replace(/^\d+/, "") || "section";
+  let key = base;
+  for (let n = 2; taken.includes(key) || STANDARD_KEYS.includes(key); n++) key = `${base}${n}`;
+  return key;
+};
+
+/** Throws an Error naming the first problem that would make the template produce unusable answers */
+export const checkTemplate = (template: PromptTemplate) => {
+  if (!template.name.trim()) throw new Error("Give the template a name.");
+  const keys = template.sections.map(section => section.key);
+  const missing = STANDARD_KEYS.filter(key => !keys.includes(key));
+  if (missing.length) throw new Error(`The template leaves out standard sections the app needs: ${missing.join(", ")}.`);
+  if (new Set(keys).size !== keys.length) throw new Error("Two sections share the same key.");
+
+  const custom = template.sections.filter(section => section.custom);
+  if (custom.length > MAX_CUSTOM_SECTIONS) throw new Error(`A template can add at most ${MAX_CUSTOM_SECTIONS} sections.`);
+  const untitled = custom.find(section => !section.custom!.title.trim() || !section.instruction.trim());
+  if (untitled) throw new Error("Every added section needs a title and an instruction.");
+  if (custom.some(section => STANDARD_KEYS.includes(section.key) || !/^[a-z][A-Za-z0-9]*$/.test(section.key))) {
+    throw new Error("Added section keys must be camelCase and differ from the standard ones.");
+  }
+
+  const unknown = [template.intro, template.queryLine, ...template.sections.map(section => section.instruction)].flatMap(unknownPlaceholders);
+  if (unknown.length) {
+    const known = Object.keys(TEMPLATE_PLACEHOLDERS).map(name => `{{${name}}}`).join(", ");
+    throw new Error(`Unknown placeholder {{${unknown[0]}}}; use ${known}.`);
+  }
+};
+
+/** The response schema for this template: the standard one, plus a property per added section */
+export const analysisSchema = (template: PromptTemplate): JsonSchema => {
+  const custom = template.sections.filter(section => section.custom);
+  if (!custom.length) return CHEMICAL_DATA_SCHEMA;
+  const sectionSchema = ({ instruction, custom: spec }: TemplateSection): JsonSchema =>
+    spec!.format === "list" ? { type: "array", items: { type: "string" }, description: instruction } : { type: "string", description: instruction };
+  return {
+    ...CHEMICAL_DATA_SCHEMA,
+    properties: {
+      ...CHEMICAL_DATA_SCHEMA.properties,
+      customSections: {
+        type: "object",
+        properties: Object.fromEntries(custom.map(section => [section.key, sectionSchema(section)])),
+        required: custom.map(section => section.key),
+      },
+    },
+    required: [...(CHEMICAL_DATA_SCHEMA.required ?? []), "customSections"],
+  };
+};
+
+interface AnalysisPromptInput {
+  hasImage: boolean;
+  textInput: string | null;
+  structureText: string | null;
+  profile: CurriculumProfile;
+  language?: Language;
+  /** Follow key terms with their English names, for students moving between English and regional-medium books */
+  bilingual?: boolean;
+}
+
+const indent = (text: string, prefix: string) =>
+  text.split("\n").map((line, index) => (index && line ? prefix + line : line)).join("\n");
+
+const sectionLine = ({ key, instruction, custom }: TemplateSection) =>
+  custom
+    ? `${custom.title} (in customSections.${key}, ${custom.format === "list" ? "a list of short points" : "one paragraph"}): ${instruction}`
+    : instruction;
+
+export const buildAnalysisPrompt = (
+  template: PromptTemplate,
+  { hasImage, textInput, structureText, profile, language = Language.ENGLISH, bilingual = false }: AnalysisPromptInput
+): string => {
+  const values: Record<TemplatePlaceholder, string> = {
+    level: buildAudienceBlock(profile),
+    inputType: hasImage ? "image" : "name provided below",
+    query: textInput ?? "",
+  };
+  // Indented before filling, since the audience block carries its own indentation
+  const render = (text: string, prefix: string) => fillPlaceholders(indent(text, prefix), values);
+  const sections = template.sections.map((section, index) => `    ${index + 1}. ${render(sectionLine(section), "        ")}`);
+  const hasCustomSections = template.sections.some(section => section.custom);
+
+  let promptText = `
+    ${render(template.intro, "    ")}
+
+    Provide a structured response containing:
+${sections.join("\n")}
+
+    If the input cannot be identified as a chemical compound, set name to "${UNRECOGNISED_NAME}" and use summary to say what was unclear.${languageInstructions(language, bilingual, hasCustomSections)}
+  `;
+
+  if (structureText) {
+    promptText += `\n\nThe drawing was made with structure tools. Its exact connection table is below; trust it over the image where they differ.\n${structureText}`;
+  }
+
+  if (textInput) {
+    promptText += `\n\n${fillPlaceholders(template.queryLine, values)}`;
+  }
+
+  return promptText;
+};
+
+const newId = () => `template-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const readSection = (raw: unknown): TemplateSection | null => {
+  if (!isRecord(raw) || typeof raw.key !== "string" || typeof raw.instruction !== "string") return null;
+  const section: TemplateSection = { key: raw.key.trim(), instruction: raw.instruction.trim() };
+  if (isRecord(raw.custom) && typeof raw.custom.title === "string") {
+    section.custom = { title: raw.custom.title.trim(), format: raw.custom.format === "list" ? "list" : "text" };
+  }
+  return section;
+};
+
+/** A custom template from storage, an import or a share link, or null when it is malformed */
+export const readTemplate = (raw: unknown): PromptTemplate | null => {
+  if (!isRecord(raw) || typeof raw.name !== "string" || !Array.isArray(raw.sections)) return null;
+  const template: PromptTemplate = {
+    id: typeof raw.id === "string" && raw.id.startsWith("template-") ? raw.id : newId(),
+    name: raw.name.trim(),
+    version: typeof raw.version === "number" && raw.version >= 1 ? Math.floor(raw.version) : 1,
+    intro: typeof raw.intro === "string" ? raw.intro : STANDARD_INTRO,
+    sections: raw.sections.map(readSection).filter((section): section is TemplateSection => section !== null),
+    queryLine: typeof raw.queryLine === "string" ? raw.queryLine : DEFAULT_TEMPLATE.queryLine,
+  };
+  try {
+    checkTemplate(template);
+    return template;
+  } catch {
+    return null;
+  }
+};
+
+const readCustomTemplates = () =>
+  readStoredList<unknown>(TEMPLATES_STORAGE_KEY).map(readTemplate).filter((template): template is PromptTemplate => template !== null);
+
+const saveCustomTemplates = (templates: PromptTemplate[]): PromptTemplate[] => {
+  writeStoredList(TEMPLATES_STORAGE_KEY, templates);
+  return listTemplates();
+};
+
+/** Built-in templates first, then the custom ones in the order they were created */
+export const listTemplates = (): PromptTemplate[] => [...BUILT_IN_TEMPLATES, ...readCustomTemplates()];
+
+export const findTemplate = (id: string | null | undefined): PromptTemplate =>
+  listTemplates().find(template => template.id === id) ?? DEFAULT_TEMPLATE;
+
+/** A copy to edit, starting again at version 1; built-in templates are read-only */
+export const duplicateTemplate = (template: PromptTemplate, name = `${template.name} (copy)`): PromptTemplate => ({
+  ...template,
+  id: newId(),
+  name,
+  version: 1,
+  sections: template.sections.map(section => ({ ...section })),
+  builtIn: undefined,
+});
+
+const sameContent = (a: PromptTemplate, b: PromptTemplate) =>
+  JSON.stringify([a.name, a.intro, a.sections, a.queryLine]) === JSON.stringify([b.name, b.intro, b.sections, b.queryLine]);
+
+/** Adds or replaces a custom template, raising its version when the text changed; returns every template */
+export const saveTemplate = (template: PromptTemplate): PromptTemplate[] => {
+  if (template.builtIn) throw new Error("Built-in templates cannot be changed; duplicate one to customise it.");
+  checkTemplate(template);
+  const custom = readCustomTemplates();
+  const existing = custom.find(stored => stored.id === template.id);
+  const version = !existing ? template.version : sameContent(existing, template) ? existing.version : existing.version + 1;
+  const saved = { ...template, version };
+  return saveCustomTemplates(existing ? custom.map(stored => (stored.id === saved.id ? saved : stored)) : [...custom, saved]);
+};
+
+/**
+ * A custom template that arrived with a share link; stored unless this device already has it with the same text, and
+ * returned as stored. One edited here since it was shared is kept, and the sender's text is added beside it.
+ */
+export const adoptTemplate = (template: PromptTemplate): PromptTemplate => {
+  const builtIn = BUILT_IN_TEMPLATES.find(candidate => candidate.id === template.id);
+  if (builtIn) return builtIn;
+  const known = readCustomTemplates().find(existing => existing.id === template.id);
+  if (known && sameContent(known, template)) return known;
+  const adopted = known ? duplicateTemplate(template, template.name) : { ...template, builtIn: undefined };
+  saveTemplate(adopted);
+  return findTemplate(adopted.id);
+};
+
+export const deleteTemplate = (id: string): PromptTemplate[] =>
+  saveCustomTemplates(readCustomTemplates().filter(template => template.id !== id));
+
+/** The custom templates as a file another teacher can import; versions travel with them */
+export const exportTemplates = (templates: PromptTemplate[] = readCustomTemplates()): string =>
+  JSON.stringify({
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    templates: templates.filter(template => !template.builtIn).map(({ builtIn, ...template }) => template),
+  }, null, 2);
+
+export interface TemplateImportResult {
+  templates: PromptTemplate[];
+  imported: number;
+  skipped: number;
+}
+
+/**
+ * Adds the templates from an exported file; one with the same id as a stored template replaces it. A replacement
+ * whose text differs gets a version above both, so answers cached for the stored text are not served for it.
+ */
+export const importTemplates = (json: string): TemplateImportResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+  if (!isRecord(parsed) || parsed.format !== EXPORT_FORMAT || !Array.isArray(parsed.templates)) {
+    throw new Error("This file is not a GOC Visualiser prompt template export.");
+  }
+
+  const incoming = parsed.templates.map(readTemplate);
+  const valid = incoming.filter((template): template is PromptTemplate => template !== null);
+  const custom = readCustomTemplates();
+  const replaced = custom.map(existing => {
+    const template = valid.find(candidate => candidate.id === existing.id);
+    if (!template) return existing;
+    const version = sameContent(existing, template) ? existing.version : Math.max(existing.version, template.version) + 1;
+    return { ...template, version };
+  });
+  const added = valid.filter(template => !custom.some(existing => existing.id === template.id));
+
+  return {
+    templates: saveCustomTemplates([...replaced, ...added]),
+    imported: valid.length,
+    skipped: incoming.length - valid.length,
+  };
+};
@@ -0,0 +1,114 @@
+import { ChemicalData, ComparisonProperty, EducationLevel } from "../types";
+
+export type ProviderId = "gemini" | "local" | "openai";
+
+/** Provider-neutral subset of JSON Schema; each backend converts it to its own structured-output format */
+export interface JsonSchema {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface ImagePart {
+  /** Raw base64, without the data URL prefix */
+  data: string;
+  mimeType: string;
+}
+
+/** What the request is about, so offline providers can answer without reading the prompt */
+export type GenerationTask =
+  | {
+      kind: "analysis";
+      textInput: string | null;
+      structureText: string | null;
+      level: EducationLevel;
+    }
+  | {
+      kind: "comparison";
+      property: ComparisonProperty;
+      compounds: { label: string; textInput: string | null; structureText: string | null }[];
+      level: EducationLevel;
+    }
+  | {
+      kind: "mechanism";
+      reactants: string | null;
+      reagent: string | null;
+      structureText: string | null;
+      level: EducationLevel;
+    }
+  | {
+      kind: "quiz";
+      /** The result card the quiz is about */
+      data: ChemicalData;
+      level: EducationLevel;
+    };
+
+export interface GenerationRequest {
+  task: GenerationTask;
+  prompt: string;
+  /** In the order the prompt refers to them */
+  images?: ImagePart[];
+  schema: JsonSchema;
+  /** Providers must stop work and reject when this aborts */
+  signal?: AbortSignal;
+}
+
+export interface AnalysisProvider {
+  readonly id: ProviderId;
+  readonly label: string;
+  /** Resolves to the raw JSON text produced by the backend; parsing and validation happen in the caller */
+  generate(request: GenerationRequest): Promise<string>;
+  /**
+   * Same contract as `generate`, but hands over each chunk of text as it arrives.
+   * Optional: callers fall back to `generate` for backends that cannot stream.
+   */
+  generateStream?(request: GenerationRequest, onChunk: (chunk: string) => void): Promise<string>;
+}
+
+const PROVIDER_IDS: ProviderId[] = ["gemini", "local", "openai"];
+
+/** Provider named by ANALYSIS_PROVIDER; falls back to the offline provider when no Gemini key is configured */
+export const getConfiguredProviderId = (): ProviderId => {
+  const configured = (process.env.ANALYSIS_PROVIDER || "").trim().toLowerCase() as ProviderId;
+  if (PROVIDER_IDS.includes(configured)) return configured;
+  return process.env.API_KEY ? "gemini" : "local";
+};
+
+let activeProvider: AnalysisProvider | null = null;
+
+const createProvider = async (id: ProviderId): Promise<AnalysisProvider> => {
+  // Imported lazily so the Gemini SDK is only loaded when it is actually used
+  switch (id) {
+    case "local": {
+      const { createLocalProvider } = await import("./localProvider");
+      return createLocalProvider();
+    }
+    case "openai": {
+      const { createOpenAICompatibleProvider } = await import("./openaiProvider");
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || "http://localhost:11434/v1",
+        apiKey: process.env.OPENAI_API_KEY || undefined,
+        model: process.env.OPENAI_MODEL || "llama3.2-vision",
+      });
+    }
+    default: {
+      const { createGeminiProvider } = await import("./gemini");
+      return createGeminiProvider({ apiKey: process.env.API_KEY, model: process.env.GEMINI_MODEL || undefined });
+    }
+  }
+};
+
+export const getAnalysisProvider = async (): Promise<AnalysisProvider> => {
+  if (!activeProvider) {
+    activeProvider = await createProvider(getConfiguredProviderId());
+  }
+  return activeProvider;
+};
+
+/** Overrides the configured provider (tests, or a future settings screen). Pass null to go back to the env choice. */
+export const setAnalysisProvider = (provider: AnalysisProvider | null) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,37 @@
+import { ChemicalData, CurriculumProfile, Language, Quiz } from "../types";
+import { CancelledError, toAnalysisError } from "./errors";
+import { buildQuizPrompt, QUIZ_SCHEMA } from "./prompt";
+import { GenerationRequest, getAnalysisProvider } from "./provider";
+import { RetryOptions } from "./retry";
+import { generateStructured } from "./structured";
+import { validateQuiz } from "./validation";
+
+export interface QuizOptions {
+  signal?: AbortSignal;
+  retry?: Partial<RetryOptions>;
+  onRetry?: (attempt: number, delayMs: number, error: Error) => void;
+  /** Language of the questions and explanations, usually the one the result card was written in */
+  language?: Language;
+  bilingual?: boolean;
+}
+
+/** Turns a result card into a self-test pitched at `profile`; the quiz and its scores are filed under the base level */
+export const generateQuiz = async (data: ChemicalData, profile: CurriculumProfile, options: QuizOptions = {}): Promise<Quiz> => {
+  const request: GenerationRequest = {
+    task: { kind: "quiz", data, level: profile.baseLevel },
+    prompt: buildQuizPrompt({ data, profile, language: options.language ?? Language.ENGLISH, bilingual: !!options.bilingual }),
+    schema: QUIZ_SCHEMA,
+  };
+
+  try {
+    const provider = await getAnalysisProvider();
+    return await generateStructured(provider, request, raw => {
+      const { data: quiz, repairedFields } = validateQuiz(raw, data.name, profile.baseLevel);
+      return { ...quiz, meta: { provider: provider.id, repairedFields } };
+    }, options);
+  } catch (error) {
+    const analysisError = options.signal?.aborted ? new CancelledError(undefined, error) : toAnalysisError(error);
+    if (analysisError.kind !== "cancelled") console.error("Quiz Error:", error);
+    throw analysisError;
+  }
+};
@@ -0,0 +1,69 @@
+import { CancelledError, RateLimitError, toAnalysisError } from "./errors";
+
+export interface RetryOptions {
+  /** Extra attempts after the first one */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+};
+
+export interface RetryHooks {
+  signal?: AbortSignal;
+  /** Called before each wait, e.g. to show "Retrying in 3s…" */
+  onRetry?: (attempt: number, delayMs: number, error: Error) => void;
+}
+
+/** Resolves after `ms`, or rejects with CancelledError as soon as the signal aborts */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/** "Full jitter" exponential backoff; a rate limit's own Retry-After wins when it is longer */
+export const backoffDelay = (attempt: number, error: unknown, { baseDelayMs, maxDelayMs }: RetryOptions, random = Math.random) => {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  const jittered = Math.round(random() * ceiling);
+  const suggested = error instanceof RateLimitError ? error.retryAfterMs ?? 0 : 0;
+  return Math.max(jittered, suggested);
+};
+
+/** Runs `task` until it succeeds, fails with a non-retryable AnalysisError, or runs out of attempts */
+export const withRetry = async <T>(
+  task: (attempt: number) => Promise<T>,
+  options: Partial<RetryOptions> = {},
+  { signal, onRetry }: RetryHooks = {}
+): Promise<T> => {
+  const settings = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new CancelledError();
+    try {
+      return await task(attempt);
+    } catch (rawError) {
+      const error = signal?.aborted ? new CancelledError(undefined, rawError) : toAnalysisError(rawError);
+      if (!error.retryable || attempt >= settings.retries) throw error;
+
+      const delayMs = backoffDelay(attempt, error, settings);
+      onRetry?.(attempt + 1, delayMs, error);
+      await sleep(delayMs, signal);
+    }
+  }
+};
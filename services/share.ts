@@ -0,0 +1,309 @@
+import { ChemicalData, CurriculumProfile, DrawingDocument, EducationLevel, Language, MoleculeAtom, MoleculeBond, PromptTemplate, Stroke, StrokePoint } from "../types";
+import { BACKGROUND_COLOR, PEN_COLOR } from "../utils/drawing";
+import { distanceToSegment, isMoleculeEmpty, moleculeToText } from "../utils/molecule";
+import { builtInProfile, readProfile } from "./curriculum";
+import { InvalidInputError } from "./errors";
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE, readTemplate } from "./promptTemplate";
+import { isRecord, readAnalysisMeta, validateChemicalData } from "./validation";
+
+const SHARE_PARAM = "share";
+const SHARE_VERSION = 1;
+// Chat apps, QR generators and some browsers start truncating or refusing URLs not far beyond this
+export const MAX_SHARE_URL_LENGTH = 8000;
+// A link is at most a few kilobytes, so anything inflating past this is not one of ours
+const MAX_PAYLOAD_BYTES = 2_000_000;
+// Point-reduction tolerances (in canvas pixels) tried in turn when a drawing is too large for a link
+const SIMPLIFY_TOLERANCES = [1.5, 4, 10];
+
+const LEVELS = Object.values(EducationLevel);
+const LANGUAGES = Object.values(Language);
+const BOND_STEREOS: MoleculeBond["stereo"][] = ["none", "wedge", "dash"];
+
+/** What a share link reproduces; without `data` the analysis is run again from the input */
+export interface SharedAnalysis {
+  /** A custom profile travels inside the link, since the recipient will not have it */
+  profile: CurriculumProfile;
+  /** The sender's language settings and template, so a re-run asks for the same answer */
+  language: Language;
+  bilingual: boolean;
+  /** A custom template travels inside the link like a custom profile */
+  template: PromptTemplate;
+  textInput: string | null;
+  drawing: DrawingDocument | null;
+  /** Connection table of the drawn molecule, recomputed from `drawing` */
+  structureText: string | null;
+  data: ChemicalData | null;
+}
+
+/** Parts left out of a link to keep it short enough to paste anywhere */
+export type ShareOmission = "result" | "strokeDetail" | "sketch" | "drawing";
+
+export interface ShareLink {
+  url: string;
+  omitted: ShareOmission[];
+}
+
+/**
+ * Compact wire format: strokes are [eraser ? 1 : 0, width, x0, y0, dx1, dy1, ...] in whole pixels, atoms are
+ * [x, y, label, charge, lonePairs] and bonds [fromIndex, toIndex, order, stereoIndex].
+ */
+interface SharePayload {
+  v: number;
+  /** Index of the profile's base level */
+  l: number;
+  p?: Pick<CurriculumProfile, "id" | "name" | "depth" | "emphasise" | "skip" | "examStyle">;
+  /** Index of the language, left out for English; `w` is set for bilingual answers */
+  g?: number;
+  w?: 1;
+  /** Prompt template: a built-in one by id, a custom one in full; left out for the default */
+  t?: string | Omit<PromptTemplate, "builtIn">;
+  q?: string;
+  s?: number[][];
+  a?: [number, number, string, number, number][];
+  b?: [number, number, number, number][];
+  r?: ChemicalData;
+}
+
+const encodeStroke = (stroke: Stroke): number[] => {
+  const values = [stroke.tool === "eraser" ? 1 : 0, Math.round(stroke.width)];
+  let previous = { x: 0, y: 0 };
+  stroke.points.forEach(point => {
+    const x = Math.round(point.x);
+    const y = Math.round(point.y);
+    values.push(x - previous.x, y - previous.y);
+    previous = { x, y };
+  });
+  return values;
+};
+
+const decodeStroke = (values: unknown): Stroke | null => {
+  if (!Array.isArray(values) || values.length < 4 || values.length % 2 !== 0 || !values.every(Number.isFinite)) return null;
+  const [tool, width, ...deltas] = values as number[];
+  const points: StrokePoint[] = [];
+  for (let i = 0, x = 0, y = 0; i < deltas.length; i += 2) {
+    x += deltas[i];
+    y += deltas[i + 1];
+    points.push({ x, y });
+  }
+  const eraser = tool === 1;
+  return { tool: eraser ? "eraser" : "pen", width: Math.max(1, width), color: eraser ? BACKGROUND_COLOR : PEN_COLOR, points };
+};
+
+/** Ramer–Douglas–Peucker: drops points that lie within `tolerance` of the line through their neighbours */
+const simplifyPoints = (points: StrokePoint[], tolerance: number): StrokePoint[] => {
+  if (points.length < 3) return points;
+  const first = points[0];
+  const last = points[points.length - 1];
+  let furthest = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const distance = distanceToSegment(points[i], first, last);
+    if (distance > furthest) {
+      furthest = distance;
+      index = i;
+    }
+  }
+  if (furthest <= tolerance) return [first, last];
+  return [...simplifyPoints(points.slice(0, index + 1), tolerance).slice(0, -1), ...simplifyPoints(points.slice(index), tolerance)];
+};
+
+const simplifyDrawing = (drawing: DrawingDocument, tolerance: number): DrawingDocument => ({
+  ...drawing,
+  strokes: drawing.strokes.map(stroke => ({ ...stroke, points: simplifyPoints(stroke.points, tolerance) })),
+});
+
+type ShareSettings = Pick<SharedAnalysis, "profile" | "language" | "bilingual" | "template">;
+
+const toPayload = (settings: ShareSettings, query: string | null, drawing: DrawingDocument | null, data: ChemicalData | null): SharePayload => {
+  const { profile, language, bilingual, template } = settings;
+  const payload: SharePayload = { v: SHARE_VERSION, l: LEVELS.indexOf(profile.baseLevel) };
+  if (!profile.builtIn) {
+    const { id, name, depth, emphasise, skip, examStyle } = profile;
+    payload.p = { id, name, depth, emphasise, skip, examStyle };
+  }
+  if (language !== Language.ENGLISH) {
+    payload.g = LANGUAGES.indexOf(language);
+    if (bilingual) payload.w = 1;
+  }
+  if (template.builtIn) {
+    if (template.id !== DEFAULT_TEMPLATE.id) payload.t = template.id;
+  } else {
+    const { builtIn: _builtIn, ...custom } = template;
+    payload.t = custom;
+  }
+  if (query) payload.q = query;
+  if (drawing) {
+    if (drawing.strokes.length) payload.s = drawing.strokes.map(encodeStroke);
+    if (!isMoleculeEmpty(drawing.molecule)) {
+      const { atoms, bonds } = drawing.molecule;
+      const indexOf = new Map(atoms.map((atom, index) => [atom.id, index]));
+      payload.a = atoms.map(atom => [Math.round(atom.x), Math.round(atom.y), atom.label, atom.charge, atom.lonePairs]);
+      payload.b = bonds.map(bond => [indexOf.get(bond.from) ?? 0, indexOf.get(bond.to) ?? 0, bond.order, BOND_STEREOS.indexOf(bond.stereo)]);
+    }
+  }
+  if (data) {
+    // Provider, template revision and repairs travel with the result; cache details describe this device's copy
+    const { meta, ...result } = data;
+    const shared = readAnalysisMeta(meta);
+    payload.r = shared ? { ...result, meta: shared } : result;
+  }
+  return payload;
+};
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = "";
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const readAll = async (stream: ReadableStream<Uint8Array>): Promise<Uint8Array<ArrayBuffer>> => {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > MAX_PAYLOAD_BYTES) {
+      await reader.cancel();
+      throw new Error("Share payload too large");
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return bytes;
+};
+
+const transform = (bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream) =>
+  readAll(new Blob([bytes]).stream().pipeThrough(stream));
+
+// "z" marks a deflated payload; browsers without CompressionStream fall back to plain JSON ("j")
+const encodePayload = async (payload: SharePayload): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  if (typeof CompressionStream === "undefined") return `j${toBase64Url(json)}`;
+  return `z${toBase64Url(await transform(json, new CompressionStream("deflate-raw")))}`;
+};
+
+const decodePayload = async (encoded: string): Promise<unknown> => {
+  const bytes = fromBase64Url(encoded.slice(1));
+  if (encoded[0] === "j") return JSON.parse(new TextDecoder().decode(bytes));
+  if (encoded[0] !== "z" || typeof DecompressionStream === "undefined") throw new Error("Unsupported share encoding");
+  return JSON.parse(new TextDecoder().decode(await transform(bytes, new DecompressionStream("deflate-raw"))));
+};
+
+const linkFor = (base: string, encoded: string) => `${base.split("#")[0]}#${SHARE_PARAM}=${encoded}`;
+
+/**
+ * Builds a link that reproduces this analysis. When the full link would be too long the drawing is simplified, then
+ * reduced to its structure, then replaced by the compound's name; only then is the result dropped, leaving the
+ * recipient's app to run the analysis again. `omitted` lists what had to go.
+ */
+export const createShareLink = async (shared: Omit<SharedAnalysis, "structureText">, base = window.location.href): Promise<ShareLink> => {
+  const { textInput, drawing, data } = shared;
+  const hasStrokes = drawing?.strokes.some(stroke => stroke.tool === "pen") ?? false;
+  const hasMolecule = drawing ? !isMoleculeEmpty(drawing.molecule) : false;
+
+  const drawings: { drawing: DrawingDocument | null; omitted: ShareOmission[] }[] = [];
+  if (drawing && (hasStrokes || hasMolecule)) {
+    drawings.push({ drawing, omitted: [] });
+    if (hasStrokes) {
+      SIMPLIFY_TOLERANCES.forEach(tolerance => drawings.push({ drawing: simplifyDrawing(drawing, tolerance), omitted: ["strokeDetail"] }));
+      if (hasMolecule) drawings.push({ drawing: { ...drawing, strokes: [] }, omitted: ["sketch"] });
+    }
+  }
+  drawings.push({ drawing: null, omitted: drawings.length ? ["drawing"] : [] });
+
+  for (const result of data ? [data, null] : [null]) {
+    for (const candidate of drawings) {
+      // Without the drawing the name is all that is left to re-run the analysis from
+      const query = textInput || (candidate.drawing ? null : data?.name ?? null);
+      if (!query && !candidate.drawing) continue;
+      const url = linkFor(base, await encodePayload(toPayload(shared, query, candidate.drawing, result)));
+      if (url.length <= MAX_SHARE_URL_LENGTH) {
+        return { url, omitted: [...(data && !result ? ["result" as const] : []), ...candidate.omitted] };
+      }
+    }
+  }
+  throw new InvalidInputError("This analysis is too large to share as a link.");
+};
+
+const readDrawing = (payload: Record<string, unknown>): DrawingDocument | null => {
+  const { s, a, b } = payload;
+  if (s === undefined && a === undefined) return null;
+  const strokes = Array.isArray(s) ? s.map(decodeStroke) : [];
+  if (strokes.some(stroke => stroke === null)) throw new Error("Malformed stroke");
+
+  const atoms: MoleculeAtom[] = (Array.isArray(a) ? a : []).map((entry, index) => {
+    if (!Array.isArray(entry) || entry.length !== 5) throw new Error("Malformed atom");
+    const [x, y, label, charge, lonePairs] = entry;
+    if (![x, y, charge, lonePairs].every(Number.isFinite) || typeof label !== "string") throw new Error("Malformed atom");
+    return { id: index + 1, x, y, label, charge, lonePairs };
+  });
+  const bonds: MoleculeBond[] = (Array.isArray(b) ? b : []).map((entry, index) => {
+    if (!Array.isArray(entry) || entry.length !== 4) throw new Error("Malformed bond");
+    const [from, to, order, stereo] = entry;
+    if (!atoms[from] || !atoms[to] || ![1, 2, 3].includes(order) || !BOND_STEREOS[stereo]) throw new Error("Malformed bond");
+    return { id: index + 1, from: from + 1, to: to + 1, order, stereo: BOND_STEREOS[stereo] };
+  });
+  const drawing = { strokes: strokes as Stroke[], molecule: { atoms, bonds } };
+  // Eraser strokes alone leave nothing to show or analyse
+  return drawing.strokes.some(stroke => stroke.tool === "pen") || !isMoleculeEmpty(drawing.molecule) ? drawing : null;
+};
+
+const readSharedTemplate = (raw: unknown): PromptTemplate => {
+  if (raw === undefined) return DEFAULT_TEMPLATE;
+  const template = typeof raw === "string" ? BUILT_IN_TEMPLATES.find(candidate => candidate.id === raw) : readTemplate(raw);
+  if (!template) throw new Error("Malformed template");
+  return template;
+};
+
+const readSharedResult = (raw: unknown): ChemicalData => {
+  const { data } = validateChemicalData(raw);
+  const meta = isRecord(raw) ? readAnalysisMeta(raw.meta) : undefined;
+  return meta ? { ...data, meta } : data;
+};
+
+/** The encoded payload of a share link's fragment, or null when the URL is not a share link */
+export const shareFragment = (hash: string): string | null => {
+  const match = hash.match(new RegExp(`^#${SHARE_PARAM}=([jz][\\w-]+)$`));
+  return match ? match[1] : null;
+};
+
+/** Reads a share link's fragment; an embedded result is validated like any model answer */
+export const readShareLink = async (encoded: string): Promise<SharedAnalysis> => {
+  try {
+    const payload = await decodePayload(encoded);
+    if (!isRecord(payload) || payload.v !== SHARE_VERSION || typeof payload.l !== "number" || !LEVELS[payload.l]) {
+      throw new Error("Unknown share payload");
+    }
+    const drawing = readDrawing(payload);
+    const textInput = typeof payload.q === "string" && payload.q.trim() ? payload.q.trim() : null;
+    if (!drawing && !textInput) throw new Error("Share payload has no input");
+    const profile = payload.p === undefined ? builtInProfile(LEVELS[payload.l]) : readProfile({ ...(payload.p as object), baseLevel: LEVELS[payload.l] });
+    if (!profile) throw new Error("Malformed profile");
+    const language = payload.g === undefined ? Language.ENGLISH : typeof payload.g === "number" ? LANGUAGES[payload.g] : undefined;
+    if (!language) throw new Error("Unknown language");
+    return {
+      profile,
+      language,
+      bilingual: language !== Language.ENGLISH && payload.w === 1,
+      template: readSharedTemplate(payload.t),
+      textInput,
+      drawing,
+      structureText: drawing && !isMoleculeEmpty(drawing.molecule) ? moleculeToText(drawing.molecule) : null,
+      data: payload.r === undefined ? null : readSharedResult(payload.r),
+    };
+  } catch (error) {
+    throw new InvalidInputError("This share link is damaged or incomplete. Ask for a new one.", error);
+  }
+};
@@ -0,0 +1,33 @@
+// Small localStorage helpers shared by the response cache and the history store
+
+export const readStoredJson = <T>(storageKey: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    return stored ? (JSON.parse(stored) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const readStoredList = <T>(storageKey: string): T[] => {
+  const list = readStoredJson<unknown>(storageKey, []);
+  return Array.isArray(list) ? (list as T[]) : [];
+};
+
+/**
+ * Saves a list ordered most-important first. On a full quota the tail is halved away until it fits;
+ * returns how many items were kept.
+ */
+export const writeStoredList = <T>(storageKey: string, items: T[]): number => {
+  for (let kept = items; ; kept = kept.slice(0, Math.floor(kept.length / 2))) {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(kept));
+      return kept.length;
+    } catch (error) {
+      if (kept.length === 0) {
+        console.warn(`Could not save ${storageKey}:`, error);
+        return 0;
+      }
+    }
+  }
+};
@@ -0,0 +1,70 @@
+import { InvalidInputError, MalformedResponseError } from "./errors";
+import { AnalysisProvider, GenerationRequest, ImagePart } from "./provider";
+import { RetryOptions, withRetry } from "./retry";
+import { ResponseValidationError } from "./validation";
+
+// Structural failures (unparseable JSON, missing identity fields) are re-asked this many times before giving up
+const MAX_REASKS = 1;
+
+export interface StructuredCallOptions {
+  signal?: AbortSignal;
+  retry?: Partial<RetryOptions>;
+  onRetry?: (attempt: number, delayMs: number, error: Error) => void;
+  /** Replaces `provider.generate`, e.g. with a streaming call */
+  generate?: (request: GenerationRequest) => Promise<string>;
+}
+
+// What the supported backends accept inline; the uploader re-encodes everything else as JPEG before it gets here
+const SENDABLE_IMAGE_TYPES = ["image/png", "image/jpeg", "image/webp", "image/heic", "image/heif"];
+
+export const toImagePart = (imageData: string): ImagePart => {
+  const header = imageData.match(/^data:([\w.+-]+\/[\w.+-]+)?(?:;[^,;]*)*;base64,/);
+  // Bare base64 without a data URL prefix keeps the old PNG default
+  if (!header) return { data: imageData, mimeType: "image/png" };
+
+  const declared = (header[1] ?? "").toLowerCase();
+  const mimeType = declared === "image/jpg" || declared === "image/pjpeg" ? "image/jpeg" : declared;
+  if (!SENDABLE_IMAGE_TYPES.includes(mimeType)) {
+    throw new InvalidInputError(`Images of type ${mimeType || "unknown"} cannot be analysed. Use a JPEG, PNG, WebP or HEIC image.`);
+  }
+  return { data: imageData.slice(header[0].length), mimeType };
+};
+
+/**
+ * Sends `request`, retrying transient failures, and hands the parsed JSON to `parse`. When `parse` throws a
+ * ResponseValidationError (or the text is not JSON) the model is asked again with the reason appended.
+ * Errors are passed through unconverted; callers map them with `toAnalysisError`.
+ */
+export const generateStructured = async <T>(
+  provider: AnalysisProvider,
+  request: GenerationRequest,
+  parse: (raw: unknown) => T,
+  { signal, retry, onRetry, generate = req => provider.generate(req) }: StructuredCallOptions = {}
+): Promise<T> => {
+  let feedback = "";
+
+  for (let attempt = 0; ; attempt++) {
+    const attemptRequest = { ...request, prompt: request.prompt + feedback, signal };
+    const responseText = await withRetry(() => generate(attemptRequest), retry, { signal, onRetry });
+
+    if (!responseText) {
+      throw new MalformedResponseError("Empty response received from AI model.");
+    }
+
+    try {
+      return parse(JSON.parse(responseText));
+    } catch (validationError) {
+      const structural = validationError instanceof SyntaxError || validationError instanceof ResponseValidationError;
+      if (!structural) throw validationError;
+
+      console.error("Response Validation Error:", validationError, responseText);
+      if (attempt >= MAX_REASKS) {
+        throw new MalformedResponseError("Data Error: Could not interpret the AI's response. Please try again.", validationError);
+      }
+      const reason = validationError instanceof ResponseValidationError
+        ? validationError.issues.join("; ")
+        : "it was not valid JSON";
+      feedback = `\n\nYour previous answer was rejected because ${reason}. Reply again with one complete JSON object that follows the schema.`;
+    }
+  }
+};
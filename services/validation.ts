@@ -0,0 +1,629 @@
+import {
+  AnalysisMeta,
+  AromaticityStatus,
+  AssertionReasonChoice,
+  AtomHybridisation,
+  ChemicalData,
+  ComparedCompound,
+  ComparisonProperty,
+  ComparisonResult,
+  CustomSection,
+  ElectronArrow,
+  ElectronicEffects,
+  FunctionalGroupEffect,
+  InductiveEffect,
+  IntermediateKind,
+  MechanismIntermediate,
+  MechanismProduct,
+  MechanismResult,
+  MechanismStep,
+  MesomericEffect,
+  ProductRole,
+  Quiz,
+  QuizQuestion,
+  QuizTopic,
+  ReactiveSite,
+  ReactiveSiteKind,
+  ResonanceContributor,
+  EducationLevel,
+  ResonanceData,
+  SelectivityRule,
+  TemplateSection,
+  WebSource,
+} from "../types";
+import { parseSmiles, SmilesParseError } from "../utils/smiles";
+
+/** The response is missing something we cannot sensibly default; callers re-ask the model on this */
+export class ResponseValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`The AI response did not match the expected structure: ${issues.join("; ")}`);
+    this.name = new.target.name;
+  }
+}
+
+/** The analysis response is not the compound card at all */
+export class ChemicalDataValidationError extends ResponseValidationError {}
+
+/** The comparison response does not cover the compounds that were asked about */
+export class ComparisonValidationError extends ResponseValidationError {}
+
+/** The mechanism response has no steps or no products to show */
+export class MechanismValidationError extends ResponseValidationError {}
+
+/** The quiz response has no question that can be asked and marked */
+export class QuizValidationError extends ResponseValidationError {}
+
+export interface ValidationResult {
+  data: ChemicalData;
+  repairedFields: string[];
+}
+
+export type JsonObject = Record<string, unknown>;
+
+export const isRecord = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Shared by the ChemicalData validator and the validators of later schema extensions:
+ * each reader returns a clean value and notes the field path whenever it had to change something.
+ */
+export class FieldReader {
+  readonly repaired: string[] = [];
+  readonly issues: string[] = [];
+
+  constructor(private readonly prefix = "") {}
+
+  /** Folds a nested reader's repairs and issues into this one */
+  absorb(child: FieldReader) {
+    child.repaired.forEach(path => this.repaired.includes(path) || this.repaired.push(path));
+    this.issues.push(...child.issues);
+  }
+
+  private path(field: string) {
+    return this.prefix ? `${this.prefix}.${field}` : field;
+  }
+
+  repair(field: string) {
+    if (!this.repaired.includes(this.path(field))) this.repaired.push(this.path(field));
+  }
+
+  /** Required string: a missing or blank value is a structural failure */
+  requiredString(source: JsonObject, field: string): string {
+    const value = this.optionalString(source, field, "");
+    if (!value) this.issues.push(`missing ${this.path(field)}`);
+    return value;
+  }
+
+  optionalString(source: JsonObject, field: string, fallback: string): string {
+    const value = source[field];
+    if (typeof value === "string") {
+      const trimmed = value.trim();
+      if (!trimmed) {
+        this.repair(field);
+        return fallback;
+      }
+      return trimmed;
+    }
+    if (typeof value === "number" || typeof value === "boolean") {
+      this.repair(field);
+      return String(value);
+    }
+    this.repair(field);
+    return fallback;
+  }
+
+  /** Non-empty strings only; a bare string is wrapped, everything else is dropped */
+  stringList(source: JsonObject, field: string): string[] {
+    const value = source[field];
+    const items = Array.isArray(value) ? value : typeof value === "string" ? [value] : [];
+    if (!Array.isArray(value)) this.repair(field);
+
+    const cleaned = items
+      .map(item => (typeof item === "string" ? item.trim() : typeof item === "number" ? String(item) : ""))
+      .filter(Boolean);
+    if (Array.isArray(value) && cleaned.length !== value.length) this.repair(field);
+    return cleaned;
+  }
+
+  /** Array of objects validated by `readItem`; items it rejects (returns null) are dropped */
+  objectList<T>(source: JsonObject, field: string, readItem: (item: JsonObject, index: number) => T | null): T[] {
+    const value = source[field];
+    if (!Array.isArray(value)) {
+      if (value !== undefined) this.repair(field);
+      return [];
+    }
+    const cleaned = value
+      .map((item, index) => (isRecord(item) ? readItem(item, index) : null))
+      .filter((item): item is T => item !== null);
+    if (cleaned.length !== value.length) this.repair(field);
+    return cleaned;
+  }
+}
+
+const readWebSource = (item: JsonObject): WebSource | null =>
+  typeof item.uri === "string" && item.uri.trim()
+    ? { uri: item.uri.trim(), title: typeof item.title === "string" && item.title.trim() ? item.title.trim() : item.uri.trim() }
+    : null;
+
+const readStoredSection = (item: JsonObject): CustomSection | null => {
+  if (typeof item.key !== "string" || typeof item.title !== "string") return null;
+  const content = Array.isArray(item.content)
+    ? item.content.filter((point): point is string => typeof point === "string")
+    : typeof item.content === "string" ? item.content : null;
+  if (content === null) return null;
+  const section: CustomSection = { key: item.key, title: item.title, content };
+  if (typeof item.after === "string" || item.after === null) section.after = item.after as CustomSection["after"];
+  return section;
+};
+
+// Shown in the result card's title block, so a custom section after them still comes before the body
+const HEADER_FIELDS = ["name", "iupacName", "molecularFormula"];
+
+/**
+ * Template-added sections. A model answer has them keyed by section under `customSections`, and `sections` (the
+ * template's) gives their titles, order and shape; a stored result already holds the list. Malformed ones are repairs.
+ */
+const readCustomSections = (raw: JsonObject, reader: FieldReader, sections?: TemplateSection[]): CustomSection[] => {
+  if (!sections) return reader.objectList(raw, "customSections", readStoredSection);
+
+  const answers = isRecord(raw.customSections) ? raw.customSections : {};
+  const sectionReader = new FieldReader("customSections");
+  let after: CustomSection["after"] = null;
+  const read = sections.flatMap(({ key, custom }): CustomSection[] => {
+    if (!custom) {
+      if (!HEADER_FIELDS.includes(key)) after = key as keyof ChemicalData;
+      return [];
+    }
+    // An empty or missing answer is allowed: a teacher's section may simply not apply to this compound
+    const answer = answers[key];
+    if (answer === undefined || answer === null) return [];
+    const content = custom.format === "list"
+      ? sectionReader.stringList(answers, key)
+      : typeof answer === "string" ? answer.trim() : sectionReader.optionalString(answers, key, "");
+    return content.length ? [{ key, title: custom.title, content, after }] : [];
+  });
+  reader.absorb(sectionReader);
+  return read;
+};
+
+/** Case- and dash-insensitive match against a closed set of values ("−i" and "-I" are the same) */
+const readEnum = <T extends string>(
+  reader: FieldReader,
+  source: JsonObject,
+  field: string,
+  allowed: readonly T[],
+  fallback: T,
+  path = field
+): T => {
+  const value = String(source[field] ?? "").trim().replace(/[\u2212\u2013]/g, "-").toLowerCase();
+  const match = allowed.find(option => option.toLowerCase() === value);
+  if (!match) reader.repair(path);
+  return match ?? fallback;
+};
+
+const INDUCTIVE_EFFECTS: InductiveEffect[] = ["+I", "-I", "none"];
+const MESOMERIC_EFFECTS: MesomericEffect[] = ["+M", "-M", "none"];
+const AROMATICITY_STATUSES: AromaticityStatus[] = ["aromatic", "antiaromatic", "non-aromatic"];
+const REACTIVE_SITE_KINDS: ReactiveSiteKind[] = ["electrophilic", "nucleophilic", "acidic", "basic", "radical"];
+
+/**
+ * Cleans the electronicEffects block. Rows without their identifying field are dropped and out-of-range enum
+ * values fall back to neutral ones; both are reported through `reader`. Returns undefined when the block is missing.
+ */
+export const readElectronicEffects = (raw: unknown, reader: FieldReader = new FieldReader("electronicEffects")): ElectronicEffects | undefined => {
+  if (!isRecord(raw)) return undefined;
+
+  const functionalGroups = reader.objectList(raw, "functionalGroups", (item): FunctionalGroupEffect | null => {
+    if (typeof item.group !== "string" || !item.group.trim()) return null;
+    return {
+      group: item.group.trim(),
+      inductive: readEnum(reader, item, "inductive", INDUCTIVE_EFFECTS, "none", "functionalGroups.inductive"),
+      mesomeric: readEnum(reader, item, "mesomeric", MESOMERIC_EFFECTS, "none", "functionalGroups.mesomeric"),
+      hyperconjugation: typeof item.hyperconjugation === "string" ? item.hyperconjugation.trim() : "",
+      note: typeof item.note === "string" ? item.note.trim() : "",
+    };
+  });
+
+  const hybridisation = reader.objectList(raw, "hybridisation", (item): AtomHybridisation | null => {
+    if (typeof item.atom !== "string" || !item.atom.trim() || typeof item.hybridisation !== "string") return null;
+    return {
+      atom: item.atom.trim(),
+      hybridisation: item.hybridisation.trim(),
+      geometry: typeof item.geometry === "string" ? item.geometry.trim() : "",
+    };
+  });
+
+  const aromaticitySource = isRecord(raw.aromaticity) ? raw.aromaticity : {};
+  if (!isRecord(raw.aromaticity)) reader.repair("aromaticity");
+  const piElectrons = Number(aromaticitySource.piElectrons);
+  if (!Number.isInteger(piElectrons) || piElectrons < 0) reader.repair("aromaticity.piElectrons");
+
+  const reactiveSites = reader.objectList(raw, "reactiveSites", (item): ReactiveSite | null => {
+    if (typeof item.site !== "string" || !item.site.trim()) return null;
+    return {
+      site: item.site.trim(),
+      kind: readEnum(reader, item, "kind", REACTIVE_SITE_KINDS, "nucleophilic", "reactiveSites.kind"),
+      note: typeof item.note === "string" ? item.note.trim() : "",
+    };
+  });
+
+  return {
+    functionalGroups,
+    hybridisation,
+    aromaticity: {
+      status: readEnum(reader, aromaticitySource, "status", AROMATICITY_STATUSES, "non-aromatic", "aromaticity.status"),
+      piElectrons: Number.isInteger(piElectrons) && piElectrons >= 0 ? piElectrons : 0,
+      explanation: typeof aromaticitySource.explanation === "string" ? aromaticitySource.explanation.trim() : "",
+    },
+    reactiveSites,
+  };
+};
+
+/** Heavy-atom count of a SMILES string, or null when the local parser cannot read it */
+const smilesAtomCount = (smiles: string): number | null => {
+  try {
+    return parseSmiles(smiles).atoms.length;
+  } catch (error) {
+    if (error instanceof SmilesParseError) return null;
+    throw error;
+  }
+};
+
+/** One or two atom indices inside the contributor; anything else cannot be drawn */
+const readArrowEnd = (value: unknown, atomCount: number): number[] | null => {
+  if (!Array.isArray(value) || value.length < 1 || value.length > 2) return null;
+  const atoms = value.map(Number);
+  return atoms.every(atom => Number.isInteger(atom) && atom >= 0 && atom < atomCount) ? atoms : null;
+};
+
+/**
+ * Cleans the resonance block. Contributors whose SMILES does not parse are dropped, as are arrows pointing at atoms
+ * the contributor does not have; both are reported through `reader`. Returns undefined when the block is missing.
+ */
+export const readResonance = (raw: unknown, reader: FieldReader = new FieldReader("resonance")): ResonanceData | undefined => {
+  if (!isRecord(raw)) return undefined;
+
+  const contributors = reader.objectList(raw, "contributors", (item): ResonanceContributor | null => {
+    if (typeof item.smiles !== "string") return null;
+    const atomCount = smilesAtomCount(item.smiles);
+    if (atomCount === null) return null;
+    return {
+      smiles: item.smiles.trim(),
+      description: typeof item.description === "string" ? item.description.trim() : "",
+      arrowPushing: typeof item.arrowPushing === "string" ? item.arrowPushing.trim() : "",
+      arrows: reader.objectList(item, "arrows", (arrow): ElectronArrow | null => {
+        const from = readArrowEnd(arrow.from, atomCount);
+        const to = readArrowEnd(arrow.to, atomCount);
+        return from && to ? { from, to } : null;
+      }),
+    };
+  });
+
+  const majorIndex = Number(raw.majorIndex);
+  const majorInRange = Number.isInteger(majorIndex) && majorIndex >= 0 && majorIndex < contributors.length;
+  if (contributors.length > 0 && !majorInRange) reader.repair("majorIndex");
+
+  return {
+    contributors,
+    majorIndex: majorInRange ? majorIndex : 0,
+    explanation: typeof raw.explanation === "string" ? raw.explanation.trim() : "",
+  };
+};
+
+/**
+ * Checks every ChemicalData field. Optional sections get safe defaults and are reported in `repairedFields`;
+ * a missing identity (name, formula, summary) throws ChemicalDataValidationError so the caller can re-ask.
+ * `sections` are the prompt template's, for a fresh model answer that may contain custom sections.
+ */
+export const validateChemicalData = (raw: unknown, sections?: TemplateSection[]): ValidationResult => {
+  if (!isRecord(raw)) {
+    throw new ChemicalDataValidationError(["response is not a JSON object"]);
+  }
+
+  const reader = new FieldReader();
+  const name = reader.requiredString(raw, "name");
+  const molecularFormula = reader.requiredString(raw, "molecularFormula");
+  const summary = reader.requiredString(raw, "summary");
+
+  if (reader.issues.length > 0) {
+    throw new ChemicalDataValidationError(reader.issues);
+  }
+
+  const data: ChemicalData = {
+    name,
+    iupacName: reader.optionalString(raw, "iupacName", name),
+    molecularFormula,
+    summary,
+    keyPoints: reader.stringList(raw, "keyPoints"),
+    reactions_or_uses: reader.stringList(raw, "reactions_or_uses"),
+    curriculumContext: reader.optionalString(raw, "curriculumContext", ""),
+    funFacts: reader.stringList(raw, "funFacts"),
+    analogy: reader.optionalString(raw, "analogy", ""),
+  };
+
+  // A structure the app cannot draw is worse than none
+  const smiles = reader.optionalString(raw, "smiles", "");
+  if (smiles && smilesAtomCount(smiles) !== null) data.smiles = smiles;
+  else if (smiles) reader.repair("smiles");
+
+  const effectsReader = new FieldReader("electronicEffects");
+  const electronicEffects = readElectronicEffects(raw.electronicEffects, effectsReader);
+  if (electronicEffects) {
+    data.electronicEffects = electronicEffects;
+    reader.absorb(effectsReader);
+  } else {
+    reader.repair("electronicEffects");
+  }
+
+  const resonanceReader = new FieldReader("resonance");
+  const resonance = readResonance(raw.resonance, resonanceReader);
+  if (resonance) {
+    data.resonance = resonance;
+    reader.absorb(resonanceReader);
+  } else {
+    reader.repair("resonance");
+  }
+
+  if (raw.webSources !== undefined) {
+    data.webSources = reader.objectList(raw, "webSources", readWebSource);
+  }
+
+  if (raw.customSections !== undefined || sections?.some(section => section.custom)) {
+    const customSections = readCustomSections(raw, reader, sections);
+    if (customSections.length) data.customSections = customSections;
+  }
+
+  return { data, repairedFields: reader.repaired };
+};
+
+/**
+ * Where a stored or shared answer came from: provider, template revision and repairs. Whether it was a cache hit
+ * describes one device's copy, so that is left out.
+ */
+export const readAnalysisMeta = (raw: unknown): AnalysisMeta | undefined => {
+  if (!isRecord(raw)) return undefined;
+  const meta: AnalysisMeta = {};
+  if (typeof raw.provider === "string") meta.provider = raw.provider;
+  if (Array.isArray(raw.repairedFields)) {
+    meta.repairedFields = raw.repairedFields.filter((field): field is string => typeof field === "string");
+  }
+  if (raw.offline === true) meta.offline = true;
+  if (typeof raw.templateVersion === "string") meta.templateVersion = raw.templateVersion;
+  return Object.keys(meta).length ? meta : undefined;
+};
+
+export interface ComparisonValidationResult {
+  data: ComparisonResult;
+  repairedFields: string[];
+}
+
+/**
+ * Checks a comparison against the labels that were submitted. Every compound must come back with a name;
+ * ranks are renumbered 1..n in the model's order so ties and gaps cannot reach the table.
+ */
+export const validateComparisonResult = (raw: unknown, property: ComparisonProperty, labels: string[]): ComparisonValidationResult => {
+  if (!isRecord(raw)) {
+    throw new ComparisonValidationError(["response is not a JSON object"]);
+  }
+
+  const reader = new FieldReader();
+  const compounds = reader.objectList(raw, "compounds", (item, index) => {
+    const itemReader = new FieldReader(`compounds[${index}]`);
+    const label = itemReader.requiredString(item, "label").toUpperCase();
+    const name = itemReader.requiredString(item, "name");
+    if (itemReader.issues.length > 0 || !labels.includes(label)) return null;
+
+    const rank = Number(item.rank);
+    if (!Number.isFinite(rank)) itemReader.repair("rank");
+    const row: ComparedCompound = {
+      label,
+      name,
+      rank: Number.isFinite(rank) ? rank : Infinity,
+      inductive: itemReader.optionalString(item, "inductive", "Not discussed"),
+      resonance: itemReader.optionalString(item, "resonance", "Not discussed"),
+      hyperconjugation: itemReader.optionalString(item, "hyperconjugation", "Not applicable"),
+      steric: itemReader.optionalString(item, "steric", "Not significant"),
+      reasoning: itemReader.optionalString(item, "reasoning", ""),
+    };
+    reader.absorb(itemReader);
+    return row;
+  });
+
+  const missing = labels.filter(label => !compounds.some(row => row.label === label));
+  if (missing.length > 0) {
+    throw new ComparisonValidationError([`missing compound${missing.length > 1 ? "s" : ""} ${missing.join(", ")}`]);
+  }
+
+  // Stable sort keeps the model's order for ties; duplicates of a label keep only the first row
+  const ranked = compounds
+    .filter((row, index) => compounds.findIndex(other => other.label === row.label) === index)
+    .sort((a, b) => a.rank - b.rank)
+    .map((row, index) => ({ ...row, rank: index + 1 }));
+  const originalRanks = compounds.map(row => row.rank).sort((a, b) => a - b);
+  if (ranked.length !== compounds.length || originalRanks.some((rank, index) => rank !== index + 1)) {
+    reader.repair("compounds.rank");
+  }
+
+  const data: ComparisonResult = {
+    property,
+    compounds: ranked,
+    order: reader.optionalString(raw, "order", ranked.map(row => row.name).join(" > ")),
+    explanation: reader.optionalString(raw, "explanation", ""),
+    examTip: reader.optionalString(raw, "examTip", ""),
+  };
+
+  return { data, repairedFields: reader.repaired };
+};
+
+const INTERMEDIATE_KINDS: (IntermediateKind | "none")[] = ["carbocation", "carbanion", "radical", "other", "none"];
+const PRODUCT_ROLES: ProductRole[] = ["major", "minor"];
+const SELECTIVITY_RULES: SelectivityRule[] = ["Saytzeff", "Hofmann", "Markovnikov", "Anti-Markovnikov", "none"];
+
+/** A SMILES the app can draw, or undefined; anything else is reported at `path` */
+const readDrawableSmiles = (reader: FieldReader, source: JsonObject, path: string): string | undefined => {
+  const smiles = typeof source.smiles === "string" ? source.smiles.trim() : "";
+  if (smiles && smilesAtomCount(smiles) !== null) return smiles;
+  if (smiles) reader.repair(path);
+  return undefined;
+};
+
+const readIntermediate = (raw: unknown, reader: FieldReader): MechanismIntermediate | undefined => {
+  if (!isRecord(raw)) return undefined;
+  const kind = readEnum(reader, raw, "kind", INTERMEDIATE_KINDS, "none", "intermediate.kind");
+  if (kind === "none") return undefined;
+  const intermediate: MechanismIntermediate = {
+    kind,
+    name: typeof raw.name === "string" && raw.name.trim() ? raw.name.trim() : kind,
+    stability: typeof raw.stability === "string" ? raw.stability.trim() : "",
+  };
+  const smiles = readDrawableSmiles(reader, raw, "intermediate.smiles");
+  if (smiles) intermediate.smiles = smiles;
+  return intermediate;
+};
+
+export interface MechanismValidationResult {
+  data: MechanismResult;
+  repairedFields: string[];
+}
+
+/**
+ * Checks a mechanism. Steps need a title or description and products need a name, otherwise they are dropped;
+ * a mechanism left with no steps or no products throws MechanismValidationError. Structures that do not parse are
+ * removed, arrows are dropped unless they point at atoms of their step's SMILES, and exactly one product ends up major.
+ */
+export const validateMechanismResult = (raw: unknown): MechanismValidationResult => {
+  if (!isRecord(raw)) {
+    throw new MechanismValidationError(["response is not a JSON object"]);
+  }
+
+  const reader = new FieldReader();
+  const stepReader = new FieldReader("steps");
+  const steps = reader.objectList(raw, "steps", (item): MechanismStep | null => {
+    const title = typeof item.title === "string" ? item.title.trim() : "";
+    const description = typeof item.description === "string" ? item.description.trim() : "";
+    if (!title && !description) return null;
+
+    const smiles = readDrawableSmiles(stepReader, item, "smiles");
+    const atomCount = smiles ? smilesAtomCount(smiles)! : 0;
+    const step: MechanismStep = {
+      title: title || description,
+      description,
+      arrowDescriptions: stepReader.stringList(item, "arrowDescriptions"),
+      arrows: stepReader.objectList(item, "arrows", (arrow): ElectronArrow | null => {
+        const from = readArrowEnd(arrow.from, atomCount);
+        const to = readArrowEnd(arrow.to, atomCount);
+        return from && to ? { from, to } : null;
+      }),
+    };
+    if (smiles) step.smiles = smiles;
+    const intermediate = readIntermediate(item.intermediate, stepReader);
+    if (intermediate) step.intermediate = intermediate;
+    return step;
+  });
+  reader.absorb(stepReader);
+
+  const productReader = new FieldReader("products");
+  const products = reader.objectList(raw, "products", (item): MechanismProduct | null => {
+    if (typeof item.name !== "string" || !item.name.trim()) return null;
+    const product: MechanismProduct = {
+      name: item.name.trim(),
+      role: readEnum(productReader, item, "role", PRODUCT_ROLES, "minor"),
+      reason: typeof item.reason === "string" ? item.reason.trim() : "",
+    };
+    const smiles = readDrawableSmiles(productReader, item, "smiles");
+    if (smiles) product.smiles = smiles;
+    return product;
+  });
+
+  const issues = [...(steps.length === 0 ? ["no mechanism steps"] : []), ...(products.length === 0 ? ["no products"] : [])];
+  if (issues.length > 0) {
+    throw new MechanismValidationError(issues);
+  }
+
+  // The first product marked major wins; with none marked, the first product listed is taken as major
+  const majorIndex = Math.max(0, products.findIndex(product => product.role === "major"));
+  if (products.some((product, index) => (product.role === "major") !== (index === majorIndex))) {
+    productReader.repair("role");
+  }
+  reader.absorb(productReader);
+  const rankedProducts = products.map((product, index): MechanismProduct => ({ ...product, role: index === majorIndex ? "major" : "minor" }));
+
+  const rateDeterminingStep = Number(raw.rateDeterminingStep);
+  const rdsInRange = Number.isInteger(rateDeterminingStep) && rateDeterminingStep >= 0 && rateDeterminingStep < steps.length;
+  if (!rdsInRange) reader.repair("rateDeterminingStep");
+
+  const data: MechanismResult = {
+    reaction: reader.optionalString(raw, "reaction", ""),
+    mechanismType: reader.optionalString(raw, "mechanismType", ""),
+    steps,
+    rateDeterminingStep: rdsInRange ? rateDeterminingStep : 0,
+    rateLaw: reader.optionalString(raw, "rateLaw", ""),
+    stereochemistry: reader.optionalString(raw, "stereochemistry", ""),
+    products: rankedProducts,
+    selectivityRule: readEnum(reader, raw, "selectivityRule", SELECTIVITY_RULES, "none"),
+    examTip: reader.optionalString(raw, "examTip", ""),
+  };
+
+  return { data, repairedFields: reader.repaired };
+};
+
+const QUIZ_TOPICS = Object.values(QuizTopic);
+const ASSERTION_REASON_CHOICES = Object.values(AssertionReasonChoice);
+
+const trimmedString = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+/** Reads one question of any type; a question without a usable answer key is dropped rather than guessed */
+const readQuizQuestion = (item: JsonObject, reader: FieldReader): QuizQuestion | null => {
+  const topic = readEnum(reader, item, "topic", QUIZ_TOPICS, QuizTopic.PROPERTIES);
+  const explanation = trimmedString(item.explanation);
+  if (!explanation) reader.repair("explanation");
+
+  switch (item.type) {
+    case "mcq": {
+      const question = trimmedString(item.question);
+      const options = Array.isArray(item.options) ? item.options.map(trimmedString) : [];
+      const answerIndex = Number(item.answerIndex);
+      const usable = options.length >= 2 && options.every(Boolean) && Number.isInteger(answerIndex) && answerIndex >= 0 && answerIndex < options.length;
+      return question && usable ? { type: "mcq", topic, explanation, question, options, answerIndex } : null;
+    }
+    case "assertion-reason": {
+      const assertion = trimmedString(item.assertion);
+      const reason = trimmedString(item.reason);
+      const answer = ASSERTION_REASON_CHOICES.find(choice => choice.toLowerCase() === trimmedString(item.choice).toLowerCase());
+      return assertion && reason && answer ? { type: "assertion-reason", topic, explanation, assertion, reason, answer } : null;
+    }
+    case "integer": {
+      const question = trimmedString(item.question);
+      const answer = Number(item.integerAnswer);
+      return question && Number.isInteger(answer) ? { type: "integer", topic, explanation, question, answer } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+export interface QuizValidationResult {
+  data: Quiz;
+  repairedFields: string[];
+}
+
+/**
+ * Checks a quiz. Questions of an unknown type, or without a question text or a valid answer key, are dropped;
+ * unknown topics fall back to a general one. A quiz left with no questions throws QuizValidationError.
+ */
+export const validateQuiz = (raw: unknown, compoundName: string, level: EducationLevel): QuizValidationResult => {
+  if (!isRecord(raw)) {
+    throw new QuizValidationError(["response is not a JSON object"]);
+  }
+
+  const reader = new FieldReader();
+  const questionReader = new FieldReader("questions");
+  const questions = reader.objectList(raw, "questions", item => readQuizQuestion(item, questionReader));
+  reader.absorb(questionReader);
+
+  if (questions.length === 0) {
+    throw new QuizValidationError(["no usable questions"]);
+  }
+
+  return { data: { compoundName, level, questions }, repairedFields: reader.repaired };
+};
@@ -0,0 +1,91 @@
+// jsdom has no canvas implementation, so getContext('2d') returns a context that records what was painted instead.
+// toDataURL encodes that record, which lets a test read back exactly what a captured image contains. Nor does jsdom
+// load images, so data URL images report `load` straight away, as a browser decoding inline data would.
+
+/** One call on a shimmed 2D context, with the stroke settings in effect when it was made */
+export interface CanvasCall {
+  method: string;
+  args: unknown[];
+  strokeStyle: string;
+  lineWidth: number;
+}
+
+const logs = new WeakMap<HTMLCanvasElement, CanvasCall[]>();
+const contexts = new WeakMap<HTMLCanvasElement, CanvasRenderingContext2D>();
+
+// Answers for the few methods whose return value the app reads
+const RETURNS: Record<string, (...args: any[]) => unknown> = {
+  measureText: (text: string) => ({ width: text.length * 7, actualBoundingBoxAscent: 9, actualBoundingBoxDescent: 3 }),
+  getImageData: (_x: number, _y: number, width: number, height: number) =>
+    ({ width, height, data: new Uint8ClampedArray(width * height * 4) }),
+  createLinearGradient: () => ({ addColorStop: () => {} }),
+  createRadialGradient: () => ({ addColorStop: () => {} }),
+  isPointInPath: () => false,
+  getLineDash: () => [],
+};
+
+const createContext = (canvas: HTMLCanvasElement): CanvasRenderingContext2D => {
+  const log: CanvasCall[] = [];
+  logs.set(canvas, log);
+  const state: Record<string, unknown> = {
+    canvas,
+    fillStyle: '#000000',
+    strokeStyle: '#000000',
+    lineWidth: 1,
+    lineCap: 'butt',
+    lineJoin: 'miter',
+    font: '10px sans-serif',
+    textAlign: 'start',
+    textBaseline: 'alphabetic',
+    globalAlpha: 1,
+  };
+
+  return new Proxy(state, {
+    get(target, prop) {
+      if (typeof prop === 'symbol') return undefined;
+      if (prop in target) return target[prop];
+      return (...args: unknown[]) => {
+        log.push({ method: prop, args, strokeStyle: String(target.strokeStyle), lineWidth: Number(target.lineWidth) });
+        return RETURNS[prop]?.(...args);
+      };
+    },
+    set(target, prop, value) {
+      target[String(prop)] = value;
+      return true;
+    },
+  }) as unknown as CanvasRenderingContext2D;
+};
+
+export const installCanvasShim = () => {
+  Object.defineProperty(HTMLCanvasElement.prototype, 'getContext', {
+    configurable: true,
+    value(this: HTMLCanvasElement, kind: string) {
+      if (kind !== '2d') return null;
+      if (!contexts.has(this)) contexts.set(this, createContext(this));
+      return contexts.get(this);
+    },
+  });
+  Object.defineProperty(HTMLCanvasElement.prototype, 'toDataURL', {
+    configurable: true,
+    value(this: HTMLCanvasElement, type = 'image/png') {
+      const painted = JSON.stringify({ width: this.width, height: this.height, calls: logs.get(this) ?? [] });
+      return `data:${type};base64,${Buffer.from(painted).toString('base64')}`;
+    },
+  });
+
+  const src = Object.getOwnPropertyDescriptor(HTMLImageElement.prototype, 'src')!;
+  Object.defineProperty(HTMLImageElement.prototype, 'src', {
+    ...src,
+    set(this: HTMLImageElement, value: string) {
+      src.set!.call(this, value);
+      queueMicrotask(() => this.dispatchEvent(new Event(value.startsWith('data:image/') ? 'load' : 'error')));
+    },
+  });
+};
+
+/** Everything painted on a canvas so far */
+export const paintedCalls = (canvas: HTMLCanvasElement): CanvasCall[] => logs.get(canvas) ?? [];
+
+/** Reads back the size and paint calls of an image produced by the shimmed toDataURL */
+export const readCapture = (dataUrl: string): { width: number; height: number; calls: CanvasCall[] } =>
+  JSON.parse(Buffer.from(dataUrl.slice(dataUrl.indexOf(',') + 1), 'base64').toString('utf8'));
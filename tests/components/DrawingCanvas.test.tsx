@@ -0,0 +1,114 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import DrawingCanvas from '../../components/DrawingCanvas';
+import { Language } from '../../types';
+import { BACKGROUND_COLOR, PEN_COLOR } from '../../utils/drawing';
+import { translator } from '../../utils/i18n';
+import { paintedCalls, readCapture } from '../canvasShim';
+
+const t = translator(Language.ENGLISH);
+
+const setup = () => {
+  const onCapture = vi.fn();
+  const { container } = render(<DrawingCanvas onCapture={onCapture} isProcessing={false} t={t} />);
+  const canvas = container.querySelector('canvas')!;
+  const identify = screen.getByRole('button', { name: t('identify') });
+
+  // jsdom lays nothing out, so client coordinates are canvas coordinates
+  const drag = (...points: [number, number][]) => {
+    const [[x, y], ...rest] = points;
+    fireEvent.mouseDown(canvas, { clientX: x, clientY: y });
+    rest.forEach(([clientX, clientY]) => fireEvent.mouseMove(canvas, { clientX, clientY }));
+    const [endX, endY] = points[points.length - 1];
+    fireEvent.mouseUp(canvas, { clientX: endX, clientY: endY });
+  };
+  const pick = (title: string) => fireEvent.click(screen.getByTitle(title));
+
+  return { onCapture, canvas, identify, drag, pick };
+};
+
+describe('DrawingCanvas', () => {
+  it('keeps Identify disabled until something is drawn', () => {
+    const { onCapture, identify } = setup();
+
+    expect(identify).toBeDisabled();
+    fireEvent.click(identify);
+    expect(onCapture).not.toHaveBeenCalled();
+  });
+
+  it('paints pen strokes live in the pen colour', () => {
+    const { canvas, drag } = setup();
+    drag([10, 10], [50, 60]);
+
+    const segment = paintedCalls(canvas).filter(call => call.method === 'stroke').at(-1);
+    expect(segment).toMatchObject({ strokeStyle: PEN_COLOR, lineWidth: 3 });
+  });
+
+  it('captures a drawing as a JPEG cropped to the strokes', () => {
+    const { onCapture, identify, drag } = setup();
+    drag([10, 10], [50, 60], [80, 60]);
+
+    expect(identify).toBeEnabled();
+    fireEvent.click(identify);
+
+    expect(onCapture).toHaveBeenCalledTimes(1);
+    const [dataUrl, structureText, drawing] = onCapture.mock.calls[0];
+    expect(dataUrl).toMatch(/^data:image\/jpeg;base64,/);
+    expect(structureText).toBeNull();
+    expect(drawing.strokes).toHaveLength(1);
+    expect(drawing.strokes[0]).toMatchObject({ tool: 'pen', points: [{ x: 10, y: 10 }, { x: 50, y: 60 }, { x: 80, y: 60 }] });
+
+    // 40px of padding around the 70×50 box the stroke covers
+    const image = readCapture(dataUrl);
+    expect(image).toMatchObject({ width: 150, height: 130 });
+    expect(image.calls).toContainEqual(expect.objectContaining({ method: 'stroke', strokeStyle: PEN_COLOR }));
+  });
+
+  it('does not count eraser strokes as a drawing', () => {
+    const { identify, drag, pick } = setup();
+    pick(t('eraser'));
+    drag([20, 20], [60, 20]);
+
+    expect(identify).toBeDisabled();
+  });
+
+  it('paints eraser strokes over the pen in the capture', () => {
+    const { onCapture, identify, drag, pick } = setup();
+    drag([10, 10], [90, 10]);
+    pick(t('eraser'));
+    drag([50, 0], [50, 20]);
+    fireEvent.click(identify);
+
+    const [dataUrl, , drawing] = onCapture.mock.calls[0];
+    expect(drawing.strokes.map((stroke: { tool: string }) => stroke.tool)).toEqual(['pen', 'eraser']);
+    const strokes = readCapture(dataUrl).calls.filter(call => call.method === 'stroke');
+    expect(strokes.map(call => [call.strokeStyle, call.lineWidth])).toEqual([[PEN_COLOR, 3], [BACKGROUND_COLOR, 20]]);
+  });
+
+  it('clears the drawing as an edit that can be undone', () => {
+    const { onCapture, identify, drag, pick } = setup();
+    drag([10, 10], [50, 50]);
+    pick(t('clearAll'));
+
+    expect(identify).toBeDisabled();
+
+    pick(t('undo'));
+    expect(identify).toBeEnabled();
+    fireEvent.click(identify);
+    expect(onCapture.mock.calls[0][2].strokes).toHaveLength(1);
+  });
+
+  it('sends the connection table of a structure drawn with the bond tool', () => {
+    const { onCapture, identify, drag, pick } = setup();
+    pick(t('bondTool'));
+    drag([30, 30], [90, 30]);
+    fireEvent.click(identify);
+
+    const [dataUrl, structureText, drawing] = onCapture.mock.calls[0];
+    expect(dataUrl).toMatch(/^data:image\/jpeg;base64,/);
+    expect(drawing.molecule.bonds).toHaveLength(1);
+    expect(structureText).toContain('SMILES: CC');
+    expect(structureText).toContain('a1-a2 single');
+  });
+});
@@ -0,0 +1,161 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import ResultCard from '../../components/ResultCard';
+import { ChemicalData, EducationLevel, Language } from '../../types';
+import { builtInProfile } from '../../services/curriculum';
+import { BUILT_IN_TEMPLATES } from '../../services/promptTemplate';
+import { validateChemicalData } from '../../services/validation';
+import { translator } from '../../utils/i18n';
+import recording from '../fixtures/gemini/benzene-exam-revision.json';
+
+const t = translator(Language.ENGLISH);
+const profile = builtInProfile(EducationLevel.COMPETITIVE);
+const SKETCH = 'data:image/jpeg;base64,c2tldGNo';
+
+// Every optional section filled in, read the way the service reads a live answer
+const examRevision = BUILT_IN_TEMPLATES.find(template => template.id === 'exam-revision')!;
+const { data: complete } = validateChemicalData(JSON.parse(recording.candidates[0].content.parts[0].text), examRevision.sections);
+
+const OPTIONAL_FIELDS = ['smiles', 'electronicEffects', 'resonance', 'customSections'] as const;
+const OPTIONAL_PARTS = [...OPTIONAL_FIELDS, 'sketch'] as const;
+
+type Part = typeof OPTIONAL_PARTS[number];
+
+// All 32 subsets of the optional parts, from none to all
+const COMBINATIONS: Part[][] = Array.from({ length: 2 ** OPTIONAL_PARTS.length }, (_, mask) =>
+  OPTIONAL_PARTS.filter((_, bit) => mask & (1 << bit))
+);
+
+const withOnly = (parts: Part[]): ChemicalData => {
+  const data: ChemicalData = { ...complete };
+  OPTIONAL_FIELDS.filter(field => !parts.includes(field)).forEach(field => delete data[field]);
+  return data;
+};
+
+// Icon outlines change with lucide releases and diagram geometry is MoleculeDiagram's; the card only decides where
+// they go, so the snapshots keep the elements and drop what is drawn inside them
+const cardOutline = (node: ChildNode | null) => {
+  const copy = node!.cloneNode(true) as Element;
+  copy.querySelectorAll('svg.lucide, svg[role="img"]').forEach(drawing => drawing.replaceChildren());
+  return copy;
+};
+
+const follows = (later: HTMLElement, earlier: HTMLElement) =>
+  !!(earlier.compareDocumentPosition(later) & Node.DOCUMENT_POSITION_FOLLOWING);
+const heading = (name: string) => screen.getByRole('heading', { name });
+const shown = (role: string, name: string) => screen.queryByRole(role, { name }) !== null;
+
+const renderCard = (data: ChemicalData, props: Partial<React.ComponentProps<typeof ResultCard>> = {}) =>
+  render(<ResultCard data={data} profile={profile} t={t} {...props} />);
+
+describe('ResultCard', () => {
+  it('has every optional section in the recorded answer', () => {
+    OPTIONAL_FIELDS.forEach(field => expect(complete[field]).toBeTruthy());
+  });
+
+  it.each(COMBINATIONS.map(parts => [parts.join(' + ') || 'no optional sections', parts] as const))('renders %s', (_, parts) => {
+    const { container } = renderCard(withOnly(parts), { sketch: parts.includes('sketch') ? SKETCH : null });
+    const has = (part: Part) => parts.includes(part);
+    expect(cardOutline(container.firstChild)).toMatchSnapshot();
+
+    // The standard sections are there whatever else is
+    [complete.name, t('summary'), t('keyPoints'), t('reactions'), t('curriculumContext'), t('funFacts')].forEach(name =>
+      expect(heading(name)).toBeInTheDocument()
+    );
+    expect(shown('img', t('structureOf', { name: complete.name }))).toBe(has('smiles'));
+    expect(shown('img', t('yourSketch'))).toBe(has('sketch'));
+    expect(shown('checkbox', t('includeDrawing'))).toBe(has('sketch'));
+    expect(shown('heading', t('electronicEffects'))).toBe(has('electronicEffects'));
+    expect(shown('heading', t('resonanceStructures'))).toBe(has('resonance'));
+    complete.customSections!.forEach(section => expect(shown('heading', section.title)).toBe(has('customSections')));
+  });
+
+  it('shows what each standard section says', () => {
+    renderCard(complete);
+
+    expect(screen.getByText(complete.summary)).toBeInTheDocument();
+    expect(screen.getByText(`"${complete.analogy}"`)).toBeInTheDocument();
+    expect(screen.getByText(`"${complete.curriculumContext}"`)).toBeInTheDocument();
+    [...complete.keyPoints, ...complete.reactions_or_uses, ...complete.funFacts].forEach(item =>
+      expect(screen.getByText(item)).toBeInTheDocument()
+    );
+    expect(screen.getByText(`${t('iupac')}: ${complete.iupacName}`)).toBeInTheDocument();
+    expect(heading(t('formulaCheck'))).toBeInTheDocument();
+  });
+
+  it('shows the electronic effects and the first resonance contributor', () => {
+    renderCard(complete);
+    const { electronicEffects, resonance } = complete;
+
+    expect(screen.getByText(electronicEffects!.aromaticity.explanation)).toBeInTheDocument();
+    expect(screen.getByText(electronicEffects!.reactiveSites[0].site)).toBeInTheDocument();
+    expect(screen.getByText(t('structureIndex', { index: 1, count: resonance!.contributors.length }))).toBeInTheDocument();
+    expect(screen.getByText(t('majorContributor'))).toBeInTheDocument();
+    expect(screen.getByText(resonance!.explanation)).toBeInTheDocument();
+  });
+
+  it('renders a list section as points and a text section as a paragraph', () => {
+    renderCard(complete);
+    const [list, text] = complete.customSections!;
+
+    (list.content as string[]).forEach(point => expect(screen.getByText(point).closest('li')).not.toBeNull());
+    expect(screen.getByText(text.content as string).tagName).toBe('P');
+  });
+
+  it('places template sections where the template put them', () => {
+    renderCard(complete);
+
+    // The exam revision template asks for them straight after the reactions
+    expect(follows(heading('Common mistakes'), heading(t('reactions')))).toBe(true);
+    expect(follows(heading(t('electronicEffects')), heading('NCERT reference'))).toBe(true);
+  });
+
+  it('lays out the standard sections in the template order', () => {
+    renderCard(complete, { sectionOrder: examRevision.sections.map(section => section.key) });
+
+    // Exam revision asks for the curriculum context straight after the summary, and the analogy near the end
+    expect(follows(heading(t('curriculumContext')), heading(t('summary')))).toBe(true);
+    expect(follows(heading(t('keyPoints')), heading(t('curriculumContext')))).toBe(true);
+    expect(follows(heading('Common mistakes'), heading(t('reactions')))).toBe(true);
+    expect(follows(heading(t('analogy')), heading(t('resonanceStructures')))).toBe(true);
+  });
+
+  it('shows template sections from before their place was recorded after the curriculum context', () => {
+    const customSections = complete.customSections!.map(({ after, ...section }) => section);
+    renderCard({ ...complete, customSections });
+    expect(follows(heading('Common mistakes'), heading(t('curriculumContext')))).toBe(true);
+    expect(follows(heading(t('funFacts')), heading('NCERT reference'))).toBe(true);
+  });
+
+  it('marks a cached answer and offers a fresh one', () => {
+    const onRefresh = vi.fn();
+    renderCard({ ...complete, meta: { provider: 'gemini', repairedFields: [], cached: true } }, { onRefresh });
+
+    expect(screen.getByText(t('cached'))).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: t('getFresh') }));
+    expect(onRefresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('marks an answer from the offline library', () => {
+    renderCard({ ...complete, meta: { provider: 'local', repairedFields: [], offline: true } });
+    expect(screen.getByText(t('offlineLibrary'))).toBeInTheDocument();
+  });
+
+  it('warns about fields the validator had to repair', () => {
+    renderCard({ ...complete, meta: { provider: 'gemini', repairedFields: ['keyPoints', 'analogy'] } });
+    expect(screen.getByText(t('partiallyVerified'))).toBeInTheDocument();
+    expect(screen.getByText('keyPoints, analogy')).toBeInTheDocument();
+  });
+
+  it('names the prompt template version the answer came from', () => {
+    renderCard({ ...complete, meta: { provider: 'gemini', repairedFields: [], templateVersion: 'exam-revision@1' } });
+    expect(screen.getByText(t('promptTemplate', { version: 'exam-revision@1' }))).toBeInTheDocument();
+  });
+
+  it('shows skeletons for sections that are still streaming', () => {
+    const { container } = renderCard({ ...complete, summary: '', keyPoints: [] }, { pendingFields: ['summary', 'keyPoints'] });
+    expect(container.querySelectorAll('.animate-pulse').length).toBeGreaterThan(0);
+    expect(screen.queryByRole('button', { name: t('downloadPdf') })).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,109 @@
+// Stands in for GoogleGenAI by replaying responses recorded in tests/fixtures/gemini, so the Gemini provider runs
+// unchanged without a network or an API key. Install it in a test file with:
+//
+//   vi.mock('@google/genai', async importOriginal => ({
+//     ...await importOriginal<typeof import('@google/genai')>(),
+//     GoogleGenAI: (await import('../fakeGenAI')).FakeGoogleGenAI,
+//   }));
+import type { GenerateContentParameters, GenerateContentResponse as SdkResponse } from '@google/genai';
+import { vi } from 'vitest';
+import benzene from './fixtures/gemini/benzene.json';
+import benzeneExamRevision from './fixtures/gemini/benzene-exam-revision.json';
+import forbidden from './fixtures/gemini/forbidden.json';
+import malformed from './fixtures/gemini/malformed.json';
+import rateLimited from './fixtures/gemini/rate-limited.json';
+import safetyFinishReason from './fixtures/gemini/safety-finish-reason.json';
+import safetyPromptBlocked from './fixtures/gemini/safety-prompt-blocked.json';
+import unauthorised from './fixtures/gemini/unauthorised.json';
+import unrecognised from './fixtures/gemini/unrecognised.json';
+
+/** A response body as the API returned it, or the HTTP error the SDK raised instead */
+type Recording = Record<string, unknown> | { error: { status: number; message: string } };
+
+const FIXTURES = {
+  benzene,
+  benzeneExamRevision,
+  forbidden,
+  malformed,
+  rateLimited,
+  safetyFinishReason,
+  safetyPromptBlocked,
+  unauthorised,
+  unrecognised,
+} satisfies Record<string, Recording>;
+
+export type FixtureName = keyof typeof FIXTURES;
+
+// The real classes, not the mocked module this file is installed into
+const { ApiError, GenerateContentResponse } = await vi.importActual<typeof import('@google/genai')>('@google/genai');
+
+// Streamed answers arrive in pieces this long, enough to split the JSON mid-field
+const STREAM_CHUNK_LENGTH = 120;
+
+let queue: (FixtureName | Error)[] = [];
+
+/** Parameters of every generateContent / generateContentStream call, in order */
+export const requests: GenerateContentParameters[] = [];
+
+/** Queues the replies for the next calls, one per call; an Error is thrown as-is, e.g. a dropped connection */
+export const replay = (...replies: (FixtureName | Error)[]) => {
+  queue.push(...replies);
+};
+
+export const resetFakeGenAI = () => {
+  queue = [];
+  requests.length = 0;
+};
+
+/** The prompt text sent with a recorded request */
+export const promptOf = (params: GenerateContentParameters): string => {
+  const contents = params.contents as { parts: { text?: string }[] };
+  return contents.parts.map(part => part.text ?? '').join('');
+};
+
+const toResponse = (body: Record<string, unknown>) => Object.assign(new GenerateContentResponse(), body);
+
+const nextRecording = (params: GenerateContentParameters): Record<string, unknown> => {
+  requests.push(params);
+  const reply = queue.shift();
+  if (reply === undefined) throw new Error('FakeGoogleGenAI: no recorded response left for this call');
+  if (reply instanceof Error) throw reply;
+
+  const recording: Recording = FIXTURES[reply];
+  if ('error' in recording) throw new ApiError(recording.error as { status: number; message: string });
+  // Copied so a test can never change a fixture another test replays
+  return structuredClone(recording);
+};
+
+/** Splits a recorded answer into chunks like the streaming endpoint; the last chunk carries the finish reason */
+const toChunks = (body: Record<string, unknown>): SdkResponse[] => {
+  const response = toResponse(body);
+  const text = response.text ?? '';
+  const [candidate] = response.candidates ?? [];
+  if (!text || !candidate) return [response];
+
+  const pieces: string[] = [];
+  for (let start = 0; start < text.length; start += STREAM_CHUNK_LENGTH) pieces.push(text.slice(start, start + STREAM_CHUNK_LENGTH));
+  return pieces.map((piece, index) => toResponse({
+    ...body,
+    candidates: [{
+      ...candidate,
+      content: { role: 'model', parts: [{ text: piece }] },
+      finishReason: index === pieces.length - 1 ? candidate.finishReason : undefined,
+    }],
+  }));
+};
+
+export class FakeGoogleGenAI {
+  readonly models = {
+    generateContent: async (params: GenerateContentParameters) => toResponse(nextRecording(params)),
+    generateContentStream: async (params: GenerateContentParameters) => {
+      const chunks = toChunks(nextRecording(params));
+      return (async function* () {
+        yield* chunks;
+      })();
+    },
+  };
+
+  constructor(readonly options: { apiKey?: string }) {}
+}
@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EducationLevel } from '../../types';
+import { analyzeChemicalStructure, AnalyzeOptions } from '../../services/analysis';
+import { builtInProfile } from '../../services/curriculum';
+import { AuthError, MalformedResponseError, NetworkError, RateLimitError, SafetyBlockError, UnrecognisedStructureError } from '../../services/errors';
+import { createGeminiProvider } from '../../services/gemini';
+import { BUILT_IN_TEMPLATES } from '../../services/promptTemplate';
+import { setAnalysisProvider } from '../../services/provider';
+import { FixtureName, promptOf, replay, requests, resetFakeGenAI } from '../fakeGenAI';
+
+vi.mock('@google/genai', async importOriginal => ({
+  ...await importOriginal<typeof import('@google/genai')>(),
+  GoogleGenAI: (await import('../fakeGenAI')).FakeGoogleGenAI,
+}));
+
+const profile = builtInProfile(EducationLevel.COMPETITIVE);
+// Transient failures are retried without waiting; tests that need the real delay use fake timers
+const NO_WAIT: AnalyzeOptions = { retry: { retries: 2, baseDelayMs: 0, maxDelayMs: 0 } };
+
+const analyse = (textInput: string, options: AnalyzeOptions = {}) =>
+  analyzeChemicalStructure(null, textInput, profile, { ...NO_WAIT, ...options });
+
+beforeEach(() => {
+  resetFakeGenAI();
+  setAnalysisProvider(createGeminiProvider({ apiKey: 'test-key' }));
+  // Failures are logged by the service; keep the test output readable
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setAnalysisProvider(null);
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe('analyzeChemicalStructure with Gemini', () => {
+  it('returns the validated answer and tags it with the provider and template', async () => {
+    replay('benzene');
+    const result = await analyse('benzene');
+
+    expect(result.name).toBe('Benzene');
+    expect(result.molecularFormula).toBe('C6H6');
+    expect(result.meta).toEqual({ provider: 'gemini', repairedFields: [], templateVersion: 'standard@1' });
+    expect(requests).toHaveLength(1);
+    expect(requests[0].config?.responseMimeType).toBe('application/json');
+    expect(promptOf(requests[0])).toContain('benzene');
+  });
+
+  it('answers a repeated request from the cache without calling the model', async () => {
+    replay('benzene');
+    await analyse('benzene');
+    const cached = await analyse('Benzene ');
+
+    expect(requests).toHaveLength(1);
+    expect(cached.meta?.cachedAt).toEqual(expect.any(Number));
+  });
+
+  it('streams completed sections before the full answer arrives', async () => {
+    replay('benzene');
+    const onPartial = vi.fn();
+    const result = await analyse('benzene', { onPartial });
+
+    expect(onPartial).toHaveBeenCalled();
+    const [first] = onPartial.mock.calls[0];
+    expect(first.completedFields).toContain('name');
+    expect(first.data.name).toBe('Benzene');
+    expect(result.summary).toBe(onPartial.mock.calls.at(-1)![0].data.summary);
+  });
+
+  it('re-asks once after malformed JSON and uses the corrected answer', async () => {
+    replay('malformed', 'benzene');
+    const result = await analyse('benzene');
+
+    expect(result.name).toBe('Benzene');
+    expect(requests).toHaveLength(2);
+    expect(promptOf(requests[1])).toContain('Your previous answer was rejected');
+  });
+
+  it('gives up with MalformedResponseError when the re-ask is malformed too', async () => {
+    replay('malformed', 'malformed');
+    await expect(analyse('benzene', { retry: { retries: 0 } })).rejects.toBeInstanceOf(MalformedResponseError);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('reports a structure the model could not identify', async () => {
+    replay('unrecognised');
+    await expect(analyse('xyzzy')).rejects.toBeInstanceOf(UnrecognisedStructureError);
+  });
+
+  it.each<[FixtureName, string]>([
+    ['unauthorised', 'Authentication Failed'],
+    ['forbidden', 'Access Denied'],
+  ])('maps %s to an AuthError without retrying', async (fixture, message) => {
+    replay(fixture);
+    const error = await analyse('benzene').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(AuthError);
+    expect(error.kind).toBe('auth');
+    expect(error.message).toContain(message);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('fails with AuthError before any request when no API key is configured', async () => {
+    setAnalysisProvider(createGeminiProvider({}));
+    await expect(analyse('benzene')).rejects.toBeInstanceOf(AuthError);
+    expect(requests).toHaveLength(0);
+  });
+
+  it('reads the suggested wait from a rate limit', async () => {
+    replay('rateLimited');
+    const error = await analyse('benzene', { retry: { retries: 0 } }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryable).toBe(true);
+    expect(error.retryAfterMs).toBe(17000);
+  });
+
+  it('waits the suggested time after a rate limit, then retries', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    replay('rateLimited', 'benzene');
+    const onRetry = vi.fn();
+    const pending = analyse('benzene', { onRetry });
+
+    await vi.advanceTimersByTimeAsync(16999);
+    expect(requests).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect((await pending).name).toBe('Benzene');
+    expect(onRetry).toHaveBeenCalledWith(1, 17000, expect.any(RateLimitError));
+    expect(requests).toHaveLength(2);
+  });
+
+  it.each<FixtureName>(['safetyPromptBlocked', 'safetyFinishReason'])('raises SafetyBlockError for %s', async fixture => {
+    replay(fixture);
+    await expect(analyse('benzene')).rejects.toBeInstanceOf(SafetyBlockError);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('raises SafetyBlockError from a blocked stream', async () => {
+    replay('safetyFinishReason');
+    await expect(analyse('benzene', { onPartial: vi.fn() })).rejects.toBeInstanceOf(SafetyBlockError);
+  });
+
+  it('retries a dropped connection and falls back to the offline library for a typed name', async () => {
+    replay(new TypeError('fetch failed'), new TypeError('fetch failed'), new TypeError('fetch failed'));
+    const result = await analyse('benzene');
+
+    expect(requests).toHaveLength(3);
+    expect(result.name).toBe('Benzene');
+    expect(result.meta?.offline).toBe(true);
+  });
+
+  it('reports a dropped connection for a drawing, which has no offline answer', async () => {
+    replay(new TypeError('fetch failed'));
+    const error = analyzeChemicalStructure('data:image/jpeg;base64,AAAA', null, profile, { retry: { retries: 0 } });
+    await expect(error).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  it('fills the custom sections a template asks for', async () => {
+    const examRevision = BUILT_IN_TEMPLATES.find(template => template.id === 'exam-revision')!;
+    replay('benzeneExamRevision');
+    const result = await analyse('benzene', { template: examRevision });
+
+    expect(result.meta?.templateVersion).toBe('exam-revision@1');
+    expect(result.customSections).toEqual([
+      {
+        key: 'commonMistakes',
+        title: expect.any(String),
+        content: expect.arrayContaining([expect.stringContaining('bromine water')]),
+        after: 'reactions_or_uses',
+      },
+      { key: 'ncertReference', title: expect.any(String), content: expect.stringContaining('NCERT Class 11'), after: 'reactions_or_uses' },
+    ]);
+    expect(JSON.stringify(requests[0].config?.responseSchema)).toContain('customSections');
+  });
+});
@@ -0,0 +1,48 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { EducationLevel } from '../../types';
+import { normaliseQuery } from '../../services/cache';
+import { OfflineDataset, offlineDatasetPath } from '../../services/offline';
+import { validateChemicalData } from '../../services/validation';
+import { crossCheckFormula } from '../../utils/formula';
+import { OFFLINE_COMPOUNDS } from '../../scripts/offlineCompounds';
+
+const readLevel = (level: EducationLevel): OfflineDataset =>
+  JSON.parse(readFileSync(`public/${offlineDatasetPath(level)}`, 'utf8'));
+
+describe.each(Object.values(EducationLevel))('shipped offline library: %s', level => {
+  const dataset = readLevel(level);
+
+  it('is written for its level and covers every listed compound', () => {
+    expect(dataset).toMatchObject({ version: 1, level });
+    const aliases = new Set(dataset.compounds.flatMap(entry => entry.aliases));
+    const missing = OFFLINE_COMPOUNDS.filter(compound => !aliases.has(normaliseQuery(compound.name)));
+    expect(missing.map(compound => compound.name)).toEqual([]);
+  });
+
+  it('passes validation without repairs and agrees with its own formula', () => {
+    for (const { data } of dataset.compounds) {
+      const { repairedFields } = validateChemicalData(data);
+      expect({ name: data.name, repairedFields }).toEqual({ name: data.name, repairedFields: [] });
+      const { warnings } = crossCheckFormula(data.molecularFormula, [data.iupacName, data.name]);
+      expect({ name: data.name, warnings }).toEqual({ name: data.name, warnings: [] });
+    }
+  });
+});
+
+describe('shipped offline library across levels', () => {
+  const datasets = Object.values(EducationLevel).map(readLevel);
+
+  it('writes each compound differently for every level', () => {
+    const [first, ...rest] = datasets;
+    for (const { data } of first.compounds) {
+      const entries = [data, ...rest.map(dataset => dataset.compounds.find(entry => entry.data.name === data.name)?.data)];
+      expect({ name: data.name, levels: entries.filter(Boolean).length }).toEqual({ name: data.name, levels: datasets.length });
+      for (const field of ['summary', 'keyPoints', 'reactions_or_uses'] as const) {
+        const texts = entries.flatMap(entry => entry?.[field] ?? []);
+        const repeated = texts.filter((text, index) => texts.indexOf(text) !== index);
+        expect({ name: data.name, field, repeated }).toEqual({ name: data.name, field, repeated: [] });
+      }
+    }
+  });
+});
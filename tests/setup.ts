@@ -0,0 +1,12 @@
+import '@testing-library/jest-dom/vitest';
+import { cleanup } from '@testing-library/react';
+import { afterEach } from 'vitest';
+import { installCanvasShim } from './canvasShim';
+
+installCanvasShim();
+
+afterEach(() => {
+  cleanup();
+  // History, the response cache and stored profiles all live here
+  localStorage.clear();
+});
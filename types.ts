@@ -5,15 +5,167 @@ export enum EducationLevel {
   UNDERGRADUATE = 'Undergraduate (B.Sc/B.Tech)',
 }
 
+/**
+ * What the explanations are pitched at: one of the built-in levels, or a coaching institute's own profile such as
+ * "NEET Dropper Batch". Everything the prompt says about the audience comes from here.
+ */
+export interface CurriculumProfile {
+  /** The EducationLevel value for a built-in profile, a generated "custom-…" id otherwise */
+  id: string;
+  name: string;
+  /** Built-in level used where the app needs a fixed scale: which panels show, the quiz mix, the offline dataset */
+  baseLevel: EducationLevel;
+  /** How deep the explanation should go, in a teacher's words */
+  depth: string;
+  /** Syllabus topics to bring out where the compound touches them */
+  emphasise: string[];
+  /** Topics outside this syllabus, to leave out */
+  skip: string[];
+  /** How points are tied to exams, e.g. "Tag frequent NEET questions with [NEET]" */
+  examStyle: string;
+  builtIn?: boolean;
+  /** Custom profiles only; answers cached under an older revision are not reused */
+  updatedAt?: number;
+}
+
+/** One numbered section of the analysis prompt */
+export interface TemplateSection {
+  /** A ChemicalData field for the standard sections, a key under `customSections` for added ones */
+  key: string;
+  /** What the model is asked for; may use the template placeholders */
+  instruction: string;
+  /** Set on sections a teacher added, which the result card renders generically */
+  custom?: {
+    title: string;
+    /** A paragraph, or a list of short points */
+    format: 'text' | 'list';
+  };
+}
+
+/**
+ * The analysis prompt as data, so a teacher can change its tone, section order and extra sections without code.
+ * Texts may use the placeholders {{level}}, {{inputType}} and {{query}}.
+ */
+export interface PromptTemplate {
+  /** "standard" for the built-in template, a generated "template-…" id otherwise */
+  id: string;
+  name: string;
+  /** Raised on every saved change; results record `${id}@${version}` */
+  version: number;
+  /** Persona, tone and audience, before the numbered sections */
+  intro: string;
+  /** In the order the prompt lists them; every standard section must be present */
+  sections: TemplateSection[];
+  /** Added after the sections when the student typed a name */
+  queryLine: string;
+  builtIn?: boolean;
+}
+
+/** Language of the explanations and the UI; the value is the language's English name, as used in the prompt */
+export enum Language {
+  ENGLISH = 'English',
+  HINDI = 'Hindi',
+  MARATHI = 'Marathi',
+}
+
 export interface WebSource {
   uri: string;
   title: string;
 }
 
+/** Provenance of a result; never requested from the model */
+export interface AnalysisMeta {
+  provider?: string;
+  /** Fields the validator had to default or clean up, so the UI can flag a partially trusted answer */
+  repairedFields?: string[];
+  /** Served from the local response cache rather than a fresh model call */
+  cached?: boolean;
+  /** When the cached answer was originally generated (epoch ms) */
+  cachedAt?: number;
+  /** Answered from the bundled offline library because the network was unavailable */
+  offline?: boolean;
+  /** Prompt template and revision the answer was generated with, e.g. "standard@1" */
+  templateVersion?: string;
+}
+
+export type InductiveEffect = '+I' | '-I' | 'none';
+
+export type MesomericEffect = '+M' | '-M' | 'none';
+
+/** One functional group's electronic contribution to the molecule */
+export interface FunctionalGroupEffect {
+  group: string;
+  inductive: InductiveEffect;
+  mesomeric: MesomericEffect;
+  /** Hyperconjugative contribution, or an empty string when there is none */
+  hyperconjugation: string;
+  note: string;
+}
+
+export interface AtomHybridisation {
+  /** Which atom, e.g. "Ring carbons" or "O of the OH group" */
+  atom: string;
+  hybridisation: string;
+  geometry: string;
+}
+
+export type AromaticityStatus = 'aromatic' | 'antiaromatic' | 'non-aromatic';
+
+export interface Aromaticity {
+  status: AromaticityStatus;
+  /** π electrons in the ring system counted for Hückel's rule (4n + 2); 0 when there is no ring */
+  piElectrons: number;
+  explanation: string;
+}
+
+export type ReactiveSiteKind = 'electrophilic' | 'nucleophilic' | 'acidic' | 'basic' | 'radical';
+
+export interface ReactiveSite {
+  site: string;
+  kind: ReactiveSiteKind;
+  note: string;
+}
+
+/** Structured GOC breakdown; absent on results saved before it existed */
+export interface ElectronicEffects {
+  functionalGroups: FunctionalGroupEffect[];
+  hybridisation: AtomHybridisation[];
+  aromaticity: Aromaticity;
+  reactiveSites: ReactiveSite[];
+}
+
+/**
+ * A curved arrow. One atom means a lone pair (in `from`) or the atom receiving the electrons (in `to`);
+ * two atoms mean the bond between them. Atoms are numbered from 0 in the order they appear in the SMILES.
+ */
+export interface ElectronArrow {
+  from: number[];
+  to: number[];
+}
+
+export interface ResonanceContributor {
+  /** Kekulé SMILES with explicit charges; every contributor lists the atoms in the same order */
+  smiles: string;
+  description: string;
+  /** The electron movement that turns this contributor into the next one, in words; empty on the last */
+  arrowPushing: string;
+  arrows: ElectronArrow[];
+}
+
+/** Resonance contributors in order, drawn locally from their SMILES; `contributors` is empty when there is no resonance */
+export interface ResonanceData {
+  contributors: ResonanceContributor[];
+  /** Index of the contributor that contributes most to the hybrid */
+  majorIndex: number;
+  explanation: string;
+}
+
 export interface ChemicalData {
   name: string;
   iupacName: string;
   molecularFormula: string;
+  /** Isomeric SMILES of the identified compound, drawn locally so students can check the recognition */
+  smiles?: string;
   summary: string;
   keyPoints: string[];
   reactions_or_uses: string[];
@@ -21,10 +173,238 @@ export interface ChemicalData {
   webSources?: WebSource[];
   funFacts: string[];
   analogy: string;
+  electronicEffects?: ElectronicEffects;
+  resonance?: ResonanceData;
+  /** Sections a prompt template added, in the template's order */
+  customSections?: CustomSection[];
+  meta?: AnalysisMeta;
+}
+
+/** The answer to a section a teacher added to the prompt template, e.g. "Common mistakes" */
+export interface CustomSection {
+  key: string;
+  title: string;
+  /** A paragraph, or the points of a list section */
+  content: string | string[];
+  /**
+   * The standard body section this one follows in the template, null when it comes before all of them. Results saved
+   * before this was recorded leave it out and show the section after the curriculum context.
+   */
+  after?: keyof ChemicalData | null;
+}
+
+/** A result that is still streaming in; `completedFields` have fully arrived, the rest may be missing or growing */
+export interface PartialAnalysis {
+  data: Partial<ChemicalData>;
+  completedFields: (keyof ChemicalData)[];
+}
+
+/** Properties a compare-mode question can rank compounds by */
+export enum ComparisonProperty {
+  ACIDITY = 'Acidity',
+  BASICITY = 'Basicity',
+  CARBOCATION_STABILITY = 'Carbocation stability',
+  RADICAL_STABILITY = 'Free radical stability',
+  NUCLEOPHILICITY = 'Nucleophilicity',
+}
+
+/** One compound's row in a comparison, with its reasoning split by electronic effect */
+export interface ComparedCompound {
+  /** Letter the compound was submitted under (A, B, ...) */
+  label: string;
+  name: string;
+  /** 1 is the highest value of the property */
+  rank: number;
+  inductive: string;
+  resonance: string;
+  hyperconjugation: string;
+  steric: string;
+  /** Net conclusion for this compound */
+  reasoning: string;
+}
+
+export interface ComparisonResult {
+  property: ComparisonProperty;
+  /** Compounds ordered from rank 1 down */
+  compounds: ComparedCompound[];
+  /** Human-readable ranking, e.g. "p-Nitrophenol > Phenol > Ethanol" */
+  order: string;
+  explanation: string;
+  examTip: string;
+  meta?: AnalysisMeta;
+}
+
+export type IntermediateKind = 'carbocation' | 'carbanion' | 'radical' | 'other';
+
+export interface MechanismIntermediate {
+  kind: IntermediateKind;
+  name: string;
+  smiles?: string;
+  /** Why it is (or is not) stable: hyperconjugation, resonance, inductive effects */
+  stability: string;
+}
+
+export interface MechanismStep {
+  title: string;
+  description: string;
+  /** Each curly arrow in words, e.g. "Lone pair on O⁻ attacks the β-hydrogen" */
+  arrowDescriptions: string[];
+  /** Every species taking part in the step, as dot-separated SMILES; `arrows` index its atoms */
+  smiles?: string;
+  arrows: ElectronArrow[];
+  /** Formed by this step; concerted steps have none */
+  intermediate?: MechanismIntermediate;
+}
+
+export type ProductRole = 'major' | 'minor';
+
+export interface MechanismProduct {
+  name: string;
+  smiles?: string;
+  role: ProductRole;
+  reason: string;
+}
+
+export type SelectivityRule = 'Saytzeff' | 'Hofmann' | 'Markovnikov' | 'Anti-Markovnikov' | 'none';
+
+export interface MechanismResult {
+  /** Overall equation, e.g. "CH3CH2Br + KOH (alc.) → CH2=CH2 + KBr + H2O" */
+  reaction: string;
+  /** Short mechanism name such as E2, SN1 or electrophilic addition */
+  mechanismType: string;
+  steps: MechanismStep[];
+  /** Index into `steps` */
+  rateDeterminingStep: number;
+  rateLaw: string;
+  /** Stereochemical course, e.g. anti-periplanar elimination or inversion of configuration */
+  stereochemistry: string;
+  products: MechanismProduct[];
+  selectivityRule: SelectivityRule;
+  examTip: string;
+  meta?: AnalysisMeta;
+}
+
+/** Fixed set of topics so quiz results can be added up across compounds */
+export enum QuizTopic {
+  STRUCTURE = 'Structure & bonding',
+  NOMENCLATURE = 'Nomenclature',
+  HYBRIDISATION = 'Hybridisation & geometry',
+  ELECTRONIC_EFFECTS = 'Electronic effects',
+  RESONANCE = 'Resonance & aromaticity',
+  ACIDITY_BASICITY = 'Acidity & basicity',
+  REACTIONS = 'Reactions',
+  PROPERTIES = 'Properties & uses',
+}
+
+/** The four standard assertion-reason choices, in the order exam papers print them */
+export enum AssertionReasonChoice {
+  BOTH_TRUE_EXPLAINS = 'Both A and R are true, and R is the correct explanation of A',
+  BOTH_TRUE_NOT_EXPLAINS = 'Both A and R are true, but R is not the correct explanation of A',
+  ONLY_ASSERTION_TRUE = 'A is true, but R is false',
+  ONLY_REASON_TRUE = 'A is false, but R is true',
+}
+
+interface QuizQuestionBase {
+  topic: QuizTopic;
+  /** Why the key is right, shown when reviewing */
+  explanation: string;
+}
+
+export interface McqQuestion extends QuizQuestionBase {
+  type: 'mcq';
+  question: string;
+  options: string[];
+  answerIndex: number;
+}
+
+export interface AssertionReasonQuestion extends QuizQuestionBase {
+  type: 'assertion-reason';
+  assertion: string;
+  reason: string;
+  answer: AssertionReasonChoice;
+}
+
+export interface IntegerQuestion extends QuizQuestionBase {
+  type: 'integer';
+  question: string;
+  answer: number;
+}
+
+export type QuizQuestion = McqQuestion | AssertionReasonQuestion | IntegerQuestion;
+
+export interface Quiz {
+  compoundName: string;
+  level: EducationLevel;
+  questions: QuizQuestion[];
+  meta?: AnalysisMeta;
+}
+
+/** One finished quiz, kept with the compound's history entry */
+export interface QuizAttempt {
+  takenAt: number;
+  level: EducationLevel;
+  correct: number;
+  total: number;
+  marks: number;
+  maxMarks: number;
+  durationMs: number;
+  /** Questions asked and answered correctly, per topic */
+  topics: Partial<Record<QuizTopic, { correct: number; total: number }>>;
 }
 
 export interface AnalysisState {
   isLoading: boolean;
   data: ChemicalData | null;
   error: string | null;
-}
\ No newline at end of file
+}
+
+export type StrokeTool = 'pen' | 'eraser';
+
+export type DrawingTool = StrokeTool | 'bond' | 'atom';
+
+export interface StrokePoint {
+  x: number;
+  y: number;
+}
+
+export interface Stroke {
+  tool: StrokeTool;
+  width: number;
+  color: string;
+  points: StrokePoint[];
+}
+
+export type BondOrder = 1 | 2 | 3;
+
+export type BondStereo = 'none' | 'wedge' | 'dash';
+
+export type BondType = 'single' | 'double' | 'triple' | 'wedge' | 'dash';
+
+export interface MoleculeAtom {
+  id: number;
+  x: number;
+  y: number;
+  /** Element or group label as drawn ('C' is an implicit skeletal carbon) */
+  label: string;
+  charge: number;
+  lonePairs: number;
+}
+
+export interface MoleculeBond {
+  id: number;
+  /** For wedge/dash bonds this is the narrow (stereocentre) end */
+  from: number;
+  to: number;
+  order: BondOrder;
+  stereo: BondStereo;
+}
+
+export interface MoleculeGraph {
+  atoms: MoleculeAtom[];
+  bonds: MoleculeBond[];
+}
+
+export interface DrawingDocument {
+  strokes: Stroke[];
+  molecule: MoleculeGraph;
+}
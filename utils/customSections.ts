@@ -0,0 +1,8 @@
+import { ChemicalData, CustomSection } from '../types';
+
+/**
+ * The template-added sections that follow any of `keys`, in template order, for a renderer to place after its own
+ * section for those keys. null stands for the top of the body, before every standard section.
+ */
+export const customSectionsAfter = (data: ChemicalData, keys: (keyof ChemicalData | null)[]): CustomSection[] =>
+  (data.customSections ?? []).filter(section => keys.includes(section.after === undefined ? 'curriculumContext' : section.after));
@@ -0,0 +1,66 @@
+import { DrawingDocument, Stroke, StrokePoint } from '../types';
+import { EMPTY_MOLECULE, moleculeBounds, renderMolecule } from './molecule';
+
+export const BACKGROUND_COLOR = '#ffffff';
+export const PEN_COLOR = '#1e293b'; // slate-800
+const CAPTURE_PADDING = 40;
+
+export const EMPTY_DOCUMENT: DrawingDocument = { strokes: [], molecule: EMPTY_MOLECULE };
+
+const drawStroke = (ctx: CanvasRenderingContext2D, stroke: Stroke) => {
+  const [first, ...rest] = stroke.points;
+  if (!first) return;
+
+  ctx.strokeStyle = stroke.color;
+  ctx.fillStyle = stroke.color;
+  ctx.lineWidth = stroke.width;
+
+  // A single tap should still leave a dot
+  if (rest.length === 0) {
+    ctx.beginPath();
+    ctx.arc(first.x, first.y, stroke.width / 2, 0, Math.PI * 2);
+    ctx.fill();
+    return;
+  }
+
+  ctx.beginPath();
+  ctx.moveTo(first.x, first.y);
+  rest.forEach(point => ctx.lineTo(point.x, point.y));
+  ctx.stroke();
+};
+
+export const renderDocument = (canvas: HTMLCanvasElement, doc: DrawingDocument, offset: StrokePoint = { x: 0, y: 0 }) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  ctx.save();
+  ctx.fillStyle = BACKGROUND_COLOR;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(offset.x, offset.y);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  doc.strokes.forEach(stroke => drawStroke(ctx, stroke));
+  renderMolecule(ctx, doc.molecule);
+  ctx.restore();
+};
+
+/** Renders the document onto a fresh canvas cropped to its content, so the captured image never depends on the viewport */
+export const captureDocument = (doc: DrawingDocument): string => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  doc.strokes.filter(stroke => stroke.tool === 'pen').forEach(stroke => stroke.points.forEach(p => { xs.push(p.x); ys.push(p.y); }));
+  const bounds = moleculeBounds(doc.molecule);
+  if (bounds) {
+    xs.push(bounds.minX, bounds.maxX);
+    ys.push(bounds.minY, bounds.maxY);
+  }
+
+  const minX = Math.min(...xs) - CAPTURE_PADDING;
+  const minY = Math.min(...ys) - CAPTURE_PADDING;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(Math.max(...xs) + CAPTURE_PADDING - minX);
+  canvas.height = Math.ceil(Math.max(...ys) + CAPTURE_PADDING - minY);
+  renderDocument(canvas, doc, { x: -minX, y: -minY });
+  // Use JPEG with 0.7 quality for smaller payload and faster upload
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
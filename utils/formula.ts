@@ -0,0 +1,258 @@
+import { formulaFromName } from './nomenclature';
+import type { UiStringKey } from './i18n';
+
+export type ElementCounts = Record<string, number>;
+
+export interface ParsedFormula {
+  counts: ElementCounts;
+  charge: number;
+  /** Written with a radical dot ("CH3•", "C6H6•+"): an odd electron count is expected, not an error */
+  radical: boolean;
+}
+
+export interface CompositionEntry {
+  element: string;
+  count: number;
+  massPercent: number;
+}
+
+export class FormulaParseError extends Error {
+  constructor(message: string, public readonly formula: string) {
+    super(message);
+    this.name = 'FormulaParseError';
+  }
+}
+
+// Standard atomic weights (IUPAC, abridged to 4 significant decimals)
+const ATOMIC_WEIGHTS: Record<string, number> = {
+  H: 1.008, He: 4.0026, Li: 6.94, Be: 9.0122, B: 10.81, C: 12.011, N: 14.007, O: 15.999, F: 18.998, Ne: 20.180,
+  Na: 22.990, Mg: 24.305, Al: 26.982, Si: 28.085, P: 30.974, S: 32.06, Cl: 35.45, Ar: 39.948, K: 39.098, Ca: 40.078,
+  Sc: 44.956, Ti: 47.867, V: 50.942, Cr: 51.996, Mn: 54.938, Fe: 55.845, Co: 58.933, Ni: 58.693, Cu: 63.546, Zn: 65.38,
+  Ga: 69.723, Ge: 72.630, As: 74.922, Se: 78.971, Br: 79.904, Kr: 83.798, Rb: 85.468, Sr: 87.62, Y: 88.906, Zr: 91.224,
+  Nb: 92.906, Mo: 95.95, Ru: 101.07, Rh: 102.91, Pd: 106.42, Ag: 107.87, Cd: 112.41, In: 114.82, Sn: 118.71, Sb: 121.76,
+  Te: 127.60, I: 126.90, Xe: 131.29, Cs: 132.91, Ba: 137.33, La: 138.91, Ce: 140.12, W: 183.84, Os: 190.23, Ir: 192.22,
+  Pt: 195.08, Au: 196.97, Hg: 200.59, Tl: 204.38, Pb: 207.2, Bi: 208.98, U: 238.03, D: 2.014,
+};
+
+const SUBSCRIPTS: Record<string, string> = {
+  '₀': '0', '₁': '1', '₂': '2', '₃': '3', '₄': '4', '₅': '5', '₆': '6', '₇': '7', '₈': '8', '₉': '9',
+};
+const SUPERSCRIPTS: Record<string, string> = {
+  '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9', '⁺': '+', '⁻': '-',
+};
+
+const SUPERSCRIPT_DIGITS = ['⁰', '¹', '²', '³', '⁴', '⁵', '⁶', '⁷', '⁸', '⁹'];
+
+const HALOGENS = ['F', 'Cl', 'Br', 'I'];
+
+// A dot at the end marks a radical, not a hydrate; it may come before or after the charge
+const RADICAL_DOT = /\s*[•·]$/;
+
+const addCounts = (target: ElementCounts, source: ElementCounts, multiplier = 1) => {
+  Object.entries(source).forEach(([element, count]) => {
+    target[element] = (target[element] ?? 0) + count * multiplier;
+  });
+  return target;
+};
+
+/** Splits a trailing charge off the formula: "^2-", superscripts, "]3-", " 2-", or a bare sign ("NH4+" is +1, not 4+) */
+const splitCharge = (formula: string): [string, number] => {
+  const superscript = formula.match(/([⁰¹²³⁴⁵⁶⁷⁸⁹]*)([⁺⁻])$/);
+  if (superscript) {
+    const digits = superscript[1].split('').map(ch => SUPERSCRIPTS[ch]).join('');
+    const magnitude = digits ? Number(digits) : 1;
+    return [formula.slice(0, superscript.index), SUPERSCRIPTS[superscript[2]] === '+' ? magnitude : -magnitude];
+  }
+
+  // Digits written before the sign belong to the charge only when the charge is clearly separated
+  const separated = formula.match(/(?:\^|\s+|(?<=[\])]))(\d*)([+-])$/) ?? formula.match(/\^([+-])(\d*)$/);
+  if (separated) {
+    const [digits, sign] = /[+-]/.test(separated[1]) ? [separated[2], separated[1]] : [separated[1], separated[2]];
+    const magnitude = digits ? Number(digits) : 1;
+    return [formula.slice(0, separated.index).trimEnd(), sign === '+' ? magnitude : -magnitude];
+  }
+
+  const bare = formula.match(/([+-])(\d*)$/);
+  if (bare) {
+    const magnitude = bare[2] ? Number(bare[2]) : 1;
+    return [formula.slice(0, bare.index), bare[1] === '+' ? magnitude : -magnitude];
+  }
+  return [formula, 0];
+};
+
+/**
+ * Parses formulas such as "C6H6", "CH3COOH", "(CH3)3COH", "[Fe(CN)6]3-", "SO4^2-", "C₆H₅O⁻" and hydrates ("CuSO4·5H2O").
+ * Throws FormulaParseError on anything it cannot read, including unknown element symbols.
+ */
+export const parseFormula = (input: string): ParsedFormula => {
+  const normalised = input
+    .trim()
+    .replace(/[₀-₉]/g, ch => SUBSCRIPTS[ch])
+    .replace(/[−–]/g, '-');
+  const withoutDot = normalised.replace(RADICAL_DOT, '');
+  if (!withoutDot) throw new FormulaParseError('Empty formula', input);
+
+  const [charged, charge] = splitCharge(withoutDot);
+  const body = charged.replace(RADICAL_DOT, '');
+  const radical = withoutDot !== normalised || body !== charged;
+  const counts: ElementCounts = {};
+
+  body.split(/[·•*]|\.(?=\d*[A-Z(\[])/).forEach(part => {
+    const hydrate = part.trim().match(/^(\d*)(.*)$/)!;
+    const multiplier = hydrate[1] ? Number(hydrate[1]) : 1;
+    addCounts(counts, parseGroup(hydrate[2], input), multiplier);
+  });
+
+  if (Object.keys(counts).length === 0) throw new FormulaParseError('No elements found', input);
+  return { counts, charge, radical };
+};
+
+const CLOSING: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+const parseGroup = (text: string, original: string): ElementCounts => {
+  let pos = 0;
+
+  const readCount = () => {
+    const match = text.slice(pos).match(/^\d+/);
+    if (!match) return 1;
+    pos += match[0].length;
+    return Number(match[0]);
+  };
+
+  const readSequence = (closing: string | null): ElementCounts => {
+    const counts: ElementCounts = {};
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (closing && ch === closing) {
+        pos++;
+        return counts;
+      }
+      if (CLOSING[ch]) {
+        pos++;
+        const inner = readSequence(CLOSING[ch]);
+        addCounts(counts, inner, readCount());
+        continue;
+      }
+      const element = text.slice(pos).match(/^[A-Z][a-z]?/)?.[0];
+      if (!element) {
+        throw new FormulaParseError(`Unexpected "${ch}" in formula`, original);
+      }
+      // Prefer a one-letter symbol when the two-letter reading is not an element (e.g. "Co" vs "CO" is case-sensitive already)
+      const symbol = ATOMIC_WEIGHTS[element] !== undefined ? element : element[0];
+      if (ATOMIC_WEIGHTS[symbol] === undefined) {
+        throw new FormulaParseError(`Unknown element "${element}"`, original);
+      }
+      pos += symbol.length;
+      counts[symbol] = (counts[symbol] ?? 0) + readCount();
+    }
+    if (closing) throw new FormulaParseError(`Missing "${closing}"`, original);
+    return counts;
+  };
+
+  return readSequence(null);
+};
+
+export const molarMass = ({ counts }: ParsedFormula) =>
+  Object.entries(counts).reduce((sum, [element, count]) => sum + ATOMIC_WEIGHTS[element] * count, 0);
+
+/** Hill order: C, then H, then the rest alphabetically (plain alphabetical when there is no carbon) */
+const hillOrder = (elements: string[]) => {
+  const sorted = [...elements].sort();
+  if (!elements.includes('C')) return sorted;
+  return ['C', ...(elements.includes('H') ? ['H'] : []), ...sorted.filter(el => el !== 'C' && el !== 'H')];
+};
+
+export const hillFormula = ({ counts, charge, radical }: ParsedFormula) => {
+  const body = hillOrder(Object.keys(counts).filter(el => counts[el] > 0))
+    .map(el => `${el}${counts[el] > 1 ? counts[el] : ''}`)
+    .join('') + (radical ? '•' : '');
+  if (charge === 0) return body;
+  const magnitude = Math.abs(charge) > 1 ? String(Math.abs(charge)) : '';
+  return `${body}${magnitude.replace(/\d/g, d => SUPERSCRIPT_DIGITS[Number(d)])}${charge > 0 ? '⁺' : '⁻'}`;
+};
+
+export const elementalComposition = (parsed: ParsedFormula): CompositionEntry[] => {
+  const total = molarMass(parsed);
+  return hillOrder(Object.keys(parsed.counts)).map(element => ({
+    element,
+    count: parsed.counts[element],
+    massPercent: total > 0 ? (ATOMIC_WEIGHTS[element] * parsed.counts[element] * 100) / total : 0,
+  }));
+};
+
+/** DBE = C + Si + 1 + (N + P)/2 − (H + X)/2; O and S do not contribute. Ions are counted as their neutral parent (anion + H⁺, cation − H⁺). */
+export const degreeOfUnsaturation = ({ counts, charge }: ParsedFormula) => {
+  const get = (el: string) => counts[el] ?? 0;
+  const tetravalent = get('C') + get('Si');
+  const trivalent = get('N') + get('P') + get('B');
+  const monovalent = get('H') + get('D') + HALOGENS.reduce((sum, el) => sum + get(el), 0) - charge;
+  return tetravalent + 1 + trivalent / 2 - monovalent / 2;
+};
+
+export const sameComposition = (a: ElementCounts, b: ElementCounts) => {
+  const elements = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...elements].every(el => (a[el] ?? 0) === (b[el] ?? 0));
+};
+
+/** A problem with the formula, as a UI string and its values so it reads in the student's language */
+export interface FormulaWarning {
+  key: Extract<UiStringKey, 'formulaUnreadable' | 'formulaNegativeDbe' | 'formulaOddElectrons' | 'formulaNameMismatch'>;
+  values: Record<string, string | number>;
+}
+
+export interface FormulaCheck {
+  parsed: ParsedFormula | null;
+  molarMass: number | null;
+  composition: CompositionEntry[];
+  dbe: number | null;
+  /** Formula derived from the IUPAC (or common) name, when the name could be interpreted */
+  expectedFormula: string | null;
+  warnings: FormulaWarning[];
+}
+
+/** Cross-checks the model's formula against itself (parsable, sensible DBE) and against its own name */
+export const crossCheckFormula = (formula: string, names: string[]): FormulaCheck => {
+  let parsed: ParsedFormula;
+  try {
+    parsed = parseFormula(formula);
+  } catch {
+    return {
+      parsed: null,
+      molarMass: null,
+      composition: [],
+      dbe: null,
+      expectedFormula: null,
+      warnings: [{ key: 'formulaUnreadable', values: { formula } }],
+    };
+  }
+
+  const warnings: FormulaWarning[] = [];
+  const dbe = degreeOfUnsaturation(parsed);
+  // Only organic formulas have a meaningful DBE; inorganic salts and complexes are not judged on it
+  const isOrganic = (parsed.counts.C ?? 0) > 0 && Object.keys(parsed.counts).every(el => ['C', 'H', 'D', 'N', 'O', 'P', 'S', 'Si', 'B', ...HALOGENS].includes(el));
+  if (isOrganic && dbe < 0) {
+    warnings.push({ key: 'formulaNegativeDbe', values: { dbe } });
+  } else if (isOrganic && !Number.isInteger(dbe) && !parsed.radical) {
+    warnings.push({ key: 'formulaOddElectrons', values: { dbe } });
+  }
+
+  let expectedFormula: string | null = null;
+  for (const name of names) {
+    const expected = formulaFromName(name);
+    if (!expected) continue;
+    expectedFormula = hillFormula({ counts: expected, charge: 0, radical: false });
+    if (!sameComposition(expected, parsed.counts)) {
+      warnings.push({ key: 'formulaNameMismatch', values: { name, expected: expectedFormula } });
+    }
+    break;
+  }
+
+  return {
+    parsed,
+    molarMass: molarMass(parsed),
+    composition: elementalComposition(parsed),
+    dbe,
+    expectedFormula,
+    warnings,
+  };
+};
@@ -0,0 +1,1191 @@
+import { ComparisonProperty, Language } from '../types';
+
+/** Each language's name in its own script, for the language selector */
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  [Language.ENGLISH]: 'English',
+  [Language.HINDI]: 'हिन्दी',
+  [Language.MARATHI]: 'मराठी',
+};
+
+/** BCP 47 codes for the page's `lang`, so screen readers and fonts pick the right script */
+export const LANGUAGE_CODES: Record<Language, string> = {
+  [Language.ENGLISH]: 'en',
+  [Language.HINDI]: 'hi',
+  [Language.MARATHI]: 'mr',
+};
+
+// Placeholders such as {level} are filled in by the translator
+const EN = {
+  // App
+  appTagline: 'Master Organic Chemistry',
+  history: 'History',
+  savedAnswers: 'Saved Answers',
+  lightMode: 'Switch to Light Mode',
+  darkMode: 'Switch to Dark Mode',
+  curriculumLevel: 'Curriculum Level:',
+  editProfiles: 'Edit curriculum profiles',
+  language: 'Language:',
+  bilingual: 'Bilingual',
+  bilingualHint: 'Show key terms in English too',
+  modeAnalyze: 'Single Compound',
+  modeCompare: 'Compare',
+  modeMechanism: 'Mechanism',
+  modeBatch: 'Worksheet',
+  drawStructure: 'Draw Structure',
+  touchEnabled: 'Touch enabled',
+  or: 'OR',
+  enterReactants: 'Enter Reactants',
+  enterName: 'Enter Name / Formula',
+  reactantsPlaceholder: 'e.g. CH3CH2Br + alc. KOH',
+  namePlaceholder: 'e.g. Benzene, C6H6, Aspirin...',
+  add: 'Add',
+  go: 'Go',
+  writingExplanation: 'Writing the explanation...',
+  cancel: 'Cancel',
+  preparingQuiz: 'Preparing Your Quiz...',
+  comparingCompounds: 'Comparing Compounds...',
+  workingOutMechanism: 'Working Out the Mechanism...',
+  analyzingCompound: 'Analyzing Compound...',
+  quizLoadingDetail: 'Our AI is writing questions on {name} for {level}.',
+  compareLoadingDetail: 'Our AI is weighing the electronic effects of each compound for {level}.',
+  mechanismLoadingDetail: 'Our AI is pushing the arrows step by step for {level}.',
+  analyzeLoadingDetail: 'Our AI is examining the structure and tailoring the explanation for {level}.',
+  readyToCompare: 'Ready to Compare',
+  compareHint: 'Add two to five compounds, pick a property such as acidity or carbocation stability, and get a ranked table with the reasoning for each.',
+  readyForMechanism: 'Ready for a Mechanism',
+  mechanismHint: 'Enter a reaction such as CH3CH2Br + alc. KOH, or draw the substrate and pick a reagent, to step through the curly arrows, intermediates and products.',
+  readyForWorksheet: 'Ready for a Worksheet',
+  worksheetHint: 'List the compounds for a chapter to analyse them all at once and export one booklet with contents, revision questions and an answer key.',
+  readyToAnalyze: 'Ready to Analyze',
+  analyzeHint: 'Draw a chemical structure on the left or enter its name to get detailed insights tailored to your curriculum.',
+  emptyInput: 'Please draw a structure or enter a name.',
+  retryNotice: 'Temporary problem, retrying in {seconds}s (attempt {attempt})...',
+  offlineTitle: "You're offline",
+  offlineHint: 'Names in the built-in library still work, and drawings are kept and analysed when the connection returns.',
+  queuedDrawings: 'Drawings waiting: {count}',
+  syncingDrawings: 'Analysing the drawings kept while offline...',
+  syncedDrawings: 'Analysed from your saved drawings:',
+  queuedFailed: 'A saved drawing could not be analysed: {message}',
+  dismiss: 'Dismiss',
+  tooManyCompounds: 'You can compare at most {max} compounds at a time.',
+  justNow: 'just now',
+  minutesAgo: '{count} min ago',
+  hoursAgo: '{count} h ago',
+  dayAgo: '{count} day ago',
+  daysAgo: '{count} days ago',
+
+  // DrawingCanvas
+  pen: 'Pen',
+  bondTool: 'Bond (snaps to grid)',
+  atomTool: 'Atom label',
+  eraser: 'Eraser',
+  undo: 'Undo (Ctrl+Z)',
+  redo: 'Redo (Ctrl+Shift+Z)',
+  clearAll: 'Clear All',
+  analyzing: 'Analyzing...',
+  identify: 'Identify',
+  singleBond: 'Single bond',
+  doubleBond: 'Double bond',
+  tripleBond: 'Triple bond',
+  wedgeBond: 'Wedge bond (towards viewer)',
+  dashBond: 'Dash bond (away from viewer)',
+  lonePair: 'Lone pair',
+
+  // ResultCard
+  checkFormula: 'Check formula',
+  cachedTitle: 'Served from saved answers on this device',
+  cached: 'Cached',
+  getFresh: 'Get fresh result',
+  promptTemplate: 'Prompt template {version}',
+  promptTemplateTitle: 'Template and revision this answer was written with, for comparing answers across template changes',
+  editTemplates: 'Edit prompt templates',
+  offlineLibrary: 'Offline library',
+  offlineLibraryTitle: 'Answered from the built-in library because there is no connection; library answers are in English',
+  yourSketch: 'Your sketch',
+  recognisedStructure: 'Recognised structure',
+  quizTitle: 'Test yourself on this compound',
+  quizMe: 'Quiz me',
+  downloadTitle: 'Download Analysis as PDF',
+  generating: 'Generating...',
+  downloadPdf: 'Download PDF',
+  pdfFailed: 'Failed to generate PDF. Please try again.',
+  shareTitle: 'Copy a link that opens this analysis',
+  shareLink: 'Share link',
+  shareFailed: 'Could not create a share link.',
+  linkCopied: 'Link copied.',
+  copyLink: 'Copy this link.',
+  keepShort: 'To keep it short, {notes}.',
+  omitResult: 'the result is left out and will be worked out again when the link is opened',
+  omitStrokeDetail: 'the drawing was simplified',
+  omitSketch: 'only the drawn structure is included, not the freehand strokes',
+  omitDrawing: "the drawing is replaced by the compound's name",
+  includeDrawing: 'Include my drawing',
+  partiallyVerified: 'Partially verified answer.',
+  repairedDetail: 'Some parts of the AI response were missing or malformed and have been filled in or removed:',
+  summary: 'Educational Summary',
+  analogy: 'Real World Analogy',
+  keyPoints: 'Key Properties & Facts',
+  reactions: 'Common Reactions/Uses',
+  curriculumContext: 'Curriculum Context',
+  funFacts: 'Did You Know?',
+  structureOf: 'Structure of {name}',
+  formulaCheck: 'Formula Check',
+  computedLocally: 'computed locally',
+  molarMass: 'Molar mass',
+  dbe: 'DBE',
+  dbeTitle: 'Degree of unsaturation (rings + π bonds)',
+  fromName: 'From name',
+  oneAtom: '1 atom',
+  atomCount: '{count} atoms',
+  formulaUnreadable: 'The formula {formula} could not be read.',
+  formulaNegativeDbe: 'Impossible formula: degree of unsaturation is {dbe}.',
+  formulaOddElectrons: 'Impossible formula: degree of unsaturation {dbe} is not a whole number (odd electron count, only possible for a radical).',
+  formulaNameMismatch: 'Formula does not match the name "{name}" (expected {expected}).',
+  detailLevel: 'Detail level',
+  reactiveSites: 'Reactive Sites',
+  resonanceStructures: 'Resonance Structures',
+  structureIndex: 'Structure {index} of {count}',
+  structureNumber: 'Structure {index}',
+  resonanceStructureNumber: 'Resonance structure {index}',
+  majorContributor: 'Major contributor',
+  showArrows: 'Show curved arrows',
+  previousStructure: 'Previous structure',
+  nextStructure: 'Next structure',
+  toStructure: 'To structure {index}:',
+
+  // PDF report
+  levelLabel: 'Level',
+  pageOf: 'Page {page} of {pages}',
+  yourDrawing: 'Your drawing',
+  repairedPdf: 'Partially verified answer. These parts of the AI response were filled in or removed: {fields}',
+  electronicEffects: 'Electronic Effects',
+  group: 'Group',
+  inductive: 'Inductive',
+  mesomeric: 'Mesomeric',
+  hyperconjugation: 'Hyperconjugation',
+  note: 'Note',
+  atom: 'Atom',
+  hybridisation: 'Hybridisation',
+  geometry: 'Geometry',
+  aromaticity: 'Aromaticity',
+  piElectrons: '{count} pi electrons',
+  reactiveSite: 'Reactive site',
+  kind: 'Kind',
+  resonance: 'Resonance',
+  major: 'major',
+  sources: 'Sources',
+
+  // Worksheet
+  contents: 'Contents',
+  sectionCount: '{count} sections',
+  formula: 'Formula',
+  iupac: 'IUPAC',
+  revisionQuestions: 'Revision Questions',
+  answerKey: 'Answer Key',
+  and: 'and',
+  askIupacName: 'Give the IUPAC name of {name}.',
+  askFormula: 'Write the molecular formula of {name}.',
+  askHybridisation: 'What is the hybridisation of {atom} in {name}?',
+  askEffects: 'Which electronic effects does the {group} group show in {name}?',
+  askAromaticity: 'Is {name} aromatic, antiaromatic or non-aromatic? Justify your answer.',
+  askResonance: 'How many resonance contributors can be drawn for {name}, and which contributes most?',
+  askReaction: 'State one reaction or use of {name}.',
+  worksheetTitle: 'Revision Worksheet',
+  retryFailed: 'Retry {count} failed',
+  analysedCount: '{done} of {total} analysed',
+  failedCount: '{count} failed',
+  includeAnswerKey: 'Include an answer key for the revision questions',
+  pdfBooklet: 'PDF booklet',
+  htmlForWord: 'HTML for Word',
+  htmlForWordTitle: 'Opens in Word or Google Docs',
+  oneFailedLeftOut: 'The 1 failed compound is left out of the exports.',
+  failedLeftOut: 'The {count} failed compounds are left out of the exports.',
+
+  // ErrorCard
+  errorCancelled: 'Analysis Cancelled',
+  errorInvalidInput: 'Nothing to Analyze',
+  errorAuth: 'API Key Problem',
+  errorRateLimit: 'Too Many Requests',
+  errorNetwork: 'Connection Problem',
+  errorSafety: 'Input Blocked',
+  errorMalformedResponse: 'Unexpected Response',
+  errorUnrecognisedStructure: 'Structure Not Recognised',
+  errorUnknown: 'Analysis Failed',
+  redrawTitle: 'Try redrawing it more clearly:',
+  redrawBondTool: 'Use the bond tool so lines snap to the grid instead of freehand strokes',
+  redrawLabelAtoms: 'Label every atom that is not carbon (O, N, Cl, OH, NH₂…)',
+  redrawMultipleBonds: 'Draw double and triple bonds explicitly and keep the structure large',
+  redrawOrType: "Or type the compound's name or formula instead",
+  apiKeyTitle: 'To set up access:',
+  apiKeyCreate: 'Create a Gemini API key in Google AI Studio',
+  apiKeyAdd: 'Add {setting} to {file}',
+  apiKeyRestart: 'Restart {command}',
+  apiKeyOffline: 'Or set {setting} to use the offline demo data',
+  retry: 'Retry',
+  retryIn: 'Retry in {seconds}s',
+
+  // Compare
+  compoundsToCompare: 'Compounds to Compare',
+  compareAddHint: 'Add {min}–{max} compounds by drawing them and pressing send, or by typing names above.',
+  noCompounds: 'No compounds added yet.',
+  compoundLabel: 'Compound {label}',
+  drawnStructure: 'Drawn structure',
+  remove: 'Remove',
+  propertyToCompare: 'Property to compare',
+  compare: 'Compare',
+  acidity: 'Acidity',
+  basicity: 'Basicity',
+  carbocationStability: 'Carbocation stability',
+  radicalStability: 'Free radical stability',
+  nucleophilicity: 'Nucleophilicity',
+  rank: 'Rank',
+  compound: 'Compound',
+  steric: 'Steric',
+  examTip: 'Exam Tip',
+
+  // Mechanism
+  reagentConditions: 'Reagent & Conditions',
+  reagentHint: 'Draw the substrate and press send, or type the reactants above. A typed reaction such as "CH3CH2Br + alc. KOH" needs nothing here.',
+  reagentPlaceholder: 'e.g. alc. KOH',
+  reagentLabel: 'Reagent and conditions',
+  reactionMechanism: 'Reaction mechanism',
+  previousStep: 'Previous step',
+  nextStep: 'Next step',
+  mechanismSteps: 'Mechanism steps',
+  stepNumber: 'Step {index}',
+  rateDetermining: 'rate-determining',
+  slowStep: 'Slow step (rate-determining)',
+  carbocation: 'Carbocation',
+  carbanion: 'Carbanion',
+  radical: 'Radical',
+  intermediate: 'Intermediate',
+  kinetics: 'Kinetics',
+  stereochemistry: 'Stereochemistry',
+  products: 'Products',
+  selectivityRule: '{rule} rule',
+  minor: 'minor',
+
+  // Quiz
+  mcq: 'MCQ',
+  assertionReason: 'Assertion–Reason',
+  integerType: 'Integer type',
+  notAnswered: 'Not answered',
+  assertionLabel: 'Assertion (A):',
+  reasonLabel: 'Reason (R):',
+  bothTrueExplains: 'Both A and R are true, and R is the correct explanation of A',
+  bothTrueNotExplains: 'Both A and R are true, but R is not the correct explanation of A',
+  onlyAssertionTrue: 'A is true, but R is false',
+  onlyReasonTrue: 'A is false, but R is true',
+  quizFor: 'Quiz · {level}',
+  backToExplanation: 'Back to explanation',
+  correct: 'Correct',
+  marks: 'Marks',
+  time: 'Time',
+  markingScheme: '+4 for a correct answer, −1 for a wrong MCQ or assertion-reason answer, no negative marks for integer type.',
+  byTopic: 'By topic',
+  everyAnswerCorrect: 'Every answer correct',
+  reviewMissed: 'Review ({count} to look at again)',
+  yourAnswer: 'Your answer: {answer}',
+  correctAnswer: 'Correct answer: {answer}',
+  retake: 'Retake',
+  partiallyVerifiedQuiz: 'Partially verified quiz.',
+  quizRepairedDetail: 'Some questions were incomplete and have been left out or fixed up:',
+  questionProgress: 'Question {index} of {count} · {answered} answered',
+  timeTaken: 'Time taken',
+  questions: 'Questions',
+  answerLabel: 'Your answer',
+  previous: 'Previous',
+  next: 'Next',
+  submit: 'Submit',
+  submitUnanswered: 'Submit ({count} unanswered)',
+
+  // Photos
+  usePhoto: 'Use a Photo',
+  upload: 'Upload',
+  camera: 'Camera',
+  photoHint: 'Or drop an image anywhere on this side, or paste one with Ctrl+V. JPEG, PNG, WebP and HEIC are accepted.',
+  takePhoto: 'Take a Photo',
+  close: 'Close',
+  cameraUnavailable: 'Live camera preview is not available in this browser.',
+  cameraBlocked: 'Camera access was blocked or no camera was found.',
+  openCameraApp: 'Open camera app',
+  capture: 'Capture',
+  prepareImage: 'Prepare Image',
+  cropHint: 'Drag over the picture to crop it to the structure you want analysed.',
+  preview: 'Preview',
+  imageOpenFailed: 'This image could not be opened.',
+  imageProcessFailed: 'This image could not be processed.',
+  rotateLeft: 'Rotate left',
+  rotateRight: 'Rotate right',
+  cleanUp: 'Clean up',
+  cleanUpTitle: 'Grayscale with extra contrast, for notebook photos',
+  grayscale: 'Grayscale',
+  contrast: 'Contrast',
+  reset: 'Reset',
+  resetTitle: 'Undo all changes',
+  useImage: 'Use image',
+
+  // Worksheet panel
+  worksheetListHint: 'Paste up to {max} compound names, one per line or separated by commas, or load a CSV whose first column holds the names. Each is analysed at the level chosen above and collected into one booklet.',
+  worksheetTitleLabel: 'Worksheet title',
+  worksheetTitlePlaceholder: 'Worksheet title, e.g. Haloalkanes and Haloarenes',
+  compoundNames: 'Compound names',
+  oneCompound: '1 compound',
+  compoundCount: '{count} compounds',
+  atMost: '(at most {max})',
+  loadCsv: 'Load CSV',
+  buildWorksheet: 'Build Worksheet',
+
+  // Profile and template editors
+  curriculumProfiles: 'Curriculum Profiles',
+  exportProfiles: 'Export custom profiles as JSON',
+  importJson: 'Import JSON',
+  inUse: 'In use',
+  builtIn: 'Built-in',
+  builtInProfileNote: 'Built-in profiles cannot be changed. Duplicate this one to make a version for your syllabus.',
+  name: 'Name',
+  basedOnLevel: 'Based on level',
+  basedOnLevelHint: 'Sets the quiz mix, mechanism detail and offline library used.',
+  depthGuidance: 'Depth guidance',
+  topicsToEmphasise: 'Topics to emphasise (one per line, up to {max})',
+  topicsToSkip: 'Topics to leave out (one per line)',
+  examTaggingStyle: 'Exam tagging style',
+  useProfile: 'Use this profile',
+  saveAndUse: 'Save and use',
+  duplicate: 'Duplicate',
+  delete: 'Delete',
+  profileSaved: 'Saved. New analyses use this profile.',
+  saveFailed: 'Save failed.',
+  importFailed: 'Import failed.',
+  importedProfiles: 'Profiles imported: {count}.',
+  importSkipped: 'Skipped: {count}.',
+  promptTemplates: 'Prompt Templates',
+  exportTemplates: 'Export custom templates as JSON',
+  builtInTemplateNote: 'Built-in templates cannot be changed. Duplicate this one to reorder its sections, change its tone or add sections.',
+  templateIntro: 'Opening: persona, tone and audience',
+  templateSections: 'Sections, in the order the prompt asks for them',
+  commonName: 'Common name',
+  iupacName: 'IUPAC name',
+  formulaAndSmiles: 'Formula and SMILES',
+  sectionTitle: 'Section title',
+  answerFormat: 'Answer format',
+  formatList: 'List',
+  formatParagraph: 'Paragraph',
+  moveUp: 'Move up',
+  moveDown: 'Move down',
+  removeSection: 'Remove section',
+  sectionInstruction: 'Instruction',
+  sectionInstructionPlaceholder: 'What the model should write in this section',
+  addSection: 'Add section',
+  newSection: 'New section',
+  queryLine: 'Line added for a typed name',
+  useTemplate: 'Use this template',
+  templateSaved: 'Saved as {version}. New analyses use this template.',
+  importedTemplates: 'Templates imported: {count}.',
+
+  // History and saved answers
+  exportHistory: 'Export as JSON',
+  searchHistory: 'Search name, formula, level...',
+  weakTopicsInQuizzes: 'Weak topics in your quizzes:',
+  showWeakTopic: 'Show compounds with this weak topic',
+  historyEmpty: 'Analyses you run will appear here.',
+  noMatches: 'No matches.',
+  oneQuizAttempt: '1 quiz attempt',
+  quizAttempts: '{count} quiz attempts',
+  lastQuiz: 'Last quiz {correct}/{total}',
+  weakTopicList: 'Weak: {topics}',
+  pin: 'Pin',
+  unpin: 'Unpin',
+  importedEntries: 'Entries imported: {count}.',
+  reuseAnswers: 'Reuse previous answers',
+  keepAnswersFor: 'Keep answers for',
+  maxSavedAnswers: 'Maximum saved answers',
+  oneDay: '1 day',
+  dayCount: '{count} days',
+  savedSize: '{count} saved · {size} KB',
+  noSavedAnswers: 'No saved answers yet.',
+};
+
+export type UiStringKey = keyof typeof EN;
+
+const HI: Record<UiStringKey, string> = {
+  appTagline: 'कार्बनिक रसायन में महारत पाएँ',
+  history: 'इतिहास',
+  savedAnswers: 'सहेजे गए उत्तर',
+  lightMode: 'लाइट मोड चालू करें',
+  darkMode: 'डार्क मोड चालू करें',
+  curriculumLevel: 'पाठ्यक्रम स्तर:',
+  editProfiles: 'पाठ्यक्रम प्रोफ़ाइल संपादित करें',
+  language: 'भाषा:',
+  bilingual: 'द्विभाषी',
+  bilingualHint: 'मुख्य शब्द अंग्रेज़ी में भी दिखाएँ',
+  modeAnalyze: 'एक यौगिक',
+  modeCompare: 'तुलना',
+  modeMechanism: 'क्रियाविधि',
+  modeBatch: 'वर्कशीट',
+  drawStructure: 'संरचना बनाएँ',
+  touchEnabled: 'टच सक्षम',
+  or: 'या',
+  enterReactants: 'अभिकारक लिखें',
+  enterName: 'नाम / सूत्र लिखें',
+  reactantsPlaceholder: 'जैसे CH3CH2Br + alc. KOH',
+  namePlaceholder: 'जैसे Benzene, C6H6, Aspirin...',
+  add: 'जोड़ें',
+  go: 'जाएँ',
+  writingExplanation: 'व्याख्या लिखी जा रही है...',
+  cancel: 'रद्द करें',
+  preparingQuiz: 'आपकी क्विज़ तैयार हो रही है...',
+  comparingCompounds: 'यौगिकों की तुलना हो रही है...',
+  workingOutMechanism: 'क्रियाविधि तैयार हो रही है...',
+  analyzingCompound: 'यौगिक का विश्लेषण हो रहा है...',
+  quizLoadingDetail: 'हमारा AI {level} के लिए {name} पर प्रश्न लिख रहा है।',
+  compareLoadingDetail: 'हमारा AI {level} के लिए हर यौगिक के इलेक्ट्रॉनिक प्रभावों को परख रहा है।',
+  mechanismLoadingDetail: 'हमारा AI {level} के लिए तीरों को चरण-दर-चरण समझा रहा है।',
+  analyzeLoadingDetail: 'हमारा AI संरचना की जाँच कर रहा है और {level} के अनुसार व्याख्या तैयार कर रहा है।',
+  readyToCompare: 'तुलना के लिए तैयार',
+  compareHint: 'दो से पाँच यौगिक जोड़ें, अम्लता या कार्बधनायन स्थायित्व जैसा कोई गुण चुनें, और हर यौगिक के तर्क के साथ क्रमबद्ध तालिका पाएँ।',
+  readyForMechanism: 'क्रियाविधि के लिए तैयार',
+  mechanismHint: 'CH3CH2Br + alc. KOH जैसी अभिक्रिया लिखें, या क्रियाधार बनाकर अभिकर्मक चुनें, और वक्र तीरों, मध्यवर्तियों और उत्पादों को चरण-दर-चरण देखें।',
+  readyForWorksheet: 'वर्कशीट के लिए तैयार',
+  worksheetHint: 'किसी अध्याय के यौगिकों की सूची दें, सबका एक साथ विश्लेषण करें और विषय-सूची, अभ्यास प्रश्नों और उत्तर-कुंजी के साथ एक पुस्तिका निर्यात करें।',
+  readyToAnalyze: 'विश्लेषण के लिए तैयार',
+  analyzeHint: 'बाईं ओर कोई रासायनिक संरचना बनाएँ या उसका नाम लिखें, और अपने पाठ्यक्रम के अनुसार विस्तृत जानकारी पाएँ।',
+  emptyInput: 'कृपया संरचना बनाएँ या नाम लिखें।',
+  retryNotice: 'अस्थायी समस्या, {seconds} सेकंड में फिर कोशिश (प्रयास {attempt})...',
+  offlineTitle: 'आप ऑफ़लाइन हैं',
+  offlineHint: 'अंतर्निहित लाइब्रेरी के नाम अब भी काम करते हैं, और चित्र सहेजकर कनेक्शन लौटने पर विश्लेषित किए जाएंगे।',
+  queuedDrawings: 'प्रतीक्षा में चित्र: {count}',
+  syncingDrawings: 'ऑफ़लाइन रहते सहेजे गए चित्रों का विश्लेषण हो रहा है...',
+  syncedDrawings: 'आपके सहेजे गए चित्रों से विश्लेषित:',
+  queuedFailed: 'एक सहेजे गए चित्र का विश्लेषण नहीं हो सका: {message}',
+  dismiss: 'हटाएँ',
+  tooManyCompounds: 'एक बार में अधिकतम {max} यौगिकों की तुलना की जा सकती है।',
+  justNow: 'अभी-अभी',
+  minutesAgo: '{count} मिनट पहले',
+  hoursAgo: '{count} घंटे पहले',
+  dayAgo: '{count} दिन पहले',
+  daysAgo: '{count} दिन पहले',
+
+  pen: 'पेन',
+  bondTool: 'आबंध (ग्रिड से जुड़ता है)',
+  atomTool: 'परमाणु लेबल',
+  eraser: 'रबर',
+  undo: 'पूर्ववत करें (Ctrl+Z)',
+  redo: 'फिर से करें (Ctrl+Shift+Z)',
+  clearAll: 'सब मिटाएँ',
+  analyzing: 'विश्लेषण हो रहा है...',
+  identify: 'पहचानें',
+  singleBond: 'एकल आबंध',
+  doubleBond: 'द्वि-आबंध',
+  tripleBond: 'त्रि-आबंध',
+  wedgeBond: 'वेज आबंध (देखने वाले की ओर)',
+  dashBond: 'डैश आबंध (देखने वाले से दूर)',
+  lonePair: 'एकाकी इलेक्ट्रॉन युग्म',
+
+  checkFormula: 'सूत्र जाँचें',
+  cachedTitle: 'इस डिवाइस पर सहेजे गए उत्तरों से',
+  cached: 'सहेजा गया',
+  getFresh: 'नया परिणाम लें',
+  promptTemplate: 'प्रॉम्प्ट टेम्पलेट {version}',
+  promptTemplateTitle: 'यह उत्तर किस टेम्पलेट और संस्करण से लिखा गया, ताकि टेम्पलेट बदलने पर उत्तरों की तुलना की जा सके',
+  editTemplates: 'प्रॉम्प्ट टेम्पलेट संपादित करें',
+  offlineLibrary: 'ऑफ़लाइन लाइब्रेरी',
+  offlineLibraryTitle: 'कनेक्शन न होने से अंतर्निहित लाइब्रेरी से उत्तर; लाइब्रेरी के उत्तर अंग्रेज़ी में हैं',
+  yourSketch: 'आपका स्केच',
+  recognisedStructure: 'पहचानी गई संरचना',
+  quizTitle: 'इस यौगिक पर ख़ुद को परखें',
+  quizMe: 'क्विज़ लें',
+  downloadTitle: 'विश्लेषण PDF के रूप में डाउनलोड करें',
+  generating: 'बन रहा है...',
+  downloadPdf: 'PDF डाउनलोड करें',
+  pdfFailed: 'PDF नहीं बन सका। कृपया फिर कोशिश करें।',
+  shareTitle: 'इस विश्लेषण को खोलने वाला लिंक कॉपी करें',
+  shareLink: 'लिंक साझा करें',
+  shareFailed: 'शेयर लिंक नहीं बन सका।',
+  linkCopied: 'लिंक कॉपी हो गया।',
+  copyLink: 'यह लिंक कॉपी करें।',
+  keepShort: 'लिंक छोटा रखने के लिए {notes}।',
+  omitResult: 'परिणाम शामिल नहीं है, लिंक खोलने पर विश्लेषण दोबारा होगा',
+  omitStrokeDetail: 'चित्र को सरल किया गया है',
+  omitSketch: 'केवल बनाई गई संरचना शामिल है, हाथ से खींची रेखाएँ नहीं',
+  omitDrawing: 'चित्र की जगह यौगिक का नाम रखा गया है',
+  includeDrawing: 'मेरा चित्र शामिल करें',
+  partiallyVerified: 'आंशिक रूप से सत्यापित उत्तर।',
+  repairedDetail: 'AI उत्तर के कुछ हिस्से अधूरे या त्रुटिपूर्ण थे और उन्हें भरा या हटाया गया है:',
+  summary: 'शैक्षिक सारांश',
+  analogy: 'रोज़मर्रा की उपमा',
+  keyPoints: 'मुख्य गुण और तथ्य',
+  reactions: 'सामान्य अभिक्रियाएँ/उपयोग',
+  curriculumContext: 'पाठ्यक्रम संदर्भ',
+  funFacts: 'क्या आप जानते हैं?',
+  structureOf: '{name} की संरचना',
+  formulaCheck: 'सूत्र जाँच',
+  computedLocally: 'इसी डिवाइस पर गणना',
+  molarMass: 'मोलर द्रव्यमान',
+  dbe: 'DBE',
+  dbeTitle: 'असंतृप्तता की मात्रा (वलय + π आबंध)',
+  fromName: 'नाम से',
+  oneAtom: '1 परमाणु',
+  atomCount: '{count} परमाणु',
+  formulaUnreadable: 'सूत्र {formula} पढ़ा नहीं जा सका।',
+  formulaNegativeDbe: 'असंभव सूत्र: असंतृप्तता की मात्रा {dbe} है।',
+  formulaOddElectrons: 'असंभव सूत्र: असंतृप्तता की मात्रा {dbe} पूर्ण संख्या नहीं है (विषम इलेक्ट्रॉन संख्या, जो केवल मुक्त मूलक में संभव है)।',
+  formulaNameMismatch: 'सूत्र नाम "{name}" से मेल नहीं खाता (अपेक्षित {expected})।',
+  detailLevel: 'विस्तार का स्तर',
+  reactiveSites: 'अभिक्रियाशील स्थल',
+  resonanceStructures: 'अनुनादी संरचनाएँ',
+  structureIndex: 'संरचना {index} / {count}',
+  structureNumber: 'संरचना {index}',
+  resonanceStructureNumber: 'अनुनादी संरचना {index}',
+  majorContributor: 'मुख्य योगदानकर्ता',
+  showArrows: 'वक्र तीर दिखाएँ',
+  previousStructure: 'पिछली संरचना',
+  nextStructure: 'अगली संरचना',
+  toStructure: 'संरचना {index} तक:',
+
+  levelLabel: 'स्तर',
+  pageOf: 'पृष्ठ {page} / {pages}',
+  yourDrawing: 'आपका चित्र',
+  repairedPdf: 'आंशिक रूप से सत्यापित उत्तर। AI उत्तर के ये हिस्से भरे या हटाए गए: {fields}',
+  electronicEffects: 'इलेक्ट्रॉनिक प्रभाव',
+  group: 'समूह',
+  inductive: 'प्रेरणिक',
+  mesomeric: 'मेसोमेरी',
+  hyperconjugation: 'अतिसंयुग्मन',
+  note: 'टिप्पणी',
+  atom: 'परमाणु',
+  hybridisation: 'संकरण',
+  geometry: 'ज्यामिति',
+  aromaticity: 'ऐरोमैटिकता',
+  piElectrons: '{count} π इलेक्ट्रॉन',
+  reactiveSite: 'अभिक्रियाशील स्थल',
+  kind: 'प्रकार',
+  resonance: 'अनुनाद',
+  major: 'मुख्य',
+  sources: 'स्रोत',
+
+  contents: 'विषय-सूची',
+  sectionCount: '{count} खंड',
+  formula: 'सूत्र',
+  iupac: 'IUPAC',
+  revisionQuestions: 'अभ्यास प्रश्न',
+  answerKey: 'उत्तर-कुंजी',
+  and: 'और',
+  askIupacName: '{name} का IUPAC नाम लिखिए।',
+  askFormula: '{name} का अणुसूत्र लिखिए।',
+  askHybridisation: '{name} में {atom} का संकरण क्या है?',
+  askEffects: '{name} में {group} समूह कौन-से इलेक्ट्रॉनिक प्रभाव दर्शाता है?',
+  askAromaticity: 'क्या {name} ऐरोमैटिक, प्रति-ऐरोमैटिक या अन-ऐरोमैटिक है? अपने उत्तर का कारण दीजिए।',
+  askResonance: '{name} की कितनी अनुनादी संरचनाएँ बनाई जा सकती हैं, और किसका योगदान सबसे अधिक है?',
+  askReaction: '{name} की एक अभिक्रिया या उपयोग बताइए।',
+  worksheetTitle: 'अभ्यास वर्कशीट',
+  retryFailed: '{count} असफल फिर से चलाएँ',
+  analysedCount: '{total} में से {done} विश्लेषित',
+  failedCount: '{count} असफल',
+  includeAnswerKey: 'अभ्यास प्रश्नों की उत्तर-कुंजी शामिल करें',
+  pdfBooklet: 'PDF पुस्तिका',
+  htmlForWord: 'Word के लिए HTML',
+  htmlForWordTitle: 'Word या Google Docs में खुलता है',
+  oneFailedLeftOut: '1 असफल यौगिक निर्यात में शामिल नहीं है।',
+  failedLeftOut: '{count} असफल यौगिक निर्यात में शामिल नहीं हैं।',
+  errorCancelled: 'विश्लेषण रद्द किया गया',
+  errorInvalidInput: 'विश्लेषण के लिए कुछ नहीं है',
+  errorAuth: 'API कुंजी में समस्या',
+  errorRateLimit: 'बहुत अधिक अनुरोध',
+  errorNetwork: 'कनेक्शन में समस्या',
+  errorSafety: 'इनपुट रोका गया',
+  errorMalformedResponse: 'अप्रत्याशित उत्तर',
+  errorUnrecognisedStructure: 'संरचना पहचानी नहीं गई',
+  errorUnknown: 'विश्लेषण विफल रहा',
+  redrawTitle: 'इसे और स्पष्ट रूप से दोबारा बनाकर देखें:',
+  redrawBondTool: 'आबंध उपकरण का उपयोग करें ताकि रेखाएँ हाथ से खींचने के बजाय ग्रिड पर बैठें',
+  redrawLabelAtoms: 'कार्बन के अलावा हर परमाणु पर नाम लिखें (O, N, Cl, OH, NH₂…)',
+  redrawMultipleBonds: 'द्वि और त्रि आबंध साफ़-साफ़ बनाएँ और संरचना बड़ी रखें',
+  redrawOrType: 'या इसके बजाय यौगिक का नाम या सूत्र लिखें',
+  apiKeyTitle: 'पहुँच सेट करने के लिए:',
+  apiKeyCreate: 'Google AI Studio में Gemini API कुंजी बनाएँ',
+  apiKeyAdd: '{file} में {setting} जोड़ें',
+  apiKeyRestart: '{command} फिर से चलाएँ',
+  apiKeyOffline: 'या ऑफ़लाइन डेमो डेटा के लिए {setting} सेट करें',
+  retry: 'फिर से प्रयास करें',
+  retryIn: '{seconds} सेकंड में फिर से प्रयास करें',
+  compoundsToCompare: 'तुलना के लिए यौगिक',
+  compareAddHint: '{min}–{max} यौगिक जोड़ें: उन्हें बनाकर भेजें दबाएँ, या ऊपर नाम लिखें।',
+  noCompounds: 'अभी कोई यौगिक नहीं जोड़ा गया।',
+  compoundLabel: 'यौगिक {label}',
+  drawnStructure: 'बनाई गई संरचना',
+  remove: 'हटाएँ',
+  propertyToCompare: 'तुलना का गुण',
+  compare: 'तुलना करें',
+  acidity: 'अम्लता',
+  basicity: 'क्षारकता',
+  carbocationStability: 'कार्बधनायन स्थायित्व',
+  radicalStability: 'मुक्त मूलक स्थायित्व',
+  nucleophilicity: 'नाभिकरागिता',
+  rank: 'क्रम',
+  compound: 'यौगिक',
+  steric: 'त्रिविम',
+  examTip: 'परीक्षा सुझाव',
+  reagentConditions: 'अभिकर्मक और परिस्थितियाँ',
+  reagentHint: 'क्रियाधार बनाकर भेजें दबाएँ, या ऊपर अभिकारक लिखें। "CH3CH2Br + alc. KOH" जैसी लिखी गई अभिक्रिया के लिए यहाँ कुछ नहीं चाहिए।',
+  reagentPlaceholder: 'जैसे alc. KOH',
+  reagentLabel: 'अभिकर्मक और परिस्थितियाँ',
+  reactionMechanism: 'अभिक्रिया क्रियाविधि',
+  previousStep: 'पिछला चरण',
+  nextStep: 'अगला चरण',
+  mechanismSteps: 'क्रियाविधि के चरण',
+  stepNumber: 'चरण {index}',
+  rateDetermining: 'दर निर्धारक',
+  slowStep: 'धीमा चरण (दर निर्धारक)',
+  carbocation: 'कार्बधनायन',
+  carbanion: 'कार्बऋणायन',
+  radical: 'मुक्त मूलक',
+  intermediate: 'मध्यवर्ती',
+  kinetics: 'बलगतिकी',
+  stereochemistry: 'त्रिविम रसायन',
+  products: 'उत्पाद',
+  selectivityRule: '{rule} नियम',
+  minor: 'गौण',
+  mcq: 'बहुविकल्पी',
+  assertionReason: 'अभिकथन–कारण',
+  integerType: 'पूर्णांक प्रकार',
+  notAnswered: 'उत्तर नहीं दिया',
+  assertionLabel: 'अभिकथन (A):',
+  reasonLabel: 'कारण (R):',
+  bothTrueExplains: 'A और R दोनों सत्य हैं, और R, A की सही व्याख्या है',
+  bothTrueNotExplains: 'A और R दोनों सत्य हैं, पर R, A की सही व्याख्या नहीं है',
+  onlyAssertionTrue: 'A सत्य है, पर R असत्य है',
+  onlyReasonTrue: 'A असत्य है, पर R सत्य है',
+  quizFor: 'क्विज़ · {level}',
+  backToExplanation: 'व्याख्या पर वापस',
+  correct: 'सही',
+  marks: 'अंक',
+  time: 'समय',
+  markingScheme: 'सही उत्तर पर +4, बहुविकल्पी या अभिकथन–कारण के गलत उत्तर पर −1, पूर्णांक प्रकार में कोई ऋणात्मक अंकन नहीं।',
+  byTopic: 'विषयवार',
+  everyAnswerCorrect: 'सभी उत्तर सही',
+  reviewMissed: 'पुनरावलोकन (दोबारा देखने के लिए {count})',
+  yourAnswer: 'आपका उत्तर: {answer}',
+  correctAnswer: 'सही उत्तर: {answer}',
+  retake: 'फिर से दें',
+  partiallyVerifiedQuiz: 'आंशिक रूप से सत्यापित क्विज़।',
+  quizRepairedDetail: 'कुछ प्रश्न अधूरे थे और उन्हें हटा दिया गया या ठीक किया गया:',
+  questionProgress: 'प्रश्न {index} / {count} · {answered} के उत्तर दिए',
+  timeTaken: 'लगा समय',
+  questions: 'प्रश्न',
+  answerLabel: 'आपका उत्तर',
+  previous: 'पिछला',
+  next: 'अगला',
+  submit: 'जमा करें',
+  submitUnanswered: 'जमा करें ({count} अनुत्तरित)',
+  usePhoto: 'फ़ोटो का उपयोग करें',
+  upload: 'अपलोड',
+  camera: 'कैमरा',
+  photoHint: 'या इस ओर कहीं भी चित्र छोड़ें, या Ctrl+V से चिपकाएँ। JPEG, PNG, WebP और HEIC स्वीकार्य हैं।',
+  takePhoto: 'फ़ोटो लें',
+  close: 'बंद करें',
+  cameraUnavailable: 'इस ब्राउज़र में कैमरे का लाइव पूर्वावलोकन उपलब्ध नहीं है।',
+  cameraBlocked: 'कैमरे की अनुमति रोकी गई या कोई कैमरा नहीं मिला।',
+  openCameraApp: 'कैमरा ऐप खोलें',
+  capture: 'खींचें',
+  prepareImage: 'चित्र तैयार करें',
+  cropHint: 'जिस संरचना का विश्लेषण चाहिए, उस तक काटने के लिए चित्र पर खींचें।',
+  preview: 'पूर्वावलोकन',
+  imageOpenFailed: 'यह चित्र खोला नहीं जा सका।',
+  imageProcessFailed: 'यह चित्र संसाधित नहीं हो सका।',
+  rotateLeft: 'बाएँ घुमाएँ',
+  rotateRight: 'दाएँ घुमाएँ',
+  cleanUp: 'साफ़ करें',
+  cleanUpTitle: 'अधिक कंट्रास्ट के साथ श्वेत-श्याम, कॉपी के फ़ोटो के लिए',
+  grayscale: 'श्वेत-श्याम',
+  contrast: 'कंट्रास्ट',
+  reset: 'रीसेट',
+  resetTitle: 'सभी बदलाव पूर्ववत करें',
+  useImage: 'चित्र का उपयोग करें',
+  worksheetListHint: '{max} तक यौगिकों के नाम चिपकाएँ, हर पंक्ति में एक या अल्पविराम से अलग, या ऐसी CSV लोड करें जिसके पहले स्तंभ में नाम हों। हर यौगिक का विश्लेषण ऊपर चुने स्तर पर होता है और सब एक पुस्तिका में जुड़ते हैं।',
+  worksheetTitleLabel: 'वर्कशीट का शीर्षक',
+  worksheetTitlePlaceholder: 'वर्कशीट का शीर्षक, जैसे हैलोऐल्केन और हैलोऐरीन',
+  compoundNames: 'यौगिकों के नाम',
+  oneCompound: '1 यौगिक',
+  compoundCount: '{count} यौगिक',
+  atMost: '(अधिकतम {max})',
+  loadCsv: 'CSV लोड करें',
+  buildWorksheet: 'वर्कशीट बनाएँ',
+  curriculumProfiles: 'पाठ्यक्रम प्रोफ़ाइल',
+  exportProfiles: 'अपनी प्रोफ़ाइल JSON के रूप में निर्यात करें',
+  importJson: 'JSON आयात करें',
+  inUse: 'उपयोग में',
+  builtIn: 'अंतर्निहित',
+  builtInProfileNote: 'अंतर्निहित प्रोफ़ाइल बदली नहीं जा सकतीं। अपने पाठ्यक्रम का संस्करण बनाने के लिए इसकी प्रतिलिपि बनाएँ।',
+  name: 'नाम',
+  basedOnLevel: 'आधार स्तर',
+  basedOnLevelHint: 'क्विज़ का मिश्रण, क्रियाविधि का विस्तार और ऑफ़लाइन लाइब्रेरी इसी से तय होते हैं।',
+  depthGuidance: 'गहराई के निर्देश',
+  topicsToEmphasise: 'ज़ोर देने वाले विषय (हर पंक्ति में एक, अधिकतम {max})',
+  topicsToSkip: 'छोड़े जाने वाले विषय (हर पंक्ति में एक)',
+  examTaggingStyle: 'परीक्षा टैगिंग शैली',
+  useProfile: 'यह प्रोफ़ाइल उपयोग करें',
+  saveAndUse: 'सहेजें और उपयोग करें',
+  duplicate: 'प्रतिलिपि बनाएँ',
+  delete: 'हटाएँ',
+  profileSaved: 'सहेजा गया। नए विश्लेषण इसी प्रोफ़ाइल का उपयोग करेंगे।',
+  saveFailed: 'सहेजना विफल रहा।',
+  importFailed: 'आयात विफल रहा।',
+  importedProfiles: 'आयातित प्रोफ़ाइल: {count}।',
+  importSkipped: 'छोड़ी गईं: {count}।',
+  promptTemplates: 'प्रॉम्प्ट टेम्पलेट',
+  exportTemplates: 'अपने टेम्पलेट JSON के रूप में निर्यात करें',
+  builtInTemplateNote: 'अंतर्निहित टेम्पलेट बदले नहीं जा सकते। खंडों का क्रम, लहजा बदलने या खंड जोड़ने के लिए इसकी प्रतिलिपि बनाएँ।',
+  templateIntro: 'आरंभ: भूमिका, लहजा और पाठक',
+  templateSections: 'खंड, उसी क्रम में जिसमें प्रॉम्प्ट उन्हें माँगता है',
+  commonName: 'सामान्य नाम',
+  iupacName: 'IUPAC नाम',
+  formulaAndSmiles: 'सूत्र और SMILES',
+  sectionTitle: 'खंड का शीर्षक',
+  answerFormat: 'उत्तर का प्रारूप',
+  formatList: 'सूची',
+  formatParagraph: 'अनुच्छेद',
+  moveUp: 'ऊपर ले जाएँ',
+  moveDown: 'नीचे ले जाएँ',
+  removeSection: 'खंड हटाएँ',
+  sectionInstruction: 'निर्देश',
+  sectionInstructionPlaceholder: 'मॉडल इस खंड में क्या लिखे',
+  addSection: 'खंड जोड़ें',
+  newSection: 'नया खंड',
+  queryLine: 'लिखे गए नाम के लिए जोड़ी जाने वाली पंक्ति',
+  useTemplate: 'यह टेम्पलेट उपयोग करें',
+  templateSaved: '{version} के रूप में सहेजा गया। नए विश्लेषण इसी टेम्पलेट का उपयोग करेंगे।',
+  importedTemplates: 'आयातित टेम्पलेट: {count}।',
+  exportHistory: 'JSON के रूप में निर्यात करें',
+  searchHistory: 'नाम, सूत्र, स्तर खोजें...',
+  weakTopicsInQuizzes: 'आपकी क्विज़ के कमज़ोर विषय:',
+  showWeakTopic: 'इस कमज़ोर विषय वाले यौगिक दिखाएँ',
+  historyEmpty: 'आपके किए गए विश्लेषण यहाँ दिखेंगे।',
+  noMatches: 'कोई मेल नहीं मिला।',
+  oneQuizAttempt: '1 क्विज़ प्रयास',
+  quizAttempts: '{count} क्विज़ प्रयास',
+  lastQuiz: 'पिछली क्विज़ {correct}/{total}',
+  weakTopicList: 'कमज़ोर: {topics}',
+  pin: 'पिन करें',
+  unpin: 'पिन हटाएँ',
+  importedEntries: 'आयातित प्रविष्टियाँ: {count}।',
+  reuseAnswers: 'पिछले उत्तर दोबारा उपयोग करें',
+  keepAnswersFor: 'उत्तर कितने समय रखें',
+  maxSavedAnswers: 'सहेजे गए उत्तरों की अधिकतम संख्या',
+  oneDay: '1 दिन',
+  dayCount: '{count} दिन',
+  savedSize: '{count} सहेजे गए · {size} KB',
+  noSavedAnswers: 'अभी कोई सहेजा गया उत्तर नहीं।',
+};
+
+const MR: Record<UiStringKey, string> = {
+  appTagline: 'सेंद्रिय रसायनशास्त्रात प्रावीण्य मिळवा',
+  history: 'इतिहास',
+  savedAnswers: 'जतन केलेली उत्तरे',
+  lightMode: 'लाइट मोड सुरू करा',
+  darkMode: 'डार्क मोड सुरू करा',
+  curriculumLevel: 'अभ्यासक्रम स्तर:',
+  editProfiles: 'अभ्यासक्रम प्रोफाइल संपादित करा',
+  language: 'भाषा:',
+  bilingual: 'द्विभाषिक',
+  bilingualHint: 'महत्त्वाचे शब्द इंग्रजीतही दाखवा',
+  modeAnalyze: 'एक संयुग',
+  modeCompare: 'तुलना',
+  modeMechanism: 'यंत्रणा',
+  modeBatch: 'वर्कशीट',
+  drawStructure: 'रचना काढा',
+  touchEnabled: 'टच सक्षम',
+  or: 'किंवा',
+  enterReactants: 'अभिक्रियाकारके लिहा',
+  enterName: 'नाव / सूत्र लिहा',
+  reactantsPlaceholder: 'उदा. CH3CH2Br + alc. KOH',
+  namePlaceholder: 'उदा. Benzene, C6H6, Aspirin...',
+  add: 'जोडा',
+  go: 'चला',
+  writingExplanation: 'स्पष्टीकरण लिहिले जात आहे...',
+  cancel: 'रद्द करा',
+  preparingQuiz: 'तुमची प्रश्नमंजूषा तयार होत आहे...',
+  comparingCompounds: 'संयुगांची तुलना होत आहे...',
+  workingOutMechanism: 'यंत्रणा तयार होत आहे...',
+  analyzingCompound: 'संयुगाचे विश्लेषण होत आहे...',
+  quizLoadingDetail: 'आमचे AI {level} साठी {name} वर प्रश्न लिहित आहे.',
+  compareLoadingDetail: 'आमचे AI {level} साठी प्रत्येक संयुगाचे इलेक्ट्रॉनिक परिणाम तपासत आहे.',
+  mechanismLoadingDetail: 'आमचे AI {level} साठी बाण टप्प्याटप्प्याने मांडत आहे.',
+  analyzeLoadingDetail: 'आमचे AI रचना तपासत आहे आणि {level} नुसार स्पष्टीकरण तयार करत आहे.',
+  readyToCompare: 'तुलनेसाठी तयार',
+  compareHint: 'दोन ते पाच संयुगे जोडा, आम्लता किंवा कार्बोकॅटायन स्थिरता यांसारखा गुणधर्म निवडा आणि प्रत्येकाच्या कारणमीमांसेसह क्रमवार तक्ता मिळवा.',
+  readyForMechanism: 'यंत्रणेसाठी तयार',
+  mechanismHint: 'CH3CH2Br + alc. KOH सारखी अभिक्रिया लिहा, किंवा सब्सट्रेट काढून अभिकर्मक निवडा, आणि वक्र बाण, मध्यस्थ व उत्पादिते टप्प्याटप्प्याने पाहा.',
+  readyForWorksheet: 'वर्कशीटसाठी तयार',
+  worksheetHint: 'एखाद्या प्रकरणातील संयुगांची यादी द्या, सर्वांचे एकत्र विश्लेषण करा आणि अनुक्रमणिका, सराव प्रश्न व उत्तरसूचीसह एक पुस्तिका निर्यात करा.',
+  readyToAnalyze: 'विश्लेषणासाठी तयार',
+  analyzeHint: 'डावीकडे रासायनिक रचना काढा किंवा तिचे नाव लिहा आणि तुमच्या अभ्यासक्रमानुसार सविस्तर माहिती मिळवा.',
+  emptyInput: 'कृपया रचना काढा किंवा नाव लिहा.',
+  retryNotice: 'तात्पुरती अडचण, {seconds} सेकंदांत पुन्हा प्रयत्न (प्रयत्न {attempt})...',
+  offlineTitle: 'तुम्ही ऑफलाइन आहात',
+  offlineHint: 'अंगभूत संग्रहातील नावे अजूनही चालतात, आणि आकृत्या जतन करून कनेक्शन परत आल्यावर विश्लेषित केल्या जातील.',
+  queuedDrawings: 'प्रतीक्षेतील आकृत्या: {count}',
+  syncingDrawings: 'ऑफलाइन असताना जतन केलेल्या आकृत्यांचे विश्लेषण सुरू आहे...',
+  syncedDrawings: 'तुमच्या जतन केलेल्या आकृत्यांतून विश्लेषित:',
+  queuedFailed: 'एका जतन केलेल्या आकृतीचे विश्लेषण होऊ शकले नाही: {message}',
+  dismiss: 'बंद करा',
+  tooManyCompounds: 'एका वेळी जास्तीत जास्त {max} संयुगांची तुलना करता येते.',
+  justNow: 'आत्ताच',
+  minutesAgo: '{count} मिनिटांपूर्वी',
+  hoursAgo: '{count} तासांपूर्वी',
+  dayAgo: '{count} दिवसापूर्वी',
+  daysAgo: '{count} दिवसांपूर्वी',
+
+  pen: 'पेन',
+  bondTool: 'बंध (ग्रिडला जुळतो)',
+  atomTool: 'अणू लेबल',
+  eraser: 'खोडरबर',
+  undo: 'पूर्ववत करा (Ctrl+Z)',
+  redo: 'पुन्हा करा (Ctrl+Shift+Z)',
+  clearAll: 'सर्व पुसा',
+  analyzing: 'विश्लेषण होत आहे...',
+  identify: 'ओळखा',
+  singleBond: 'एकेरी बंध',
+  doubleBond: 'दुहेरी बंध',
+  tripleBond: 'तिहेरी बंध',
+  wedgeBond: 'वेज बंध (पाहणाऱ्याकडे)',
+  dashBond: 'डॅश बंध (पाहणाऱ्यापासून दूर)',
+  lonePair: 'एकाकी इलेक्ट्रॉन जोडी',
+
+  checkFormula: 'सूत्र तपासा',
+  cachedTitle: 'या उपकरणावरील जतन केलेल्या उत्तरांतून',
+  cached: 'जतन केलेले',
+  getFresh: 'नवीन निकाल मिळवा',
+  promptTemplate: 'प्रॉम्प्ट टेम्पलेट {version}',
+  promptTemplateTitle: 'हे उत्तर कोणत्या टेम्पलेट आणि आवृत्तीने लिहिले गेले, जेणेकरून टेम्पलेट बदलल्यावर उत्तरांची तुलना करता येईल',
+  editTemplates: 'प्रॉम्प्ट टेम्पलेट संपादित करा',
+  offlineLibrary: 'ऑफलाइन संग्रह',
+  offlineLibraryTitle: 'कनेक्शन नसल्याने अंगभूत संग्रहातून उत्तर; संग्रहातील उत्तरे इंग्रजीत आहेत',
+  yourSketch: 'तुमचे रेखाटन',
+  recognisedStructure: 'ओळखलेली रचना',
+  quizTitle: 'या संयुगावर स्वतःची परीक्षा घ्या',
+  quizMe: 'प्रश्नमंजूषा',
+  downloadTitle: 'विश्लेषण PDF म्हणून डाउनलोड करा',
+  generating: 'तयार होत आहे...',
+  downloadPdf: 'PDF डाउनलोड करा',
+  pdfFailed: 'PDF तयार करता आले नाही. कृपया पुन्हा प्रयत्न करा.',
+  shareTitle: 'हे विश्लेषण उघडणारी लिंक कॉपी करा',
+  shareLink: 'लिंक शेअर करा',
+  shareFailed: 'शेअर लिंक तयार करता आली नाही.',
+  linkCopied: 'लिंक कॉपी झाली.',
+  copyLink: 'ही लिंक कॉपी करा.',
+  keepShort: 'लिंक लहान ठेवण्यासाठी {notes}.',
+  omitResult: 'निकाल समाविष्ट नाही, लिंक उघडल्यावर विश्लेषण पुन्हा होईल',
+  omitStrokeDetail: 'चित्र सोपे केले आहे',
+  omitSketch: 'फक्त काढलेली रचना समाविष्ट आहे, हाताने काढलेल्या रेषा नाहीत',
+  omitDrawing: 'चित्राऐवजी संयुगाचे नाव वापरले आहे',
+  includeDrawing: 'माझे चित्र समाविष्ट करा',
+  partiallyVerified: 'अंशतः पडताळलेले उत्तर.',
+  repairedDetail: 'AI उत्तराचे काही भाग अपूर्ण किंवा सदोष होते आणि ते भरले किंवा काढले आहेत:',
+  summary: 'शैक्षणिक सारांश',
+  analogy: 'दैनंदिन जीवनातील उपमा',
+  keyPoints: 'महत्त्वाचे गुणधर्म व तथ्ये',
+  reactions: 'सामान्य अभिक्रिया/उपयोग',
+  curriculumContext: 'अभ्यासक्रम संदर्भ',
+  funFacts: 'तुम्हाला माहीत आहे का?',
+  structureOf: '{name} ची रचना',
+  formulaCheck: 'सूत्र तपासणी',
+  computedLocally: 'याच उपकरणावर गणना',
+  molarMass: 'मोलर वस्तुमान',
+  dbe: 'DBE',
+  dbeTitle: 'असंपृक्ततेचे प्रमाण (वलये + π बंध)',
+  fromName: 'नावावरून',
+  oneAtom: '1 अणू',
+  atomCount: '{count} अणू',
+  formulaUnreadable: 'सूत्र {formula} वाचता आले नाही.',
+  formulaNegativeDbe: 'अशक्य सूत्र: असंपृक्ततेचे प्रमाण {dbe} आहे.',
+  formulaOddElectrons: 'अशक्य सूत्र: असंपृक्ततेचे प्रमाण {dbe} पूर्ण संख्या नाही (विषम इलेक्ट्रॉन संख्या, जी फक्त मुक्त मूलकात शक्य आहे).',
+  formulaNameMismatch: 'सूत्र "{name}" या नावाशी जुळत नाही (अपेक्षित {expected}).',
+  detailLevel: 'तपशिलाचा स्तर',
+  reactiveSites: 'अभिक्रियाशील स्थाने',
+  resonanceStructures: 'अनुनादी रचना',
+  structureIndex: 'रचना {index} / {count}',
+  structureNumber: 'रचना {index}',
+  resonanceStructureNumber: 'अनुनादी रचना {index}',
+  majorContributor: 'प्रमुख योगदानकर्ता',
+  showArrows: 'वक्र बाण दाखवा',
+  previousStructure: 'मागील रचना',
+  nextStructure: 'पुढील रचना',
+  toStructure: 'रचना {index} कडे:',
+
+  levelLabel: 'स्तर',
+  pageOf: 'पान {page} / {pages}',
+  yourDrawing: 'तुमचे चित्र',
+  repairedPdf: 'अंशतः पडताळलेले उत्तर. AI उत्तराचे हे भाग भरले किंवा काढले: {fields}',
+  electronicEffects: 'इलेक्ट्रॉनिक परिणाम',
+  group: 'गट',
+  inductive: 'प्रवर्तनी',
+  mesomeric: 'मेसोमेरिक',
+  hyperconjugation: 'अतिसंयुग्मन',
+  note: 'टीप',
+  atom: 'अणू',
+  hybridisation: 'संकरण',
+  geometry: 'भूमिती',
+  aromaticity: 'सुगंधीपणा',
+  piElectrons: '{count} π इलेक्ट्रॉन',
+  reactiveSite: 'अभिक्रियाशील स्थान',
+  kind: 'प्रकार',
+  resonance: 'अनुनाद',
+  major: 'प्रमुख',
+  sources: 'स्रोत',
+
+  contents: 'अनुक्रमणिका',
+  sectionCount: '{count} विभाग',
+  formula: 'सूत्र',
+  iupac: 'IUPAC',
+  revisionQuestions: 'सराव प्रश्न',
+  answerKey: 'उत्तरसूची',
+  and: 'आणि',
+  askIupacName: '{name} चे IUPAC नाव लिहा.',
+  askFormula: '{name} चे रेणुसूत्र लिहा.',
+  askHybridisation: '{name} मधील {atom} चे संकरण कोणते आहे?',
+  askEffects: '{name} मधील {group} गट कोणते इलेक्ट्रॉनिक परिणाम दर्शवतो?',
+  askAromaticity: '{name} सुगंधी, प्रतिसुगंधी की असुगंधी आहे? तुमच्या उत्तराचे कारण द्या.',
+  askResonance: '{name} च्या किती अनुनादी रचना काढता येतात, आणि कोणत्या रचनेचा वाटा सर्वाधिक आहे?',
+  askReaction: '{name} ची एक अभिक्रिया किंवा उपयोग सांगा.',
+  worksheetTitle: 'सराव वर्कशीट',
+  retryFailed: '{count} अयशस्वी पुन्हा चालवा',
+  analysedCount: '{total} पैकी {done} विश्लेषित',
+  failedCount: '{count} अयशस्वी',
+  includeAnswerKey: 'सराव प्रश्नांची उत्तरसूची समाविष्ट करा',
+  pdfBooklet: 'PDF पुस्तिका',
+  htmlForWord: 'Word साठी HTML',
+  htmlForWordTitle: 'Word किंवा Google Docs मध्ये उघडते',
+  oneFailedLeftOut: '1 अयशस्वी संयुग निर्यातात समाविष्ट नाही.',
+  failedLeftOut: '{count} अयशस्वी संयुगे निर्यातात समाविष्ट नाहीत.',
+  errorCancelled: 'विश्लेषण रद्द केले',
+  errorInvalidInput: 'विश्लेषणासाठी काहीही नाही',
+  errorAuth: 'API की मध्ये समस्या',
+  errorRateLimit: 'खूप जास्त विनंत्या',
+  errorNetwork: 'कनेक्शनमध्ये समस्या',
+  errorSafety: 'इनपुट रोखले गेले',
+  errorMalformedResponse: 'अनपेक्षित उत्तर',
+  errorUnrecognisedStructure: 'रचना ओळखता आली नाही',
+  errorUnknown: 'विश्लेषण अयशस्वी झाले',
+  redrawTitle: 'ती अधिक स्पष्टपणे पुन्हा काढून पाहा:',
+  redrawBondTool: 'बंध साधन वापरा म्हणजे रेषा हाताने काढण्याऐवजी ग्रिडवर बसतील',
+  redrawLabelAtoms: 'कार्बन सोडून प्रत्येक अणूवर नाव लिहा (O, N, Cl, OH, NH₂…)',
+  redrawMultipleBonds: 'द्वि आणि त्रि बंध स्पष्टपणे काढा आणि रचना मोठी ठेवा',
+  redrawOrType: 'किंवा त्याऐवजी संयुगाचे नाव किंवा सूत्र लिहा',
+  apiKeyTitle: 'प्रवेश सेट करण्यासाठी:',
+  apiKeyCreate: 'Google AI Studio मध्ये Gemini API की तयार करा',
+  apiKeyAdd: '{file} मध्ये {setting} जोडा',
+  apiKeyRestart: '{command} पुन्हा चालवा',
+  apiKeyOffline: 'किंवा ऑफलाइन डेमो डेटा वापरण्यासाठी {setting} सेट करा',
+  retry: 'पुन्हा प्रयत्न करा',
+  retryIn: '{seconds} सेकंदांत पुन्हा प्रयत्न करा',
+  compoundsToCompare: 'तुलनेसाठी संयुगे',
+  compareAddHint: '{min}–{max} संयुगे जोडा: ती काढून पाठवा दाबा, किंवा वर नावे लिहा.',
+  noCompounds: 'अजून कोणतेही संयुग जोडलेले नाही.',
+  compoundLabel: 'संयुग {label}',
+  drawnStructure: 'काढलेली रचना',
+  remove: 'काढा',
+  propertyToCompare: 'तुलनेचा गुणधर्म',
+  compare: 'तुलना करा',
+  acidity: 'आम्लता',
+  basicity: 'आम्लारीता',
+  carbocationStability: 'कार्बोकॅटायन स्थिरता',
+  radicalStability: 'मुक्त मूलक स्थिरता',
+  nucleophilicity: 'केंद्रकस्नेहिता',
+  rank: 'क्रम',
+  compound: 'संयुग',
+  steric: 'त्रिमितीय',
+  examTip: 'परीक्षा टीप',
+  reagentConditions: 'अभिकर्मक आणि परिस्थिती',
+  reagentHint: 'क्रियाधार काढून पाठवा दाबा, किंवा वर अभिकारक लिहा. "CH3CH2Br + alc. KOH" अशा लिहिलेल्या अभिक्रियेसाठी येथे काहीही लागत नाही.',
+  reagentPlaceholder: 'उदा. alc. KOH',
+  reagentLabel: 'अभिकर्मक आणि परिस्थिती',
+  reactionMechanism: 'अभिक्रिया यंत्रणा',
+  previousStep: 'मागील पायरी',
+  nextStep: 'पुढील पायरी',
+  mechanismSteps: 'यंत्रणेच्या पायऱ्या',
+  stepNumber: 'पायरी {index}',
+  rateDetermining: 'दर निर्धारक',
+  slowStep: 'संथ पायरी (दर निर्धारक)',
+  carbocation: 'कार्बोकॅटायन',
+  carbanion: 'कार्बॅनायन',
+  radical: 'मुक्त मूलक',
+  intermediate: 'मध्यस्थ',
+  kinetics: 'गतिकी',
+  stereochemistry: 'त्रिमितीय रसायनशास्त्र',
+  products: 'उत्पादिते',
+  selectivityRule: '{rule} नियम',
+  minor: 'गौण',
+  mcq: 'बहुपर्यायी',
+  assertionReason: 'विधान–कारण',
+  integerType: 'पूर्णांक प्रकार',
+  notAnswered: 'उत्तर दिले नाही',
+  assertionLabel: 'विधान (A):',
+  reasonLabel: 'कारण (R):',
+  bothTrueExplains: 'A आणि R दोन्ही सत्य आहेत, आणि R हे A चे योग्य स्पष्टीकरण आहे',
+  bothTrueNotExplains: 'A आणि R दोन्ही सत्य आहेत, पण R हे A चे योग्य स्पष्टीकरण नाही',
+  onlyAssertionTrue: 'A सत्य आहे, पण R असत्य आहे',
+  onlyReasonTrue: 'A असत्य आहे, पण R सत्य आहे',
+  quizFor: 'क्विझ · {level}',
+  backToExplanation: 'स्पष्टीकरणाकडे परत',
+  correct: 'बरोबर',
+  marks: 'गुण',
+  time: 'वेळ',
+  markingScheme: 'बरोबर उत्तराला +4, बहुपर्यायी किंवा विधान–कारणाच्या चुकीच्या उत्तराला −1, पूर्णांक प्रकारात ऋण गुण नाहीत.',
+  byTopic: 'विषयानुसार',
+  everyAnswerCorrect: 'सर्व उत्तरे बरोबर',
+  reviewMissed: 'पुनरावलोकन (पुन्हा पाहण्यासाठी {count})',
+  yourAnswer: 'तुमचे उत्तर: {answer}',
+  correctAnswer: 'बरोबर उत्तर: {answer}',
+  retake: 'पुन्हा द्या',
+  partiallyVerifiedQuiz: 'अंशतः पडताळलेली क्विझ.',
+  quizRepairedDetail: 'काही प्रश्न अपूर्ण होते आणि ते वगळले किंवा दुरुस्त केले आहेत:',
+  questionProgress: 'प्रश्न {index} / {count} · {answered} उत्तरे दिली',
+  timeTaken: 'लागलेला वेळ',
+  questions: 'प्रश्न',
+  answerLabel: 'तुमचे उत्तर',
+  previous: 'मागील',
+  next: 'पुढील',
+  submit: 'सादर करा',
+  submitUnanswered: 'सादर करा ({count} अनुत्तरित)',
+  usePhoto: 'फोटो वापरा',
+  upload: 'अपलोड',
+  camera: 'कॅमेरा',
+  photoHint: 'किंवा या बाजूला कुठेही चित्र सोडा, किंवा Ctrl+V ने चिकटवा. JPEG, PNG, WebP आणि HEIC स्वीकारले जातात.',
+  takePhoto: 'फोटो घ्या',
+  close: 'बंद करा',
+  cameraUnavailable: 'या ब्राउझरमध्ये कॅमेऱ्याचे थेट पूर्वावलोकन उपलब्ध नाही.',
+  cameraBlocked: 'कॅमेऱ्याची परवानगी रोखली गेली किंवा कॅमेरा सापडला नाही.',
+  openCameraApp: 'कॅमेरा ॲप उघडा',
+  capture: 'टिपा',
+  prepareImage: 'चित्र तयार करा',
+  cropHint: 'ज्या रचनेचे विश्लेषण हवे आहे तिथपर्यंत कापण्यासाठी चित्रावर ओढा.',
+  preview: 'पूर्वावलोकन',
+  imageOpenFailed: 'हे चित्र उघडता आले नाही.',
+  imageProcessFailed: 'या चित्रावर प्रक्रिया करता आली नाही.',
+  rotateLeft: 'डावीकडे फिरवा',
+  rotateRight: 'उजवीकडे फिरवा',
+  cleanUp: 'स्वच्छ करा',
+  cleanUpTitle: 'जास्त कॉन्ट्रास्टसह कृष्णधवल, वहीच्या फोटोंसाठी',
+  grayscale: 'कृष्णधवल',
+  contrast: 'कॉन्ट्रास्ट',
+  reset: 'रीसेट',
+  resetTitle: 'सर्व बदल पूर्ववत करा',
+  useImage: 'चित्र वापरा',
+  worksheetListHint: '{max} पर्यंत संयुगांची नावे चिकटवा, प्रत्येक ओळीत एक किंवा स्वल्पविरामाने वेगळी, किंवा पहिल्या स्तंभात नावे असलेली CSV लोड करा. प्रत्येक संयुगाचे विश्लेषण वर निवडलेल्या स्तरावर होते आणि सर्व एका पुस्तिकेत जमा होतात.',
+  worksheetTitleLabel: 'वर्कशीटचे शीर्षक',
+  worksheetTitlePlaceholder: 'वर्कशीटचे शीर्षक, उदा. हॅलोअल्केन आणि हॅलोअरीन',
+  compoundNames: 'संयुगांची नावे',
+  oneCompound: '1 संयुग',
+  compoundCount: '{count} संयुगे',
+  atMost: '(जास्तीत जास्त {max})',
+  loadCsv: 'CSV लोड करा',
+  buildWorksheet: 'वर्कशीट तयार करा',
+  curriculumProfiles: 'अभ्यासक्रम प्रोफाइल',
+  exportProfiles: 'तुमचे प्रोफाइल JSON म्हणून निर्यात करा',
+  importJson: 'JSON आयात करा',
+  inUse: 'वापरात',
+  builtIn: 'अंगभूत',
+  builtInProfileNote: 'अंगभूत प्रोफाइल बदलता येत नाहीत. तुमच्या अभ्यासक्रमाची आवृत्ती बनवण्यासाठी याची प्रत तयार करा.',
+  name: 'नाव',
+  basedOnLevel: 'आधार स्तर',
+  basedOnLevelHint: 'क्विझचे मिश्रण, यंत्रणेचा तपशील आणि ऑफलाइन लायब्ररी यावरून ठरतात.',
+  depthGuidance: 'सखोलतेच्या सूचना',
+  topicsToEmphasise: 'भर द्यायचे विषय (प्रत्येक ओळीत एक, जास्तीत जास्त {max})',
+  topicsToSkip: 'वगळायचे विषय (प्रत्येक ओळीत एक)',
+  examTaggingStyle: 'परीक्षा टॅगिंग शैली',
+  useProfile: 'हे प्रोफाइल वापरा',
+  saveAndUse: 'जतन करा आणि वापरा',
+  duplicate: 'प्रत तयार करा',
+  delete: 'हटवा',
+  profileSaved: 'जतन केले. नवीन विश्लेषणे हे प्रोफाइल वापरतील.',
+  saveFailed: 'जतन करणे अयशस्वी झाले.',
+  importFailed: 'आयात अयशस्वी झाली.',
+  importedProfiles: 'आयात केलेले प्रोफाइल: {count}.',
+  importSkipped: 'वगळले: {count}.',
+  promptTemplates: 'प्रॉम्प्ट टेम्पलेट',
+  exportTemplates: 'तुमचे टेम्पलेट JSON म्हणून निर्यात करा',
+  builtInTemplateNote: 'अंगभूत टेम्पलेट बदलता येत नाहीत. विभागांचा क्रम, शैली बदलण्यासाठी किंवा विभाग जोडण्यासाठी याची प्रत तयार करा.',
+  templateIntro: 'सुरुवात: भूमिका, शैली आणि वाचक',
+  templateSections: 'विभाग, प्रॉम्प्ट ज्या क्रमाने मागतो त्या क्रमाने',
+  commonName: 'सामान्य नाव',
+  iupacName: 'IUPAC नाव',
+  formulaAndSmiles: 'सूत्र आणि SMILES',
+  sectionTitle: 'विभागाचे शीर्षक',
+  answerFormat: 'उत्तराचे स्वरूप',
+  formatList: 'यादी',
+  formatParagraph: 'परिच्छेद',
+  moveUp: 'वर हलवा',
+  moveDown: 'खाली हलवा',
+  removeSection: 'विभाग काढा',
+  sectionInstruction: 'सूचना',
+  sectionInstructionPlaceholder: 'मॉडेलने या विभागात काय लिहावे',
+  addSection: 'विभाग जोडा',
+  newSection: 'नवीन विभाग',
+  queryLine: 'लिहिलेल्या नावासाठी जोडली जाणारी ओळ',
+  useTemplate: 'हे टेम्पलेट वापरा',
+  templateSaved: '{version} म्हणून जतन केले. नवीन विश्लेषणे हे टेम्पलेट वापरतील.',
+  importedTemplates: 'आयात केलेले टेम्पलेट: {count}.',
+  exportHistory: 'JSON म्हणून निर्यात करा',
+  searchHistory: 'नाव, सूत्र, स्तर शोधा...',
+  weakTopicsInQuizzes: 'तुमच्या क्विझमधील कच्चे विषय:',
+  showWeakTopic: 'हा कच्चा विषय असलेली संयुगे दाखवा',
+  historyEmpty: 'तुम्ही केलेली विश्लेषणे येथे दिसतील.',
+  noMatches: 'काहीही जुळले नाही.',
+  oneQuizAttempt: '1 क्विझ प्रयत्न',
+  quizAttempts: '{count} क्विझ प्रयत्न',
+  lastQuiz: 'मागील क्विझ {correct}/{total}',
+  weakTopicList: 'कच्चे: {topics}',
+  pin: 'पिन करा',
+  unpin: 'पिन काढा',
+  importedEntries: 'आयात केलेल्या नोंदी: {count}.',
+  reuseAnswers: 'मागील उत्तरे पुन्हा वापरा',
+  keepAnswersFor: 'उत्तरे किती काळ ठेवायची',
+  maxSavedAnswers: 'जतन केलेल्या उत्तरांची कमाल संख्या',
+  oneDay: '1 दिवस',
+  dayCount: '{count} दिवस',
+  savedSize: '{count} जतन केलेली · {size} KB',
+  noSavedAnswers: 'अजून कोणतेही जतन केलेले उत्तर नाही.',
+};
+
+const TABLES: Record<Language, Record<UiStringKey, string>> = {
+  [Language.ENGLISH]: EN,
+  [Language.HINDI]: HI,
+  [Language.MARATHI]: MR,
+};
+
+/** UI strings for the comparison properties, whose enum values are the English the prompt is written in */
+export const COMPARISON_PROPERTY_KEYS: Record<ComparisonProperty, UiStringKey> = {
+  [ComparisonProperty.ACIDITY]: 'acidity',
+  [ComparisonProperty.BASICITY]: 'basicity',
+  [ComparisonProperty.CARBOCATION_STABILITY]: 'carbocationStability',
+  [ComparisonProperty.RADICAL_STABILITY]: 'radicalStability',
+  [ComparisonProperty.NUCLEOPHILICITY]: 'nucleophilicity',
+};
+
+// Chemistry vocabulary a student meets in English textbooks and exams; bilingual mode adds the English after these
+const TERM_KEYS = new Set<UiStringKey>([
+  'singleBond', 'doubleBond', 'tripleBond', 'wedgeBond', 'dashBond', 'lonePair',
+  'recognisedStructure', 'summary', 'keyPoints', 'reactions', 'curriculumContext',
+  'electronicEffects', 'inductive', 'mesomeric', 'hyperconjugation', 'hybridisation', 'geometry', 'aromaticity',
+  'reactiveSite', 'reactiveSites', 'resonance', 'resonanceStructures',
+  'acidity', 'basicity', 'carbocationStability', 'radicalStability', 'nucleophilicity', 'steric',
+  'carbocation', 'carbanion', 'radical', 'intermediate', 'kinetics', 'stereochemistry',
+]);
+
+export type Translate = (key: UiStringKey, values?: Record<string, string | number>) => string;
+
+const fill = (template: string, values: Record<string, string | number> = {}) =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in values ? String(values[name]) : placeholder));
+
+/**
+ * UI strings for a language. In bilingual mode chemistry terms read "हिन्दी (English)", so students can match
+ * them to their English-medium books and exam papers.
+ */
+export const translator = (language: Language, bilingual = false): Translate => {
+  const table = TABLES[language];
+  return (key, values) => {
+    const text = fill(table[key], values);
+    return bilingual && language !== Language.ENGLISH && TERM_KEYS.has(key) ? `${text} (${fill(EN[key], values)})` : text;
+  };
+};
@@ -0,0 +1,131 @@
+export const loadImage = (dataUrl: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not decode image'));
+    image.src = dataUrl;
+  });
+
+/** Scales an image down to fit `maxSize` on its longer side, as a small JPEG data URL */
+export const createThumbnail = async (dataUrl: string, maxSize = 160): Promise<string> => {
+  const image = await loadImage(dataUrl);
+  const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.6);
+};
+
+/** Longest side of an uploaded photo after clean-up; larger images only cost upload time and tokens */
+export const MAX_UPLOAD_SIZE = 1600;
+
+const HEIC_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+
+/** Phones often save HEIC with an empty or generic type, so the extension is checked too */
+export const isHeic = (file: Blob) =>
+  HEIC_TYPES.includes(file.type.toLowerCase()) || (file instanceof File && /\.hei[cf]$/i.test(file.name));
+
+export const isImageFile = (file: Blob) => file.type.startsWith('image/') || isHeic(file);
+
+const readAsDataUrl = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error('Could not read the file.'));
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Reads an uploaded, dropped or pasted image as a data URL the browser can draw. Everything goes through a canvas
+ * afterwards, so HEIC and WebP come out as JPEG; HEIC only decodes where the browser supports it (Safari).
+ */
+export const readImageFile = async (file: Blob): Promise<string> => {
+  if (!isImageFile(file)) throw new Error('That file is not an image. Upload a photo or a screenshot.');
+  let dataUrl = await readAsDataUrl(file);
+  // Some browsers label HEIC as octet-stream, which <img> refuses to decode
+  if (isHeic(file)) dataUrl = dataUrl.replace(/^data:[^;,]*/, 'data:image/heic');
+  try {
+    await loadImage(dataUrl);
+  } catch {
+    throw new Error(
+      isHeic(file)
+        ? 'This browser cannot open HEIC photos. Share the photo as JPEG, or set the camera to "Most Compatible".'
+        : 'This image could not be opened. Try a JPEG, PNG or WebP file.'
+    );
+  }
+  return dataUrl;
+};
+
+/** Fractions of the (rotated) image, so a crop survives changes of preview size */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageAdjustments {
+  /** Clockwise quarter turns */
+  rotation: number;
+  crop: CropRect | null;
+  grayscale: boolean;
+  /** 1 leaves contrast unchanged; above 1 darkens pencil and lifts grey paper towards white */
+  contrast: number;
+}
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = { rotation: 0, crop: null, grayscale: false, contrast: 1 };
+
+const adjustPixels = (ctx: CanvasRenderingContext2D, width: number, height: number, { grayscale, contrast }: ImageAdjustments) => {
+  if (!grayscale && contrast === 1) return;
+  const image = ctx.getImageData(0, 0, width, height);
+  const pixels = image.data;
+  for (let i = 0; i < pixels.length; i += 4) {
+    let [r, g, b] = [pixels[i], pixels[i + 1], pixels[i + 2]];
+    if (grayscale) r = g = b = 0.299 * r + 0.587 * g + 0.114 * b;
+    // The pixel array clamps to 0-255 on assignment
+    pixels[i] = (r - 128) * contrast + 128;
+    pixels[i + 1] = (g - 128) * contrast + 128;
+    pixels[i + 2] = (b - 128) * contrast + 128;
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+/** Rotates, crops, cleans up and downscales an image, returning a JPEG data URL ready to send */
+export const processImage = async (dataUrl: string, adjustments: ImageAdjustments, maxSize = MAX_UPLOAD_SIZE): Promise<string> => {
+  const image = await loadImage(dataUrl);
+  const turns = ((adjustments.rotation % 4) + 4) % 4;
+  const rotatedWidth = turns % 2 ? image.height : image.width;
+  const rotatedHeight = turns % 2 ? image.width : image.height;
+
+  const crop = adjustments.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  const sourceWidth = Math.max(1, crop.width * rotatedWidth);
+  const sourceHeight = Math.max(1, crop.height * rotatedHeight);
+  const scale = Math.min(1, maxSize / Math.max(sourceWidth, sourceHeight));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(sourceWidth * scale));
+  canvas.height = Math.max(1, Math.round(sourceHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  // Transparent PNG/WebP areas would otherwise turn black in the JPEG
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.scale(scale, scale);
+  ctx.translate(-crop.x * rotatedWidth, -crop.y * rotatedHeight);
+  ctx.translate(rotatedWidth / 2, rotatedHeight / 2);
+  ctx.rotate((turns * Math.PI) / 2);
+  ctx.drawImage(image, -image.width / 2, -image.height / 2);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+  adjustPixels(ctx, canvas.width, canvas.height, adjustments);
+  return canvas.toDataURL('image/jpeg', 0.85);
+};
@@ -0,0 +1,55 @@
+import { loadImage } from './image';
+
+// Difference hash (dHash): the image is shrunk to 9×8 greyscale and each bit records whether a pixel is
+// brighter than its right-hand neighbour. Re-encoding, slight resizing or a stray pixel barely change it.
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/** 64-bit dHash as 16 hex characters */
+export const perceptualHash = async (dataUrl: string): Promise<string> => {
+  const image = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available for hashing');
+
+  // Averaging filter, so thin pen strokes still register after the huge downscale
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const grey = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  let hex = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      byte = (byte << 1) | (grey(x, y) > grey(x + 1, y) ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+};
+
+export const hammingDistance = (a: string, b: string) => {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+/** SHA-256 of the encoded image as hex: only byte-identical images share it, unlike the perceptual hash */
+export const imageDigest = async (dataUrl: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(dataUrl));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
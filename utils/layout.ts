@@ -0,0 +1,276 @@
+import { MoleculeGraph, StrokePoint } from '../types';
+
+// Two grid tiles, the bond length the sketch tools snap to
+export const BOND_LENGTH = 40;
+
+const TAU = Math.PI * 2;
+
+type Adjacency = Map<number, number[]>;
+
+const adjacencyOf = (graph: MoleculeGraph): Adjacency => {
+  const adjacency: Adjacency = new Map(graph.atoms.map(atom => [atom.id, []]));
+  graph.bonds.forEach(bond => {
+    adjacency.get(bond.from)?.push(bond.to);
+    adjacency.get(bond.to)?.push(bond.from);
+  });
+  return adjacency;
+};
+
+const edgeKey = (a: number, b: number) => (a < b ? `${a}-${b}` : `${b}-${a}`);
+
+/** Shortest path from `start` to `end` that does not use the direct bond between them */
+const shortestDetour = (adjacency: Adjacency, start: number, end: number): number[] | null => {
+  const previous = new Map<number, number>([[start, start]]);
+  const queue = [start];
+  while (queue.length) {
+    const atom = queue.shift()!;
+    for (const next of adjacency.get(atom) ?? []) {
+      if (previous.has(next) || (atom === start && next === end)) continue;
+      previous.set(next, atom);
+      if (next === end) {
+        const path = [end];
+        while (path[0] !== start) path.unshift(previous.get(path[0])!);
+        return path;
+      }
+      queue.push(next);
+    }
+  }
+  return null;
+};
+
+/**
+ * Smallest set of smallest rings, each as atom ids in ring order. Candidate rings (the shortest cycle through
+ * each bond) are taken smallest first while they stay independent of the rings already chosen.
+ */
+export const findRings = (graph: MoleculeGraph): number[][] => {
+  const adjacency = adjacencyOf(graph);
+  const bondIndex = new Map(graph.bonds.map((bond, index) => [edgeKey(bond.from, bond.to), index]));
+
+  const candidates = new Map<string, number[]>();
+  graph.bonds.forEach(bond => {
+    const ring = shortestDetour(adjacency, bond.from, bond.to);
+    if (!ring) return;
+    const key = [...ring].sort((a, b) => a - b).join(',');
+    if (!candidates.has(key)) candidates.set(key, ring);
+  });
+
+  // Independence over GF(2): each ring is a bit vector over bonds, reduced against the chosen basis
+  const basis: { pivot: number; bits: boolean[] }[] = [];
+  const rings: number[][] = [];
+  [...candidates.values()].sort((a, b) => a.length - b.length).forEach(ring => {
+    const bits = new Array<boolean>(graph.bonds.length).fill(false);
+    ring.forEach((atom, index) => {
+      bits[bondIndex.get(edgeKey(atom, ring[(index + 1) % ring.length]))!] = true;
+    });
+    basis.forEach(row => {
+      if (bits[row.pivot]) row.bits.forEach((bit, index) => { if (bit) bits[index] = !bits[index]; });
+    });
+    const pivot = bits.indexOf(true);
+    if (pivot === -1) return;
+    basis.push({ pivot, bits });
+    rings.push(ring);
+  });
+  return rings;
+};
+
+const add = (a: StrokePoint, b: StrokePoint) => ({ x: a.x + b.x, y: a.y + b.y });
+const subtract = (a: StrokePoint, b: StrokePoint) => ({ x: a.x - b.x, y: a.y - b.y });
+const scale = (a: StrokePoint, factor: number) => ({ x: a.x * factor, y: a.y * factor });
+const fromAngle = (angle: number, length = 1) => ({ x: Math.cos(angle) * length, y: Math.sin(angle) * length });
+const angleOf = (a: StrokePoint) => Math.atan2(a.y, a.x);
+const centroid = (points: StrokePoint[]) => scale(points.reduce(add, { x: 0, y: 0 }), 1 / (points.length || 1));
+
+const rotateAbout = (point: StrokePoint, origin: StrokePoint, angle: number) => {
+  const d = subtract(point, origin);
+  return add(origin, { x: d.x * Math.cos(angle) - d.y * Math.sin(angle), y: d.x * Math.sin(angle) + d.y * Math.cos(angle) });
+};
+
+/**
+ * Lays out one fused/spiro ring system as regular polygons: the first ring is centred on the origin with an atom at the
+ * top, and each further ring is built outwards on the bond (or atom) it shares with the rings already placed.
+ */
+const layoutRingSystem = (rings: number[][]): Map<number, StrokePoint> => {
+  const positions = new Map<number, StrokePoint>();
+  const placedRings: number[][] = [];
+  const remaining = [...rings].sort((a, b) => b.length - a.length);
+
+  const placePolygon = (ring: number[], centre: StrokePoint, startIndex: number, startAngle: number, direction: 1 | -1) => {
+    const radius = BOND_LENGTH / (2 * Math.sin(Math.PI / ring.length));
+    ring.forEach((_, step) => {
+      const atom = ring[(startIndex + step) % ring.length];
+      if (!positions.has(atom)) positions.set(atom, add(centre, fromAngle(startAngle + direction * step * TAU / ring.length, radius)));
+    });
+    placedRings.push(ring);
+  };
+
+  placePolygon(remaining.shift()!, { x: 0, y: 0 }, 0, -Math.PI / 2, 1);
+
+  while (remaining.length) {
+    const index = remaining.findIndex(ring => ring.some(atom => positions.has(atom)));
+    if (index === -1) break;
+    const [ring] = remaining.splice(index, 1);
+    const n = ring.length;
+    const sharedEdge = ring.findIndex((atom, i) => positions.has(atom) && positions.has(ring[(i + 1) % n]));
+
+    if (sharedEdge !== -1) {
+      // Fused: mirror the polygon across the shared bond, away from the ring it came from
+      const a = ring[sharedEdge];
+      const b = ring[(sharedEdge + 1) % n];
+      const pa = positions.get(a)!;
+      const pb = positions.get(b)!;
+      const midpoint = scale(add(pa, pb), 0.5);
+      const neighbour = placedRings.find(placed => placed.includes(a) && placed.includes(b)) ?? placedRings[0];
+      const away = subtract(midpoint, centroid(neighbour.map(atom => positions.get(atom)!)));
+      const apothem = BOND_LENGTH / (2 * Math.tan(Math.PI / n));
+      const centre = add(midpoint, scale(away, apothem / (Math.hypot(away.x, away.y) || 1)));
+      const angleA = angleOf(subtract(pa, centre));
+      const angleB = angleOf(subtract(pb, centre));
+      // Walking a → b one step round the polygon fixes the direction of travel
+      const forward = Math.abs(Math.atan2(Math.sin(angleA + TAU / n - angleB), Math.cos(angleA + TAU / n - angleB))) < 1e-3;
+      placePolygon(ring, centre, sharedEdge, angleA, forward ? 1 : -1);
+    } else {
+      // Spiro: hang the new ring off the shared atom, pointing away from everything placed so far
+      const shared = ring.findIndex(atom => positions.has(atom));
+      const pivot = positions.get(ring[shared])!;
+      const away = subtract(pivot, centroid([...positions.values()]));
+      const radius = BOND_LENGTH / (2 * Math.sin(Math.PI / n));
+      const outward = Math.hypot(away.x, away.y) > 1e-6 ? angleOf(away) : 0;
+      placePolygon(ring, add(pivot, fromAngle(outward, radius)), shared, outward + Math.PI, 1);
+    }
+  }
+  return positions;
+};
+
+/** Spreads `count` new bond directions around an atom whose placed bonds point along `taken` */
+const freeDirections = (taken: number[], count: number, turn: 1 | -1, linear: boolean): number[] => {
+  if (taken.length === 0) {
+    return count === 1 ? [-Math.PI / 6] : Array.from({ length: count }, (_, i) => -Math.PI / 6 + (i * TAU) / count);
+  }
+  if (taken.length === 1) {
+    const ahead = taken[0] + Math.PI;
+    if (count === 1) return [linear ? ahead : ahead + turn * Math.PI / 3];
+    if (count === 2) return [ahead + Math.PI / 3, ahead - Math.PI / 3];
+    if (count === 3) return [ahead + Math.PI / 2, ahead, ahead - Math.PI / 2];
+  }
+
+  // Otherwise split the widest empty wedge evenly
+  const sorted = [...taken].map(angle => ((angle % TAU) + TAU) % TAU).sort((a, b) => a - b);
+  let gapStart = sorted[sorted.length - 1];
+  let gapSize = sorted[0] + TAU - gapStart;
+  sorted.forEach((angle, i) => {
+    if (i === 0) return;
+    if (angle - sorted[i - 1] > gapSize) {
+      gapStart = sorted[i - 1];
+      gapSize = angle - sorted[i - 1];
+    }
+  });
+  return Array.from({ length: count }, (_, i) => gapStart + (gapSize * (i + 1)) / (count + 1));
+};
+
+/**
+ * Gives every atom 2D coordinates for drawing: ring systems as regular polygons, chains as 120° zig-zags, and
+ * disconnected fragments (salts, ion pairs) side by side. Returns a copy; bond lengths are `BOND_LENGTH`.
+ */
+export const layoutMolecule = <T extends MoleculeGraph>(graph: T): T => {
+  const adjacency = adjacencyOf(graph);
+  const rings = findRings(graph);
+  const orders = new Map(graph.bonds.map(bond => [edgeKey(bond.from, bond.to), bond.order]));
+
+  // Group rings that share atoms into ring systems
+  const systems: number[][][] = [];
+  rings.forEach(ring => {
+    const touching = systems.filter(system => system.some(other => other.some(atom => ring.includes(atom))));
+    const merged = [ring, ...touching.flat()];
+    touching.forEach(system => systems.splice(systems.indexOf(system), 1));
+    systems.push(merged);
+  });
+  const systemOf = new Map<number, number[][]>();
+  systems.forEach(system => system.flat().forEach(atom => systemOf.set(atom, system)));
+
+  const positions = new Map<number, StrokePoint>();
+  const turns = new Map<number, 1 | -1>();
+  const fragments: number[][] = [];
+
+  const isLinear = (atom: number) => {
+    const bondOrders = (adjacency.get(atom) ?? []).map(other => orders.get(edgeKey(atom, other)) ?? 1);
+    return bondOrders.includes(3) || bondOrders.filter(order => order === 2).length >= 2;
+  };
+
+  const collides = (point: StrokePoint) =>
+    [...positions.values()].some(other => Math.hypot(other.x - point.x, other.y - point.y) < BOND_LENGTH * 0.5);
+
+  /** Places a whole ring system so that `anchor` lands on `at`, with the rings extending along `direction` */
+  const placeSystem = (system: number[][], anchor: number, at: StrokePoint, direction: number | null) => {
+    const local = layoutRingSystem(system);
+    const anchorLocal = local.get(anchor)!;
+    const body = centroid(system.filter(ring => ring.includes(anchor)).flat().map(atom => local.get(atom)!));
+    const rotation = direction === null ? 0 : direction - angleOf(subtract(body, anchorLocal));
+    local.forEach((point, atom) => {
+      if (!positions.has(atom)) positions.set(atom, add(rotateAbout(point, anchorLocal, rotation), subtract(at, anchorLocal)));
+    });
+    return [...local.keys()];
+  };
+
+  graph.atoms.forEach(({ id: start }) => {
+    if (positions.has(start)) return;
+    const before = new Set(positions.keys());
+    const queue: number[] = [];
+    const startSystem = systemOf.get(start);
+    queue.push(...(startSystem ? placeSystem(startSystem, start, { x: 0, y: 0 }, null) : [start]));
+    if (!startSystem) positions.set(start, { x: 0, y: 0 });
+
+    while (queue.length) {
+      const atom = queue.shift()!;
+      const origin = positions.get(atom)!;
+      const neighbours = adjacency.get(atom) ?? [];
+      const unplaced = neighbours.filter(other => !positions.has(other));
+      if (unplaced.length === 0) continue;
+
+      const taken = neighbours.filter(other => positions.has(other)).map(other => angleOf(subtract(positions.get(other)!, origin)));
+      // Chains start heading up-right, so the first turn is downwards
+      const turn = turns.get(atom) ?? -1;
+      const directions = freeDirections(taken, unplaced.length, turn, isLinear(atom));
+
+      unplaced.forEach((other, index) => {
+        if (positions.has(other)) return;
+        let direction = directions[index];
+        let target = add(origin, fromAngle(direction, BOND_LENGTH));
+        if (unplaced.length === 1 && taken.length === 1 && collides(target)) {
+          direction = freeDirections(taken, 1, (-turn) as 1 | -1, false)[0];
+          target = add(origin, fromAngle(direction, BOND_LENGTH));
+        }
+        // Zig-zag: the next bond bends back the other way from this one
+        const bend = taken.length === 1 ? Math.sin(direction - taken[0] - Math.PI) : 0;
+        turns.set(other, Math.abs(bend) > 1e-6 ? (bend > 0 ? -1 : 1) : ((-turn) as 1 | -1));
+
+        const system = systemOf.get(other);
+        if (system) {
+          queue.push(...placeSystem(system, other, target, direction));
+        } else {
+          positions.set(other, target);
+          queue.push(other);
+        }
+      });
+    }
+    fragments.push([...positions.keys()].filter(atom => !before.has(atom)));
+  });
+
+  // Fragments go left to right with a gap, centred on a common horizontal line
+  let cursor = 0;
+  fragments.forEach(fragment => {
+    const points = fragment.map(atom => positions.get(atom)!);
+    const minX = Math.min(...points.map(p => p.x));
+    const maxX = Math.max(...points.map(p => p.x));
+    const midY = (Math.min(...points.map(p => p.y)) + Math.max(...points.map(p => p.y))) / 2;
+    fragment.forEach(atom => {
+      const p = positions.get(atom)!;
+      positions.set(atom, { x: p.x - minX + cursor, y: p.y - midY });
+    });
+    cursor += maxX - minX + BOND_LENGTH * 1.5;
+  });
+
+  return {
+    ...graph,
+    atoms: graph.atoms.map(atom => ({ ...atom, ...positions.get(atom.id) })),
+  };
+};
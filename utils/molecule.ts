@@ -0,0 +1,412 @@
+import { BondType, MoleculeAtom, MoleculeBond, MoleculeGraph, StrokePoint } from '../types';
+
+// Matches the radial-gradient dot grid drawn behind the canvas (dots sit at the centre of each 20px tile)
+export const GRID_SIZE = 20;
+const GRID_OFFSET = GRID_SIZE / 2;
+const HIT_RADIUS = GRID_SIZE / 2;
+const LABEL_FONT = '600 15px Inter, sans-serif';
+const INK_COLOR = '#1e293b';
+
+export const EMPTY_MOLECULE: MoleculeGraph = { atoms: [], bonds: [] };
+
+// Group labels collapse onto their heavy atom; the hydrogens are implied by valence
+const LABEL_ELEMENTS: Record<string, string> = {
+  OH: 'O',
+  NH2: 'N',
+  NH: 'N',
+  SH: 'S',
+};
+
+const DISPLAY_LABELS: Record<string, string> = {
+  NH2: 'NH₂',
+};
+
+const DEFAULT_VALENCE: Record<string, number> = {
+  B: 3, C: 4, N: 3, O: 2, P: 3, S: 2, F: 1, Cl: 1, Br: 1, I: 1,
+};
+
+const ORGANIC_SUBSET = new Set(Object.keys(DEFAULT_VALENCE));
+
+export const snapToGrid = (point: StrokePoint): StrokePoint => ({
+  x: Math.round((point.x - GRID_OFFSET) / GRID_SIZE) * GRID_SIZE + GRID_OFFSET,
+  y: Math.round((point.y - GRID_OFFSET) / GRID_SIZE) * GRID_SIZE + GRID_OFFSET,
+});
+
+export const isMoleculeEmpty = (graph: MoleculeGraph) => graph.atoms.length === 0;
+
+const nextId = (items: { id: number }[]) => items.reduce((max, item) => Math.max(max, item.id), 0) + 1;
+
+const distance = (a: StrokePoint, b: StrokePoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/** Shortest distance from `p` to the segment from `a` to `b` */
+export const distanceToSegment = (p: StrokePoint, a: StrokePoint, b: StrokePoint) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return distance(p, a);
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return distance(p, { x: a.x + t * dx, y: a.y + t * dy });
+};
+
+export const elementOf = (atom: MoleculeAtom) => LABEL_ELEMENTS[atom.label] ?? atom.label;
+
+const isLabelVisible = (atom: MoleculeAtom) => atom.label !== 'C';
+
+export const findAtomAt = (graph: MoleculeGraph, point: StrokePoint, radius = HIT_RADIUS) =>
+  graph.atoms.find(atom => distance(atom, point) <= radius);
+
+export const findBondAt = (graph: MoleculeGraph, point: StrokePoint, tolerance = HIT_RADIUS / 2) => {
+  const atomsById = new Map(graph.atoms.map(atom => [atom.id, atom]));
+  return graph.bonds.find(bond => {
+    const from = atomsById.get(bond.from);
+    const to = atomsById.get(bond.to);
+    return !!from && !!to && distanceToSegment(point, from, to) <= tolerance;
+  });
+};
+
+const bondProps = (type: BondType): Pick<MoleculeBond, 'order' | 'stereo'> => {
+  switch (type) {
+    case 'double': return { order: 2, stereo: 'none' };
+    case 'triple': return { order: 3, stereo: 'none' };
+    case 'wedge': return { order: 1, stereo: 'wedge' };
+    case 'dash': return { order: 1, stereo: 'dash' };
+    default: return { order: 1, stereo: 'none' };
+  }
+};
+
+const ensureAtom = (graph: MoleculeGraph, point: StrokePoint): [MoleculeGraph, MoleculeAtom] => {
+  const existing = findAtomAt(graph, point);
+  if (existing) return [graph, existing];
+  const atom: MoleculeAtom = { id: nextId(graph.atoms), ...snapToGrid(point), label: 'C', charge: 0, lonePairs: 0 };
+  return [{ ...graph, atoms: [...graph.atoms, atom] }, atom];
+};
+
+/** Adds a bond between two grid points, creating skeletal carbons at free ends. Redrawing an existing bond restyles it. */
+export const addBond = (graph: MoleculeGraph, start: StrokePoint, end: StrokePoint, type: BondType): MoleculeGraph => {
+  let next = graph;
+  let from: MoleculeAtom;
+  let to: MoleculeAtom;
+  [next, from] = ensureAtom(next, start);
+  [next, to] = ensureAtom(next, end);
+  if (from.id === to.id) return graph;
+
+  const existing = next.bonds.find(bond =>
+    (bond.from === from.id && bond.to === to.id) || (bond.from === to.id && bond.to === from.id)
+  );
+  if (existing) {
+    return {
+      ...next,
+      bonds: next.bonds.map(bond => bond.id === existing.id ? { ...bond, from: from.id, to: to.id, ...bondProps(type) } : bond),
+    };
+  }
+
+  const bond: MoleculeBond = { id: nextId(next.bonds), from: from.id, to: to.id, ...bondProps(type) };
+  return { ...next, bonds: [...next.bonds, bond] };
+};
+
+/** Clicking a bond with the bond tool: same type cycles single → double → triple, otherwise applies the type */
+export const restyleBond = (graph: MoleculeGraph, bondId: number, type: BondType): MoleculeGraph => ({
+  ...graph,
+  bonds: graph.bonds.map(bond => {
+    if (bond.id !== bondId) return bond;
+    const props = bondProps(type);
+    if (props.stereo === 'none' && bond.stereo === 'none' && bond.order === props.order) {
+      return { ...bond, order: ((bond.order % 3) + 1) as MoleculeBond['order'] };
+    }
+    // Re-applying a wedge/dash flips which end is the stereocentre
+    if (props.stereo !== 'none' && bond.stereo === props.stereo) {
+      return { ...bond, from: bond.to, to: bond.from };
+    }
+    return { ...bond, ...props };
+  }),
+});
+
+const updateAtomAt = (graph: MoleculeGraph, point: StrokePoint, update: (atom: MoleculeAtom) => MoleculeAtom): MoleculeGraph => {
+  const [next, target] = ensureAtom(graph, point);
+  return { ...next, atoms: next.atoms.map(atom => atom.id === target.id ? update(atom) : atom) };
+};
+
+export const setAtomLabel = (graph: MoleculeGraph, point: StrokePoint, label: string) =>
+  updateAtomAt(graph, point, atom => ({ ...atom, label }));
+
+/** Applying the same sign again removes the charge */
+export const toggleCharge = (graph: MoleculeGraph, point: StrokePoint, sign: 1 | -1) =>
+  updateAtomAt(graph, point, atom => ({ ...atom, charge: atom.charge === sign ? 0 : sign }));
+
+export const cycleLonePairs = (graph: MoleculeGraph, point: StrokePoint) =>
+  updateAtomAt(graph, point, atom => ({ ...atom, lonePairs: (atom.lonePairs + 1) % 4 }));
+
+/** Removes whatever lies under the point: an atom (with its bonds) before a bond. Bare carbons left without bonds go too. */
+export const eraseAt = (graph: MoleculeGraph, point: StrokePoint, radius = HIT_RADIUS): MoleculeGraph => {
+  let bonds = graph.bonds;
+  let atoms = graph.atoms;
+  const atom = findAtomAt(graph, point, radius);
+  if (atom) {
+    atoms = atoms.filter(a => a.id !== atom.id);
+    bonds = bonds.filter(b => b.from !== atom.id && b.to !== atom.id);
+  } else {
+    const bond = findBondAt(graph, point, radius);
+    if (!bond) return graph;
+    bonds = bonds.filter(b => b.id !== bond.id);
+  }
+
+  const bonded = new Set(bonds.flatMap(b => [b.from, b.to]));
+  atoms = atoms.filter(a => bonded.has(a.id) || isLabelVisible(a) || a.charge !== 0 || a.lonePairs > 0);
+  return { atoms, bonds };
+};
+
+export const moleculeBounds = (graph: MoleculeGraph) => {
+  if (graph.atoms.length === 0) return null;
+  const xs = graph.atoms.map(atom => atom.x);
+  const ys = graph.atoms.map(atom => atom.y);
+  return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+};
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+const LABEL_CLEARANCE = 9;
+
+const trimmedEnds = (from: MoleculeAtom, to: MoleculeAtom) => {
+  const length = distance(from, to) || 1;
+  const ux = (to.x - from.x) / length;
+  const uy = (to.y - from.y) / length;
+  const startTrim = isLabelVisible(from) ? LABEL_CLEARANCE : 0;
+  const endTrim = isLabelVisible(to) ? LABEL_CLEARANCE : 0;
+  return {
+    start: { x: from.x + ux * startTrim, y: from.y + uy * startTrim },
+    end: { x: to.x - ux * endTrim, y: to.y - uy * endTrim },
+    normal: { x: -uy, y: ux },
+  };
+};
+
+const drawLine = (ctx: CanvasRenderingContext2D, a: StrokePoint, b: StrokePoint) => {
+  ctx.beginPath();
+  ctx.moveTo(a.x, a.y);
+  ctx.lineTo(b.x, b.y);
+  ctx.stroke();
+};
+
+const drawBond = (ctx: CanvasRenderingContext2D, bond: MoleculeBond, from: MoleculeAtom, to: MoleculeAtom) => {
+  const { start, end, normal } = trimmedEnds(from, to);
+  const offset = (p: StrokePoint, d: number) => ({ x: p.x + normal.x * d, y: p.y + normal.y * d });
+
+  if (bond.stereo === 'wedge') {
+    ctx.beginPath();
+    ctx.moveTo(start.x, start.y);
+    ctx.lineTo(offset(end, 4).x, offset(end, 4).y);
+    ctx.lineTo(offset(end, -4).x, offset(end, -4).y);
+    ctx.closePath();
+    ctx.fill();
+    return;
+  }
+
+  if (bond.stereo === 'dash') {
+    const hashes = 6;
+    for (let i = 1; i <= hashes; i++) {
+      const t = i / hashes;
+      const p = { x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t };
+      drawLine(ctx, offset(p, 4 * t), offset(p, -4 * t));
+    }
+    return;
+  }
+
+  if (bond.order === 2) {
+    drawLine(ctx, offset(start, 2.5), offset(end, 2.5));
+    drawLine(ctx, offset(start, -2.5), offset(end, -2.5));
+  } else if (bond.order === 3) {
+    drawLine(ctx, start, end);
+    drawLine(ctx, offset(start, 4), offset(end, 4));
+    drawLine(ctx, offset(start, -4), offset(end, -4));
+  } else {
+    drawLine(ctx, start, end);
+  }
+};
+
+const LONE_PAIR_SLOTS = [
+  { x: 0, y: -1 },
+  { x: 0, y: 1 },
+  { x: -1, y: 0 },
+  { x: 1, y: 0 },
+];
+
+const drawAtom = (ctx: CanvasRenderingContext2D, atom: MoleculeAtom) => {
+  if (isLabelVisible(atom)) {
+    const text = DISPLAY_LABELS[atom.label] ?? atom.label;
+    const width = ctx.measureText(text).width;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(atom.x - width / 2 - 2, atom.y - 9, width + 4, 18);
+    ctx.fillStyle = INK_COLOR;
+    ctx.fillText(text, atom.x, atom.y + 1);
+  }
+
+  const labelHalfWidth = isLabelVisible(atom) ? ctx.measureText(DISPLAY_LABELS[atom.label] ?? atom.label).width / 2 : 3;
+
+  if (atom.charge !== 0) {
+    ctx.save();
+    ctx.font = '600 12px Inter, sans-serif';
+    ctx.fillText(atom.charge > 0 ? '+' : '−', atom.x + labelHalfWidth + 5, atom.y - 9);
+    ctx.restore();
+  }
+
+  LONE_PAIR_SLOTS.slice(0, atom.lonePairs).forEach(slot => {
+    const reach = slot.x === 0 ? 12 : labelHalfWidth + 6;
+    const cx = atom.x + slot.x * reach;
+    const cy = atom.y + slot.y * reach;
+    [-2.5, 2.5].forEach(spread => {
+      ctx.beginPath();
+      ctx.arc(cx + (slot.x === 0 ? spread : 0), cy + (slot.y === 0 ? spread : 0), 1.5, 0, Math.PI * 2);
+      ctx.fill();
+    });
+  });
+};
+
+export const renderMolecule = (ctx: CanvasRenderingContext2D, graph: MoleculeGraph) => {
+  const atomsById = new Map(graph.atoms.map(atom => [atom.id, atom]));
+
+  ctx.save();
+  ctx.strokeStyle = INK_COLOR;
+  ctx.fillStyle = INK_COLOR;
+  ctx.lineWidth = 2;
+  ctx.lineCap = 'round';
+  graph.bonds.forEach(bond => {
+    const from = atomsById.get(bond.from);
+    const to = atomsById.get(bond.to);
+    if (from && to) drawBond(ctx, bond, from, to);
+  });
+
+  ctx.font = LABEL_FONT;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  graph.atoms.forEach(atom => drawAtom(ctx, atom));
+  ctx.restore();
+};
+
+// ---------------------------------------------------------------------------
+// Text forms sent to the model
+// ---------------------------------------------------------------------------
+
+const implicitHydrogens = (element: string, charge: number, bondOrderSum: number) => {
+  const base = DEFAULT_VALENCE[element];
+  if (base === undefined) return 0;
+  let valence = base;
+  if (element === 'C') valence = charge === 0 ? 4 : 3;
+  else if (charge > 0 && (element === 'N' || element === 'O' || element === 'S' || element === 'P')) valence = base + charge;
+  else if (charge < 0) valence = base + charge;
+  return Math.max(0, valence - bondOrderSum);
+};
+
+const atomSymbol = (atom: MoleculeAtom, bondOrderSum: number) => {
+  const element = elementOf(atom);
+  if (atom.charge === 0 && ORGANIC_SUBSET.has(element)) return element;
+
+  const hydrogens = implicitHydrogens(element, atom.charge, bondOrderSum);
+  const hText = hydrogens === 0 ? '' : hydrogens === 1 ? 'H' : `H${hydrogens}`;
+  const sign = atom.charge > 0 ? '+' : '-';
+  const magnitude = Math.abs(atom.charge);
+  const chargeText = atom.charge === 0 ? '' : magnitude === 1 ? sign : `${sign}${magnitude}`;
+  return `[${element}${hText}${chargeText}]`;
+};
+
+const BOND_SYMBOLS: Record<MoleculeBond['order'], string> = { 1: '', 2: '=', 3: '#' };
+
+/**
+ * Writes the graph as (Kekulé, non-stereo) SMILES. Disconnected fragments are joined with '.'.
+ * Wedge/dash information is carried separately by `moleculeToText`.
+ */
+export const moleculeToSmiles = (graph: MoleculeGraph): string => {
+  const neighbours = new Map<number, { atom: number; bond: MoleculeBond }[]>();
+  graph.atoms.forEach(atom => neighbours.set(atom.id, []));
+  graph.bonds.forEach(bond => {
+    neighbours.get(bond.from)?.push({ atom: bond.to, bond });
+    neighbours.get(bond.to)?.push({ atom: bond.from, bond });
+  });
+  const orderSum = (id: number) => (neighbours.get(id) ?? []).reduce((sum, n) => sum + n.bond.order, 0);
+  const atomsById = new Map(graph.atoms.map(atom => [atom.id, atom]));
+
+  // Pass 1: spanning tree; every non-tree bond becomes a ring closure
+  const visited = new Set<number>();
+  const treeBonds = new Set<number>();
+  const children = new Map<number, number[]>();
+  const walk = (id: number) => {
+    visited.add(id);
+    children.set(id, []);
+    (neighbours.get(id) ?? []).forEach(({ atom, bond }) => {
+      if (visited.has(atom)) return;
+      treeBonds.add(bond.id);
+      children.get(id)!.push(atom);
+      walk(atom);
+    });
+  };
+
+  const roots: number[] = [];
+  [...graph.atoms].sort((a, b) => a.id - b.id).forEach(atom => {
+    if (visited.has(atom.id)) return;
+    roots.push(atom.id);
+    walk(atom.id);
+  });
+
+  // Pass 2: emit atoms, opening/closing ring digits as they are met
+  const ringDigits = new Map<number, number>();
+  const freeDigits: number[] = [];
+  let highestDigit = 0;
+  const digitText = (digit: number) => (digit < 10 ? String(digit) : `%${digit}`);
+
+  const emit = (id: number): string => {
+    let out = atomSymbol(atomsById.get(id)!, orderSum(id));
+    (neighbours.get(id) ?? []).forEach(({ bond }) => {
+      if (treeBonds.has(bond.id)) return;
+      const open = ringDigits.get(bond.id);
+      if (open !== undefined) {
+        out += digitText(open);
+        ringDigits.delete(bond.id);
+        freeDigits.push(open);
+        freeDigits.sort((a, b) => a - b);
+      } else {
+        const digit = freeDigits.shift() ?? ++highestDigit;
+        ringDigits.set(bond.id, digit);
+        out += BOND_SYMBOLS[bond.order] + digitText(digit);
+      }
+    });
+
+    const kids = children.get(id) ?? [];
+    kids.forEach((child, index) => {
+      const bond = (neighbours.get(id) ?? []).find(n => n.atom === child && treeBonds.has(n.bond.id))!.bond;
+      const branch = BOND_SYMBOLS[bond.order] + emit(child);
+      out += index < kids.length - 1 ? `(${branch})` : branch;
+    });
+    return out;
+  };
+
+  return roots.map(root => emit(root)).join('.');
+};
+
+const BOND_NAMES: Record<MoleculeBond['order'], string> = { 1: 'single', 2: 'double', 3: 'triple' };
+
+/** Connection-table style description of the drawing, including the stereo and lone-pair marks SMILES drops */
+export const moleculeToText = (graph: MoleculeGraph): string => {
+  if (isMoleculeEmpty(graph)) return '';
+  const index = new Map(graph.atoms.map((atom, i) => [atom.id, i + 1]));
+
+  const atomLines = graph.atoms.map(atom => {
+    const extras = [
+      atom.charge !== 0 ? `charge ${atom.charge > 0 ? '+' : ''}${atom.charge}` : '',
+      atom.lonePairs > 0 ? `${atom.lonePairs} lone pair${atom.lonePairs > 1 ? 's' : ''}` : '',
+    ].filter(Boolean).join(', ');
+    return `  a${index.get(atom.id)} ${atom.label}${extras ? ` (${extras})` : ''}`;
+  });
+
+  const bondLines = graph.bonds.map(bond => {
+    const kind = bond.stereo === 'wedge' ? 'wedge (towards viewer)' : bond.stereo === 'dash' ? 'dash (away from viewer)' : BOND_NAMES[bond.order];
+    return `  a${index.get(bond.from)}-a${index.get(bond.to)} ${kind}`;
+  });
+
+  return [
+    `SMILES: ${moleculeToSmiles(graph)}`,
+    'Atoms:',
+    ...atomLines,
+    'Bonds:',
+    ...(bondLines.length ? bondLines : ['  (none)']),
+  ].join('\n');
+};
@@ -0,0 +1,235 @@
+import type { ElementCounts } from './formula';
+
+/**
+ * Derives a molecular formula from a compound name, covering what the app is mostly asked about:
+ * straight-chain and cyclic IUPAC names (substituent prefixes, -ene/-yne, principal-group suffixes),
+ * benzene-family parents, functional class names ("ethyl alcohol", "diethyl ether") and common trivial names.
+ * Returns null for anything it cannot fully account for, so callers can skip the check rather than guess.
+ */
+
+// Delta applied per occurrence; formulas here have no brackets, so a flat element/count scan is enough
+const delta = (formula: string): ElementCounts => {
+  const counts: ElementCounts = {};
+  for (const [, element, sign, count] of formula.matchAll(/([A-Z][a-z]?)(-?)(\d*)/g)) {
+    counts[element] = (counts[element] ?? 0) + (sign ? -1 : 1) * (count ? Number(count) : 1);
+  }
+  return counts;
+};
+
+// Parents that take substituent prefixes; keys are in normalised form (see `normalise`)
+const PARENTS: Record<string, string> = {
+  benzene: 'C6H6',
+  phenol: 'C6H6O',
+  aniline: 'C6H7N',
+  benzenamine: 'C6H7N',
+  toluene: 'C7H8',
+  benzoicacid: 'C7H6O2',
+  benzoate: 'C7H6O2',
+  benzaldehyde: 'C7H6O',
+  acetophenone: 'C8H8O',
+  anisole: 'C7H8O',
+  styrene: 'C8H8',
+  naphthalene: 'C10H8',
+  pyridine: 'C5H5N',
+  pyrrole: 'C4H5N',
+  furan: 'C4H4O',
+  thiophene: 'C4H4S',
+  aceticacid: 'C2H4O2',
+  acetate: 'C2H4O2',
+  formicacid: 'CH2O2',
+  formate: 'CH2O2',
+  // Functional class names: the named groups replace hydrogens of these cores
+  amine: 'NH3',
+  alcohol: 'H2O',
+  ether: 'H2O',
+  ketone: 'CH2O',
+  chloride: 'HCl',
+  bromide: 'HBr',
+  iodide: 'HI',
+  fluoride: 'HF',
+  cyanide: 'HCN',
+};
+
+const TRIVIAL: Record<string, string> = {
+  acetone: 'C3H6O',
+  acetaldehyde: 'C2H4O',
+  formaldehyde: 'CH2O',
+  chloroform: 'CHCl3',
+  acetylene: 'C2H2',
+  ethylene: 'C2H4',
+  propylene: 'C3H6',
+  glycerol: 'C3H8O3',
+  glycerine: 'C3H8O3',
+  urea: 'CH4N2O',
+  oxalicacid: 'C2H2O4',
+  acetonitrile: 'C2H3N',
+  acetamide: 'C2H5NO',
+  glucose: 'C6H12O6',
+  fructose: 'C6H12O6',
+  sucrose: 'C12H22O11',
+  salicylicacid: 'C7H6O3',
+  aspirin: 'C9H8O4',
+  acetylsalicylicacid: 'C9H8O4',
+  picricacid: 'C6H3N3O7',
+  phthalicacid: 'C8H6O4',
+  cumene: 'C9H12',
+  carbolicacid: 'C6H6O',
+  phenylamine: 'C6H7N',
+  lacticacid: 'C3H6O3',
+  citricacid: 'C6H8O7',
+  tartaricacid: 'C4H6O6',
+  maleicacid: 'C4H4O4',
+  fumaricacid: 'C4H4O4',
+  anthracene: 'C14H10',
+  phenanthrene: 'C14H10',
+  cyclopentadiene: 'C5H6',
+  tropylium: 'C7H7',
+  caffeine: 'C8H10N4O2',
+  paracetamol: 'C8H9NO2',
+  ethyleneglycol: 'C2H6O2',
+  neopentane: 'C5H12',
+  isobutane: 'C4H10',
+  isopentane: 'C5H12',
+};
+
+// Substituent prefixes: what replacing one H with the group adds
+const SUBSTITUENTS: Record<string, string> = {
+  methyl: 'CH2',
+  ethyl: 'C2H4',
+  propyl: 'C3H6',
+  isopropyl: 'C3H6',
+  propanyl: 'C3H6',
+  butyl: 'C4H8',
+  isobutyl: 'C4H8',
+  secbutyl: 'C4H8',
+  tertbutyl: 'C4H8',
+  pentyl: 'C5H10',
+  hexyl: 'C6H12',
+  vinyl: 'C2H2',
+  ethenyl: 'C2H2',
+  allyl: 'C3H4',
+  phenyl: 'C6H4',
+  benzyl: 'C7H6',
+  fluoro: 'H-F',
+  chloro: 'H-Cl',
+  bromo: 'H-Br',
+  iodo: 'H-I',
+  nitro: 'H-NO2',
+  nitroso: 'H-NO',
+  hydroxy: 'O',
+  amino: 'NH',
+  methoxy: 'CH2O',
+  ethoxy: 'C2H4O',
+  phenoxy: 'C6H4O',
+  oxo: 'H-2O',
+  cyano: 'CNH-',
+  formyl: 'CO',
+  carboxy: 'CO2',
+  acetyl: 'C2H2O',
+  sulfo: 'SO3',
+  mercapto: 'S',
+};
+
+// Principal-group suffixes on a chain, as the change from the parent hydrocarbon
+const SUFFIXES: Record<string, string> = {
+  '': '',
+  ol: 'O',
+  thiol: 'S',
+  al: 'H-2O',
+  one: 'H-2O',
+  oicacid: 'H-2O2',
+  oate: 'H-2O2',
+  amine: 'NH',
+  nitrile: 'H-3N',
+  amide: 'H-NO',
+  oylchloride: 'H-3OCl',
+};
+
+const MULTIPLIERS: Record<string, number> = { di: 2, tri: 3, tetra: 4, penta: 5, hexa: 6 };
+
+const STEMS: Record<string, number> = {
+  meth: 1, eth: 2, prop: 3, but: 4, pent: 5, hex: 6, hept: 7, oct: 8, non: 9, dec: 10, undec: 11, dodec: 12, icos: 20,
+};
+
+const byLengthDesc = (keys: string[]) => [...keys].sort((a, b) => b.length - a.length);
+const SUBSTITUENT_KEYS = byLengthDesc(Object.keys(SUBSTITUENTS));
+const STEM_KEYS = byLengthDesc(Object.keys(STEMS));
+const MULTIPLIER_KEYS = byLengthDesc(Object.keys(MULTIPLIERS));
+
+const normalise = (name: string) =>
+  name
+    .toLowerCase()
+    // Stereodescriptors: (E), (2R,3S), (±), cis-/trans-; plus n- and N- locants which do not change the formula
+    .replace(/\((?:[\d,\s]*[ezrs](?:,[\d\s]*[ezrs])*|[+±-])\)-?/g, '')
+    .replace(/(^|[\s,(\-])(?:cis|trans|n|o|m|p|d|l)(?:,(?:n|o))*-/g, '$1')
+    .replace(/[^a-z]/g, '');
+
+const add = (target: ElementCounts, change: ElementCounts, times = 1) => {
+  Object.entries(change).forEach(([element, count]) => {
+    target[element] = (target[element] ?? 0) + count * times;
+  });
+};
+
+/** `<multiplier?><key>` at the start of `text`, longest key first */
+const matchMultiplied = (text: string, keys: string[]): { key: string; times: number; length: number } | null => {
+  for (const multiplier of ['', ...MULTIPLIER_KEYS]) {
+    if (!text.startsWith(multiplier)) continue;
+    const rest = text.slice(multiplier.length);
+    const key = keys.find(k => k && rest.startsWith(k));
+    if (key) return { key, times: multiplier ? MULTIPLIERS[multiplier] : 1, length: multiplier.length + key.length };
+  }
+  return null;
+};
+
+/** cyclo? + stem + unsaturation + suffix, e.g. "cyclohexanol", "butadiene", "hexanedioicacid" */
+const chainFormula = (text: string): ElementCounts | null => {
+  let rest = text;
+  const isCyclic = rest.startsWith('cyclo');
+  if (isCyclic) rest = rest.slice('cyclo'.length);
+
+  const stem = STEM_KEYS.find(key => rest.startsWith(key));
+  if (!stem) return null;
+  rest = rest.slice(stem.length);
+
+  const unsaturation = rest.match(/^(?:an|a?(di|tri)?en(?:(di|tri)?yn)?|a?(di|tri)?yn)e?/);
+  if (!unsaturation) return null;
+  rest = rest.slice(unsaturation[0].length);
+  const isSaturated = unsaturation[0].startsWith('an') && !unsaturation[0].includes('en') && !unsaturation[0].includes('yn');
+  const doubles = isSaturated || !unsaturation[0].includes('en') ? 0 : unsaturation[1] ? MULTIPLIERS[unsaturation[1]] : 1;
+  const triplesCount = unsaturation[2] ?? unsaturation[3];
+  const triples = !unsaturation[0].includes('yn') ? 0 : triplesCount ? MULTIPLIERS[triplesCount] : 1;
+
+  const carbons = STEMS[stem];
+  const counts: ElementCounts = { C: carbons, H: 2 * carbons + 2 - 2 * (isCyclic ? 1 : 0) - 2 * doubles - 4 * triples };
+
+  if (rest) {
+    const suffix = matchMultiplied(rest, Object.keys(SUFFIXES));
+    if (!suffix || suffix.length !== rest.length) return null;
+    add(counts, delta(SUFFIXES[suffix.key]), suffix.times);
+  }
+  return counts;
+};
+
+export const formulaFromName = (name: string): ElementCounts | null => {
+  const text = normalise(name);
+  if (!text) return null;
+  if (TRIVIAL[text]) return delta(TRIVIAL[text]);
+
+  // Peel substituent prefixes off the front, trying the parent at every step
+  const counts: ElementCounts = {};
+  let rest = text;
+  while (rest) {
+    const parent = PARENTS[rest] ? delta(PARENTS[rest]) : TRIVIAL[rest] ? delta(TRIVIAL[rest]) : chainFormula(rest);
+    if (parent) {
+      add(counts, parent);
+      const valid = Object.values(counts).every(count => count >= 0);
+      return valid ? Object.fromEntries(Object.entries(counts).filter(([, count]) => count !== 0)) : null;
+    }
+
+    const substituent = matchMultiplied(rest, SUBSTITUENT_KEYS);
+    if (!substituent) return null;
+    add(counts, delta(SUBSTITUENTS[substituent.key]), substituent.times);
+    rest = rest.slice(substituent.length);
+  }
+  return null;
+};
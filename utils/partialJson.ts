@@ -0,0 +1,123 @@
+// Tolerant parser for JSON that is still arriving. Values are only reported once they are complete: a string
+// whose closing quote has not arrived yet is left out, while arrays and objects expose the members finished so far.
+
+export interface PartialJsonSnapshot {
+  value: unknown;
+  /** Top-level object keys whose values have fully arrived */
+  completeKeys: string[];
+}
+
+interface ParsedNode {
+  value: unknown;
+  end: number;
+  complete: boolean;
+}
+
+const INCOMPLETE = (end: number): ParsedNode => ({ value: undefined, end, complete: false });
+
+const skipWhitespace = (text: string, i: number) => {
+  while (i < text.length && /\s/.test(text[i])) i++;
+  return i;
+};
+
+const parseString = (text: string, start: number): ParsedNode => {
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '"') {
+      return { value: JSON.parse(text.slice(start, i + 1)), end: i + 1, complete: true };
+    }
+  }
+  return INCOMPLETE(text.length);
+};
+
+const LITERAL = /^(?:true|false|null|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)/;
+
+const parseLiteral = (text: string, start: number): ParsedNode => {
+  const match = LITERAL.exec(text.slice(start));
+  // A number touching the end of the buffer may still have digits to come
+  if (!match || start + match[0].length >= text.length) return INCOMPLETE(text.length);
+  return { value: JSON.parse(match[0]), end: start + match[0].length, complete: true };
+};
+
+const parseArray = (text: string, start: number): ParsedNode => {
+  const items: unknown[] = [];
+  let i = skipWhitespace(text, start + 1);
+  if (text[i] === ']') return { value: items, end: i + 1, complete: true };
+
+  while (i < text.length) {
+    const item = parseValue(text, i);
+    if (item.value !== undefined && (item.complete || typeof item.value === 'object')) items.push(item.value);
+    if (!item.complete) break;
+
+    i = skipWhitespace(text, item.end);
+    if (text[i] === ']') return { value: items, end: i + 1, complete: true };
+    if (text[i] !== ',') break;
+    i = skipWhitespace(text, i + 1);
+  }
+  return { value: items, end: text.length, complete: false };
+};
+
+const parseObject = (text: string, start: number, completeKeys?: string[]): ParsedNode => {
+  const result: Record<string, unknown> = {};
+  let i = skipWhitespace(text, start + 1);
+  if (text[i] === '}') return { value: result, end: i + 1, complete: true };
+
+  while (i < text.length && text[i] === '"') {
+    const key = parseString(text, i);
+    if (!key.complete) break;
+    i = skipWhitespace(text, key.end);
+    if (text[i] !== ':') break;
+
+    const member = parseValue(text, skipWhitespace(text, i + 1));
+    if (member.complete) {
+      result[key.value as string] = member.value;
+      completeKeys?.push(key.value as string);
+    } else {
+      // Half-finished arrays and objects are still useful; half-finished strings and numbers are not
+      if (member.value !== undefined && typeof member.value === 'object') result[key.value as string] = member.value;
+      break;
+    }
+
+    i = skipWhitespace(text, member.end);
+    if (text[i] === '}') return { value: result, end: i + 1, complete: true };
+    if (text[i] !== ',') break;
+    i = skipWhitespace(text, i + 1);
+  }
+  return { value: result, end: text.length, complete: false };
+};
+
+function parseValue(text: string, start: number, completeKeys?: string[]): ParsedNode {
+  const i = skipWhitespace(text, start);
+  if (i >= text.length) return INCOMPLETE(i);
+  switch (text[i]) {
+    case '{': return parseObject(text, i, completeKeys);
+    case '[': return parseArray(text, i);
+    case '"': return parseString(text, i);
+    default: return parseLiteral(text, i);
+  }
+}
+
+/** Best-effort reading of a JSON prefix; never throws, malformed input just stops the snapshot early */
+export const parsePartialJson = (text: string): PartialJsonSnapshot => {
+  const completeKeys: string[] = [];
+  try {
+    return { value: parseValue(text, 0, completeKeys).value, completeKeys };
+  } catch {
+    return { value: undefined, completeKeys };
+  }
+};
+
+/** Accumulates streamed chunks and re-reads the buffer after each one */
+export class PartialJsonParser {
+  private buffer = '';
+
+  push(chunk: string): PartialJsonSnapshot {
+    this.buffer += chunk;
+    return parsePartialJson(this.buffer);
+  }
+
+  get text() {
+    return this.buffer;
+  }
+}
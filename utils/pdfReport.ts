@@ -0,0 +1,756 @@
+import { jsPDF } from 'jspdf';
+import { ChemicalData, Language, StrokePoint } from '../types';
+import { customSectionsAfter } from './customSections';
+import { translator, Translate } from './i18n';
+import { findRings, layoutMolecule } from './layout';
+import { parseSmiles, SmilesMolecule } from './smiles';
+import { applyStereo } from './stereo';
+import { revisionQuestions, WorksheetOptions } from './worksheet';
+
+export interface PdfReportOptions {
+  /** The student's drawing, printed beside the recognised structure when given */
+  sketch?: string | null;
+  /** Section titles and labels; English unless given */
+  t?: Translate;
+}
+
+type Rgb = [number, number, number];
+
+// A4 in millimetres; the running header and footer sit in the top and bottom margins
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 18;
+const CONTENT_TOP = 24;
+const CONTENT_BOTTOM = PAGE_HEIGHT - 20;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const PT_TO_MM = 25.4 / 72;
+const LINE_SPACING = 1.4;
+
+const COLORS = {
+  text: [51, 65, 85] as Rgb,
+  muted: [100, 116, 139] as Rgb,
+  rule: [226, 232, 240] as Rgb,
+  indigo: [79, 70, 229] as Rgb,
+  emerald: [5, 150, 105] as Rgb,
+  amber: [217, 119, 6] as Rgb,
+  sky: [3, 105, 161] as Rgb,
+  fuchsia: [192, 38, 211] as Rgb,
+  rose: [225, 29, 72] as Rgb,
+  violet: [124, 58, 237] as Rgb,
+  teal: [13, 148, 136] as Rgb,
+};
+
+// The standard PDF fonts only cover Windows-1252, so symbols the model likes are spelled out
+const REPLACEMENTS: Record<string, string> = {
+  '−': '-', '→': '->', '⟶': '->', '←': '<-', '↔': '<->', '⇌': '<=>', '⇒': '=>',
+  '≥': '>=', '≤': '<=', '≈': '~', '≠': '!=', '∝': 'proportional to',
+  'α': 'alpha', 'β': 'beta', 'γ': 'gamma', 'δ': 'delta', 'Δ': 'Delta', 'π': 'pi', 'σ': 'sigma', 'λ': 'lambda', 'μ': 'µ',
+  '⁺': '+', '⁻': '-', '′': "'", '″': '"',
+};
+const WIN_ANSI_EXTRAS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ');
+const SCRIPT_DIGITS = /[₀-₉⁰¹²³⁴-⁹]/;
+
+const isWinAnsi = (char: string) => char.charCodeAt(0) <= 0xff || WIN_ANSI_EXTRAS.has(char);
+
+const pdfText = (text: string) =>
+  [...text
+    .replace(/[₀-₉]/g, digit => String(digit.charCodeAt(0) - 0x2080))
+    .replace(/[⁰¹²³⁴-⁹]/g, digit => String('⁰¹²³⁴⁵⁶⁷⁸⁹'.indexOf(digit)))]
+    .map(char => REPLACEMENTS[char] ?? (isWinAnsi(char) ? char : '?'))
+    .join('');
+
+const lineHeight = (fontSize: number) => fontSize * PT_TO_MM * LINE_SPACING;
+
+// jsPDF cannot shape Devanagari (conjuncts, vowel signs), so text the standard fonts cannot show is drawn by the
+// browser onto a canvas and placed as an image; everything in Latin script stays real, selectable text
+const RASTER_SCALE = 4; // canvas pixels per point, about 290 dpi
+const RASTER_FONTS = "'Noto Sans Devanagari', 'Nirmala UI', Mangal, 'Kohinoor Devanagari', 'Noto Sans', sans-serif";
+
+const needsRaster = (text: string) =>
+  [...text].some(char => !(char in REPLACEMENTS) && !isWinAnsi(char) && !SCRIPT_DIGITS.test(char));
+
+const rasterFont = (size: number, style: TextStyle['style'] = 'normal') =>
+  `${style.includes('italic') ? 'italic ' : ''}${style.includes('bold') ? 'bold ' : ''}${size * RASTER_SCALE}px ${RASTER_FONTS}`;
+
+let measuringContext: CanvasRenderingContext2D | null = null;
+
+/** Width in millimetres of text as the browser draws it */
+const rasterWidth = (text: string, size: number, style: TextStyle['style']) => {
+  measuringContext ??= document.createElement('canvas').getContext('2d')!;
+  measuringContext.font = rasterFont(size, style);
+  return (measuringContext.measureText(text).width / RASTER_SCALE) * PT_TO_MM;
+};
+
+/** Greedy word wrap using the browser's measurements; keeps the text's own line breaks */
+const wrapRaster = (text: string, width: number, size: number, style: TextStyle['style']): string[] =>
+  text.split('\n').flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && rasterWidth(candidate, size, style) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    return line ? [...lines, line] : lines;
+  });
+
+type TextAlign = 'left' | 'center' | 'right';
+type TextBaseline = 'top' | 'middle' | 'bottom';
+
+/**
+ * Draws one line of text at a jsPDF-style anchor, as an image when the standard fonts cannot show it.
+ * Returns the width it took.
+ */
+const drawText = (pdf: jsPDF, text: string, x: number, y: number, style: TextStyle = {}, align: TextAlign = 'left', baseline: TextBaseline = 'top'): number => {
+  const { size = 10, style: fontStyle = 'normal', color = COLORS.text } = style;
+  if (!needsRaster(text)) {
+    pdf.setFont('helvetica', fontStyle);
+    pdf.setFontSize(size);
+    pdf.setTextColor(...color);
+    pdf.text(pdfText(text), x, y, { align, baseline });
+    return pdf.getTextWidth(pdfText(text));
+  }
+
+  const canvas = document.createElement('canvas');
+  const emHeight = size * PT_TO_MM;
+  canvas.width = Math.ceil((rasterWidth(text, size, fontStyle) / PT_TO_MM) * RASTER_SCALE) + 2;
+  canvas.height = Math.ceil((lineHeight(size) / PT_TO_MM) * RASTER_SCALE);
+  const ctx = canvas.getContext('2d')!;
+  ctx.font = rasterFont(size, fontStyle);
+  ctx.fillStyle = `rgb(${color.join(',')})`;
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, 1, canvas.height / 2);
+
+  const width = (canvas.width / RASTER_SCALE) * PT_TO_MM;
+  const height = (canvas.height / RASTER_SCALE) * PT_TO_MM;
+  // The image is centred on the middle of where jsPDF would have put the glyphs
+  const middle = baseline === 'top' ? y + emHeight / 2 : baseline === 'bottom' ? y - emHeight / 2 : y;
+  const left = align === 'left' ? x : align === 'center' ? x - width / 2 : x - width;
+  pdf.addImage(canvas.toDataURL('image/png'), 'PNG', left, middle - height / 2, width, height);
+  return width;
+};
+
+interface TextStyle {
+  size?: number;
+  style?: 'normal' | 'bold' | 'italic' | 'bolditalic';
+  color?: Rgb;
+}
+
+/** A run of text, drawn as a subscript when `sub` is set */
+interface TextRun {
+  text: string;
+  sub: boolean;
+}
+
+// Digits after an element, a bracket or a hydrogen count are subscripts: C6H5NO2, (CH3)3C
+const formulaRuns = (formula: string): TextRun[] =>
+  pdfText(formula)
+    .split(/(?<=[A-Za-z)\]])(\d+)/)
+    .filter(Boolean)
+    .map((text, index, parts) => ({ text, sub: /^\d+$/.test(text) && index > 0 && /[A-Za-z)\]]$/.test(parts[index - 1]) }));
+
+/**
+ * Lays content out top to bottom with a cursor, starting a new page whenever the next block would not fit,
+ * so lines and table rows are never cut in half.
+ */
+class ReportWriter {
+  y = CONTENT_TOP;
+
+  constructor(readonly pdf: jsPDF) {}
+
+  private setStyle({ size = 10, style = 'normal', color = COLORS.text }: TextStyle) {
+    this.pdf.setFont('helvetica', style);
+    this.pdf.setFontSize(size);
+    this.pdf.setTextColor(...color);
+  }
+
+  /** Moves to a new page unless `height` millimetres still fit on this one */
+  ensureSpace(height: number) {
+    if (this.y + height <= CONTENT_BOTTOM) return;
+    this.pdf.addPage();
+    this.y = CONTENT_TOP;
+  }
+
+  gap(height: number) {
+    this.y = Math.min(this.y + height, CONTENT_BOTTOM);
+  }
+
+  wrap(text: string, width: number, style: TextStyle = {}): string[] {
+    if (needsRaster(text)) return wrapRaster(text, width, style.size ?? 10, style.style);
+    this.setStyle(style);
+    return this.pdf.splitTextToSize(pdfText(text), width);
+  }
+
+  paragraph(text: string, style: TextStyle = {}, indent = 0) {
+    const lines = this.wrap(text, CONTENT_WIDTH - indent, style);
+    const height = lineHeight(style.size ?? 10);
+    lines.forEach(line => {
+      this.ensureSpace(height);
+      drawText(this.pdf, line, MARGIN + indent, this.y, style);
+      this.y += height;
+    });
+  }
+
+  /** A section title, kept on the same page as the first lines that follow it */
+  heading(title: string, color: Rgb) {
+    this.ensureSpace(lineHeight(13) + lineHeight(10) * 3 + 4);
+    this.gap(3);
+    drawText(this.pdf, title, MARGIN, this.y, { size: 13, style: 'bold', color });
+    this.y += lineHeight(13);
+    this.pdf.setDrawColor(...color);
+    this.pdf.setLineWidth(0.4);
+    this.pdf.line(MARGIN, this.y - 0.5, MARGIN + 24, this.y - 0.5);
+    this.y += 2;
+  }
+
+  bullets(items: string[], marker: string | ((index: number) => string), color: Rgb) {
+    items.forEach((item, itemIndex) => {
+      const lines = this.wrap(item, CONTENT_WIDTH - 6);
+      const height = lineHeight(10);
+      lines.forEach((line, index) => {
+        this.ensureSpace(height);
+        if (index === 0) drawText(this.pdf, typeof marker === 'string' ? marker : marker(itemIndex), MARGIN + 1, this.y, { color, style: 'bold' });
+        drawText(this.pdf, line, MARGIN + 6, this.y);
+        this.y += height;
+      });
+      this.y += 1;
+    });
+  }
+
+  /** Text in a tinted box with a coloured left edge; long callouts continue on the next page */
+  callout(text: string, color: Rgb, style: TextStyle = {}) {
+    const lines = this.wrap(text, CONTENT_WIDTH - 10, style);
+    const height = lineHeight(style.size ?? 10);
+    let index = 0;
+    while (index < lines.length) {
+      this.ensureSpace(height + 6);
+      const fits = Math.max(1, Math.floor((CONTENT_BOTTOM - this.y - 6) / height));
+      const chunk = lines.slice(index, index + fits);
+      const boxHeight = chunk.length * height + 6;
+      this.pdf.setFillColor(...color.map(c => Math.round(c + (255 - c) * 0.92)) as Rgb);
+      this.pdf.rect(MARGIN, this.y, CONTENT_WIDTH, boxHeight, 'F');
+      this.pdf.setFillColor(...color);
+      this.pdf.rect(MARGIN, this.y, 1.2, boxHeight, 'F');
+      chunk.forEach((line, offset) => drawText(this.pdf, line, MARGIN + 5, this.y + 3 + offset * height, style));
+      this.y += boxHeight + 2;
+      index += chunk.length;
+    }
+  }
+
+  /** Rows never split across pages; the header row is repeated after a page break */
+  table(columns: { title: string; width: number }[], rows: string[][]) {
+    const height = lineHeight(9);
+    const measureRow = (cells: string[], header: boolean) => {
+      const style: TextStyle = header ? { size: 9, style: 'bold', color: COLORS.muted } : { size: 9 };
+      const wrapped = cells.map((cell, index) => this.wrap(cell || '—', columns[index].width * CONTENT_WIDTH - 3, style));
+      const rowHeight = Math.max(...wrapped.map(lines => lines.length)) * height + 3;
+      return { wrapped, rowHeight, style };
+    };
+    const paint = ({ wrapped, rowHeight, style }: ReturnType<typeof measureRow>, header: boolean) => {
+      if (header) {
+        this.pdf.setFillColor(248, 250, 252);
+        this.pdf.rect(MARGIN, this.y, CONTENT_WIDTH, rowHeight, 'F');
+      }
+      let x = MARGIN;
+      wrapped.forEach((lines, index) => {
+        lines.forEach((line, offset) => drawText(this.pdf, line, x + 1.5, this.y + 1.5 + offset * height, style));
+        x += columns[index].width * CONTENT_WIDTH;
+      });
+      this.y += rowHeight;
+      this.pdf.setDrawColor(...COLORS.rule);
+      this.pdf.setLineWidth(0.2);
+      this.pdf.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y);
+    };
+
+    const header = measureRow(columns.map(column => column.title), true);
+    rows.forEach((cells, index) => {
+      const row = measureRow(cells, false);
+      const startsPage = this.y + row.rowHeight > CONTENT_BOTTOM;
+      this.ensureSpace((index === 0 ? header.rowHeight : 0) + row.rowHeight);
+      if (index === 0 || startsPage) paint(header, true);
+      paint(row, false);
+    });
+    this.y += 2;
+  }
+
+  /** Text with formula-style subscripts; returns its width */
+  runs(runs: TextRun[], x: number, y: number, size: number, align: 'left' | 'center' | 'right' = 'left'): number {
+    const widthOf = (run: TextRun) => {
+      this.pdf.setFontSize(run.sub ? size * 0.7 : size);
+      return this.pdf.getTextWidth(run.text);
+    };
+    const total = runs.reduce((sum, run) => sum + widthOf(run), 0);
+    let cursor = align === 'left' ? x : align === 'center' ? x - total / 2 : x - total;
+    runs.forEach(run => {
+      const width = widthOf(run);
+      this.pdf.text(run.text, cursor, y + (run.sub ? size * PT_TO_MM * 0.25 : 0), { baseline: 'middle' });
+      cursor += width;
+    });
+    return total;
+  }
+}
+
+// Structures are laid out in bond-length units (utils/layout); this caps a 40-unit bond at about 7 mm
+const MAX_STRUCTURE_SCALE = 0.18;
+const STRUCTURE_PADDING = 16;
+const LABEL_CLEARANCE = 9;
+const BOND_OFFSET = 3;
+
+const parseStructure = (smiles: string): SmilesMolecule | null => {
+  try {
+    const molecule = applyStereo(layoutMolecule(parseSmiles(smiles)));
+    return molecule.atoms.length ? molecule : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Draws a skeletal structure as vector lines and text, centred in the box; false if the SMILES is unusable */
+const drawStructure = (writer: ReportWriter, smiles: string, box: { x: number; y: number; width: number; height: number }): boolean => {
+  const molecule = parseStructure(smiles);
+  if (!molecule) return false;
+  const { pdf } = writer;
+  const { atoms, bonds } = molecule;
+  const rings = findRings(molecule);
+
+  const xs = atoms.map(atom => atom.x);
+  const ys = atoms.map(atom => atom.y);
+  const minX = Math.min(...xs) - STRUCTURE_PADDING;
+  const minY = Math.min(...ys) - STRUCTURE_PADDING;
+  const width = Math.max(...xs) - minX + STRUCTURE_PADDING;
+  const height = Math.max(...ys) - minY + STRUCTURE_PADDING;
+  const scale = Math.min(box.width / width, box.height / height, MAX_STRUCTURE_SCALE);
+  const originX = box.x + (box.width - width * scale) / 2;
+  const originY = box.y + (box.height - height * scale) / 2;
+  const place = (p: StrokePoint): StrokePoint => ({ x: originX + (p.x - minX) * scale, y: originY + (p.y - minY) * scale });
+
+  const degree = new Map<number, number>();
+  bonds.forEach(bond => [bond.from, bond.to].forEach(id => degree.set(id, (degree.get(id) ?? 0) + 1)));
+  const labelled = (id: number) => atoms[id].label !== 'C' || !degree.get(id);
+
+  pdf.setDrawColor(...COLORS.text);
+  pdf.setFillColor(...COLORS.text);
+  pdf.setLineWidth(Math.max(0.2, scale * 1.6));
+
+  bonds.forEach(bond => {
+    const from = atoms[bond.from];
+    const to = atoms[bond.to];
+    const length = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+    const ux = (to.x - from.x) / length;
+    const uy = (to.y - from.y) / length;
+    const startTrim = labelled(from.id) ? LABEL_CLEARANCE : 0;
+    const endTrim = labelled(to.id) ? LABEL_CLEARANCE : 0;
+    const start = { x: from.x + ux * startTrim, y: from.y + uy * startTrim };
+    const end = { x: to.x - ux * endTrim, y: to.y - uy * endTrim };
+    const shift = (p: StrokePoint, d: number) => place({ x: p.x - uy * d, y: p.y + ux * d });
+    const line = (a: StrokePoint, b: StrokePoint) => pdf.line(a.x, a.y, b.x, b.y);
+
+    if (bond.stereo === 'wedge') {
+      const tip = place(start);
+      const a = shift(end, 4);
+      const b = shift(end, -4);
+      pdf.triangle(tip.x, tip.y, a.x, a.y, b.x, b.y, 'F');
+    } else if (bond.stereo === 'dash') {
+      for (let i = 1; i <= 6; i++) {
+        const t = i / 6;
+        const p = { x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t };
+        line(shift(p, 4 * t), shift(p, -4 * t));
+      }
+    } else if (bond.order === 3) {
+      [0, BOND_OFFSET + 1, -BOND_OFFSET - 1].forEach(d => line(shift(start, d), shift(end, d)));
+    } else if (bond.order === 2) {
+      const ring = rings.find(r => r.includes(bond.from) && r.includes(bond.to));
+      if (ring) {
+        // Ring double bonds keep the outline and add a shorter line inside the ring, as on screen
+        const centre = ring.reduce((sum, id) => ({ x: sum.x + atoms[id].x / ring.length, y: sum.y + atoms[id].y / ring.length }), { x: 0, y: 0 });
+        const side = (centre.x - start.x) * -uy + (centre.y - start.y) * ux > 0 ? 1 : -1;
+        const a = { x: start.x + (end.x - start.x) * 0.15, y: start.y + (end.y - start.y) * 0.15 };
+        const b = { x: end.x - (end.x - start.x) * 0.15, y: end.y - (end.y - start.y) * 0.15 };
+        line(place(start), place(end));
+        line(shift(a, side * BOND_OFFSET * 2), shift(b, side * BOND_OFFSET * 2));
+      } else {
+        line(shift(start, BOND_OFFSET), shift(end, BOND_OFFSET));
+        line(shift(start, -BOND_OFFSET), shift(end, -BOND_OFFSET));
+      }
+    } else {
+      line(place(start), place(end));
+    }
+  });
+
+  const fontSize = (15 * scale) / PT_TO_MM;
+  pdf.setFont('helvetica', 'bold');
+  pdf.setTextColor(...COLORS.text);
+  atoms.forEach(atom => {
+    const point = place(atom);
+    if (labelled(atom.id)) {
+      pdf.setFontSize(fontSize);
+      pdf.text(atom.label, point.x, point.y, { align: 'center', baseline: 'middle' });
+      if (atom.hydrogens > 0) {
+        // Hydrogens go on the side away from the bonds, as on screen
+        const neighbours = bonds.filter(bond => bond.from === atom.id || bond.to === atom.id).map(bond => atoms[bond.from === atom.id ? bond.to : bond.from]);
+        const hydrogensFirst = neighbours.length > 0 && neighbours.every(other => other.x > atom.x + 1);
+        const halfWidth = pdf.getTextWidth(atom.label) / 2 + 0.1;
+        const runs: TextRun[] = [{ text: 'H', sub: false }, ...(atom.hydrogens > 1 ? [{ text: String(atom.hydrogens), sub: true }] : [])];
+        writer.runs(runs, hydrogensFirst ? point.x - halfWidth : point.x + halfWidth, point.y, fontSize, hydrogensFirst ? 'right' : 'left');
+      }
+    }
+    if (atom.charge) {
+      const sign = atom.charge > 0 ? '+' : '-';
+      pdf.setFontSize(fontSize * 0.8);
+      pdf.text(Math.abs(atom.charge) > 1 ? `${Math.abs(atom.charge)}${sign}` : sign, point.x + 10 * scale, point.y - 9 * scale, { align: 'center', baseline: 'middle' });
+    }
+  });
+  return true;
+};
+
+const FIGURE_HEIGHT = 46;
+
+/** The recognised structure and, if given, the student's drawing side by side with captions */
+const drawFigures = (writer: ReportWriter, data: ChemicalData, sketch: string | null, t: Translate) => {
+  const { pdf } = writer;
+  const figures: { caption: string; draw: (box: { x: number; y: number; width: number; height: number }) => boolean }[] = [];
+  if (data.smiles && parseStructure(data.smiles)) {
+    figures.push({ caption: t('recognisedStructure'), draw: box => drawStructure(writer, data.smiles!, box) });
+  }
+  if (sketch) {
+    figures.push({
+      caption: t('yourDrawing'),
+      draw: box => {
+        const { width, height } = pdf.getImageProperties(sketch);
+        const fit = Math.min(box.width / width, box.height / height);
+        const format = sketch.startsWith('data:image/png') ? 'PNG' : 'JPEG';
+        pdf.addImage(sketch, format, box.x + (box.width - width * fit) / 2, box.y + (box.height - height * fit) / 2, width * fit, height * fit);
+        return true;
+      },
+    });
+  }
+  if (!figures.length) return;
+
+  writer.ensureSpace(FIGURE_HEIGHT + 8);
+  const slot = (CONTENT_WIDTH - 6 * (figures.length - 1)) / figures.length;
+  figures.forEach((figure, index) => {
+    const x = MARGIN + index * (slot + 6);
+    pdf.setDrawColor(...COLORS.rule);
+    pdf.setLineWidth(0.3);
+    pdf.roundedRect(x, writer.y, slot, FIGURE_HEIGHT, 2, 2, 'S');
+    figure.draw({ x: x + 3, y: writer.y + 3, width: slot - 6, height: FIGURE_HEIGHT - 6 });
+    drawText(pdf, figure.caption, x + slot / 2, writer.y + FIGURE_HEIGHT + 1.5, { size: 8, color: COLORS.muted }, 'center');
+  });
+  writer.y += FIGURE_HEIGHT + 7;
+};
+
+const drawTitle = (writer: ReportWriter, data: ChemicalData, level: string, t: Translate) => {
+  const { pdf } = writer;
+  const titleStyle: TextStyle = { size: 22, style: 'bold', color: COLORS.indigo };
+  writer.wrap(data.name, CONTENT_WIDTH, titleStyle).forEach(line => {
+    drawText(pdf, line, MARGIN, writer.y, titleStyle);
+    writer.y += lineHeight(22);
+  });
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setTextColor(...COLORS.text);
+  writer.runs(formulaRuns(data.molecularFormula), MARGIN, writer.y + 3, 14);
+  writer.y += lineHeight(14) + 1;
+  writer.paragraph(`IUPAC: ${data.iupacName}`, { color: COLORS.muted });
+  writer.paragraph(`${t('levelLabel')}: ${level}`, { color: COLORS.muted });
+  if (data.smiles) writer.paragraph(`SMILES: ${data.smiles}`, { size: 8, color: COLORS.muted });
+  writer.gap(4);
+};
+
+const drawElectronicEffects = (writer: ReportWriter, data: ChemicalData, t: Translate) => {
+  const effects = data.electronicEffects;
+  if (!effects) return;
+  const { functionalGroups, hybridisation, aromaticity, reactiveSites } = effects;
+  writer.heading(t('electronicEffects'), COLORS.sky);
+
+  if (functionalGroups.length) {
+    writer.table(
+      [
+        { title: t('group'), width: 0.2 },
+        { title: t('inductive'), width: 0.12 },
+        { title: t('mesomeric'), width: 0.12 },
+        { title: t('hyperconjugation'), width: 0.2 },
+        { title: t('note'), width: 0.36 },
+      ],
+      functionalGroups.map(group => [group.group, group.inductive, group.mesomeric, group.hyperconjugation, group.note])
+    );
+  }
+  if (hybridisation.length) {
+    writer.table(
+      [
+        { title: t('atom'), width: 0.4 },
+        { title: t('hybridisation'), width: 0.25 },
+        { title: t('geometry'), width: 0.35 },
+      ],
+      hybridisation.map(entry => [entry.atom, entry.hybridisation, entry.geometry])
+    );
+  }
+  const piCount = aromaticity.piElectrons ? ` (${t('piElectrons', { count: aromaticity.piElectrons })})` : '';
+  writer.paragraph(`${t('aromaticity')}: ${aromaticity.status}${piCount}`, { style: 'bold' });
+  writer.paragraph(aromaticity.explanation);
+  writer.gap(2);
+  if (reactiveSites.length) {
+    writer.table(
+      [
+        { title: t('reactiveSite'), width: 0.3 },
+        { title: t('kind'), width: 0.18 },
+        { title: t('note'), width: 0.52 },
+      ],
+      reactiveSites.map(site => [site.site, site.kind, site.note])
+    );
+  }
+};
+
+const RESONANCE_BOX = { width: 40, height: 30 };
+
+const drawResonance = (writer: ReportWriter, data: ChemicalData, t: Translate) => {
+  const resonance = data.resonance;
+  if (!resonance || !resonance.contributors.length) return;
+  const { pdf } = writer;
+  writer.heading(t('resonance'), COLORS.fuchsia);
+
+  // Contributors in rows of up to four structures, joined by double-headed arrows
+  const perRow = 4;
+  const gap = (CONTENT_WIDTH - perRow * RESONANCE_BOX.width) / (perRow - 1);
+  for (let start = 0; start < resonance.contributors.length; start += perRow) {
+    writer.ensureSpace(RESONANCE_BOX.height + 6);
+    resonance.contributors.slice(start, start + perRow).forEach((contributor, offset) => {
+      const index = start + offset;
+      const x = MARGIN + offset * (RESONANCE_BOX.width + gap);
+      if (!drawStructure(writer, contributor.smiles, { x, y: writer.y, ...RESONANCE_BOX })) {
+        writer.wrap(contributor.smiles, RESONANCE_BOX.width, { size: 7, color: COLORS.muted })
+          .forEach((line, row) => pdf.text(line, x, writer.y + 10 + row * lineHeight(7), { baseline: 'top' }));
+      }
+      const major = index === resonance.majorIndex;
+      const caption = `${String.fromCharCode(65 + index)}${major ? ` (${t('major')})` : ''}`;
+      drawText(pdf, caption, x + RESONANCE_BOX.width / 2, writer.y + RESONANCE_BOX.height + 1,
+        { size: 8, style: major ? 'bold' : 'normal', color: major ? COLORS.fuchsia : COLORS.muted }, 'center');
+      if (offset < perRow - 1 && index < resonance.contributors.length - 1) {
+        const arrowY = writer.y + RESONANCE_BOX.height / 2;
+        const left = x + RESONANCE_BOX.width + 1;
+        const right = x + RESONANCE_BOX.width + gap - 1;
+        pdf.setDrawColor(...COLORS.text);
+        pdf.setLineWidth(0.3);
+        pdf.line(left, arrowY, right, arrowY);
+        pdf.line(left, arrowY, left + 1.5, arrowY - 1);
+        pdf.line(left, arrowY, left + 1.5, arrowY + 1);
+        pdf.line(right, arrowY, right - 1.5, arrowY - 1);
+        pdf.line(right, arrowY, right - 1.5, arrowY + 1);
+      }
+    });
+    writer.y += RESONANCE_BOX.height + 6;
+  }
+
+  writer.bullets(
+    resonance.contributors.map((contributor, index) =>
+      [`${String.fromCharCode(65 + index)}: ${contributor.description}`, contributor.arrowPushing].filter(Boolean).join(' ')
+    ),
+    '•',
+    COLORS.fuchsia
+  );
+  writer.paragraph(resonance.explanation);
+};
+
+const drawSources = (writer: ReportWriter, data: ChemicalData, t: Translate) => {
+  if (!data.webSources?.length) return;
+  const { pdf } = writer;
+  writer.heading(t('sources'), COLORS.muted);
+  data.webSources.forEach(source => {
+    const style: TextStyle = { size: 9, color: COLORS.indigo };
+    writer.wrap(source.title || source.uri, CONTENT_WIDTH - 6, style).forEach(line => {
+      writer.ensureSpace(lineHeight(9));
+      const width = drawText(pdf, line, MARGIN + 6, writer.y, style);
+      pdf.link(MARGIN + 6, writer.y, width, lineHeight(9), { url: source.uri });
+      writer.y += lineHeight(9);
+    });
+  });
+};
+
+/** Running header and footer on every page, drawn once the page count is known */
+const drawPageFrames = (pdf: jsPDF, titleOf: (page: number) => string, level: string, t: Translate) => {
+  const pages = pdf.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    pdf.setPage(page);
+    pdf.setDrawColor(...COLORS.rule);
+    pdf.setLineWidth(0.3);
+    drawText(pdf, titleOf(page), MARGIN, 12, { size: 9, style: 'bold', color: COLORS.indigo }, 'left', 'bottom');
+    drawText(pdf, level, PAGE_WIDTH - MARGIN, 12, { size: 9, color: COLORS.muted }, 'right', 'bottom');
+    pdf.line(MARGIN, 14, PAGE_WIDTH - MARGIN, 14);
+
+    pdf.line(MARGIN, PAGE_HEIGHT - 15, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 15);
+    drawText(pdf, 'GOC Visualiser AI Analysis', MARGIN, PAGE_HEIGHT - 11, { size: 8, color: COLORS.muted });
+    drawText(pdf, t('pageOf', { page, pages }), PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 11, { size: 8, color: COLORS.muted }, 'right');
+  }
+};
+
+/** Template-added sections that follow `keys` in the template, styled like the result card's */
+const drawCustomSections = (writer: ReportWriter, data: ChemicalData, ...keys: (keyof ChemicalData | null)[]) => {
+  customSectionsAfter(data, keys).forEach(section => {
+    writer.heading(section.title, COLORS.teal);
+    if (Array.isArray(section.content)) writer.bullets(section.content, '•', COLORS.teal);
+    else writer.paragraph(section.content);
+  });
+};
+
+/** Everything the result card shows, from the title block down to the sources */
+const drawAnalysis = (writer: ReportWriter, data: ChemicalData, level: string, sketch: string | null, t: Translate) => {
+  drawTitle(writer, data, level, t);
+  drawFigures(writer, data, sketch, t);
+
+  const repaired = data.meta?.repairedFields ?? [];
+  if (repaired.length) {
+    writer.callout(t('repairedPdf', { fields: repaired.join(', ') }), COLORS.amber, { size: 9 });
+  }
+
+  drawCustomSections(writer, data, null);
+  if (data.summary) {
+    writer.heading(t('summary'), COLORS.indigo);
+    writer.paragraph(data.summary);
+  }
+  drawCustomSections(writer, data, 'summary');
+  if (data.analogy) {
+    writer.heading(t('analogy'), COLORS.amber);
+    writer.callout(`"${data.analogy}"`, COLORS.amber, { style: 'italic' });
+  }
+  drawCustomSections(writer, data, 'analogy');
+  if (data.keyPoints.length) {
+    writer.heading(t('keyPoints'), COLORS.emerald);
+    writer.bullets(data.keyPoints, '•', COLORS.emerald);
+  }
+  drawCustomSections(writer, data, 'keyPoints');
+  if (data.reactions_or_uses.length) {
+    writer.heading(t('reactions'), COLORS.amber);
+    writer.bullets(data.reactions_or_uses, '->', COLORS.amber);
+  }
+  drawCustomSections(writer, data, 'reactions_or_uses');
+  drawElectronicEffects(writer, data, t);
+  drawCustomSections(writer, data, 'electronicEffects');
+  drawResonance(writer, data, t);
+  drawCustomSections(writer, data, 'resonance');
+  if (data.curriculumContext) {
+    writer.heading(t('curriculumContext'), COLORS.rose);
+    writer.callout(`"${data.curriculumContext}"`, COLORS.rose, { style: 'italic' });
+  }
+  drawCustomSections(writer, data, 'curriculumContext');
+  if (data.funFacts.length) {
+    writer.heading(t('funFacts'), COLORS.violet);
+    writer.bullets(data.funFacts, '•', COLORS.violet);
+  }
+  drawCustomSections(writer, data, 'funFacts');
+  drawSources(writer, data, t);
+};
+
+const ENGLISH = translator(Language.ENGLISH);
+
+/**
+ * Lays out an analysis as a PDF with real, selectable text and vector structures, paginated by section
+ * rather than sliced from a screenshot.
+ */
+export const buildAnalysisPdf = (data: ChemicalData, level: string, { sketch = null, t = ENGLISH }: PdfReportOptions = {}): jsPDF => {
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  pdf.setProperties({ title: pdfText(`${data.name} – Analysis`), subject: pdfText(level), creator: 'GOC Visualiser' });
+
+  drawAnalysis(new ReportWriter(pdf), data, level, sketch, t);
+  drawPageFrames(pdf, () => data.name, level, t);
+  return pdf;
+};
+
+const TOC_ROW_HEIGHT = 7;
+const TOC_TOP = CONTENT_TOP + 30;
+const TOC_ROWS_FIRST_PAGE = Math.floor((CONTENT_BOTTOM - TOC_TOP) / TOC_ROW_HEIGHT);
+const TOC_ROWS_PER_PAGE = Math.floor((CONTENT_BOTTOM - CONTENT_TOP) / TOC_ROW_HEIGHT);
+
+/** Title and contents with page numbers and links; drawn last into pages reserved at the front */
+const drawContents = (pdf: jsPDF, title: string, level: string, entries: { label: string; page: number }[], t: Translate) => {
+  pdf.setPage(1);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(24);
+  pdf.setTextColor(...COLORS.indigo);
+  pdf.text(pdfText(title), MARGIN, CONTENT_TOP, { baseline: 'top', maxWidth: CONTENT_WIDTH });
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(11);
+  pdf.setTextColor(...COLORS.muted);
+  pdf.text(pdfText(`${level} · ${t('sectionCount', { count: entries.length })}`), MARGIN, CONTENT_TOP + 14, { baseline: 'top' });
+
+  let y = TOC_TOP;
+  let rowsLeft = TOC_ROWS_FIRST_PAGE;
+  let page = 1;
+  entries.forEach((entry, index) => {
+    if (rowsLeft === 0) {
+      pdf.setPage(++page);
+      y = CONTENT_TOP;
+      rowsLeft = TOC_ROWS_PER_PAGE;
+    }
+    const label = pdfText(`${index + 1}. ${entry.label}`);
+    pdf.setFontSize(11);
+    pdf.setTextColor(...COLORS.text);
+    pdf.textWithLink(label, MARGIN, y, { pageNumber: entry.page, baseline: 'top' });
+    pdf.text(String(entry.page), PAGE_WIDTH - MARGIN, y, { align: 'right', baseline: 'top' });
+    // Dotted leader between the entry and its page number
+    const start = MARGIN + pdf.getTextWidth(label) + 2;
+    const end = PAGE_WIDTH - MARGIN - pdf.getTextWidth(String(entry.page)) - 2;
+    pdf.setFillColor(...COLORS.muted);
+    for (let x = start; x < end; x += 1.5) pdf.circle(x, y + 2.6, 0.15, 'F');
+    y += TOC_ROW_HEIGHT;
+    rowsLeft--;
+  });
+};
+
+/**
+ * A revision booklet: contents, one section per compound starting on a fresh page, each ending with revision
+ * questions, and optionally an answer key at the back.
+ */
+export const buildWorksheetPdf = (compounds: ChemicalData[], { title, level, answerKey, t }: WorksheetOptions): jsPDF => {
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  pdf.setProperties({ title: pdfText(title), subject: pdfText(level), creator: 'GOC Visualiser' });
+  const writer = new ReportWriter(pdf);
+
+  const entryCount = compounds.length + (answerKey ? 1 : 0);
+  const contentsPages = 1 + Math.max(0, Math.ceil((entryCount - TOC_ROWS_FIRST_PAGE) / TOC_ROWS_PER_PAGE));
+  for (let page = 1; page < contentsPages; page++) pdf.addPage();
+
+  // Page number where each section starts, and whose name goes in each page's header
+  const entries: { label: string; page: number }[] = [];
+  const pageTitles: string[] = Array(contentsPages).fill(title);
+  const startSection = (label: string) => {
+    pdf.addPage();
+    writer.y = CONTENT_TOP;
+    entries.push({ label, page: pdf.getNumberOfPages() });
+  };
+  const claimPages = (header: string) => {
+    while (pageTitles.length < pdf.getNumberOfPages()) pageTitles.push(header);
+  };
+
+  compounds.forEach(data => {
+    startSection(data.name);
+    drawAnalysis(writer, data, level, null, t);
+    const questions = revisionQuestions(data, t);
+    if (questions.length) {
+      writer.heading(t('revisionQuestions'), COLORS.indigo);
+      writer.bullets(questions.map(q => q.question), index => `${index + 1}.`, COLORS.indigo);
+    }
+    claimPages(data.name);
+  });
+
+  if (answerKey) {
+    startSection(t('answerKey'));
+    writer.paragraph(t('answerKey'), { size: 18, style: 'bold', color: COLORS.indigo });
+    writer.gap(2);
+    compounds.forEach((data, index) => {
+      const answers = revisionQuestions(data, t).map(q => q.answer);
+      if (!answers.length) return;
+      writer.heading(`${index + 1}. ${data.name}`, COLORS.emerald);
+      writer.bullets(answers, n => `${n + 1}.`, COLORS.emerald);
+    });
+    claimPages(t('answerKey'));
+  }
+
+  drawContents(pdf, title, level, entries, t);
+  drawPageFrames(pdf, page => pageTitles[page - 1] ?? title, level, t);
+  return pdf;
+};
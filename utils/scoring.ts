@@ -0,0 +1,71 @@
+import { AssertionReasonChoice, QuizAttempt, QuizQuestion, QuizTopic, Quiz } from '../types';
+
+/** A student's answer: the option index for MCQ and assertion-reason questions, the number for integer type */
+export type QuizResponse = number | null;
+
+export const ASSERTION_REASON_CHOICES = Object.values(AssertionReasonChoice);
+
+// JEE Main-style marking: choice questions lose a mark when wrong, integer questions do not
+const MARKS_CORRECT = 4;
+const MARKS_WRONG_CHOICE = -1;
+
+// Topics answered correctly less often than this are flagged as weak
+const WEAK_TOPIC_ACCURACY = 0.6;
+
+export const correctResponse = (question: QuizQuestion): number => {
+  switch (question.type) {
+    case 'mcq':
+      return question.answerIndex;
+    case 'assertion-reason':
+      return ASSERTION_REASON_CHOICES.indexOf(question.answer);
+    case 'integer':
+      return question.answer;
+  }
+};
+
+export const isCorrect = (question: QuizQuestion, response: QuizResponse) => response === correctResponse(question);
+
+const marksFor = (question: QuizQuestion, response: QuizResponse) => {
+  if (response === null) return 0;
+  if (isCorrect(question, response)) return MARKS_CORRECT;
+  return question.type === 'integer' ? 0 : MARKS_WRONG_CHOICE;
+};
+
+export const scoreQuiz = (quiz: Quiz, responses: QuizResponse[], durationMs: number, takenAt = Date.now()): QuizAttempt => {
+  const topics: QuizAttempt['topics'] = {};
+  quiz.questions.forEach((question, index) => {
+    const tally = topics[question.topic] ?? { correct: 0, total: 0 };
+    topics[question.topic] = {
+      correct: tally.correct + (isCorrect(question, responses[index] ?? null) ? 1 : 0),
+      total: tally.total + 1,
+    };
+  });
+
+  return {
+    takenAt,
+    level: quiz.level,
+    correct: quiz.questions.filter((question, index) => isCorrect(question, responses[index] ?? null)).length,
+    total: quiz.questions.length,
+    marks: quiz.questions.reduce((sum, question, index) => sum + marksFor(question, responses[index] ?? null), 0),
+    maxMarks: quiz.questions.length * MARKS_CORRECT,
+    durationMs,
+    topics,
+  };
+};
+
+/** Topics below the accuracy threshold across all the given attempts, weakest first */
+export const weakTopics = (attempts: QuizAttempt[]): QuizTopic[] => {
+  const totals = new Map<QuizTopic, { correct: number; total: number }>();
+  attempts.forEach(attempt => {
+    (Object.entries(attempt.topics) as [QuizTopic, { correct: number; total: number }][]).forEach(([topic, tally]) => {
+      const sum = totals.get(topic) ?? { correct: 0, total: 0 };
+      totals.set(topic, { correct: sum.correct + tally.correct, total: sum.total + tally.total });
+    });
+  });
+
+  return [...totals.entries()]
+    .map(([topic, { correct, total }]) => ({ topic, accuracy: total ? correct / total : 1 }))
+    .filter(({ accuracy }) => accuracy < WEAK_TOPIC_ACCURACY)
+    .sort((a, b) => a.accuracy - b.accuracy)
+    .map(({ topic }) => topic);
+};
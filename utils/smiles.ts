@@ -0,0 +1,347 @@
+import { BondOrder, MoleculeAtom, MoleculeBond, MoleculeGraph } from '../types';
+
+/** Neighbours of an @/@@ centre in SMILES order; null stands for the centre's own hydrogen */
+export interface TetrahedralCentre {
+  neighbours: (number | null)[];
+  /** '@@': seen from the first neighbour, the other three run clockwise */
+  clockwise: boolean;
+}
+
+/** X–A=B–Y with the X and Y substituents fixed on the same side (cis) or opposite sides by / and \ marks */
+export interface DoubleBondStereo {
+  atoms: [number, number, number, number];
+  cis: boolean;
+}
+
+/** Parsed SMILES atom. `id` is the atom's position in the string (0-based), which is how arrows refer to it. */
+export interface SmilesAtom extends MoleculeAtom {
+  /** Implicit or bracketed hydrogens */
+  hydrogens: number;
+  aromatic: boolean;
+  chirality?: TetrahedralCentre;
+}
+
+export interface SmilesMolecule extends MoleculeGraph {
+  atoms: SmilesAtom[];
+  doubleBonds: DoubleBondStereo[];
+}
+
+export class SmilesParseError extends Error {
+  constructor(message: string, public readonly smiles: string, public readonly position: number) {
+    super(message);
+    this.name = 'SmilesParseError';
+  }
+}
+
+const ORGANIC_SUBSET = ['Cl', 'Br', 'B', 'C', 'N', 'O', 'P', 'S', 'F', 'I'];
+const AROMATIC_SUBSET = ['b', 'c', 'n', 'o', 'p', 's'];
+const BRACKET_AROMATIC = ['se', 'as', 'te', 'b', 'c', 'n', 'o', 'p', 's'];
+
+// Allowed valences for implicit hydrogens on organic-subset atoms
+const NORMAL_VALENCES: Record<string, number[]> = {
+  B: [3], C: [4], N: [3, 5], O: [2], P: [3, 5], S: [2, 4, 6], F: [1], Cl: [1], Br: [1], I: [1],
+};
+
+const VALENCE_ELECTRONS: Record<string, number> = {
+  B: 3, C: 4, N: 5, O: 6, P: 5, S: 6, Se: 6, F: 7, Cl: 7, Br: 7, I: 7,
+};
+
+const BOND_ORDERS: Record<string, BondOrder> = { '-': 1, '=': 2, '#': 3, '/': 1, '\\': 1 };
+
+type BondMark = '/' | '\\';
+
+// An atom's neighbours in the order chirality is read; ring bonds hold their place until the ring closes
+type NeighbourSlot = number | null | { ring: number };
+
+const capitalise = (symbol: string) => symbol[0].toUpperCase() + symbol.slice(1);
+
+const bondOrderSum = (molecule: SmilesMolecule, id: number) =>
+  molecule.bonds.reduce((sum, bond) => (bond.from === id || bond.to === id ? sum + bond.order : sum), 0);
+
+/** Valence an atom would have with a charge applied, e.g. 4 for N+ and 3 for C- */
+const chargedValence = (element: string, charge: number) => {
+  const base = NORMAL_VALENCES[element]?.[0];
+  if (base === undefined) return undefined;
+  if (element === 'C' || element === 'B') return base - Math.abs(charge);
+  return base + charge;
+};
+
+interface PendingRing {
+  atom: number;
+  order: BondOrder | null;
+  aromatic: boolean;
+}
+
+/** +1 or -1 for which side of the double bond at `atom` the marked bond points to; equal signs at both ends mean cis */
+const markSide = (bond: MoleculeBond, atom: number, mark: BondMark) => {
+  const writtenFirst = bond.from === atom;
+  return (mark === '/') !== writtenFirst ? 1 : -1;
+};
+
+/** Reads / and \ marks around each non-aromatic double bond into cis/trans constraints */
+const findDoubleBondStereo = (molecule: SmilesMolecule, marks: Map<number, BondMark>, aromaticBonds: Set<number>): DoubleBondStereo[] => {
+  const markedNeighbour = (atom: number, exclude: number) => {
+    const bond = molecule.bonds.find(b => b.id !== exclude && (b.from === atom || b.to === atom) && marks.has(b.id));
+    return bond && { bond, other: bond.from === atom ? bond.to : bond.from, side: markSide(bond, atom, marks.get(bond.id)!) };
+  };
+
+  return molecule.bonds.flatMap(bond => {
+    if (bond.order !== 2 || aromaticBonds.has(bond.id)) return [];
+    const start = markedNeighbour(bond.from, bond.id);
+    const end = markedNeighbour(bond.to, bond.id);
+    if (!start || !end) return [];
+    return [{ atoms: [start.other, bond.from, bond.to, end.other] as [number, number, number, number], cis: start.side === end.side }];
+  });
+};
+
+/**
+ * Turns the aromatic (lower-case) bonds into alternating single and double bonds, so every contributor is drawn
+ * with explicit double bonds. Atoms that already have a π bond, hydrogens or a charge filling their valence sit out.
+ */
+const kekulise = (molecule: SmilesMolecule, aromaticBonds: Set<number>, smiles: string, bracketed: Set<number>) => {
+  if (aromaticBonds.size === 0) return;
+
+  const needsDouble = new Set<number>();
+  molecule.atoms.forEach(atom => {
+    if (!atom.aromatic) return;
+    const element = atom.label;
+    const sum = bondOrderSum(molecule, atom.id);
+    if (bracketed.has(atom.id)) {
+      const valence = chargedValence(element, atom.charge);
+      if (valence !== undefined && sum + atom.hydrogens === valence - 1) needsDouble.add(atom.id);
+      return;
+    }
+    // Pyridine-type n and every c take part in a double bond; furan-type o and s give a lone pair instead
+    if (element === 'C' && sum <= 3) needsDouble.add(atom.id);
+    if ((element === 'N' || element === 'P' || element === 'B') && sum === 2) needsDouble.add(atom.id);
+  });
+
+  const candidates = molecule.bonds.filter(bond => aromaticBonds.has(bond.id) && needsDouble.has(bond.from) && needsDouble.has(bond.to));
+  const matched = new Set<number>();
+  const chosen = new Set<number>();
+
+  // Perfect matching by backtracking; molecules students draw are small enough for this to be instant
+  const pending = [...needsDouble];
+  const match = (index: number): boolean => {
+    while (index < pending.length && matched.has(pending[index])) index++;
+    if (index === pending.length) return true;
+    const atom = pending[index];
+    for (const bond of candidates) {
+      if (bond.from !== atom && bond.to !== atom) continue;
+      const other = bond.from === atom ? bond.to : bond.from;
+      if (matched.has(other)) continue;
+      matched.add(atom);
+      matched.add(other);
+      chosen.add(bond.id);
+      if (match(index + 1)) return true;
+      matched.delete(atom);
+      matched.delete(other);
+      chosen.delete(bond.id);
+    }
+    return false;
+  };
+
+  if (!match(0)) {
+    throw new SmilesParseError('Could not assign alternating double bonds to the aromatic ring', smiles, 0);
+  }
+  molecule.bonds.forEach(bond => {
+    if (chosen.has(bond.id)) bond.order = 2;
+  });
+};
+
+/** Fills in implicit hydrogens and the lone pairs left over after bonding (so O gets 2, a carbanion 1) */
+const completeValences = (molecule: SmilesMolecule, bracketed: Set<number>) => {
+  molecule.atoms.forEach(atom => {
+    const sum = bondOrderSum(molecule, atom.id);
+    if (!bracketed.has(atom.id)) {
+      const valence = NORMAL_VALENCES[atom.label]?.find(v => v >= sum);
+      atom.hydrogens = valence === undefined ? 0 : valence - sum;
+    }
+    const electrons = VALENCE_ELECTRONS[atom.label];
+    if (electrons !== undefined) {
+      atom.lonePairs = Math.max(0, Math.floor((electrons - atom.charge - sum - atom.hydrogens) / 2));
+    }
+  });
+};
+
+/**
+ * Parses a SMILES string into a molecule graph with implicit hydrogens, lone pairs and Kekulé bond orders.
+ * Covers what the model writes for organic structures: the organic subset, bracket atoms with H counts and charges,
+ * branches, ring closures (including %nn), '.' separated ions and aromatic lower-case atoms. @/@@ centres and
+ * / \ double-bond marks are kept as `chirality` and `doubleBonds` (see utils/stereo); directional marks on ring
+ * closures are ignored. Coordinates are left at 0; see `layoutMolecule`.
+ */
+export const parseSmiles = (smiles: string): SmilesMolecule => {
+  const text = smiles.trim();
+  if (!text) throw new SmilesParseError('Empty SMILES', smiles, 0);
+
+  const molecule: SmilesMolecule = { atoms: [], bonds: [], doubleBonds: [] };
+  const aromaticBonds = new Set<number>();
+  const bracketed = new Set<number>();
+  const marks = new Map<number, BondMark>();
+  const slots = new Map<number, NeighbourSlot[]>();
+  const clockwise = new Map<number, boolean>();
+  const rings = new Map<number, PendingRing>();
+  const branchStack: number[] = [];
+  let previous: number | null = null;
+  let pendingOrder: BondOrder | null = null;
+  let pendingAromatic = false;
+  let pendingMark: BondMark | null = null;
+  let i = 0;
+
+  const error = (message: string) => new SmilesParseError(`${message} at position ${i + 1}`, smiles, i);
+
+  const addBond = (from: number, to: number, order: BondOrder | null, explicitAromatic: boolean) => {
+    if (molecule.bonds.some(b => (b.from === from && b.to === to) || (b.from === to && b.to === from))) {
+      throw error('Duplicate bond');
+    }
+    const bothAromatic = molecule.atoms[from].aromatic && molecule.atoms[to].aromatic;
+    const id = molecule.bonds.length;
+    molecule.bonds.push({ id, from, to, order: order ?? 1, stereo: 'none' });
+    if (explicitAromatic || (order === null && bothAromatic)) aromaticBonds.add(id);
+  };
+
+  const addAtom = (atom: Omit<SmilesAtom, 'id' | 'x' | 'y'>) => {
+    const id = molecule.atoms.length;
+    molecule.atoms.push({ id, x: 0, y: 0, ...atom });
+    // A bracket hydrogen counts as the neighbour right after the preceding atom
+    slots.set(id, [...(previous !== null ? [previous] : []), ...(atom.hydrogens === 1 ? [null] : [])]);
+    if (previous !== null) {
+      addBond(previous, id, pendingOrder, pendingAromatic);
+      slots.get(previous)!.push(id);
+      if (pendingMark) marks.set(molecule.bonds.length - 1, pendingMark);
+    }
+    previous = id;
+    pendingOrder = null;
+    pendingAromatic = false;
+    pendingMark = null;
+    return id;
+  };
+
+  const readBracketAtom = () => {
+    const close = text.indexOf(']', i);
+    if (close === -1) throw error('Unclosed [');
+    const body = text.slice(i + 1, close);
+    const match = body.match(/^(\d*)([A-Z][a-z]?|se|as|te|[bcnops])(@{0,2}(?:TH\d|AL\d|SP\d|TB\d{1,2}|OH\d{1,2})?)(H\d*)?([+-]+\d*|[+-]\d+)?(?::\d+)?$/);
+    if (!match) throw error(`Unrecognised atom [${body}]`);
+    const [, , symbol, chiralText, hydrogenText, chargeText] = match;
+    const aromatic = BRACKET_AROMATIC.includes(symbol);
+
+    let charge = 0;
+    if (chargeText) {
+      const sign = chargeText[0] === '+' ? 1 : -1;
+      const digits = chargeText.replace(/[+-]/g, '');
+      charge = sign * (digits ? Number(digits) : chargeText.length);
+    }
+    const hydrogens = hydrogenText ? (hydrogenText.length > 1 ? Number(hydrogenText.slice(1)) : 1) : 0;
+
+    const id = addAtom({ label: aromatic ? capitalise(symbol) : symbol, charge, lonePairs: 0, hydrogens, aromatic });
+    bracketed.add(id);
+    if (chiralText === '@' || chiralText === '@@') clockwise.set(id, chiralText === '@@');
+    i = close + 1;
+  };
+
+  const closeRing = (digit: number) => {
+    if (previous === null) throw error('Ring closure before any atom');
+    const open = rings.get(digit);
+    if (open?.atom === previous) throw error('Ring bond closes on its own atom');
+    if (!open) {
+      rings.set(digit, { atom: previous, order: pendingOrder, aromatic: pendingAromatic });
+      slots.get(previous)!.push({ ring: digit });
+    } else {
+      if (open.order !== null && pendingOrder !== null && open.order !== pendingOrder) throw error(`Ring bond ${digit} has two different orders`);
+      addBond(open.atom, previous, pendingOrder ?? open.order, pendingAromatic || open.aromatic);
+      const openSlots = slots.get(open.atom)!;
+      openSlots[openSlots.findIndex(slot => typeof slot === 'object' && slot?.ring === digit)] = previous;
+      slots.get(previous)!.push(open.atom);
+      rings.delete(digit);
+    }
+    pendingOrder = null;
+    pendingMark = null;
+    pendingAromatic = false;
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '[') {
+      readBracketAtom();
+      continue;
+    }
+
+    const organic = ORGANIC_SUBSET.find(symbol => text.startsWith(symbol, i));
+    if (organic) {
+      addAtom({ label: organic, charge: 0, lonePairs: 0, hydrogens: 0, aromatic: false });
+      i += organic.length;
+      continue;
+    }
+    if (AROMATIC_SUBSET.includes(ch)) {
+      addAtom({ label: ch.toUpperCase(), charge: 0, lonePairs: 0, hydrogens: 0, aromatic: true });
+      i++;
+      continue;
+    }
+
+    if (ch in BOND_ORDERS) {
+      pendingOrder = BOND_ORDERS[ch];
+      if (ch === '/' || ch === '\\') pendingMark = ch;
+      i++;
+      continue;
+    }
+    if (ch === ':') {
+      pendingAromatic = true;
+      i++;
+      continue;
+    }
+    if (ch === '$') throw error('Quadruple bonds are not supported');
+
+    if (ch === '(') {
+      if (previous === null) throw error('Branch before any atom');
+      branchStack.push(previous);
+      i++;
+      continue;
+    }
+    if (ch === ')') {
+      const restored = branchStack.pop();
+      if (restored === undefined) throw error('Unmatched )');
+      previous = restored;
+      i++;
+      continue;
+    }
+
+    if (/\d/.test(ch)) {
+      closeRing(Number(ch));
+      i++;
+      continue;
+    }
+    if (ch === '%') {
+      const digits = text.slice(i + 1, i + 3);
+      if (!/^\d\d$/.test(digits)) throw error('Expected two digits after %');
+      closeRing(Number(digits));
+      i += 3;
+      continue;
+    }
+
+    if (ch === '.') {
+      if (branchStack.length) throw error('Unclosed branch');
+      previous = null;
+      pendingOrder = null;
+      i++;
+      continue;
+    }
+
+    throw error(`Unexpected character '${ch}'`);
+  }
+
+  if (branchStack.length) throw error('Unclosed branch');
+  if (rings.size) throw error(`Unclosed ring ${[...rings.keys()].join(', ')}`);
+
+  kekulise(molecule, aromaticBonds, smiles, bracketed);
+  completeValences(molecule, bracketed);
+
+  clockwise.forEach((isClockwise, id) => {
+    const neighbours = slots.get(id)!.filter((slot): slot is number | null => typeof slot !== 'object' || slot === null);
+    if (neighbours.length === 4) molecule.atoms[id].chirality = { neighbours, clockwise: isClockwise };
+  });
+  molecule.doubleBonds = findDoubleBondStereo(molecule, marks, aromaticBonds);
+  return molecule;
+};
@@ -0,0 +1,116 @@
+import { MoleculeBond, StrokePoint } from '../types';
+import { findRings } from './layout';
+import { SmilesAtom, SmilesMolecule } from './smiles';
+
+type Vector3 = [number, number, number];
+
+const sideOfLine = (a: StrokePoint, b: StrokePoint, p: StrokePoint) => Math.sign((b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x));
+
+const reflectAcross = (a: StrokePoint, b: StrokePoint, p: StrokePoint): StrokePoint => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const t = ((p.x - a.x) * dx + (p.y - a.y) * dy) / (dx * dx + dy * dy || 1);
+  const foot = { x: a.x + t * dx, y: a.y + t * dy };
+  return { x: 2 * foot.x - p.x, y: 2 * foot.y - p.y };
+};
+
+/** Atoms reachable from `start` without passing through `blocked` */
+const branchFrom = (molecule: SmilesMolecule, start: number, blocked: number): Set<number> => {
+  const seen = new Set([start]);
+  const stack = [start];
+  while (stack.length) {
+    const atom = stack.pop()!;
+    molecule.bonds.forEach(bond => {
+      const other = bond.from === atom ? bond.to : bond.to === atom ? bond.from : null;
+      if (other === null || other === blocked || seen.has(other)) return;
+      seen.add(other);
+      stack.push(other);
+    });
+  }
+  return seen;
+};
+
+/** Mirrors one end of each marked double bond whose drawing shows the wrong cis/trans arrangement */
+const fixDoubleBonds = (molecule: SmilesMolecule): SmilesAtom[] => {
+  const atoms = molecule.atoms.map(atom => ({ ...atom }));
+  molecule.doubleBonds.forEach(({ atoms: [x, a, b, y], cis }) => {
+    const drawnCis = sideOfLine(atoms[a], atoms[b], atoms[x]) === sideOfLine(atoms[a], atoms[b], atoms[y]);
+    if (drawnCis === cis) return;
+    // Flip whichever end is not tied back into the other through a ring
+    const endB = branchFrom({ ...molecule, atoms }, b, a);
+    const endA = branchFrom({ ...molecule, atoms }, a, b);
+    const flipped = !endB.has(a) ? endB : !endA.has(b) ? endA : null;
+    if (!flipped) return;
+    const [p, q] = [atoms[a], atoms[b]];
+    flipped.forEach(id => {
+      if (id === a || id === b) return;
+      atoms[id] = { ...atoms[id], ...reflectAcross(p, q, atoms[id]) };
+    });
+  });
+  return atoms;
+};
+
+const subtract3 = (a: Vector3, b: Vector3): Vector3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+
+const determinant = (a: Vector3, b: Vector3, c: Vector3) =>
+  a[0] * (b[1] * c[2] - b[2] * c[1]) - a[1] * (b[0] * c[2] - b[2] * c[0]) + a[2] * (b[0] * c[1] - b[1] * c[0]);
+
+/**
+ * True when neighbours in this order, seen from the first, run clockwise. Vectors are in a right-handed frame
+ * (x right, y up, z towards the viewer), so screen y is flipped by the caller.
+ */
+export const isClockwise = ([v0, v1, v2, v3]: Vector3[]) =>
+  determinant(subtract3(v1, v0), subtract3(v2, v0), subtract3(v3, v0)) > 0;
+
+/** Bond vectors around a centre with the given z for chosen neighbours; a null (implicit H) points away from the rest */
+const neighbourVectors = (atoms: SmilesAtom[], centre: SmilesAtom, neighbours: (number | null)[], depth: Map<number, number>): Vector3[] => {
+  const heavy = (id: number): Vector3 => {
+    const other = atoms[id];
+    const length = Math.hypot(other.x - centre.x, other.y - centre.y) || 1;
+    return [(other.x - centre.x) / length, -(other.y - centre.y) / length, depth.get(id) ?? 0];
+  };
+  const known = neighbours.filter((id): id is number => id !== null).map(heavy);
+  const sum = known.reduce<Vector3>((total, v) => [total[0] + v[0], total[1] + v[1], total[2] + v[2]], [0, 0, 0]);
+  const length = Math.hypot(...sum);
+  const hydrogen: Vector3 = length > 1e-6 ? [-sum[0] / length, -sum[1] / length, -sum[2] / length] : [0, 0, -1];
+  return neighbours.map(id => (id === null ? hydrogen : heavy(id)));
+};
+
+/**
+ * Gives every @/@@ centre one wedge or dash: the bond is chosen to be easy to read (outside rings, to a plain
+ * non-stereo neighbour), and its direction is whichever makes the drawing match the SMILES chirality.
+ */
+const assignWedges = (molecule: SmilesMolecule, atoms: SmilesAtom[]): MoleculeBond[] => {
+  const bonds = molecule.bonds.map(bond => ({ ...bond }));
+  const ringBonds = new Set(
+    findRings(molecule).flatMap(ring => ring.map((atom, i) => [atom, ring[(i + 1) % ring.length]].sort((p, q) => p - q).join('-')))
+  );
+  const degree = (id: number) => bonds.filter(bond => bond.from === id || bond.to === id).length;
+
+  atoms.forEach(centre => {
+    if (!centre.chirality) return;
+    const { neighbours, clockwise } = centre.chirality;
+
+    const score = (bond: MoleculeBond) => {
+      const other = bond.from === centre.id ? bond.to : bond.from;
+      const inRing = ringBonds.has([bond.from, bond.to].sort((p, q) => p - q).join('-'));
+      return (inRing ? 100 : 0) + (atoms[other].chirality ? 10 : 0) + (bond.order > 1 ? 50 : 0) + degree(other);
+    };
+    const candidates = bonds
+      .filter(bond => (bond.from === centre.id || bond.to === centre.id) && bond.stereo === 'none')
+      .sort((p, q) => score(p) - score(q));
+    const chosen = candidates[0];
+    if (!chosen) return;
+    const other = chosen.from === centre.id ? chosen.to : chosen.from;
+
+    const wedged = isClockwise(neighbourVectors(atoms, centre, neighbours, new Map([[other, 1]])));
+    Object.assign(chosen, { from: centre.id, to: other, stereo: wedged === clockwise ? 'wedge' : 'dash' });
+  });
+  return bonds;
+};
+
+/** Applies the SMILES stereochemistry to a laid-out molecule: cis/trans geometry first, then wedges and dashes */
+export const applyStereo = (molecule: SmilesMolecule): SmilesMolecule => {
+  const atoms = fixDoubleBonds(molecule);
+  return { ...molecule, atoms, bonds: assignWedges(molecule, atoms) };
+};
@@ -0,0 +1,21 @@
+import { Translate } from './i18n';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/** "just now", "5 min ago", "3 h ago", "2 days ago" */
+export const formatAge = (timestamp: number, t: Translate, now = Date.now()) => {
+  const age = Math.max(0, now - timestamp);
+  if (age < MINUTE_MS) return t('justNow');
+  if (age < HOUR_MS) return t('minutesAgo', { count: Math.floor(age / MINUTE_MS) });
+  if (age < DAY_MS) return t('hoursAgo', { count: Math.floor(age / HOUR_MS) });
+  const days = Math.floor(age / DAY_MS);
+  return t(days === 1 ? 'dayAgo' : 'daysAgo', { count: days });
+};
+
+/** Stopwatch style: "4:07" */
+export const formatDuration = (ms: number) => {
+  const seconds = Math.floor(Math.max(0, ms) / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
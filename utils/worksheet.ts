@@ -0,0 +1,209 @@
+import { ChemicalData } from '../types';
+import { customSectionsAfter } from './customSections';
+import { Translate } from './i18n';
+
+/** A short-answer question printed under a compound; the answers go in the optional answer key */
+export interface RevisionQuestion {
+  question: string;
+  answer: string;
+}
+
+export interface WorksheetOptions {
+  title: string;
+  /** Name of the curriculum profile the compounds were analysed for */
+  level: string;
+  /** Append the answers to every revision question */
+  answerKey: boolean;
+  /** Headings and questions in the student's language */
+  t: Translate;
+}
+
+// Renders "-I" with a real minus sign
+const formatEffect = (effect: string) => effect.replace('-', '−');
+
+/** Questions answerable from the compound's own analysis, so the answer key never contradicts the sheet */
+export const revisionQuestions = (data: ChemicalData, t: Translate): RevisionQuestion[] => {
+  const { name, electronicEffects, resonance } = data;
+  const questions: RevisionQuestion[] = [];
+
+  if (data.iupacName && data.iupacName.toLowerCase() !== name.toLowerCase()) {
+    questions.push({ question: t('askIupacName', { name }), answer: data.iupacName });
+  }
+  if (data.molecularFormula) {
+    questions.push({ question: t('askFormula', { name }), answer: data.molecularFormula });
+  }
+  const [hybridised] = electronicEffects?.hybridisation ?? [];
+  if (hybridised) {
+    questions.push({
+      question: t('askHybridisation', { atom: hybridised.atom.toLowerCase(), name }),
+      answer: [hybridised.hybridisation, hybridised.geometry].filter(Boolean).join(', '),
+    });
+  }
+  const group = electronicEffects?.functionalGroups.find(entry => entry.inductive !== 'none' || entry.mesomeric !== 'none');
+  if (group) {
+    const effects = [group.inductive, group.mesomeric].filter(effect => effect !== 'none').map(formatEffect);
+    questions.push({
+      question: t('askEffects', { group: group.group, name }),
+      answer: [effects.join(` ${t('and')} `), group.note].filter(Boolean).join('. '),
+    });
+  }
+  if (electronicEffects) {
+    const { status, piElectrons, explanation } = electronicEffects.aromaticity;
+    questions.push({
+      question: t('askAromaticity', { name }),
+      answer: `${status[0].toUpperCase()}${status.slice(1)}${piElectrons ? ` (${t('piElectrons', { count: piElectrons })})` : ''}. ${explanation}`,
+    });
+  }
+  if (resonance && resonance.contributors.length > 1) {
+    questions.push({
+      question: t('askResonance', { name }),
+      answer: `${resonance.contributors.length}; ${resonance.contributors[resonance.majorIndex]?.description ?? resonance.explanation}`,
+    });
+  }
+  if (data.reactions_or_uses.length) {
+    questions.push({ question: t('askReaction', { name }), answer: data.reactions_or_uses[0] });
+  }
+  return questions;
+};
+
+/** File name for a worksheet export, e.g. "Hydrocarbons_Worksheet.md" */
+export const worksheetFileName = (title: string, extension: string) =>
+  `${title.trim().replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '') || 'Revision'}_Worksheet.${extension}`;
+
+const markdownEscape = (text: string) => text.replace(/([\\`*_[\]|])/g, '\\$1').replace(/\s*\n\s*/g, ' ');
+
+// A worksheet leaves out the analogy, resonance and fun facts, so sections the template put after those follow the
+// nearest section it does print
+const customMarkdown = (data: ChemicalData, ...keys: (keyof ChemicalData | null)[]) =>
+  customSectionsAfter(data, keys).flatMap(({ title, content }) => [
+    `### ${markdownEscape(title)}`,
+    '',
+    ...(Array.isArray(content) ? content.map(point => `- ${markdownEscape(point)}`) : [markdownEscape(content)]),
+    '',
+  ]);
+
+/** The worksheet as Markdown, one `##` section per compound */
+export const worksheetToMarkdown = (compounds: ChemicalData[], { title, level, answerKey, t }: WorksheetOptions): string => {
+  const lines: string[] = [`# ${markdownEscape(title)}`, '', `*${level}*`, '', `## ${t('contents')}`, ''];
+  compounds.forEach((data, index) => lines.push(`${index + 1}. ${markdownEscape(data.name)}`));
+  if (answerKey) lines.push(`${compounds.length + 1}. ${t('answerKey')}`);
+
+  compounds.forEach((data, index) => {
+    lines.push('', `## ${index + 1}. ${markdownEscape(data.name)}`, '');
+    lines.push(
+      `**${t('formula')}:** ${markdownEscape(data.molecularFormula)}  `, `**${t('iupac')}:** ${markdownEscape(data.iupacName)}`, ''
+    );
+    lines.push(...customMarkdown(data, null));
+    if (data.summary) lines.push(markdownEscape(data.summary), '');
+    lines.push(...customMarkdown(data, 'summary', 'analogy'));
+    if (data.keyPoints.length) lines.push(`### ${t('keyPoints')}`, '', ...data.keyPoints.map(point => `- ${markdownEscape(point)}`), '');
+    lines.push(...customMarkdown(data, 'keyPoints'));
+    if (data.reactions_or_uses.length) {
+      lines.push(`### ${t('reactions')}`, '', ...data.reactions_or_uses.map(item => `- ${markdownEscape(item)}`), '');
+    }
+    lines.push(...customMarkdown(data, 'reactions_or_uses'));
+    const groups = data.electronicEffects?.functionalGroups ?? [];
+    if (groups.length) {
+      const header = [t('group'), t('inductive'), t('mesomeric'), t('note')].map(markdownEscape).join(' | ');
+      lines.push(`### ${t('electronicEffects')}`, '', `| ${header} |`, '| --- | --- | --- | --- |');
+      groups.forEach(group => lines.push(
+        `| ${[group.group, formatEffect(group.inductive), formatEffect(group.mesomeric), group.note].map(markdownEscape).join(' | ')} |`
+      ));
+      lines.push('');
+    }
+    lines.push(...customMarkdown(data, 'electronicEffects', 'resonance'));
+    if (data.curriculumContext) lines.push(`> ${markdownEscape(data.curriculumContext)}`, '');
+    lines.push(...customMarkdown(data, 'curriculumContext', 'funFacts'));
+    const questions = revisionQuestions(data, t);
+    if (questions.length) lines.push(`### ${t('revisionQuestions')}`, '', ...questions.map((q, n) => `${n + 1}. ${markdownEscape(q.question)}`));
+  });
+
+  if (answerKey) {
+    lines.push('', `## ${t('answerKey')}`);
+    compounds.forEach((data, index) => {
+      lines.push('', `### ${index + 1}. ${markdownEscape(data.name)}`, '');
+      revisionQuestions(data, t).forEach((q, n) => lines.push(`${n + 1}. ${markdownEscape(q.answer)}`));
+    });
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+const htmlEscape = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Word ignores stylesheets it does not understand, so everything is plain elements with inline-friendly CSS
+const HTML_STYLE = `
+  body { font-family: Calibri, Arial, sans-serif; font-size: 11pt; color: #334155; }
+  h1 { color: #4f46e5; } h2 { color: #4f46e5; page-break-before: always; } h3 { color: #0369a1; }
+  table { border-collapse: collapse; width: 100%; } th, td { border: 1px solid #cbd5e1; padding: 4px 6px; text-align: left; vertical-align: top; }
+  th { background: #f1f5f9; } blockquote { border-left: 4px solid #e11d48; margin: 0; padding-left: 10px; font-style: italic; }
+`;
+
+/** The worksheet as a standalone HTML page that Word and Google Docs open with headings, lists and tables intact */
+export const worksheetToHtml = (compounds: ChemicalData[], { title, level, answerKey, t }: WorksheetOptions): string => {
+  const list = (items: string[]) => `<ul>${items.map(item => `<li>${htmlEscape(item)}</li>`).join('')}</ul>`;
+  const heading = (text: string) => `<h3>${htmlEscape(text)}</h3>`;
+  // As in the Markdown, sections after something a worksheet leaves out follow the nearest printed section
+  const custom = (data: ChemicalData, ...keys: (keyof ChemicalData | null)[]) =>
+    customSectionsAfter(data, keys).flatMap(({ title, content }) =>
+      [heading(title), Array.isArray(content) ? list(content) : `<p>${htmlEscape(content)}</p>`]
+    );
+  const anchor = (index: number) => `compound-${index + 1}`;
+
+  const contents = [
+    ...compounds.map((data, index) => `<li><a href="#${anchor(index)}">${htmlEscape(data.name)}</a></li>`),
+    ...(answerKey ? [`<li><a href="#answer-key">${htmlEscape(t('answerKey'))}</a></li>`] : []),
+  ];
+
+  const sections = compounds.map((data, index) => {
+    const parts = [
+      `<h2 id="${anchor(index)}">${index + 1}. ${htmlEscape(data.name)}</h2>`,
+      `<p><b>${htmlEscape(t('formula'))}:</b> ${htmlEscape(data.molecularFormula)}<br><b>${htmlEscape(t('iupac'))}:</b> ${htmlEscape(data.iupacName)}</p>`,
+    ];
+    parts.push(...custom(data, null));
+    if (data.summary) parts.push(`<p>${htmlEscape(data.summary)}</p>`);
+    parts.push(...custom(data, 'summary', 'analogy'));
+    if (data.keyPoints.length) parts.push(heading(t('keyPoints')), list(data.keyPoints));
+    parts.push(...custom(data, 'keyPoints'));
+    if (data.reactions_or_uses.length) parts.push(heading(t('reactions')), list(data.reactions_or_uses));
+    parts.push(...custom(data, 'reactions_or_uses'));
+    const groups = data.electronicEffects?.functionalGroups ?? [];
+    if (groups.length) {
+      const rows = groups.map(group =>
+        `<tr>${[group.group, formatEffect(group.inductive), formatEffect(group.mesomeric), group.note].map(cell => `<td>${htmlEscape(cell)}</td>`).join('')}</tr>`
+      );
+      const header = [t('group'), t('inductive'), t('mesomeric'), t('note')].map(cell => `<th>${htmlEscape(cell)}</th>`).join('');
+      parts.push(heading(t('electronicEffects')), `<table><tr>${header}</tr>${rows.join('')}</table>`);
+    }
+    parts.push(...custom(data, 'electronicEffects', 'resonance'));
+    if (data.curriculumContext) parts.push(`<blockquote>${htmlEscape(data.curriculumContext)}</blockquote>`);
+    parts.push(...custom(data, 'curriculumContext', 'funFacts'));
+    const questions = revisionQuestions(data, t);
+    if (questions.length) parts.push(heading(t('revisionQuestions')), `<ol>${questions.map(q => `<li>${htmlEscape(q.question)}</li>`).join('')}</ol>`);
+    return parts.join('\n');
+  });
+
+  const key = answerKey
+    ? [
+        `<h2 id="answer-key">${htmlEscape(t('answerKey'))}</h2>`,
+        ...compounds.map((data, index) =>
+          `<h3>${index + 1}. ${htmlEscape(data.name)}</h3><ol>${revisionQuestions(data, t).map(q => `<li>${htmlEscape(q.answer)}</li>`).join('')}</ol>`
+        ),
+      ]
+    : [];
+
+  return [
+    '<!DOCTYPE html>',
+    '<html><head><meta charset="utf-8">',
+    `<title>${htmlEscape(title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head><body>',
+    `<h1>${htmlEscape(title)}</h1>`,
+    `<p><i>${htmlEscape(level)}</i></p>`,
+    heading(t('contents')),
+    `<ol>${contents.join('')}</ol>`,
+    ...sections,
+    ...key,
+    '</body></html>',
+  ].join('\n');
+};
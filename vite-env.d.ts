@@ -3,5 +3,11 @@
 declare namespace NodeJS {
   interface ProcessEnv {
     readonly API_KEY: string;
+    /** 'gemini' | 'local' | 'openai'; defaults to gemini when API_KEY is set, otherwise local */
+    readonly ANALYSIS_PROVIDER: string;
+    readonly GEMINI_MODEL: string;
+    readonly OPENAI_BASE_URL: string;
+    readonly OPENAI_API_KEY: string;
+    readonly OPENAI_MODEL: string;
   }
 }
@@ -6,12 +6,19 @@ export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, process.cwd(), '');
   return {
     plugins: [react()],
-    // Defines process.env.API_KEY globally so the client app can read it
+    // Defines process.env.* globally so the client app can read its configuration
     define: {
-      'process.env.API_KEY': JSON.stringify(env.API_KEY)
+      'process.env.API_KEY': JSON.stringify(env.API_KEY),
+      'process.env.ANALYSIS_PROVIDER': JSON.stringify(env.ANALYSIS_PROVIDER ?? ''),
+      'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL ?? ''),
+      'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL ?? ''),
+      'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY ?? ''),
+      'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL ?? '')
     },
     build: {
       outDir: 'dist',
+      // Lists every chunk, lazy ones included, for the service worker to precache (public/sw.js)
+      manifest: 'asset-manifest.json',
     }
   };
 });
\ No newline at end of file
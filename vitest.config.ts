@@ -0,0 +1,20 @@
+import { defineConfig } from 'vitest/config';
+import react from '@vitejs/plugin-react';
+
+// Runs fully offline: Gemini is replaced by tests/fakeGenAI and canvases by tests/canvasShim
+export default defineConfig({
+  plugins: [react()],
+  define: {
+    'process.env.API_KEY': JSON.stringify(''),
+    'process.env.ANALYSIS_PROVIDER': JSON.stringify(''),
+    'process.env.GEMINI_MODEL': JSON.stringify(''),
+    'process.env.OPENAI_BASE_URL': JSON.stringify(''),
+    'process.env.OPENAI_API_KEY': JSON.stringify(''),
+    'process.env.OPENAI_MODEL': JSON.stringify('')
+  },
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['tests/setup.ts'],
+    include: ['tests/**/*.test.{ts,tsx}'],
+  },
+});